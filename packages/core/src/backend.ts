@@ -0,0 +1,36 @@
+/**
+ * Storage backend selection for brain-jar plugins.
+ * Picks Mem0 (cloud) or SQLite (local) based on BrainJarConfig.
+ */
+
+import * as path from 'path';
+import { BrainJarConfig, MemoryBackend } from './types';
+import { getConfigDir, loadConfig } from './config';
+import { Mem0Client } from './mem0-client';
+import { SqliteBackend } from './sqlite-backend';
+
+const DEFAULT_SQLITE_PATH = path.join(getConfigDir(), 'backend.db');
+
+/**
+ * Creates the configured storage backend.
+ * Returns null when neither Mem0 nor SQLite is configured.
+ *
+ * @param config - Config to use (defaults to loadConfig())
+ */
+export function createMemoryBackend(config: BrainJarConfig | null = loadConfig()): MemoryBackend | null {
+  if (!config) {
+    return null;
+  }
+
+  if (config.storage_backend === 'sqlite') {
+    return new SqliteBackend(config.sqlite_path || DEFAULT_SQLITE_PATH);
+  }
+
+  if (config.mem0_api_key) {
+    return new Mem0Client(config.mem0_api_key);
+  }
+
+  return null;
+}
+
+export { DEFAULT_SQLITE_PATH };
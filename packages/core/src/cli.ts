@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+/**
+ * brain-jar command line.
+ *
+ *   brain-jar doctor [--offline] [--json]   Health checks across all plugins
+ */
+
+import { runDoctor, formatDoctorReport } from './doctor';
+import { installLogRedaction } from './secrets';
+
+const USAGE = `Usage: brain-jar doctor [--offline] [--json]
+
+  --offline   Skip Mem0 and Perplexity reachability checks
+  --json      Print the report as JSON`;
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...flags] = argv;
+
+  if (command !== 'doctor') {
+    console.error(USAGE);
+    return command === undefined || command === '--help' ? 0 : 2;
+  }
+
+  installLogRedaction();
+  const report = await runDoctor({ offline: flags.includes('--offline') });
+  console.log(flags.includes('--json') ? JSON.stringify(report, null, 2) : formatDoctorReport(report));
+  return report.ok ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('brain-jar:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,117 @@
+/**
+ * Schema for ~/.config/brain-jar/config.json.
+ *
+ * Top-level keys are shared by every plugin (storage backend, default scope);
+ * each plugin has its own section. Defaults here replace the constants the
+ * plugins used to hard-code.
+ */
+
+import { z } from 'zod';
+import { isValidScope } from './scope';
+
+/**
+ * Current layout version. Version 1 files had no sections: retention rules
+ * were top-level and perplexity-search / pattern-radar kept their own files.
+ */
+export const CONFIG_VERSION = 2;
+
+export const retentionRuleSchema = z.object({
+  scope: z.string().optional().describe('Exact scope, or a prefix ending in "*"'),
+  tag: z.string().optional(),
+  max_age_days: z.number().positive().describe('Age since last update'),
+});
+
+export const sharedMemoryConfigSchema = z.object({
+  summary_activity_threshold: z
+    .number()
+    .int()
+    .positive()
+    .default(12)
+    .describe('Memories added to a scope before an activity summary'),
+  summary_min_interval_hours: z.number().positive().default(24).describe('Minimum time between summaries'),
+  summary_max_interval_days: z
+    .number()
+    .positive()
+    .default(7)
+    .describe('Summarize any activity after this long without a summary'),
+  sync_interval_minutes: z.number().positive().default(5).describe('How often queued Mem0 writes are replayed'),
+  retention_interval_minutes: z.number().positive().default(60).describe('How often expired memories are pruned'),
+  retention: z.array(retentionRuleSchema).optional().describe('Retention rules (default: debug tag after 14 days)'),
+});
+
+export const perplexitySearchConfigSchema = z.object({
+  api_key: z.string().min(1).optional().describe('Perplexity API key (PERPLEXITY_API_KEY also works)'),
+  default_max_results: z.number().int().positive().default(5),
+  default_mode: z.enum(['auto', 'quick', 'deep']).default('auto').describe('Mode used when a search names none'),
+});
+
+const radarSourceSchema = z.object({
+  enabled: z.boolean().default(true),
+  weight: z.number().min(0).default(1),
+});
+
+export const patternRadarConfigSchema = z.object({
+  github_token: z.string().min(1).optional().describe('GitHub token for higher API rate limits'),
+  sources: z
+    .object({
+      hackernews: radarSourceSchema.default({ enabled: true, weight: 1 }),
+      github: radarSourceSchema
+        .extend({ languages: z.array(z.string()).default([]) })
+        .default({ enabled: true, languages: [], weight: 1 }),
+      perplexity: radarSourceSchema.default({ enabled: true, weight: 1 }),
+    })
+    .default({
+      hackernews: { enabled: true, weight: 1 },
+      github: { enabled: true, languages: [], weight: 1 },
+      perplexity: { enabled: true, weight: 1 },
+    }),
+  domains: z.array(z.string()).default([]),
+  alert_threshold: z.number().min(0).max(1).default(0.7),
+  digest_frequency: z.enum(['daily', 'weekly', 'manual']).default('manual'),
+});
+
+export const brainJarConfigSchema = z.object({
+  config_version: z.number().int().optional(),
+  mem0_api_key: z.string().min(1).optional().describe('Required unless storage_backend is "sqlite"'),
+  default_scope: z
+    .string()
+    .refine(isValidScope, 'must be "global", "project:<name>" or "team:<name>"')
+    .default('global'),
+  auto_summarize: z.boolean().default(true),
+  storage_backend: z.enum(['mem0', 'sqlite']).optional().describe('Default: mem0 when a key is set'),
+  sqlite_path: z.string().min(1).optional().describe('Default: ~/.config/brain-jar/backend.db'),
+  shared_memory: sharedMemoryConfigSchema.default({
+    summary_activity_threshold: 12,
+    summary_min_interval_hours: 24,
+    summary_max_interval_days: 7,
+    sync_interval_minutes: 5,
+    retention_interval_minutes: 60,
+  }),
+  perplexity_search: perplexitySearchConfigSchema.default({ default_max_results: 5, default_mode: 'auto' }),
+  pattern_radar: patternRadarConfigSchema.default({
+    sources: {
+      hackernews: { enabled: true, weight: 1 },
+      github: { enabled: true, languages: [], weight: 1 },
+      perplexity: { enabled: true, weight: 1 },
+    },
+    domains: [],
+    alert_threshold: 0.7,
+    digest_frequency: 'manual',
+  }),
+});
+
+export type BrainJarSettings = z.infer<typeof brainJarConfigSchema>;
+export type SharedMemorySettings = z.infer<typeof sharedMemoryConfigSchema>;
+export type PerplexitySearchSettings = z.infer<typeof perplexitySearchConfigSchema>;
+export type PatternRadarSettings = z.infer<typeof patternRadarConfigSchema>;
+
+/**
+ * Plugin sections of the config file.
+ */
+export const CONFIG_SECTIONS = ['shared_memory', 'perplexity_search', 'pattern_radar'] as const;
+export type ConfigSection = (typeof CONFIG_SECTIONS)[number];
+
+/**
+ * Settings that hold credentials (masked by get_config).
+ */
+export const SECRET_CONFIG_PATHS = ['mem0_api_key', 'perplexity_search.api_key', 'pattern_radar.github_token'];
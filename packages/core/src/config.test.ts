@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  resolveConfig,
+  saveConfig,
+  updateConfigSection,
+  migrateLegacyConfig,
+  getConfigEnvName,
+  maskConfigSecrets,
+} from './config';
+
+describe('config', () => {
+  let tmpDir: string;
+  let configPath: string;
+  let legacyPaths: { perplexity_search: string; pattern_radar: string };
+
+  const resolve = (env: NodeJS.ProcessEnv = {}) => resolveConfig({ configPath, env, legacyPaths });
+  const writeJson = (file: string, value: unknown) => fs.writeFileSync(file, JSON.stringify(value));
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brain-jar-config-'));
+    configPath = path.join(tmpDir, 'config.json');
+    legacyPaths = {
+      perplexity_search: path.join(tmpDir, 'perplexity.json'),
+      pattern_radar: path.join(tmpDir, 'pattern-radar.json'),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('resolveConfig', () => {
+    it('should return defaults when there is no file', () => {
+      const resolved = resolve();
+
+      expect(resolved.fileFound).toBe(false);
+      expect(resolved.issues).toEqual([]);
+      expect(resolved.config.default_scope).toBe('global');
+      expect(resolved.config.shared_memory.summary_activity_threshold).toBe(12);
+      expect(resolved.config.pattern_radar.sources.github).toEqual({ enabled: true, languages: [], weight: 1 });
+      expect(resolved.sources).toEqual({});
+    });
+
+    it('should fill missing section values with defaults', () => {
+      writeJson(configPath, { storage_backend: 'sqlite', shared_memory: { sync_interval_minutes: 10 } });
+
+      const { config, sources } = resolve();
+
+      expect(config.shared_memory.sync_interval_minutes).toBe(10);
+      expect(config.shared_memory.summary_min_interval_hours).toBe(24);
+      expect(sources).toEqual({ storage_backend: 'file', 'shared_memory.sync_interval_minutes': 'file' });
+    });
+
+    it('should apply BRAIN_JAR_* overrides with type conversion', () => {
+      writeJson(configPath, { shared_memory: { summary_activity_threshold: 20 } });
+
+      const { config, sources, issues } = resolve({
+        BRAIN_JAR_SHARED_MEMORY_SUMMARY_ACTIVITY_THRESHOLD: '5',
+        BRAIN_JAR_AUTO_SUMMARIZE: 'false',
+        BRAIN_JAR_PATTERN_RADAR_DOMAINS: 'rust, wasm',
+        BRAIN_JAR_PATTERN_RADAR_SOURCES_GITHUB_ENABLED: 'no',
+      });
+
+      expect(issues).toEqual([]);
+      expect(config.shared_memory.summary_activity_threshold).toBe(5);
+      expect(config.auto_summarize).toBe(false);
+      expect(config.pattern_radar.domains).toEqual(['rust', 'wasm']);
+      expect(config.pattern_radar.sources.github.enabled).toBe(false);
+      expect(sources['shared_memory.summary_activity_threshold']).toBe('env');
+    });
+
+    it('should replace invalid values with defaults and explain them', () => {
+      writeJson(configPath, {
+        default_scope: 'My Project',
+        shared_memory: {
+          summary_activity_threshold: -1,
+          retention: [{ tag: 'scratch' }, { tag: 'debug', max_age_days: 7 }, 'tmp'],
+        },
+      });
+
+      const { config, issues } = resolve({ BRAIN_JAR_PERPLEXITY_SEARCH_DEFAULT_MODE: 'thorough' });
+
+      expect(config.default_scope).toBe('global');
+      expect(config.shared_memory.summary_activity_threshold).toBe(12);
+      expect(config.shared_memory.retention).toEqual([{ tag: 'debug', max_age_days: 7 }]);
+      expect(config.perplexity_search.default_mode).toBe('auto');
+      expect(issues.map((i) => [i.path, i.source])).toEqual(
+        expect.arrayContaining([
+          ['default_scope', 'file'],
+          ['shared_memory.summary_activity_threshold', 'file'],
+          ['shared_memory.retention.0', 'file'],
+          ['shared_memory.retention.2', 'file'],
+          ['perplexity_search.default_mode', 'env'],
+        ])
+      );
+      expect(issues.find((i) => i.path === 'default_scope')?.message).toMatch(/project:<name>/);
+    });
+
+    it('should warn about unknown keys and unreadable files', () => {
+      writeJson(configPath, { mem0_key: 'x', shared_memory: { sync_every: 3 } });
+      expect(resolve().warnings).toEqual([
+        expect.stringContaining('"mem0_key"'),
+        expect.stringContaining('"shared_memory.sync_every"'),
+      ]);
+
+      fs.writeFileSync(configPath, '{ not json');
+      const broken = resolve();
+      expect(broken.fileFound).toBe(true);
+      expect(broken.warnings[0]).toMatch(/could not be read/);
+      expect(broken.config.default_scope).toBe('global');
+    });
+
+    it('should read v1 top-level retention rules', () => {
+      writeJson(configPath, { retention: [{ scope: 'project:tmp', max_age_days: 3 }] });
+
+      const { config, warnings } = resolve();
+
+      expect(config.shared_memory.retention).toEqual([{ scope: 'project:tmp', max_age_days: 3 }]);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should use legacy plugin files below config.json', () => {
+      writeJson(legacyPaths.perplexity_search, { apiKey: 'pplx-legacy', defaultMaxResults: 8 });
+      writeJson(legacyPaths.pattern_radar, { github_token: 'ghp_legacy', alertThreshold: 0.5, domains: ['ai'] });
+      writeJson(configPath, { perplexity_search: { default_max_results: 3 } });
+
+      const { config, sources, legacyFiles } = resolve();
+
+      expect(config.perplexity_search).toMatchObject({ api_key: 'pplx-legacy', default_max_results: 3 });
+      expect(config.pattern_radar).toMatchObject({ github_token: 'ghp_legacy', alert_threshold: 0.5, domains: ['ai'] });
+      expect(sources['perplexity_search.api_key']).toBe('legacy');
+      expect(sources['perplexity_search.default_max_results']).toBe('file');
+      expect(legacyFiles).toHaveLength(2);
+    });
+  });
+
+  describe('saving', () => {
+    it('should keep plugin sections and encrypt keys when saving top-level settings', () => {
+      writeJson(configPath, { mem0_api_key: 'old', shared_memory: { sync_interval_minutes: 10 } });
+
+      saveConfig({ mem0_api_key: 'm0-new-key', default_scope: 'global', auto_summarize: true }, configPath);
+
+      expect(readJson(configPath)).toEqual({
+        mem0_api_key: 'secret:mem0_api_key',
+        default_scope: 'global',
+        auto_summarize: true,
+        shared_memory: { sync_interval_minutes: 10 },
+      });
+      expect(fs.readFileSync(path.join(tmpDir, 'secrets.enc'), 'utf-8')).not.toContain('m0-new-key');
+      expect(resolve().config.mem0_api_key).toBe('m0-new-key');
+    });
+
+    it('should merge section updates and reject invalid ones', () => {
+      updateConfigSection('perplexity_search', { api_key: 'pplx-1' }, configPath);
+      updateConfigSection('perplexity_search', { default_mode: 'deep' }, configPath);
+
+      expect(readJson(configPath)).toEqual({
+        perplexity_search: { api_key: 'secret:perplexity_search.api_key', default_mode: 'deep' },
+      });
+      expect(resolve().config.perplexity_search.api_key).toBe('pplx-1');
+      expect(() => updateConfigSection('pattern_radar', { alert_threshold: 2 }, configPath)).toThrow(
+        /pattern_radar\.alert_threshold/
+      );
+    });
+
+    it('should migrate legacy files into config.json once', () => {
+      writeJson(configPath, { mem0_api_key: 'm0', retention: [] });
+      writeJson(legacyPaths.perplexity_search, { apiKey: 'pplx-legacy', defaultMaxResults: 5 });
+
+      const migrated = migrateLegacyConfig({ configPath, legacyPaths });
+
+      expect(migrated).toEqual([
+        'retention -> shared_memory.retention',
+        'perplexity_search.api_key',
+        'perplexity_search.default_max_results',
+        'mem0_api_key -> encrypted secrets file',
+        'perplexity_search.api_key -> encrypted secrets file',
+      ]);
+      expect(readJson(configPath)).toEqual({
+        mem0_api_key: 'secret:mem0_api_key',
+        shared_memory: { retention: [] },
+        perplexity_search: { api_key: 'secret:perplexity_search.api_key', default_max_results: 5 },
+        config_version: 2,
+      });
+      expect(fs.existsSync(legacyPaths.perplexity_search)).toBe(true);
+      expect(migrateLegacyConfig({ configPath, legacyPaths })).toEqual([]);
+    });
+  });
+
+  describe('secret references', () => {
+    it('should resolve command references and warn about plaintext keys', () => {
+      writeJson(configPath, { mem0_api_key: 'cmd:echo m0-from-command', pattern_radar: { github_token: 'ghp_plain' } });
+
+      const { config, secretRefs, warnings } = resolve();
+
+      expect(config.mem0_api_key).toBe('m0-from-command');
+      expect(config.pattern_radar.github_token).toBe('ghp_plain');
+      expect(secretRefs).toEqual({ mem0_api_key: 'cmd:echo m0-from-command' });
+      expect(warnings).toEqual([expect.stringContaining('pattern_radar.github_token stored in plaintext')]);
+    });
+
+    it('should report unresolvable references as issues', () => {
+      writeJson(configPath, { mem0_api_key: 'secret:missing' });
+
+      const { config, issues } = resolve();
+
+      expect(config.mem0_api_key).toBeUndefined();
+      expect(issues).toEqual([
+        expect.objectContaining({ path: 'mem0_api_key', source: 'file', message: expect.stringMatching(/No secret named "missing"/) }),
+      ]);
+    });
+  });
+
+  it('should name env overrides and mask secrets', () => {
+    expect(getConfigEnvName('shared_memory.sync_interval_minutes')).toBe('BRAIN_JAR_SHARED_MEMORY_SYNC_INTERVAL_MINUTES');
+    expect(
+      maskConfigSecrets({ mem0_api_key: 'm0-secret', pattern_radar: { github_token: 'ghp_secret', domains: [] } })
+    ).toEqual({ mem0_api_key: 'm0-s…', pattern_radar: { github_token: 'ghp_…', domains: [] } });
+  });
+});
@@ -1,14 +1,67 @@
 /**
  * Shared configuration utilities for brain-jar plugins.
+ *
+ * All settings live in ~/.config/brain-jar/config.json (see config-schema.ts).
+ * Values are resolved in order: schema defaults, legacy per-plugin files,
+ * config.json, then BRAIN_JAR_* environment variables. Invalid values fall
+ * back to their defaults and are reported as issues instead of failing.
+ * Credentials may be secret references (see secrets.ts); they are resolved
+ * here and written to the encrypted secrets file on save.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { z } from 'zod';
 import { BrainJarConfig, ConfigStatus } from './types';
+import {
+  brainJarConfigSchema,
+  CONFIG_VERSION,
+  SECRET_CONFIG_PATHS,
+  type BrainJarSettings,
+  type ConfigSection,
+} from './config-schema';
+import { isSecretRef, resolveSecret, storeSecret } from './secrets';
 
 const CONFIG_DIR = path.join(os.homedir(), '.config', 'brain-jar');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+const ENV_PREFIX = 'BRAIN_JAR_';
+
+/**
+ * Files used before config.json had plugin sections.
+ */
+export const LEGACY_CONFIG_PATHS = {
+  perplexity_search: path.join(os.homedir(), '.claude', 'perplexity-search', 'config.json'),
+  pattern_radar: path.join(CONFIG_DIR, 'pattern-radar.json'),
+};
+
+export type ConfigValueSource = 'default' | 'legacy' | 'file' | 'env';
+
+export interface ConfigIssue {
+  path: string; // e.g. "shared_memory.summary_activity_threshold"
+  message: string;
+  value?: unknown;
+  source: Exclude<ConfigValueSource, 'default'>;
+}
+
+export interface ResolvedConfig {
+  config: BrainJarSettings;
+  configPath: string;
+  fileFound: boolean;
+  issues: ConfigIssue[]; // Invalid values (replaced by defaults)
+  warnings: string[]; // Unknown keys, unreadable files, legacy files to migrate
+  sources: Record<string, Exclude<ConfigValueSource, 'default'>>; // Set values by path; others are defaults
+  legacyFiles: string[]; // Legacy files whose values were used
+  secretRefs: Record<string, string>; // Credential settings given as references, by path
+}
+
+export interface ResolveConfigOptions {
+  configPath?: string;
+  env?: NodeJS.ProcessEnv;
+  legacyPaths?: Partial<typeof LEGACY_CONFIG_PATHS>;
+}
+
+type RawConfig = Record<string, unknown>;
 
 export function getConfigDir(): string {
   return CONFIG_DIR;
@@ -19,43 +72,194 @@ export function getConfigPath(): string {
 }
 
 export function checkConfig(): ConfigStatus {
-  if (!fs.existsSync(CONFIG_FILE)) {
-    return { status: 'missing', configPath: CONFIG_FILE };
-  }
-
-  try {
-    const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
-    const config = JSON.parse(content) as Partial<BrainJarConfig>;
+  const { config } = resolveConfig();
 
-    if (!config.mem0_api_key) {
-      return { status: 'missing', configPath: CONFIG_FILE };
-    }
+  // Local SQLite backend needs no API key
+  if (config.storage_backend === 'sqlite') {
+    return { status: 'configured', apiKey: config.mem0_api_key, configPath: CONFIG_FILE };
+  }
 
-    return {
-      status: 'configured',
-      apiKey: config.mem0_api_key,
-      configPath: CONFIG_FILE,
-    };
-  } catch {
+  if (!config.mem0_api_key) {
     return { status: 'missing', configPath: CONFIG_FILE };
   }
+
+  return {
+    status: 'configured',
+    apiKey: config.mem0_api_key,
+    configPath: CONFIG_FILE,
+  };
 }
 
-export function saveConfig(config: BrainJarConfig): void {
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true });
-  }
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+/**
+ * Save top-level settings. Keys not given (including plugin sections) are
+ * kept; a plaintext mem0_api_key goes to the encrypted secrets file.
+ */
+export function saveConfig(config: BrainJarConfig, configPath: string = CONFIG_FILE): void {
+  const { raw } = readRawConfig(configPath);
+  const updated = { ...raw, ...config };
+  protectSecrets(updated, path.dirname(configPath));
+  writeRawConfig(configPath, updated);
 }
 
-export function loadConfig(): BrainJarConfig | null {
+export function loadConfig(): BrainJarSettings | null {
   const status = checkConfig();
   if (status.status === 'missing') {
     return null;
   }
 
-  const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
-  return JSON.parse(content) as BrainJarConfig;
+  return resolveConfig().config;
+}
+
+/**
+ * Resolve the effective configuration with defaults, legacy files and
+ * environment overrides applied.
+ */
+export function resolveConfig(options: ResolveConfigOptions = {}): ResolvedConfig {
+  const configPath = options.configPath || CONFIG_FILE;
+  const env = options.env || process.env;
+  const legacyPaths = { ...LEGACY_CONFIG_PATHS, ...options.legacyPaths };
+  const warnings: string[] = [];
+  const sources: ResolvedConfig['sources'] = {};
+
+  const { raw: file, found, error } = readRawConfig(configPath);
+  if (error) {
+    warnings.push(`${configPath} could not be read (${error}); using defaults`);
+  }
+
+  // 1. Legacy files fill in sections config.json doesn't set yet
+  const legacy = readLegacyConfig(legacyPaths);
+  const merged: RawConfig = {};
+  for (const [section, values] of Object.entries(legacy.values)) {
+    merged[section] = values;
+    markSources(values, section, 'legacy', sources);
+  }
+  if (legacy.files.length > 0) {
+    warnings.push(`Legacy config in ${legacy.files.join(', ')}; run validate_config with migrate to move it into ${configPath}`);
+  }
+
+  // 2. config.json (v1 kept retention rules at the top level)
+  const fileValues = upgradeLayout(file);
+  deepMerge(merged, fileValues);
+  markSources(fileValues, '', 'file', sources);
+  warnings.push(...findUnknownKeys(fileValues).map((key) => `Unknown setting "${key}" in ${configPath} (ignored)`));
+
+  // 3. BRAIN_JAR_* environment variables
+  const envValues = readEnvOverrides(env);
+  deepMerge(merged, envValues);
+  markSources(envValues, '', 'env', sources);
+
+  const { config, issues } = parseLenient(merged, sources);
+  const secretRefs = resolveSecretSettings(config, path.dirname(configPath), sources, issues);
+  for (const issue of issues) {
+    delete sources[issue.path];
+  }
+
+  const plaintext = SECRET_CONFIG_PATHS.filter((p) => {
+    const value = getPath(fileValues, p.split('.'));
+    return typeof value === 'string' && !isSecretRef(value);
+  });
+  if (plaintext.length > 0) {
+    warnings.push(`${plaintext.join(', ')} stored in plaintext; run validate_config with migrate to encrypt`);
+  }
+
+  return {
+    config,
+    configPath,
+    fileFound: found,
+    issues,
+    warnings,
+    sources: Object.fromEntries(Object.entries(sources).filter(([key]) => !isUnknownPath(key))),
+    legacyFiles: legacy.files,
+    secretRefs,
+  };
+}
+
+/**
+ * One plugin's section of the effective configuration.
+ */
+export function getPluginConfig<K extends ConfigSection>(section: K, options?: ResolveConfigOptions): BrainJarSettings[K] {
+  return resolveConfig(options).config[section];
+}
+
+/**
+ * Merge values into a plugin section of config.json. Credentials go to the
+ * encrypted secrets file. Throws if the result would be invalid, naming the
+ * offending settings.
+ */
+export function updateConfigSection<K extends ConfigSection>(
+  section: K,
+  values: Partial<BrainJarSettings[K]>,
+  configPath: string = CONFIG_FILE
+): void {
+  const { raw } = readRawConfig(configPath);
+  const current = isRecord(raw[section]) ? raw[section] : {};
+  const updated = { ...upgradeLayout(raw), [section]: { ...current, ...values } };
+
+  const result = brainJarConfigSchema.safeParse(updated);
+  if (!result.success) {
+    throw new Error(`Invalid ${section} settings: ${formatIssues(result.error.issues)}`);
+  }
+  protectSecrets(updated, path.dirname(configPath));
+  writeRawConfig(configPath, updated);
+}
+
+/**
+ * Move legacy settings (top-level retention rules, the perplexity-search and
+ * pattern-radar files) into config.json sections, and plaintext credentials
+ * into the encrypted secrets file. Values already set in config.json win.
+ * Legacy files are left in place. Returns what moved.
+ */
+export function migrateLegacyConfig(options: Omit<ResolveConfigOptions, 'env'> = {}): string[] {
+  const configPath = options.configPath || CONFIG_FILE;
+  const { raw } = readRawConfig(configPath);
+  const migrated: string[] = [];
+
+  const upgraded = upgradeLayout(raw);
+  if ('retention' in raw) {
+    migrated.push('retention -> shared_memory.retention');
+  }
+
+  const legacy = readLegacyConfig({ ...LEGACY_CONFIG_PATHS, ...options.legacyPaths });
+  for (const [section, values] of Object.entries(legacy.values)) {
+    const current = isRecord(upgraded[section]) ? upgraded[section] : {};
+    const added = Object.keys(values).filter((key) => !(key in current));
+    if (added.length > 0) {
+      upgraded[section] = { ...values, ...current };
+      migrated.push(...added.map((key) => `${section}.${key}`));
+    }
+  }
+
+  const encrypted = protectSecrets(upgraded, path.dirname(configPath));
+  migrated.push(...encrypted.map((key) => `${key} -> encrypted secrets file`));
+
+  if (migrated.length > 0 || raw.config_version !== CONFIG_VERSION) {
+    writeRawConfig(configPath, { ...upgraded, config_version: CONFIG_VERSION });
+  }
+  return migrated;
+}
+
+/**
+ * Environment variable that overrides a setting path, e.g.
+ * "shared_memory.summary_activity_threshold" -> BRAIN_JAR_SHARED_MEMORY_SUMMARY_ACTIVITY_THRESHOLD.
+ */
+export function getConfigEnvName(settingPath: string): string {
+  return ENV_PREFIX + settingPath.replace(/\./g, '_').toUpperCase();
+}
+
+/**
+ * Copy of a config with credentials masked (first 4 characters kept).
+ */
+export function maskConfigSecrets<T>(config: T): T {
+  const copy = JSON.parse(JSON.stringify(config)) as RawConfig;
+  for (const secretPath of SECRET_CONFIG_PATHS) {
+    const keys = secretPath.split('.');
+    const parent = keys.slice(0, -1).reduce<unknown>((obj, key) => (isRecord(obj) ? obj[key] : undefined), copy);
+    const last = keys[keys.length - 1];
+    if (isRecord(parent) && typeof parent[last] === 'string') {
+      parent[last] = `${(parent[last] as string).slice(0, 4)}…`;
+    }
+  }
+  return copy as T;
 }
 
 export function getMissingConfigMessage(): string {
@@ -75,5 +279,361 @@ Then create ${CONFIG_FILE} with:
   "default_scope": "global",
   "auto_summarize": true
 }
+
+Or, to keep everything on this machine without a Mem0 account:
+{
+  "storage_backend": "sqlite",
+  "default_scope": "global",
+  "auto_summarize": true
+}
+
+(${getConfigEnvName('mem0_api_key')} / ${getConfigEnvName('storage_backend')} work too.)
 `.trim();
 }
+
+// --- Reading and writing ---
+
+function readRawConfig(configPath: string): { raw: RawConfig; found: boolean; error?: string } {
+  if (!fs.existsSync(configPath)) {
+    return { raw: {}, found: false };
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return isRecord(parsed) ? { raw: parsed, found: true } : { raw: {}, found: true, error: 'not a JSON object' };
+  } catch (error) {
+    return { raw: {}, found: true, error: error instanceof Error ? error.message : 'unreadable' };
+  }
+}
+
+function writeRawConfig(configPath: string, raw: RawConfig): void {
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(raw, null, 2));
+}
+
+/**
+ * Bring a v1 file to the sectioned layout.
+ */
+function upgradeLayout(raw: RawConfig): RawConfig {
+  const { retention, ...rest } = raw;
+  if (retention === undefined) {
+    return { ...raw };
+  }
+  const sharedMemory = isRecord(rest.shared_memory) ? rest.shared_memory : {};
+  return { ...rest, shared_memory: { retention, ...sharedMemory } };
+}
+
+function readLegacyConfig(paths: typeof LEGACY_CONFIG_PATHS): { values: Record<string, RawConfig>; files: string[] } {
+  const values: Record<string, RawConfig> = {};
+  const files: string[] = [];
+
+  const perplexity = readRawConfig(paths.perplexity_search);
+  if (perplexity.found && !perplexity.error) {
+    const { apiKey, defaultMaxResults } = perplexity.raw;
+    values.perplexity_search = dropUndefined({ api_key: apiKey, default_max_results: defaultMaxResults });
+    files.push(paths.perplexity_search);
+  }
+
+  const radar = readRawConfig(paths.pattern_radar);
+  if (radar.found && !radar.error) {
+    const { github_token, sources, domains, alertThreshold, digestFrequency } = radar.raw;
+    values.pattern_radar = dropUndefined({
+      github_token,
+      sources,
+      domains,
+      alert_threshold: alertThreshold,
+      digest_frequency: digestFrequency,
+    });
+    files.push(paths.pattern_radar);
+  }
+
+  return { values, files };
+}
+
+// --- Environment overrides ---
+
+/**
+ * Read BRAIN_JAR_* variables for every scalar (or string list) setting in the
+ * schema, converting them to the setting's type. Lists are comma-separated.
+ */
+function readEnvOverrides(env: NodeJS.ProcessEnv): RawConfig {
+  const overrides: RawConfig = {};
+
+  const visit = (schema: z.ZodType, keys: string[]) => {
+    const inner = unwrapSchema(schema);
+    if (inner instanceof z.ZodObject) {
+      for (const [key, field] of Object.entries(inner.shape as Record<string, z.ZodType>)) {
+        visit(field, [...keys, key]);
+      }
+      return;
+    }
+
+    const value = env[getConfigEnvName(keys.join('.'))];
+    if (value === undefined || value === '') return;
+
+    const converted = convertEnvValue(inner, value);
+    if (converted !== undefined) {
+      setPath(overrides, keys, converted);
+    }
+  };
+
+  visit(brainJarConfigSchema, []);
+  return overrides;
+}
+
+function convertEnvValue(schema: z.ZodType, value: string): unknown {
+  if (schema instanceof z.ZodNumber) {
+    // Leave non-numbers as strings so validation reports them
+    return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    const lower = value.toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(lower)) return true;
+    if (['false', '0', 'no', 'off'].includes(lower)) return false;
+    return value;
+  }
+  if (schema instanceof z.ZodArray) {
+    return unwrapSchema(schema.element as z.ZodType) instanceof z.ZodString
+      ? value.split(',').map((v) => v.trim()).filter(Boolean)
+      : undefined; // Lists of objects (e.g. retention rules) only come from the file
+  }
+  return value;
+}
+
+// Strip optional/default/refinement wrappers
+function unwrapSchema(schema: z.ZodType): z.ZodType {
+  let current = schema;
+  for (;;) {
+    const def = (current as unknown as { _def?: { innerType?: z.ZodType; schema?: z.ZodType } })._def;
+    const inner = def?.innerType ?? def?.schema;
+    if (!inner || current instanceof z.ZodObject) {
+      return current;
+    }
+    current = inner;
+  }
+}
+
+// --- Validation ---
+
+/**
+ * Parse, dropping invalid values so their defaults apply.
+ */
+function parseLenient(
+  input: RawConfig,
+  sources: ResolvedConfig['sources']
+): { config: BrainJarSettings; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  let current = input;
+
+  // Each pass removes the values zod rejected; a handful of passes is plenty
+  for (let pass = 0; pass < 10; pass++) {
+    const result = brainJarConfigSchema.safeParse(current);
+    if (result.success) {
+      return { config: result.data, issues };
+    }
+
+    const invalid = new Map<string, (string | number)[]>();
+    for (const issue of result.error.issues) {
+      const keys = trimToValue(current, issue.path as (string | number)[]);
+      const issuePath = keys.join('.');
+      if (invalid.has(issuePath)) continue;
+
+      invalid.set(issuePath, keys);
+      issues.push({
+        path: issuePath,
+        message: issue.message,
+        value: maskIfSecret(issuePath, getPath(current, keys)),
+        source: sourceOf(issuePath, sources),
+      });
+    }
+
+    // Remove later list items first so earlier indexes stay valid
+    const removals = [...invalid.values()].sort(compareIndexesDescending);
+    for (const keys of removals) {
+      current = removePath(current, keys);
+    }
+  }
+
+  return { config: brainJarConfigSchema.parse({}), issues };
+}
+
+// Issues inside a list item point at the item, so the whole item is dropped
+function trimToValue(obj: RawConfig, keys: (string | number)[]): (string | number)[] {
+  const index = keys.findIndex((key) => typeof key === 'number');
+  const trimmed = index >= 0 ? keys.slice(0, index + 1) : keys;
+  // Missing required fields point below the value; report the value itself
+  while (trimmed.length > 1 && getPath(obj, trimmed) === undefined) {
+    trimmed.pop();
+  }
+  return trimmed;
+}
+
+function compareIndexesDescending(a: (string | number)[], b: (string | number)[]): number {
+  const last = (keys: (string | number)[]) => keys[keys.length - 1];
+  const [x, y] = [last(a), last(b)];
+  return typeof x === 'number' && typeof y === 'number' ? y - x : 0;
+}
+
+function sourceOf(issuePath: string, sources: ResolvedConfig['sources']): ConfigIssue['source'] {
+  const match = Object.keys(sources)
+    .filter((key) => key === issuePath || key.startsWith(`${issuePath}.`) || issuePath.startsWith(`${key}.`))
+    .map((key) => sources[key]);
+  return match.includes('env') ? 'env' : match.includes('file') ? 'file' : match[0] || 'file';
+}
+
+function formatIssues(issues: z.ZodIssue[]): string {
+  return issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+}
+
+function findUnknownKeys(raw: RawConfig): string[] {
+  const unknown: string[] = [];
+  const visit = (schema: z.ZodType, value: unknown, keys: string[]) => {
+    const inner = unwrapSchema(schema);
+    if (!(inner instanceof z.ZodObject) || !isRecord(value)) return;
+
+    const shape = inner.shape as Record<string, z.ZodType>;
+    for (const [key, child] of Object.entries(value)) {
+      if (key in shape) {
+        visit(shape[key], child, [...keys, key]);
+      } else {
+        unknown.push([...keys, key].join('.'));
+      }
+    }
+  };
+  visit(brainJarConfigSchema, raw, []);
+  return unknown;
+}
+
+function isUnknownPath(settingPath: string): boolean {
+  let schema: z.ZodType = brainJarConfigSchema;
+  for (const key of settingPath.split('.')) {
+    const inner = unwrapSchema(schema);
+    if (inner instanceof z.ZodArray) return false; // Inside a list; validated as a whole
+    if (!(inner instanceof z.ZodObject)) return true;
+    const shape = inner.shape as Record<string, z.ZodType>;
+    if (!(key in shape)) return true;
+    schema = shape[key];
+  }
+  return false;
+}
+
+function maskIfSecret(settingPath: string, value: unknown): unknown {
+  return SECRET_CONFIG_PATHS.includes(settingPath) && typeof value === 'string' ? `${value.slice(0, 4)}…` : value;
+}
+
+// --- Secrets ---
+
+/**
+ * Resolve credential settings in place. Unresolvable references become
+ * issues and the setting is left unset. Returns the references by path.
+ */
+function resolveSecretSettings(
+  config: BrainJarSettings,
+  dir: string,
+  sources: ResolvedConfig['sources'],
+  issues: ConfigIssue[]
+): Record<string, string> {
+  const refs: Record<string, string> = {};
+
+  for (const secretPath of SECRET_CONFIG_PATHS) {
+    const keys = secretPath.split('.');
+    const value = getPath(config, keys);
+    if (typeof value !== 'string') continue;
+
+    if (isSecretRef(value)) {
+      refs[secretPath] = value;
+    }
+    try {
+      setPath(config as unknown as RawConfig, keys, resolveSecret(value, dir));
+    } catch (error) {
+      issues.push({
+        path: secretPath,
+        message: error instanceof Error ? error.message : 'Secret could not be resolved',
+        value,
+        source: sourceOf(secretPath, sources),
+      });
+      setPath(config as unknown as RawConfig, keys, undefined);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Move plaintext credentials in a raw config into the encrypted secrets
+ * file, replacing them with references. Returns the paths moved.
+ */
+function protectSecrets(raw: RawConfig, dir: string): string[] {
+  const moved: string[] = [];
+  for (const secretPath of SECRET_CONFIG_PATHS) {
+    const keys = secretPath.split('.');
+    const value = getPath(raw, keys);
+    if (typeof value === 'string' && value && !isSecretRef(value)) {
+      setPath(raw, keys, storeSecret(secretPath, value, dir));
+      moved.push(secretPath);
+    }
+  }
+  return moved;
+}
+
+// --- Object helpers ---
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function dropUndefined(obj: RawConfig): RawConfig {
+  return Object.fromEntries(Object.entries(obj).filter(([, value]) => value !== undefined));
+}
+
+function deepMerge(target: RawConfig, source: RawConfig): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (isRecord(value) && isRecord(target[key])) {
+      deepMerge(target[key] as RawConfig, value);
+    } else {
+      target[key] = isRecord(value) ? JSON.parse(JSON.stringify(value)) : value;
+    }
+  }
+}
+
+// Record where each leaf value came from; lists count as one value
+function markSources(
+  value: unknown,
+  prefix: string,
+  source: Exclude<ConfigValueSource, 'default'>,
+  sources: ResolvedConfig['sources']
+): void {
+  if (isRecord(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      markSources(child, prefix ? `${prefix}.${key}` : key, source, sources);
+    }
+  } else if (prefix) {
+    sources[prefix] = source;
+  }
+}
+
+function getPath(obj: unknown, keys: (string | number)[]): unknown {
+  return keys.reduce<unknown>((value, key) => (value !== null && typeof value === 'object' ? (value as RawConfig)[key] : undefined), obj);
+}
+
+function setPath(obj: RawConfig, keys: string[], value: unknown): void {
+  let target = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (!isRecord(target[key])) target[key] = {};
+    target = target[key] as RawConfig;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function removePath(obj: RawConfig, keys: (string | number)[]): RawConfig {
+  const copy = JSON.parse(JSON.stringify(obj)) as RawConfig;
+  if (keys.length === 0) return {};
+
+  const parent = getPath(copy, keys.slice(0, -1));
+  const last = keys[keys.length - 1];
+  if (Array.isArray(parent) && typeof last === 'number') {
+    parent.splice(last, 1);
+  } else if (isRecord(parent)) {
+    delete parent[last];
+  }
+  return copy;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { runDoctor, formatDoctorReport } from './doctor';
+import type { DoctorOptions } from './doctor';
+
+describe('runDoctor', () => {
+  let tmpDir: string;
+  let configDir: string;
+  let claudeDir: string;
+  let adaptersDir: string;
+
+  const find = async (check: string, options: Partial<DoctorOptions> = {}) => {
+    const report = await runDoctor({ configDir, claudeDir, adaptersDir, env: {}, offline: true, ...options });
+    return report.checks.find((c) => c.check === check);
+  };
+  const okFetch = (status: number) => vi.fn(async () => new Response('{}', { status })) as unknown as typeof fetch;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brain-jar-doctor-'));
+    configDir = path.join(tmpDir, 'brain-jar');
+    claudeDir = path.join(tmpDir, 'claude');
+    adaptersDir = path.join(tmpDir, 'adapters');
+    fs.mkdirSync(configDir);
+    fs.mkdirSync(claudeDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should explain invalid config values', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ shared_memory: { sync_interval_minutes: 0 } }));
+
+    const report = await runDoctor({ configDir, claudeDir, adaptersDir, env: {}, offline: true });
+    const issue = report.checks.find((c) => c.check === 'config shared_memory.sync_interval_minutes');
+
+    expect(report.ok).toBe(false);
+    expect(issue).toMatchObject({ status: 'fail', fix: expect.stringContaining('config.json') });
+    expect(formatDoctorReport(report)).toMatch(/\[FAIL\] config shared_memory\.sync_interval_minutes/);
+  });
+
+  it('should check database integrity, tables and schema version', async () => {
+    const db = new Database(path.join(configDir, 'local.db'));
+    db.exec(`CREATE TABLE memories (id TEXT); CREATE TABLE work_sessions (id TEXT); PRAGMA user_version = 3`);
+    db.close();
+    fs.mkdirSync(path.join(configDir, 'diagrams'));
+    fs.writeFileSync(path.join(configDir, 'diagrams', 'diagrams.db'), 'not a database');
+
+    expect(await find('database local.db')).toMatchObject({
+      status: 'fail',
+      message: 'missing table(s) sync_outbox (schema version 3)',
+    });
+    expect(await find('database diagrams.db')).toMatchObject({ status: 'fail', message: expect.stringMatching(/cannot open/) });
+    expect(await find('database digests.db')).toMatchObject({ status: 'skip' });
+
+    const unversioned = new Database(path.join(configDir, 'local.db'));
+    unversioned.exec(`CREATE TABLE sync_outbox (id TEXT); PRAGMA user_version = 0`);
+    unversioned.close();
+    expect(await find('database local.db')).toMatchObject({
+      status: 'warn',
+      message: expect.stringMatching(/predates versioned migrations/),
+    });
+  });
+
+  it('should report Mem0 and Perplexity reachability through the given fetch', async () => {
+    fs.writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({ mem0_api_key: 'm0-key' }));
+    const options = { offline: false, env: { PERPLEXITY_API_KEY: 'pplx-key' } };
+
+    expect(await find('mem0', { ...options, fetch: okFetch(200) })).toMatchObject({ status: 'ok' });
+    expect(await find('perplexity', { ...options, fetch: okFetch(400) })).toMatchObject({ status: 'ok' });
+    expect(await find('mem0', { ...options, fetch: okFetch(401) })).toMatchObject({
+      status: 'fail',
+      message: expect.stringMatching(/rejected the API key/),
+    });
+
+    const offline = vi.fn(async () => {
+      throw new Error('getaddrinfo ENOTFOUND');
+    }) as unknown as typeof fetch;
+    expect(await find('perplexity', { ...options, fetch: offline })).toMatchObject({
+      status: 'fail',
+      message: 'Perplexity unreachable: getaddrinfo ENOTFOUND',
+    });
+  });
+
+  it('should skip network checks offline or without keys', async () => {
+    const fetchMock = okFetch(200);
+    expect(await find('mem0', { fetch: fetchMock, offline: false })).toMatchObject({ status: 'skip' });
+    expect(await find('perplexity', { fetch: fetchMock })).toMatchObject({ status: 'skip' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should validate the profile JSON', async () => {
+    const profilePath = path.join(configDir, 'user-profile.json');
+    expect(await find('profile')).toMatchObject({ status: 'skip' });
+
+    fs.writeFileSync(profilePath, '{ "identity": ');
+    expect(await find('profile')).toMatchObject({ status: 'fail', message: expect.stringMatching(/not valid JSON/) });
+
+    fs.writeFileSync(profilePath, JSON.stringify({ version: '1.0', identity: {}, technical: {} }));
+    expect(await find('profile')).toMatchObject({
+      status: 'warn',
+      message: 'profile is missing section(s): workingStyle, knowledge, personal, meta',
+    });
+
+    fs.mkdirSync(path.join(configDir, 'profiles'));
+    fs.writeFileSync(path.join(configDir, 'profiles', 'work.json'), 'not json');
+    fs.writeFileSync(
+      path.join(configDir, 'profiles.json'),
+      JSON.stringify({ active: 'default', rules: [{ scope: 'project:acme-*', profile: 'work' }, { scope: 'global', profile: 'home' }] })
+    );
+    expect(await find('profile work')).toMatchObject({ status: 'fail', message: expect.stringMatching(/not valid JSON/) });
+    expect(await find('profile rules')).toMatchObject({ status: 'warn', message: expect.stringMatching(/don't exist yet: home$/) });
+  });
+
+  it('should check hookify rules', async () => {
+    const rule = path.join(claudeDir, 'hookify.visual-thinking-brainstorm.local.md');
+    const check = 'hookify hookify.visual-thinking-brainstorm.local.md';
+    expect(await find(check)).toMatchObject({ status: 'skip', fix: expect.stringContaining('setup_brainstorm_integration') });
+
+    fs.writeFileSync(rule, '---\nname: brainstorm\nenabled: false\nevent: prompt\npattern: \\bdiagram\\b\n---\nOffer a diagram');
+    expect(await find(check)).toMatchObject({ status: 'warn', message: 'installed but disabled' });
+
+    fs.writeFileSync(rule, '---\nname: brainstorm\nevent: prompt\npattern: (unclosed\n---\n');
+    expect(await find(check)).toMatchObject({ status: 'fail', message: expect.stringMatching(/regular expression/) });
+  });
+
+  it('should try loading custom adapters', async () => {
+    fs.mkdirSync(adaptersDir);
+    fs.writeFileSync(path.join(adaptersDir, 'good.js'), `module.exports = { type: 'lobsters', createInstance() {} };`);
+    fs.writeFileSync(path.join(adaptersDir, 'empty.js'), `module.exports = {};`);
+    fs.writeFileSync(path.join(adaptersDir, 'broken.js'), `throw new Error('boom');`);
+
+    expect(await find('adapter good.js')).toMatchObject({ status: 'ok', message: 'loads adapter "lobsters"' });
+    expect(await find('adapter empty.js')).toMatchObject({ status: 'fail', message: expect.stringMatching(/no adapter export/) });
+    expect(await find('adapter broken.js')).toMatchObject({ status: 'fail', message: 'failed to load: boom' });
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * Health checks across brain-jar plugins (`brain-jar doctor`, the doctor tool).
+ *
+ * Each check reports ok / warn / fail / skip with a fix to try. Network
+ * checks use an injectable fetch so they can be mocked or turned off.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import Database from 'better-sqlite3';
+import { getConfigDir, getConfigEnvName, resolveConfig } from './config';
+import type { BrainJarSettings } from './config-schema';
+import { DEFAULT_PROFILE, PROFILES_FILE, getProfilePath, listProfiles, loadProfileSettings } from './profiles';
+
+export type DoctorStatus = 'ok' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheckResult {
+  plugin: string; // 'core', 'shared-memory', ...
+  check: string; // e.g. 'database local.db'
+  status: DoctorStatus;
+  message: string;
+  fix?: string;
+}
+
+export interface DoctorReport {
+  ok: boolean; // No failures
+  counts: Record<DoctorStatus, number>;
+  checks: DoctorCheckResult[];
+}
+
+export interface DoctorOptions {
+  configDir?: string; // Default ~/.config/brain-jar
+  claudeDir?: string; // Default ~/.claude (hookify rules, legacy perplexity config)
+  adaptersDir?: string; // Default ~/.config/pattern-radar/adapters
+  env?: NodeJS.ProcessEnv;
+  fetch?: typeof fetch; // For Mem0 / Perplexity reachability
+  offline?: boolean; // Skip network checks
+  timeoutMs?: number;
+}
+
+interface KnownDatabase {
+  plugin: string;
+  file: string; // Relative to the config dir
+  tables: string[];
+}
+
+interface KnownHookifyRule {
+  plugin: string;
+  file: string;
+  install: string; // How to (re)install
+}
+
+const MEM0_PING_URL = 'https://api.mem0.ai/v1/ping/';
+const PERPLEXITY_URL = 'https://api.perplexity.ai/chat/completions';
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Plugin databases under ~/.config/brain-jar and the tables each must have.
+ */
+export const KNOWN_DATABASES: KnownDatabase[] = [
+  { plugin: 'shared-memory', file: 'local.db', tables: ['memories', 'work_sessions', 'sync_outbox'] },
+  { plugin: 'visual-thinking', file: path.join('diagrams', 'diagrams.db'), tables: ['diagrams'] },
+  { plugin: 'pattern-radar', file: path.join('radar', 'digests.db'), tables: ['digests', 'digest_data'] },
+];
+
+/**
+ * Hookify rules the plugins install into ~/.claude.
+ */
+export const KNOWN_HOOKIFY_RULES: KnownHookifyRule[] = [
+  { plugin: 'shared-memory', file: 'hookify.chess-timer-start.local.md', install: 'setup_chess_timer_hooks with action "install"' },
+  { plugin: 'shared-memory', file: 'hookify.chess-timer-complete.local.md', install: 'setup_chess_timer_hooks with action "install"' },
+  { plugin: 'shared-memory', file: 'hookify.chess-timer-commit.local.md', install: 'setup_chess_timer_hooks with action "install"' },
+  {
+    plugin: 'visual-thinking',
+    file: 'hookify.visual-thinking-brainstorm.local.md',
+    install: 'setup_brainstorm_integration with action "install"',
+  },
+];
+
+const PROFILE_SECTIONS = ['identity', 'technical', 'workingStyle', 'knowledge', 'personal', 'meta'];
+
+/**
+ * Run every check. Never throws; a check that crashes is reported as failed.
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorReport> {
+  const configDir = options.configDir || getConfigDir();
+  const claudeDir = options.claudeDir || path.join(os.homedir(), '.claude');
+  const adaptersDir = options.adaptersDir || path.join(os.homedir(), '.config', 'pattern-radar', 'adapters');
+  const env = options.env || process.env;
+  const checks: DoctorCheckResult[] = [];
+
+  const resolved = resolveConfig({
+    configPath: path.join(configDir, 'config.json'),
+    env,
+    legacyPaths: {
+      perplexity_search: path.join(claudeDir, 'perplexity-search', 'config.json'),
+      pattern_radar: path.join(configDir, 'pattern-radar.json'),
+    },
+  });
+  checks.push(...checkConfig(resolved));
+
+  const databases = KNOWN_DATABASES.map((db) => ({ ...db, file: path.join(configDir, db.file) }));
+  if (resolved.config.storage_backend === 'sqlite') {
+    databases.push({
+      plugin: 'core',
+      file: resolved.config.sqlite_path || path.join(configDir, 'backend.db'),
+      tables: ['memories'],
+    });
+  }
+  for (const db of databases) {
+    checks.push(guard(db.plugin, `database ${path.basename(db.file)}`, () => checkDatabase(db)));
+  }
+
+  const network = { fetch: options.fetch || fetch, offline: options.offline, timeoutMs: options.timeoutMs || DEFAULT_TIMEOUT_MS };
+  checks.push(await guardAsync('core', 'mem0', () => checkMem0(resolved.config, network)));
+  checks.push(
+    await guardAsync('perplexity-search', 'perplexity', () =>
+      checkPerplexity(env.PERPLEXITY_API_KEY || resolved.config.perplexity_search.api_key, network)
+    )
+  );
+
+  for (const name of listProfiles(configDir)) {
+    const check = name === DEFAULT_PROFILE ? 'profile' : `profile ${name}`;
+    checks.push(guard('core', check, () => checkProfile(getProfilePath(name, configDir))));
+  }
+  if (fs.existsSync(path.join(configDir, PROFILES_FILE))) {
+    checks.push(guard('core', 'profile rules', () => checkProfileRules(configDir)));
+  }
+
+  for (const rule of KNOWN_HOOKIFY_RULES) {
+    checks.push(guard(rule.plugin, `hookify ${rule.file}`, () => checkHookifyRule(path.join(claudeDir, rule.file), rule)));
+  }
+
+  checks.push(...(await checkAdapters(adaptersDir)));
+
+  const counts: Record<DoctorStatus, number> = { ok: 0, warn: 0, fail: 0, skip: 0 };
+  for (const check of checks) {
+    counts[check.status]++;
+  }
+  return { ok: counts.fail === 0, counts, checks };
+}
+
+/**
+ * Plain-text report grouped by plugin, with fixes under each problem.
+ */
+export function formatDoctorReport(report: DoctorReport): string {
+  const labels: Record<DoctorStatus, string> = { ok: '[OK]  ', warn: '[WARN]', fail: '[FAIL]', skip: '[SKIP]' };
+  const lines = ['brain-jar doctor', ''];
+
+  const plugins = [...new Set(report.checks.map((c) => c.plugin))];
+  for (const plugin of plugins) {
+    lines.push(plugin);
+    for (const check of report.checks.filter((c) => c.plugin === plugin)) {
+      lines.push(`  ${labels[check.status]} ${check.check}: ${check.message}`);
+      if (check.fix && check.status !== 'ok') {
+        lines.push(`         fix: ${check.fix}`);
+      }
+    }
+    lines.push('');
+  }
+
+  const { ok, warn, fail, skip } = report.counts;
+  lines.push(`${ok} ok, ${warn} warning(s), ${fail} failure(s), ${skip} skipped`);
+  return lines.join('\n');
+}
+
+// --- Checks ---
+
+function checkConfig(resolved: ReturnType<typeof resolveConfig>): DoctorCheckResult[] {
+  const results: DoctorCheckResult[] = [];
+
+  for (const issue of resolved.issues) {
+    results.push({
+      plugin: 'core',
+      check: `config ${issue.path}`,
+      status: 'fail',
+      message: `${issue.message} (using default)`,
+      fix:
+        issue.source === 'env'
+          ? `Fix or unset ${getConfigEnvName(issue.path)}`
+          : `Fix "${issue.path}" in ${resolved.configPath}`,
+    });
+  }
+  for (const warning of resolved.warnings) {
+    results.push({
+      plugin: 'core',
+      check: 'config',
+      status: 'warn',
+      message: warning,
+      fix: /legacy|plaintext/i.test(warning) ? 'Run validate_config with migrate: true' : undefined,
+    });
+  }
+
+  if (!resolved.fileFound && !resolved.config.mem0_api_key && resolved.config.storage_backend !== 'sqlite') {
+    results.push({
+      plugin: 'core',
+      check: 'config',
+      status: 'warn',
+      message: `${resolved.configPath} not found; no storage backend configured`,
+      fix: 'Run shared-memory with --setup, or set "storage_backend": "sqlite"',
+    });
+  } else if (results.length === 0) {
+    results.push({ plugin: 'core', check: 'config', status: 'ok', message: `${resolved.configPath} is valid` });
+  }
+
+  return results;
+}
+
+function checkDatabase(db: KnownDatabase): Omit<DoctorCheckResult, 'plugin' | 'check'> {
+  if (!fs.existsSync(db.file)) {
+    return { status: 'skip', message: `${db.file} not created yet` };
+  }
+
+  let conn: Database.Database | undefined;
+  try {
+    conn = new Database(db.file, { readonly: true, fileMustExist: true });
+    const integrity = conn.pragma('quick_check', { simple: true }) as string;
+    const version = conn.pragma('user_version', { simple: true }) as number;
+    const tables = new Set(
+      (conn.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as { name: string }[]).map((t) => t.name)
+    );
+    const missing = db.tables.filter((t) => !tables.has(t));
+
+    if (integrity !== 'ok') {
+      return {
+        status: 'fail',
+        message: `integrity check failed: ${integrity}`,
+        fix: `Stop the ${db.plugin} server, back up ${db.file}, then run: sqlite3 "${db.file}" ".recover" | sqlite3 recovered.db`,
+      };
+    }
+    if (missing.length > 0) {
+      return {
+        status: 'fail',
+        message: `missing table(s) ${missing.join(', ')} (schema version ${version})`,
+        fix: `Restart the ${db.plugin} server to recreate them`,
+      };
+    }
+    if (version === 0) {
+      return {
+        status: 'warn',
+        message: `integrity ok, but the schema predates versioned migrations (${tables.size} tables)`,
+        fix: `Restart the ${db.plugin} server to migrate it (a backup is taken first)`,
+      };
+    }
+    return { status: 'ok', message: `integrity ok, schema version ${version}, ${tables.size} tables` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return /locked|busy/i.test(message)
+      ? { status: 'warn', message: `database busy: ${message}`, fix: 'Run doctor again when the plugin is idle' }
+      : {
+          status: 'fail',
+          message: `cannot open: ${message}`,
+          fix: `Move ${db.file} aside (the ${db.plugin} server recreates it), or restore it from a backup`,
+        };
+  } finally {
+    conn?.close();
+  }
+}
+
+interface NetworkOptions {
+  fetch: typeof fetch;
+  offline?: boolean;
+  timeoutMs: number;
+}
+
+async function checkMem0(
+  config: BrainJarSettings,
+  network: NetworkOptions
+): Promise<Omit<DoctorCheckResult, 'plugin' | 'check'>> {
+  if (config.storage_backend === 'sqlite') {
+    return { status: 'skip', message: 'using the local SQLite backend' };
+  }
+  if (!config.mem0_api_key) {
+    return {
+      status: 'skip',
+      message: 'no Mem0 API key; memories stay local',
+      fix: 'Run shared-memory with --setup to enable cloud sync',
+    };
+  }
+  if (network.offline) {
+    return { status: 'skip', message: 'offline mode' };
+  }
+
+  const response = await request(network, MEM0_PING_URL, {
+    method: 'GET',
+    headers: { Authorization: `Token ${config.mem0_api_key}` },
+  });
+  if ('error' in response) {
+    return { status: 'fail', message: `Mem0 unreachable: ${response.error}`, fix: 'Check your network; writes are queued until Mem0 is back (get_sync_status)' };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { status: 'fail', message: `Mem0 rejected the API key (HTTP ${response.status})`, fix: 'Create a new key at https://app.mem0.ai and run --setup' };
+  }
+  if (response.status >= 500) {
+    return { status: 'warn', message: `Mem0 returned HTTP ${response.status}`, fix: 'Mem0 may be having an outage; writes are queued meanwhile' };
+  }
+  return { status: 'ok', message: `Mem0 reachable (HTTP ${response.status})` };
+}
+
+async function checkPerplexity(
+  apiKey: string | undefined,
+  network: NetworkOptions
+): Promise<Omit<DoctorCheckResult, 'plugin' | 'check'>> {
+  if (!apiKey) {
+    return {
+      status: 'skip',
+      message: 'no Perplexity API key',
+      fix: 'Run perplexity-search with --setup or set PERPLEXITY_API_KEY',
+    };
+  }
+  if (network.offline) {
+    return { status: 'skip', message: 'offline mode' };
+  }
+
+  // An empty request is rejected before any search runs: 401 means a bad key
+  const response = await request(network, PERPLEXITY_URL, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: '{}',
+  });
+  if ('error' in response) {
+    return { status: 'fail', message: `Perplexity unreachable: ${response.error}`, fix: 'Check your network connection' };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return {
+      status: 'fail',
+      message: `Perplexity rejected the API key (HTTP ${response.status})`,
+      fix: 'Create a new key at https://www.perplexity.ai/settings/api and run --setup',
+    };
+  }
+  if (response.status >= 500) {
+    return { status: 'warn', message: `Perplexity returned HTTP ${response.status}`, fix: 'Perplexity may be having an outage' };
+  }
+  return { status: 'ok', message: 'Perplexity reachable, API key accepted' };
+}
+
+function checkProfileRules(configDir: string): Omit<DoctorCheckResult, 'plugin' | 'check'> {
+  const settings = loadProfileSettings(configDir);
+  const existing = new Set(listProfiles(configDir));
+  const missing = [...new Set([settings.active, ...settings.rules.map((r) => r.profile)])].filter((n) => !existing.has(n));
+  if (missing.length > 0) {
+    return {
+      status: 'warn',
+      message: `${PROFILES_FILE} refers to profile(s) that don't exist yet: ${missing.join(', ')}`,
+      fix: 'Create them with switch_profile (create: true), or fix the rules with set_profile_rule',
+    };
+  }
+  return { status: 'ok', message: `active profile "${settings.active}", ${settings.rules.length} scope rule(s)` };
+}
+
+function checkProfile(profilePath: string): Omit<DoctorCheckResult, 'plugin' | 'check'> {
+  if (!fs.existsSync(profilePath)) {
+    return { status: 'skip', message: 'no profile yet', fix: 'Use get_onboarding_questions to build one' };
+  }
+
+  let profile: unknown;
+  try {
+    profile = JSON.parse(fs.readFileSync(profilePath, 'utf-8'));
+  } catch (error) {
+    return {
+      status: 'fail',
+      message: `${profilePath} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      fix: 'Fix the file, or move it aside and restore a snapshot with get_profile_history',
+    };
+  }
+
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return { status: 'fail', message: `${profilePath} is not a JSON object`, fix: 'Move it aside; a fresh profile is created on next use' };
+  }
+
+  const record = profile as Record<string, unknown>;
+  const missing = PROFILE_SECTIONS.filter((s) => !record[s] || typeof record[s] !== 'object');
+  if (missing.length > 0) {
+    return {
+      status: 'warn',
+      message: `profile is missing section(s): ${missing.join(', ')}`,
+      fix: 'Use update_user_profile to fill them in; missing sections are treated as empty',
+    };
+  }
+  return { status: 'ok', message: `profile valid (version ${String(record.version ?? 'unknown')})` };
+}
+
+function checkHookifyRule(rulePath: string, rule: KnownHookifyRule): Omit<DoctorCheckResult, 'plugin' | 'check'> {
+  if (!fs.existsSync(rulePath)) {
+    return { status: 'skip', message: 'not installed', fix: `Install with ${rule.install}` };
+  }
+
+  const content = fs.readFileSync(rulePath, 'utf-8');
+  const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!frontmatter) {
+    return { status: 'fail', message: 'missing --- frontmatter; hookify will ignore it', fix: `Reinstall with ${rule.install}` };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of frontmatter[1].split(/\r?\n/)) {
+    const match = line.match(/^(\w+):\s*(.*)$/);
+    if (match) fields[match[1]] = match[2].trim();
+  }
+
+  const missing = ['name', 'event'].filter((key) => !fields[key]);
+  if (missing.length > 0) {
+    return { status: 'fail', message: `frontmatter lacks ${missing.join(', ')}`, fix: `Reinstall with ${rule.install}` };
+  }
+  if (fields.pattern) {
+    try {
+      new RegExp(fields.pattern);
+    } catch {
+      return { status: 'fail', message: `pattern is not a valid regular expression`, fix: `Reinstall with ${rule.install}` };
+    }
+  }
+  if (fields.enabled === 'false') {
+    return { status: 'warn', message: 'installed but disabled', fix: `Set enabled: true in ${rulePath}` };
+  }
+  return { status: 'ok', message: `installed (${fields.event} event)` };
+}
+
+async function checkAdapters(adaptersDir: string): Promise<DoctorCheckResult[]> {
+  if (!fs.existsSync(adaptersDir)) {
+    return [{ plugin: 'pattern-radar', check: 'custom adapters', status: 'skip', message: `no ${adaptersDir}` }];
+  }
+
+  const files = fs.readdirSync(adaptersDir).filter((f) => f.endsWith('.js'));
+  if (files.length === 0) {
+    return [{ plugin: 'pattern-radar', check: 'custom adapters', status: 'skip', message: `no .js files in ${adaptersDir}` }];
+  }
+
+  const results: DoctorCheckResult[] = [];
+  for (const file of files) {
+    const check = `adapter ${file}`;
+    try {
+      // Same lookup as pattern-radar's loader: default export or any export with type + createInstance
+      const module = await import(path.join(adaptersDir, file));
+      const adapter = [module.default, ...Object.values(module)].find(
+        (v) => v && typeof v === 'object' && 'type' in v && typeof (v as { createInstance?: unknown }).createInstance === 'function'
+      ) as { type: string } | undefined;
+
+      results.push(
+        adapter
+          ? { plugin: 'pattern-radar', check, status: 'ok', message: `loads adapter "${adapter.type}"` }
+          : {
+              plugin: 'pattern-radar',
+              check,
+              status: 'fail',
+              message: 'no adapter export (needs type and createInstance)',
+              fix: 'Export the adapter as default, or remove the file',
+            }
+      );
+    } catch (error) {
+      results.push({
+        plugin: 'pattern-radar',
+        check,
+        status: 'fail',
+        message: `failed to load: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        fix: `Fix or remove ${path.join(adaptersDir, file)}`,
+      });
+    }
+  }
+  return results;
+}
+
+// --- Helpers ---
+
+async function request(
+  network: NetworkOptions,
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string }
+): Promise<{ status: number } | { error: string }> {
+  try {
+    const response = await network.fetch(url, { ...init, signal: AbortSignal.timeout(network.timeoutMs) });
+    return { status: response.status };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'request failed' };
+  }
+}
+
+function guard(
+  plugin: string,
+  check: string,
+  run: () => Omit<DoctorCheckResult, 'plugin' | 'check'>
+): DoctorCheckResult {
+  try {
+    return { plugin, check, ...run() };
+  } catch (error) {
+    return { plugin, check, status: 'fail', message: `check crashed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+async function guardAsync(
+  plugin: string,
+  check: string,
+  run: () => Promise<Omit<DoctorCheckResult, 'plugin' | 'check'>>
+): Promise<DoctorCheckResult> {
+  try {
+    return { plugin, check, ...(await run()) };
+  } catch (error) {
+    return { plugin, check, status: 'fail', message: `check crashed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
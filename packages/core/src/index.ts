@@ -2,7 +2,7 @@
  * @brain-jar/core
  *
  * Shared core utilities for brain-jar plugins.
- * Provides unified types, Mem0 client, and configuration.
+ * Provides unified types, storage backends (Mem0 or local SQLite), and configuration.
  */
 
 // Types
@@ -16,10 +16,98 @@ export {
   saveConfig,
   loadConfig,
   getMissingConfigMessage,
+  resolveConfig,
+  getPluginConfig,
+  updateConfigSection,
+  migrateLegacyConfig,
+  getConfigEnvName,
+  maskConfigSecrets,
+  LEGACY_CONFIG_PATHS,
+  type ConfigIssue,
+  type ConfigValueSource,
+  type ResolvedConfig,
+  type ResolveConfigOptions,
 } from './config';
+export {
+  brainJarConfigSchema,
+  sharedMemoryConfigSchema,
+  perplexitySearchConfigSchema,
+  patternRadarConfigSchema,
+  retentionRuleSchema,
+  CONFIG_VERSION,
+  CONFIG_SECTIONS,
+  SECRET_CONFIG_PATHS,
+  type BrainJarSettings,
+  type SharedMemorySettings,
+  type PerplexitySearchSettings,
+  type PatternRadarSettings,
+  type ConfigSection,
+} from './config-schema';
+
+// Secrets
+export {
+  EncryptedFileSecrets,
+  parseSecretRef,
+  isSecretRef,
+  resolveSecret,
+  storeSecret,
+  runSecretCommand,
+  registerSecret,
+  redactSecrets,
+  redactValue,
+  installLogRedaction,
+  redactTransport,
+  SECRETS_FILE,
+  SECRETS_KEY_FILE,
+  SECRETS_PASSPHRASE_ENV,
+  type SecretRef,
+  type SecretsProvider,
+} from './secrets';
+
+// Health checks
+export {
+  runDoctor,
+  formatDoctorReport,
+  KNOWN_DATABASES,
+  KNOWN_HOOKIFY_RULES,
+  type DoctorStatus,
+  type DoctorCheckResult,
+  type DoctorReport,
+  type DoctorOptions,
+} from './doctor';
+
+// Schema migrations
+export {
+  runMigrations,
+  getSchemaVersion,
+  type Migration,
+  type MigrationResult,
+  type MigrationOptions,
+} from './migrations';
+
+// Named profiles
+export {
+  selectProfile,
+  readUserProfile,
+  getProfilePath,
+  listProfiles,
+  loadProfileSettings,
+  saveProfileSettings,
+  matchesScopePattern,
+  isValidProfileName,
+  DEFAULT_PROFILE,
+  PROFILE_ENV,
+  PROFILES_FILE,
+  type ProfileRule,
+  type ProfileSettings,
+  type ProfileSelection,
+  type SelectProfileOptions,
+} from './profiles';
 
-// Mem0 client
+// Storage backends
 export { Mem0Client } from './mem0-client';
+export { SqliteBackend } from './sqlite-backend';
+export { createMemoryBackend, DEFAULT_SQLITE_PATH } from './backend';
 
 // Instructions
 export { getInstructions, USER_INSTRUCTIONS_PATH, DEFAULT_INSTRUCTIONS } from './instructions';
@@ -30,5 +118,13 @@ export {
   detectScopeWithDetails,
   isValidScope,
   parseScope,
+  getParentScope,
+  getScopeChain,
+  isScopeWithin,
+  getProjectSettings,
+  PROJECT_CONFIG_FILE,
   type ScopeDetectionResult,
+  type ProjectConfig,
+  type WorkspacePackage,
+  type WorkspaceManager,
 } from './scope';
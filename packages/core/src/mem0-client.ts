@@ -3,8 +3,17 @@
  * Provides unified access to Mem0 for memory and profile storage.
  */
 
-import { Memory, ActivitySummary, UserProfile, ProfileSnapshot } from './types';
+import {
+  Memory,
+  ActivitySummary,
+  UserProfile,
+  ProfileSnapshot,
+  MemoryBackend,
+  MemoryQueryOptions,
+  AddMemoryOptions,
+} from './types';
 import { getInstructions } from './instructions';
+import { DEFAULT_PROFILE, getSnapshotProfileName } from './profiles';
 
 // Mem0 SDK types (simplified)
 interface Mem0Memory {
@@ -32,7 +41,8 @@ interface Mem0AddResult {
   metadata?: Record<string, unknown>;
 }
 
-export class Mem0Client {
+export class Mem0Client implements MemoryBackend {
+  readonly kind = 'mem0' as const;
   private client: any; // mem0ai client
   private userId: string;
 
@@ -52,10 +62,34 @@ export class Mem0Client {
     return response?.results || [];
   }
 
+  // Helper to check exact-match metadata filters
+  private matchesFilters(metadata: Record<string, unknown> | undefined, filters?: Record<string, unknown>): boolean {
+    if (!filters) return true;
+    return Object.entries(filters).every(([key, value]) => metadata?.[key] === value);
+  }
+
+  // Helper to map a Mem0 record into the shared Memory shape
+  private toMemory(r: Mem0Memory | Mem0SearchResult): Memory {
+    const record = r as Mem0Memory;
+    return {
+      id: r.id,
+      content: r.memory,
+      scope: (r.metadata?.scope as string) || 'global',
+      tags: (r.metadata?.tags as string[]) || [],
+      source: {
+        agent: (r.metadata?.source_agent as string) || 'unknown',
+        action: r.metadata?.source_action as string | undefined,
+      },
+      metadata: r.metadata,
+      created_at: record.created_at ? new Date(record.created_at) : new Date(),
+      updated_at: record.updated_at ? new Date(record.updated_at) : new Date(),
+    };
+  }
+
   async add(
     content: string,
     metadata: Record<string, unknown> = {},
-    options?: { agentId?: string; skipInstructions?: boolean }
+    options?: AddMemoryOptions
   ): Promise<string> {
     // v2 API: add() expects messages array as first param
     const messages = [{ role: 'user', content }];
@@ -83,7 +117,7 @@ export class Mem0Client {
   async search(
     query: string,
     limit: number = 10,
-    options?: { agentId?: string }
+    options?: MemoryQueryOptions
   ): Promise<Memory[]> {
     // v2 API: search() uses user_id at top level
     const searchOptions: Record<string, unknown> = {
@@ -97,21 +131,12 @@ export class Mem0Client {
     const response = await this.client.search(query, searchOptions);
     const results: Mem0SearchResult[] = this.extractResults(response);
 
-    return results.map((r) => ({
-      id: r.id,
-      content: r.memory,
-      scope: (r.metadata?.scope as string) || 'global',
-      tags: (r.metadata?.tags as string[]) || [],
-      source: {
-        agent: (r.metadata?.source_agent as string) || 'unknown',
-        action: r.metadata?.source_action as string | undefined,
-      },
-      created_at: new Date(),
-      updated_at: new Date(),
-    }));
+    return results
+      .filter((r) => this.matchesFilters(r.metadata, options?.filters))
+      .map((r) => this.toMemory(r));
   }
 
-  async getAll(options?: { agentId?: string }): Promise<Memory[]> {
+  async getAll(options?: MemoryQueryOptions): Promise<Memory[]> {
     // v2 API: getAll() uses user_id at top level
     const getAllOptions: Record<string, unknown> = {
       user_id: this.userId,
@@ -123,27 +148,31 @@ export class Mem0Client {
     const response = await this.client.getAll(getAllOptions);
     const results: Mem0Memory[] = this.extractResults(response);
 
-    return results.map((r) => ({
-      id: r.id,
-      content: r.memory,
-      scope: (r.metadata?.scope as string) || 'global',
-      tags: (r.metadata?.tags as string[]) || [],
-      source: {
-        agent: (r.metadata?.source_agent as string) || 'unknown',
-        action: r.metadata?.source_action as string | undefined,
-      },
-      created_at: r.created_at ? new Date(r.created_at) : new Date(),
-      updated_at: r.updated_at ? new Date(r.updated_at) : new Date(),
-    }));
+    return results
+      .filter((r) => this.matchesFilters(r.metadata, options?.filters))
+      .map((r) => this.toMemory(r));
   }
 
+  /**
+   * Errors (unknown id, auth, outage) are thrown, so callers such as the
+   * shared-memory outbox can record what went wrong.
+   */
+  async update(memoryId: string, content: string, metadata?: Record<string, unknown>): Promise<boolean> {
+    await this.client.update(memoryId, { text: content, metadata });
+    return true;
+  }
+
+  /**
+   * A memory that is already gone counts as deleted; other errors are thrown.
+   */
   async delete(memoryId: string): Promise<boolean> {
     try {
       await this.client.delete(memoryId);
-      return true;
-    } catch {
-      return false;
+    } catch (error) {
+      // The client only passes on the response body, e.g. {"detail":"Memory not found"}
+      if (!(error instanceof Error && /not found|does not exist/i.test(error.message))) throw error;
     }
+    return true;
   }
 
   // --- Profile Snapshot Methods ---
@@ -160,10 +189,10 @@ export class Mem0Client {
   }
 
   /**
-   * Gets all profile snapshots from today.
+   * Gets all snapshots of one profile from today.
    * Returns array of { id, timestamp } sorted oldest first.
    */
-  private async getTodaysSnapshots(): Promise<Array<{ id: string; timestamp: string }>> {
+  private async getTodaysSnapshots(profileName: string): Promise<Array<{ id: string; timestamp: string }>> {
     try {
       const todayPrefix = this.getTodayPrefix();
       const response = await this.client.getAll({
@@ -174,7 +203,7 @@ export class Mem0Client {
 
       // Filter to profile snapshots from today and extract id + timestamp
       const todaysSnapshots = results
-        .filter((r) => r.metadata?.type === 'profile-snapshot')
+        .filter((r) => r.metadata?.type === 'profile-snapshot' && getSnapshotProfileName(r.metadata) === profileName)
         .filter((r) => {
           const timestamp = (r.metadata?.timestamp as string) || '';
           return timestamp.startsWith(todayPrefix);
@@ -194,7 +223,7 @@ export class Mem0Client {
 
   /**
    * One-time migration: Prune profile history to one snapshot per day.
-   * Keeps the latest snapshot from each day, deletes the rest.
+   * Keeps the latest snapshot of each profile from each day, deletes the rest.
    * Returns count of deleted snapshots.
    */
   async pruneProfileHistory(): Promise<number> {
@@ -205,7 +234,7 @@ export class Mem0Client {
       });
       const results: Mem0Memory[] = this.extractResults(response);
 
-      // Group snapshots by day
+      // Group snapshots by profile and day
       const byDay = new Map<string, Array<{ id: string; timestamp: string }>>();
 
       for (const r of results) {
@@ -214,10 +243,11 @@ export class Mem0Client {
         const day = ts.split('T')[0];
         if (!day) continue;
 
-        if (!byDay.has(day)) {
-          byDay.set(day, []);
+        const key = `${getSnapshotProfileName(r.metadata)}|${day}`;
+        if (!byDay.has(key)) {
+          byDay.set(key, []);
         }
-        byDay.get(day)!.push({ id: r.id, timestamp: ts });
+        byDay.get(key)!.push({ id: r.id, timestamp: ts });
       }
 
       // For each day, keep only the latest snapshot
@@ -228,7 +258,7 @@ export class Mem0Client {
         // Sort by timestamp descending, keep first (latest), delete rest
         snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
         for (let i = 1; i < snapshots.length; i++) {
-          const deleted = await this.delete(snapshots[i].id);
+          const deleted = await this.delete(snapshots[i].id).catch(() => false);
           if (deleted) deletedCount++;
         }
       }
@@ -244,7 +274,7 @@ export class Mem0Client {
    * Gets the latest profile snapshot from Mem0.
    * Returns null if no profile exists.
    */
-  async getLatestProfile(): Promise<ProfileSnapshot | null> {
+  async getLatestProfile(profileName: string = DEFAULT_PROFILE): Promise<ProfileSnapshot | null> {
     try {
       const response = await this.client.getAll({
         user_id: this.userId,
@@ -254,7 +284,7 @@ export class Mem0Client {
 
       // Filter to profile snapshots and sort by timestamp descending
       const profileSnapshots = results
-        .filter((r) => r.metadata?.type === 'profile-snapshot')
+        .filter((r) => r.metadata?.type === 'profile-snapshot' && getSnapshotProfileName(r.metadata) === profileName)
         .sort((a, b) => {
           const tsA = (a.metadata?.timestamp as string) || '';
           const tsB = (b.metadata?.timestamp as string) || '';
@@ -272,6 +302,7 @@ export class Mem0Client {
           profile,
           timestamp: (latest.metadata?.timestamp as string) || latest.created_at || new Date().toISOString(),
           mem0Id: latest.id,
+          profileName,
         };
       } catch {
         console.warn('Failed to parse profile snapshot from Mem0');
@@ -286,14 +317,14 @@ export class Mem0Client {
   /**
    * Saves a new profile snapshot to Mem0.
    * Uses agent_id 'profile-mgr' to partition from regular memories.
-   * Prunes any existing snapshots from today to ensure only one per day.
+   * Prunes any existing snapshots of the profile from today to ensure only one per day.
    */
-  async saveProfileSnapshot(profile: UserProfile): Promise<string | null> {
+  async saveProfileSnapshot(profile: UserProfile, profileName: string = DEFAULT_PROFILE): Promise<string | null> {
     try {
       // Prune existing snapshots from today (keep only one per day)
-      const todaysSnapshots = await this.getTodaysSnapshots();
+      const todaysSnapshots = await this.getTodaysSnapshots(profileName);
       for (const snapshot of todaysSnapshots) {
-        await this.delete(snapshot.id);
+        await this.delete(snapshot.id).catch(() => false); // Pruned again next save
       }
 
       const timestamp = new Date().toISOString();
@@ -308,6 +339,7 @@ export class Mem0Client {
           timestamp,
           version: profile.version || '1.0.0',
           scope: 'global',
+          profile_name: profileName,
         },
       });
       const results = this.extractResults<Mem0AddResult>(result);
@@ -323,7 +355,11 @@ export class Mem0Client {
    * Gets profile history from Mem0.
    * Returns all snapshots, optionally filtered by date.
    */
-  async getProfileHistory(since?: Date, limit?: number): Promise<ProfileSnapshot[]> {
+  async getProfileHistory(
+    since?: Date,
+    limit?: number,
+    profileName: string = DEFAULT_PROFILE
+  ): Promise<ProfileSnapshot[]> {
     try {
       const response = await this.client.getAll({
         user_id: this.userId,
@@ -331,9 +367,9 @@ export class Mem0Client {
       });
       const results: Mem0Memory[] = this.extractResults(response);
 
-      // Filter to profile snapshots
+      // Filter to snapshots of this profile
       let snapshots: ProfileSnapshot[] = results
-        .filter((r) => r.metadata?.type === 'profile-snapshot')
+        .filter((r) => r.metadata?.type === 'profile-snapshot' && getSnapshotProfileName(r.metadata) === profileName)
         .map((r): ProfileSnapshot | null => {
           try {
             const profile = JSON.parse(r.memory) as UserProfile;
@@ -341,6 +377,7 @@ export class Mem0Client {
               profile,
               timestamp: (r.metadata?.timestamp as string) || r.created_at || '',
               mem0Id: r.id,
+              profileName,
             };
           } catch {
             return null;
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { runMigrations, getSchemaVersion, type Migration } from './migrations';
+
+describe('runMigrations', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let db: Database.Database;
+
+  const migrations: Migration[] = [
+    {
+      version: 1,
+      name: 'baseline',
+      up: (d) => d.exec(`CREATE TABLE IF NOT EXISTS notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)`),
+    },
+    {
+      version: 2,
+      name: 'add-pinned',
+      up: (d) => d.exec(`ALTER TABLE notes ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0`),
+    },
+  ];
+
+  const backups = () => fs.readdirSync(tmpDir).filter((f) => f.endsWith('.bak'));
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brain-jar-migrations-'));
+    dbPath = path.join(tmpDir, 'test.db');
+    db = new Database(dbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should apply all migrations to a new database without a backup', () => {
+    const result = runMigrations(db, migrations);
+
+    expect(result).toEqual({ from: 0, to: 2, applied: ['1 baseline', '2 add-pinned'], backupPath: null });
+    expect(getSchemaVersion(db)).toBe(2);
+    expect(backups()).toEqual([]);
+  });
+
+  it('should only apply pending migrations and back up first', () => {
+    runMigrations(db, migrations.slice(0, 1));
+    db.prepare('INSERT INTO notes (body) VALUES (?)').run('kept');
+
+    const result = runMigrations(db, migrations);
+
+    expect(result.applied).toEqual(['2 add-pinned']);
+    expect(result.backupPath).toMatch(/test\.db\.v1-\d{8}T\d{6}\.bak$/);
+    expect(db.prepare('SELECT body, pinned FROM notes').all()).toEqual([{ body: 'kept', pinned: 0 }]);
+
+    const backup = new Database(result.backupPath!, { readonly: true });
+    expect(getSchemaVersion(backup)).toBe(1);
+    expect(backup.prepare('SELECT body FROM notes').all()).toEqual([{ body: 'kept' }]);
+    backup.close();
+
+    expect(runMigrations(db, migrations).applied).toEqual([]);
+  });
+
+  it('should upgrade databases created before versioning', () => {
+    db.exec(`CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)`);
+
+    const result = runMigrations(db, migrations);
+
+    expect(result).toMatchObject({ from: 0, to: 2 });
+    expect(backups()).toHaveLength(1);
+  });
+
+  it('should roll back a failing migration and keep earlier ones', () => {
+    const broken: Migration[] = [
+      migrations[0],
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.exec(`ALTER TABLE notes ADD COLUMN pinned INTEGER`);
+          d.exec(`INSERT INTO missing_table VALUES (1)`);
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, broken)).toThrow(/Migration 2 \(broken\) failed/);
+    expect(getSchemaVersion(db)).toBe(1);
+    const columns = db.prepare(`PRAGMA table_info(notes)`).all() as { name: string }[];
+    expect(columns.map((c) => c.name)).toEqual(['id', 'body']);
+  });
+
+  it('should refuse databases from a newer version', () => {
+    db.pragma('user_version = 5');
+
+    expect(() => runMigrations(db, migrations)).toThrow(/schema version 5, newer than this plugin supports \(2\)/);
+  });
+
+  it('should reject gaps and out-of-order versions', () => {
+    expect(() => runMigrations(db, [migrations[1]])).toThrow(/numbered 1\.\.n/);
+    expect(getSchemaVersion(db)).toBe(0);
+  });
+});
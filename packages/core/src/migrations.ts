@@ -0,0 +1,115 @@
+/**
+ * Versioned schema migrations for brain-jar SQLite databases.
+ *
+ * A database's schema version is its `user_version` pragma. Each store keeps
+ * an ordered list of migrations (versions 1, 2, 3, ...); runMigrations applies
+ * the ones above the current version, each in its own transaction, after
+ * copying an existing database aside. Version 1 is each store's baseline and
+ * must also upgrade databases created before versioning (user_version 0 with
+ * tables already present), so it sticks to IF NOT EXISTS and column checks.
+ */
+
+import * as fs from 'fs';
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number; // 1-based, no gaps
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: string[]; // "2 add-expiry", ...
+  backupPath: string | null; // Copy taken before migrating, if any
+}
+
+export interface MigrationOptions {
+  backup?: boolean; // Copy the database before migrating (default: true)
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Bring a database up to the latest migration. Throws if the database was
+ * written by a newer version of the plugin, or if a migration fails (that
+ * migration is rolled back; earlier ones stay applied).
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[],
+  options: MigrationOptions = {}
+): MigrationResult {
+  validateMigrations(migrations);
+
+  const from = getSchemaVersion(db);
+  const latest = migrations.length;
+  if (from > latest) {
+    throw new Error(
+      `${db.name} has schema version ${from}, newer than this plugin supports (${latest}); update the plugin`
+    );
+  }
+
+  const pending = migrations.filter((m) => m.version > from);
+  if (pending.length === 0) {
+    return { from, to: from, applied: [], backupPath: null };
+  }
+
+  const backupPath = options.backup === false ? null : backupDatabase(db, from);
+  const applied: string[] = [];
+
+  for (const migration of pending) {
+    try {
+      // IMMEDIATE takes the write lock up front, so a second process opening
+      // the same file waits and then sees the new version instead of re-running it
+      db.transaction(() => {
+        if (getSchemaVersion(db) >= migration.version) return;
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+        applied.push(`${migration.version} ${migration.name}`);
+      }).immediate();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      const restore = backupPath ? `; the pre-migration copy is at ${backupPath}` : '';
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed for ${db.name}: ${reason}${restore}`);
+    }
+  }
+
+  return { from, to: getSchemaVersion(db), applied, backupPath };
+}
+
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migrations must be numbered 1..n in order; found version ${migration.version} at position ${index + 1}`
+      );
+    }
+  });
+}
+
+/**
+ * Copy a database with existing data next to itself, e.g.
+ * local.db.v1-20260301T120000.bak. New and in-memory databases are skipped.
+ */
+function backupDatabase(db: Database.Database, version: number): string | null {
+  if (db.memory || !fs.existsSync(db.name)) {
+    return null;
+  }
+
+  const hasTables = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1`).get();
+  if (!hasTables) {
+    return null;
+  }
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+  const backupPath = `${db.name}.v${version}-${stamp}.bak`;
+  if (!fs.existsSync(backupPath)) {
+    // Consistent copy even with WAL or other connections open
+    db.prepare(`VACUUM INTO ?`).run(backupPath);
+  }
+  return backupPath;
+}
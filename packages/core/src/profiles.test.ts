@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  selectProfile,
+  readUserProfile,
+  getProfilePath,
+  listProfiles,
+  loadProfileSettings,
+  saveProfileSettings,
+  matchesScopePattern,
+} from './profiles';
+
+describe('profiles', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'brain-jar-profiles-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should keep the default profile at user-profile.json', () => {
+    expect(getProfilePath('default', configDir)).toBe(path.join(configDir, 'user-profile.json'));
+    expect(getProfilePath('work', configDir)).toBe(path.join(configDir, 'profiles', 'work.json'));
+    expect(() => getProfilePath('../etc', configDir)).toThrow(/Invalid profile name/);
+  });
+
+  it('should list the default profile and profiles on disk', () => {
+    fs.mkdirSync(path.join(configDir, 'profiles'));
+    fs.writeFileSync(path.join(configDir, 'profiles', 'work.json'), '{}');
+    fs.writeFileSync(path.join(configDir, 'profiles', 'notes.txt'), '');
+
+    expect(listProfiles(configDir)).toEqual(['default', 'work']);
+  });
+
+  it('should match scope patterns', () => {
+    expect(matchesScopePattern('project:acme-api', 'project:acme-*')).toBe(true);
+    expect(matchesScopePattern('project:acme-api/web', 'project:acme-*')).toBe(true);
+    expect(matchesScopePattern('project:acme', 'project:acme-*')).toBe(false);
+    expect(matchesScopePattern('project:side/app', 'project:side')).toBe(true);
+    expect(matchesScopePattern('project:sidecar', 'project:side')).toBe(false);
+    expect(matchesScopePattern('team:acme.platform', 'team:acme.*')).toBe(true);
+  });
+
+  describe('selectProfile', () => {
+    beforeEach(() => {
+      saveProfileSettings(
+        {
+          active: 'personal',
+          rules: [
+            { scope: 'project:acme-*', profile: 'work' },
+            { scope: 'project:*', profile: 'oss' },
+          ],
+        },
+        configDir
+      );
+    });
+
+    it('should use the first matching rule, then the active profile', () => {
+      expect(selectProfile({ scope: 'project:acme-billing', configDir, env: {} })).toEqual({
+        name: 'work',
+        reason: 'rule',
+        rule: { scope: 'project:acme-*', profile: 'work' },
+      });
+      expect(selectProfile({ scope: 'project:dotfiles', configDir, env: {} }).name).toBe('oss');
+      expect(selectProfile({ scope: 'global', configDir, env: {} })).toEqual({ name: 'personal', reason: 'active' });
+    });
+
+    it('should let BRAIN_JAR_PROFILE override the rules', () => {
+      expect(selectProfile({ scope: 'project:acme-billing', configDir, env: { BRAIN_JAR_PROFILE: 'demo' } })).toEqual({
+        name: 'demo',
+        reason: 'env',
+      });
+    });
+  });
+
+  it('should drop invalid rules and survive a broken settings file', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const file = path.join(configDir, 'profiles.json');
+
+    fs.writeFileSync(file, JSON.stringify({ active: 'work', rules: [{ scope: 'project:x' }, { scope: 'global', profile: 'home' }] }));
+    expect(loadProfileSettings(configDir)).toEqual({ active: 'work', rules: [{ scope: 'global', profile: 'home' }] });
+
+    fs.writeFileSync(file, '{ broken');
+    expect(loadProfileSettings(configDir)).toEqual({ active: 'default', rules: [] });
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('should read the profile selected for a scope', () => {
+    saveProfileSettings({ active: 'default', rules: [{ scope: 'project:acme-*', profile: 'work' }] }, configDir);
+    fs.mkdirSync(path.join(configDir, 'profiles'));
+    fs.writeFileSync(path.join(configDir, 'profiles', 'work.json'), JSON.stringify({ identity: { role: 'Staff engineer' } }));
+
+    const work = readUserProfile({ scope: 'project:acme-api', configDir, env: {} });
+    expect(work.name).toBe('work');
+    expect(work.profile?.identity.role).toBe('Staff engineer');
+
+    expect(readUserProfile({ scope: 'global', configDir, env: {} })).toMatchObject({ name: 'default', profile: null });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Named user profiles (e.g. "work" and "personal" on the same machine).
+ *
+ * The default profile stays at ~/.config/brain-jar/user-profile.json; other
+ * profiles live in ~/.config/brain-jar/profiles/<name>.json. profiles.json
+ * records the active profile and the scope rules that pick one automatically:
+ *
+ *   { "active": "personal", "rules": [{ "scope": "project:acme-*", "profile": "work" }] }
+ *
+ * The profile that applies in a scope is BRAIN_JAR_PROFILE if set, else the
+ * first rule matching the scope, else the active profile. Every plugin reads
+ * the profile through selectProfile / readUserProfile so they agree; the one
+ * exception is shared-memory's switch_profile, which only overrides env and
+ * rules inside the shared-memory process.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getConfigDir } from './config';
+import { detectScope, isScopeWithin } from './scope';
+import type { UserProfile } from './types';
+
+export const DEFAULT_PROFILE = 'default';
+export const PROFILE_ENV = 'BRAIN_JAR_PROFILE';
+export const PROFILES_FILE = 'profiles.json';
+export const PROFILES_DIR = 'profiles';
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+const profileRuleSchema = z.object({
+  scope: z.string().min(1).describe('Scope or glob, e.g. "project:acme-*"'),
+  profile: z.string().regex(PROFILE_NAME_PATTERN),
+});
+
+const profileSettingsSchema = z.object({
+  active: z.string().regex(PROFILE_NAME_PATTERN).default(DEFAULT_PROFILE),
+  rules: z.array(profileRuleSchema).default([]),
+});
+
+export type ProfileRule = z.infer<typeof profileRuleSchema>;
+export type ProfileSettings = z.infer<typeof profileSettingsSchema>;
+
+export interface ProfileSelection {
+  name: string;
+  reason: 'env' | 'rule' | 'active';
+  rule?: ProfileRule; // The rule that matched, for reason 'rule'
+}
+
+export interface SelectProfileOptions {
+  scope?: string; // Defaults to the scope of the current directory
+  configDir?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * File holding a profile. The default profile keeps its original location.
+ */
+export function getProfilePath(name: string = DEFAULT_PROFILE, configDir: string = getConfigDir()): string {
+  if (!isValidProfileName(name)) {
+    throw new Error(`Invalid profile name "${name}": use lowercase letters, digits, "-" and "_"`);
+  }
+  return name === DEFAULT_PROFILE
+    ? path.join(configDir, 'user-profile.json')
+    : path.join(configDir, PROFILES_DIR, `${name}.json`);
+}
+
+/**
+ * Profiles that exist on disk, plus the default (always available).
+ */
+export function listProfiles(configDir: string = getConfigDir()): string[] {
+  const names = new Set([DEFAULT_PROFILE]);
+  const dir = path.join(configDir, PROFILES_DIR);
+  if (fs.existsSync(dir)) {
+    for (const file of fs.readdirSync(dir)) {
+      const name = file.replace(/\.json$/, '');
+      if (file.endsWith('.json') && isValidProfileName(name)) {
+        names.add(name);
+      }
+    }
+  }
+  return [...names].sort();
+}
+
+/**
+ * Read profiles.json. A missing or invalid file yields the defaults; invalid
+ * rules are dropped with a warning rather than disabling the rest.
+ */
+export function loadProfileSettings(configDir: string = getConfigDir()): ProfileSettings {
+  const file = path.join(configDir, PROFILES_FILE);
+  if (!fs.existsSync(file)) {
+    return profileSettingsSchema.parse({});
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.warn(`Profile settings at ${file} could not be read, using the default profile:`, error);
+    return profileSettingsSchema.parse({});
+  }
+
+  const rules = Array.isArray(raw.rules) ? raw.rules : [];
+  const validRules = rules.filter((rule) => profileRuleSchema.safeParse(rule).success);
+  if (validRules.length < rules.length) {
+    console.warn(`Ignoring ${rules.length - validRules.length} invalid profile rule(s) in ${file}`);
+  }
+
+  const parsed = profileSettingsSchema.safeParse({ ...raw, rules: validRules });
+  return parsed.success ? parsed.data : profileSettingsSchema.parse({ rules: validRules });
+}
+
+export function saveProfileSettings(settings: ProfileSettings, configDir: string = getConfigDir()): void {
+  const validated = profileSettingsSchema.parse(settings);
+  fs.mkdirSync(configDir, { recursive: true });
+  fs.writeFileSync(path.join(configDir, PROFILES_FILE), JSON.stringify(validated, null, 2));
+}
+
+/**
+ * Whether a scope matches a rule pattern. "*" matches any run of characters;
+ * a pattern without "*" also matches scopes nested below it.
+ *
+ * @example matchesScopePattern('project:acme-api/web', 'project:acme-*') // true
+ */
+export function matchesScopePattern(scope: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return isScopeWithin(scope, pattern);
+  }
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(scope);
+}
+
+/**
+ * The profile that applies in a scope, and why.
+ */
+export function selectProfile(options: SelectProfileOptions = {}): ProfileSelection {
+  const env = options.env ?? process.env;
+  const fromEnv = env[PROFILE_ENV];
+  if (fromEnv && isValidProfileName(fromEnv)) {
+    return { name: fromEnv, reason: 'env' };
+  }
+
+  const settings = loadProfileSettings(options.configDir);
+  const scope = options.scope ?? detectScope();
+  const rule = settings.rules.find((r) => matchesScopePattern(scope, r.scope));
+  if (rule) {
+    return { name: rule.profile, reason: 'rule', rule };
+  }
+  return { name: settings.active, reason: 'active' };
+}
+
+/**
+ * Read-only access to the profile that applies in a scope, for plugins that
+ * personalize output. profile is null if that profile has not been created
+ * (or is unreadable).
+ */
+export function readUserProfile(
+  options: SelectProfileOptions & { name?: string } = {}
+): { name: string; path: string; profile: UserProfile | null } {
+  const name = options.name ?? selectProfile(options).name;
+  const file = getProfilePath(name, options.configDir);
+  try {
+    return { name, path: file, profile: JSON.parse(fs.readFileSync(file, 'utf-8')) as UserProfile };
+  } catch {
+    return { name, path: file, profile: null };
+  }
+}
+
+/**
+ * Profile a stored snapshot belongs to. Snapshots from before named profiles
+ * have no profile_name and belong to the default profile.
+ */
+export function getSnapshotProfileName(metadata?: Record<string, unknown>): string {
+  return typeof metadata?.profile_name === 'string' ? metadata.profile_name : DEFAULT_PROFILE;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,31 +1,306 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { detectScope, detectScopeWithDetails, isValidScope, parseScope } from './scope';
+import {
+  detectScope,
+  detectScopeWithDetails,
+  isValidScope,
+  parseScope,
+  getParentScope,
+  getScopeChain,
+  isScopeWithin,
+  getProjectSettings,
+} from './scope';
+
+const REPO_ROOT = path.resolve(__dirname, '../../..');
 
 describe('scope detection', () => {
   describe('detectScope', () => {
-    it('should detect brain-jar project from current directory', () => {
+    it('should detect brain-jar project from the repository root', () => {
       // Running from brain-jar root, should detect package.json
-      const scope = detectScope();
+      const scope = detectScope(REPO_ROOT);
       expect(scope).toBe('project:brain-jar');
     });
 
-    it('should detect project from a specific directory', () => {
-      // Test with the core package directory
-      const coreDir = path.join(__dirname);
-      const scope = detectScope(coreDir);
-      // Should still find brain-jar from git root
-      expect(scope).toMatch(/^project:/);
+    it('should nest workspace packages under the project', () => {
+      // packages/* is an npm workspace of brain-jar
+      const scope = detectScope(__dirname);
+      expect(scope).toBe('project:brain-jar/packages/core');
     });
   });
 
   describe('detectScopeWithDetails', () => {
     it('should return full details about detection', () => {
-      const result = detectScopeWithDetails();
+      const result = detectScopeWithDetails(REPO_ROOT);
       expect(result.scope).toBe('project:brain-jar');
       expect(result.projectName).toBe('brain-jar');
       expect(result.source).toBe('package.json');
       expect(result.gitRoot).toBeDefined();
+      expect(result.workspace).toBeUndefined();
+    });
+  });
+
+  describe('workspaces', () => {
+    let tmpDir: string;
+
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, file), content);
+    };
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scope-test-'));
+      fs.mkdirSync(path.join(tmpDir, '.git'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should detect npm workspace packages from nested directories', () => {
+      write('package.json', JSON.stringify({ name: 'shop', workspaces: ['apps/*', 'libs/**', '!libs/legacy'] }));
+      write('apps/web/src/index.ts', '');
+      write('libs/ui/buttons/package.json', '{}');
+      write('libs/legacy/package.json', '{}');
+
+      const result = detectScopeWithDetails(path.join(tmpDir, 'apps/web/src'));
+      expect(result.scope).toBe('project:shop/apps/web');
+      expect(result.workspace).toEqual({ root: tmpDir, packagePath: 'apps/web', manager: 'npm' });
+
+      expect(detectScope(path.join(tmpDir, 'libs/ui/buttons'))).toBe('project:shop/libs/ui/buttons');
+      expect(detectScope(path.join(tmpDir, 'libs/legacy'))).toBe('project:shop');
+    });
+
+    it('should detect yarn-style and pnpm workspaces', () => {
+      write('package.json', JSON.stringify({ name: 'shop', workspaces: { packages: ['apps/*'] } }));
+      write('apps/web/index.ts', '');
+      expect(detectScope(path.join(tmpDir, 'apps/web'))).toBe('project:shop/apps/web');
+
+      write('package.json', JSON.stringify({ name: 'shop' }));
+      write('pnpm-workspace.yaml', "packages:\n  # apps\n  - 'apps/*'\n  - \"tools/cli\"\ncatalog:\n  - x\n");
+      write('tools/cli/index.ts', '');
+      expect(detectScopeWithDetails(path.join(tmpDir, 'tools/cli')).workspace?.manager).toBe('pnpm');
+      expect(detectScope(path.join(tmpDir, 'apps/web'))).toBe('project:shop/apps/web');
+    });
+
+    it('should detect Cargo workspace members', () => {
+      write('Cargo.toml', '[workspace]\nmembers = [\n  "crates/*",\n]\nexclude = ["crates/scratch"]\n');
+      write('crates/parser/Cargo.toml', '[package]\nname = "parser"\n');
+      write('crates/scratch/Cargo.toml', '[package]\nname = "scratch"\n');
+
+      const result = detectScopeWithDetails(path.join(tmpDir, 'crates/parser'));
+      expect(result.scope).toBe(`project:${path.basename(tmpDir).toLowerCase()}/crates/parser`);
+      expect(result.workspace?.manager).toBe('cargo');
+      expect(detectScopeWithDetails(path.join(tmpDir, 'crates/scratch')).workspace).toBeUndefined();
+    });
+
+    it('should read package names from Cargo.toml and pyproject.toml', () => {
+      write('Cargo.toml', '[package]\nname = "ripgrep"\nversion = "14.0.0"\n\n[dependencies]\nregex = "1"\n');
+      expect(detectScopeWithDetails(tmpDir)).toMatchObject({ scope: 'project:ripgrep', source: 'Cargo.toml' });
+
+      fs.unlinkSync(path.join(tmpDir, 'Cargo.toml'));
+      write('pyproject.toml', '[tool.poetry]\nname = "my-service"\n');
+      expect(detectScopeWithDetails(tmpDir)).toMatchObject({ scope: 'project:my-service', source: 'pyproject.toml' });
+    });
+  });
+
+  describe('ecosystem markers', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scope-marker-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const cases: { file: string; content: string; scope: string; source: string }[] = [
+      {
+        file: 'pom.xml',
+        content: [
+          '<project>',
+          '  <parent><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-parent</artifactId></parent>',
+          '  <!-- <artifactId>commented-out</artifactId> -->',
+          '  <artifactId>orders-service</artifactId>',
+          '  <dependencies><dependency><artifactId>lombok</artifactId></dependency></dependencies>',
+          '</project>',
+        ].join('\n'),
+        scope: 'project:orders-service',
+        source: 'pom.xml',
+      },
+      { file: 'settings.gradle', content: "rootProject.name = 'billing'\ninclude 'api'\n", scope: 'project:billing', source: 'settings.gradle' },
+      { file: 'settings.gradle.kts', content: 'rootProject.name = "ledger"\n', scope: 'project:ledger', source: 'settings.gradle.kts' },
+      { file: 'Inventory.sln', content: 'Microsoft Visual Studio Solution File\n', scope: 'project:inventory', source: '*.sln' },
+      {
+        file: 'Api.csproj',
+        content: '<Project Sdk="Microsoft.NET.Sdk"><PropertyGroup><AssemblyName>Shop.Api</AssemblyName></PropertyGroup></Project>',
+        scope: 'project:shop.api',
+        source: '*.csproj',
+      },
+      { file: 'Worker.csproj', content: '<Project Sdk="Microsoft.NET.Sdk.Worker"></Project>', scope: 'project:worker', source: '*.csproj' },
+      { file: 'composer.json', content: JSON.stringify({ name: 'acme/storefront' }), scope: 'project:storefront', source: 'composer.json' },
+      {
+        file: 'rails_helpers.gemspec',
+        content: 'Gem::Specification.new do |spec|\n  spec.name = "rails-helpers"\nend\n',
+        scope: 'project:rails-helpers',
+        source: '*.gemspec',
+      },
+      {
+        file: 'mix.exs',
+        content: 'defmodule Chat.MixProject do\n  def project do\n    [app: :chat_server, version: "0.1.0"]\n  end\nend\n',
+        scope: 'project:chat_server',
+        source: 'mix.exs',
+      },
+      { file: 'pubspec.yaml', content: 'name: flutter_wallet\nversion: 1.0.0\n', scope: 'project:flutter_wallet', source: 'pubspec.yaml' },
+      {
+        file: 'Package.swift',
+        content: '// swift-tools-version:5.9\nlet package = Package(\n    name: "SwiftCache",\n    targets: []\n)\n',
+        scope: 'project:swiftcache',
+        source: 'Package.swift',
+      },
+    ];
+
+    for (const { file, content, scope, source } of cases) {
+      it(`should read the project name from ${file}`, () => {
+        fs.writeFileSync(path.join(tmpDir, file), content);
+        expect(detectScopeWithDetails(tmpDir)).toMatchObject({ scope, source });
+      });
+    }
+
+    it('should prefer a solution over its project files', () => {
+      fs.writeFileSync(path.join(tmpDir, 'Api.csproj'), '<Project></Project>');
+      fs.writeFileSync(path.join(tmpDir, 'Shop.sln'), '');
+      expect(detectScopeWithDetails(tmpDir)).toMatchObject({ scope: 'project:shop', source: '*.sln' });
+    });
+  });
+
+  describe('project config', () => {
+    let tmpDir: string;
+
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, file), content);
+    };
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scope-config-test-'));
+      fs.mkdirSync(path.join(tmpDir, '.git'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should pin the scope from .brain-jar.json over package.json', () => {
+      write('package.json', JSON.stringify({ name: 'root' }));
+      write(
+        '.brain-jar.json',
+        JSON.stringify({
+          scope: 'Shop',
+          aliases: ['project:root', 'not a scope:'],
+          default_tags: ['shop', ' '],
+          plugins: { 'shared-memory': { search_inherit: 'subtree' } },
+        })
+      );
+
+      const result = detectScopeWithDetails(tmpDir);
+      expect(result).toMatchObject({ scope: 'project:shop', projectName: 'shop', source: '.brain-jar.json' });
+      expect(result.config).toEqual({
+        scope: 'project:shop',
+        aliases: ['project:root'],
+        default_tags: ['shop'],
+        plugins: { 'shared-memory': { search_inherit: 'subtree' } },
+      });
+      expect(result.configPath).toBe(path.join(tmpDir, '.brain-jar.json'));
+      expect(getProjectSettings('shared-memory', tmpDir)).toEqual({ search_inherit: 'subtree' });
+      expect(getProjectSettings('forensics', tmpDir)).toEqual({});
+    });
+
+    it('should keep nesting workspace packages under a pinned scope', () => {
+      write('package.json', JSON.stringify({ name: 'root', workspaces: ['apps/*'] }));
+      write('.brain-jar.json', JSON.stringify({ scope: 'project:shop' }));
+      write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+
+      expect(detectScope(path.join(tmpDir, 'apps/web'))).toBe('project:shop/apps/web');
+
+      // A package can pin its own scope, which is then used as-is
+      write('apps/web/.brain-jar.json', JSON.stringify({ scope: 'team:frontend' }));
+      expect(detectScope(path.join(tmpDir, 'apps/web'))).toBe('team:frontend');
+    });
+
+    it('should read [tool.brain-jar] from pyproject.toml', () => {
+      write(
+        'pyproject.toml',
+        [
+          '[project]',
+          'name = "template-app"',
+          '',
+          '[tool.brain-jar]',
+          'scope = "project:billing"',
+          'aliases = [',
+          '  "project:template-app",',
+          ']',
+          'default_tags = ["billing", "python"]',
+          '',
+          '[tool.brain-jar.plugins.perplexity-search]',
+          'default_mode = "deep"',
+          'max_results = 5',
+          '',
+          '[tool.ruff]',
+          'line-length = 100',
+        ].join('\n')
+      );
+
+      const result = detectScopeWithDetails(tmpDir);
+      expect(result).toMatchObject({ scope: 'project:billing', source: 'tool.brain-jar' });
+      expect(result.config).toEqual({
+        scope: 'project:billing',
+        aliases: ['project:template-app'],
+        default_tags: ['billing', 'python'],
+        plugins: { 'perplexity-search': { default_mode: 'deep', max_results: 5 } },
+      });
+    });
+
+    it('should expose settings without pinning the scope', () => {
+      write('package.json', JSON.stringify({ name: 'api' }));
+      write('.brain-jar.json', JSON.stringify({ default_tags: ['api'] }));
+
+      const result = detectScopeWithDetails(tmpDir);
+      expect(result).toMatchObject({ scope: 'project:api', source: 'package.json', config: { default_tags: ['api'] } });
+    });
+
+    it('should ignore an invalid .brain-jar.json', () => {
+      write('package.json', JSON.stringify({ name: 'api' }));
+      write('.brain-jar.json', '{ not json');
+
+      const result = detectScopeWithDetails(tmpDir);
+      expect(result.scope).toBe('project:api');
+      expect(result.config).toBeUndefined();
+    });
+  });
+
+  describe('scope hierarchy', () => {
+    it('should walk up from a package to global', () => {
+      expect(getParentScope('project:brain-jar/plugins/forensics')).toBe('project:brain-jar/plugins');
+      expect(getParentScope('project:brain-jar')).toBe('global');
+      expect(getParentScope('team:platform')).toBe('global');
+      expect(getParentScope('global')).toBeNull();
+
+      expect(getScopeChain('project:brain-jar/plugins/forensics')).toEqual([
+        'project:brain-jar/plugins/forensics',
+        'project:brain-jar/plugins',
+        'project:brain-jar',
+        'global',
+      ]);
+    });
+
+    it('should tell whether a scope is nested in another', () => {
+      expect(isScopeWithin('project:brain-jar/plugins/forensics', 'project:brain-jar')).toBe(true);
+      expect(isScopeWithin('project:brain-jar', 'project:brain-jar')).toBe(true);
+      expect(isScopeWithin('project:brain-jar-2', 'project:brain-jar')).toBe(false);
+      expect(isScopeWithin('team:platform', 'global')).toBe(true);
     });
   });
 
@@ -39,6 +314,13 @@ describe('scope detection', () => {
       expect(isValidScope('project:my-app')).toBe(true);
       expect(isValidScope('project:app_v2')).toBe(true);
       expect(isValidScope('project:app.io')).toBe(true);
+      expect(isValidScope('project:brain-jar/plugins/forensics')).toBe(true);
+    });
+
+    it('should accept team scopes', () => {
+      expect(isValidScope('team:platform')).toBe(true);
+      expect(isValidScope('team:')).toBe(false);
+      expect(isValidScope('team:a/b')).toBe(false);
     });
 
     it('should reject invalid scopes', () => {
@@ -47,6 +329,8 @@ describe('scope detection', () => {
       expect(isValidScope('project:My App')).toBe(false); // spaces
       expect(isValidScope('project:app@2.0')).toBe(false); // @
       expect(isValidScope('random')).toBe(false);
+      expect(isValidScope('project:app/')).toBe(false);
+      expect(isValidScope('project:app//x')).toBe(false);
     });
   });
 
@@ -62,6 +346,15 @@ describe('scope detection', () => {
       });
     });
 
+    it('should parse nested project and team scopes', () => {
+      expect(parseScope('project:brain-jar/plugins/forensics')).toEqual({
+        type: 'project',
+        projectName: 'brain-jar',
+        packagePath: 'plugins/forensics',
+      });
+      expect(parseScope('team:platform')).toEqual({ type: 'team', teamName: 'platform' });
+    });
+
     it('should treat invalid as global', () => {
       expect(parseScope('invalid')).toEqual({ type: 'global' });
     });
@@ -1,18 +1,71 @@
 /**
  * Scope detection utilities for brain-jar plugins.
  * Automatically detects project context from the current working directory.
+ *
+ * Scopes form a hierarchy:
+ *   global
+ *   ├── project:<name>                 (repository)
+ *   │   └── project:<name>/<path>      (workspace package, e.g. project:brain-jar/plugins/forensics)
+ *   └── team:<name>
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 
+export type WorkspaceManager = 'npm' | 'pnpm' | 'cargo';
+
+export interface WorkspacePackage {
+  root: string; // Directory holding the workspace configuration
+  packagePath: string; // Package directory relative to root, e.g. 'plugins/forensics'
+  manager: WorkspaceManager;
+}
+
+/**
+ * Per-project settings checked into a repository, either as .brain-jar.json
+ * or as a [tool.brain-jar] section in pyproject.toml.
+ */
+export interface ProjectConfig {
+  scope?: string; // Pinned scope ("project:<name>", "team:<name>" or a bare project name)
+  aliases?: string[]; // Scopes this project was previously known by
+  default_tags?: string[]; // Tags added to memories stored in this project
+  plugins?: Record<string, Record<string, unknown>>; // Settings keyed by plugin name
+}
+
 export interface ScopeDetectionResult {
   scope: string;
   projectName?: string;
   gitRoot?: string;
-  source: 'package.json' | 'Cargo.toml' | 'pyproject.toml' | 'go.mod' | 'git' | 'directory' | 'none';
+  workspace?: WorkspacePackage; // Set when cwd is inside a workspace package
+  config?: ProjectConfig; // Nearest project config between cwd and the repository root
+  configPath?: string;
+  source:
+    | 'package.json'
+    | 'Cargo.toml'
+    | 'pyproject.toml'
+    | 'go.mod'
+    | 'pom.xml'
+    | 'settings.gradle'
+    | 'settings.gradle.kts'
+    | '*.sln'
+    | '*.csproj'
+    | 'composer.json'
+    | '*.gemspec'
+    | 'mix.exs'
+    | 'pubspec.yaml'
+    | 'Package.swift'
+    | '.brain-jar.json'
+    | 'tool.brain-jar'
+    | 'git'
+    | 'directory'
+    | 'none';
 }
 
+export const PROJECT_CONFIG_FILE = '.brain-jar.json';
+
+const SCOPE_SEGMENT = '[a-z0-9-_.]+';
+const PROJECT_SCOPE_PATTERN = new RegExp(`^project:${SCOPE_SEGMENT}(/${SCOPE_SEGMENT})*$`);
+const TEAM_SCOPE_PATTERN = new RegExp(`^team:${SCOPE_SEGMENT}$`);
+
 /**
  * Find the git root directory by walking up from the given directory.
  */
@@ -30,51 +83,363 @@ function findGitRoot(startDir: string): string | null {
   return null;
 }
 
+/**
+ * A file that names a project. A leading '*' matches by extension
+ * (e.g. '*.csproj'); extract also gets the matched file name.
+ */
+interface ProjectMarker {
+  file: string;
+  extract: (content: string, fileName: string) => string | undefined;
+}
+
 /**
  * Try to extract a project name from a marker file.
  */
-function tryExtractName(
-  dir: string,
-  marker: { file: string; extract: (content: string) => string | undefined }
-): string | undefined {
-  const filePath = path.join(dir, marker.file);
+function tryExtractName(dir: string, marker: ProjectMarker): string | undefined {
+  const fileName = marker.file.startsWith('*') ? findFileByExtension(dir, marker.file.slice(1)) : marker.file;
+  if (!fileName) {
+    return undefined;
+  }
 
+  const filePath = path.join(dir, fileName);
   if (!fs.existsSync(filePath)) {
     return undefined;
   }
 
   try {
     const content = fs.readFileSync(filePath, 'utf-8');
-    return marker.extract(content);
+    return marker.extract(content, fileName);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * First file in dir (alphabetically) with the given extension.
+ */
+function findFileByExtension(dir: string, extension: string): string | undefined {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((f) => f.endsWith(extension) && f.length > extension.length)
+      .sort()[0];
   } catch {
     return undefined;
   }
 }
 
+/**
+ * The project's own <artifactId> from a pom.xml, ignoring the parent,
+ * dependencies and plugins.
+ */
+function parsePomArtifactId(content: string): string | undefined {
+  const stripped = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(parent|dependencies|dependencyManagement|build|profiles|reporting)>[\s\S]*?<\/\1>/g, '');
+  return stripped.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1];
+}
+
+/**
+ * rootProject.name from settings.gradle (Groovy or Kotlin DSL).
+ */
+function parseGradleRootProjectName(content: string): string | undefined {
+  return content.match(/^\s*rootProject\.name\s*=\s*["']([^"']+)["']/m)?.[1];
+}
+
+/**
+ * <AssemblyName> of an MSBuild project, else the file name.
+ */
+function parseCsprojName(content: string, fileName: string): string | undefined {
+  return content.match(/<AssemblyName>\s*([^<\s]+)\s*<\/AssemblyName>/)?.[1] || path.basename(fileName, '.csproj');
+}
+
 /**
  * Simple TOML parser for extracting package/project names.
  * Only handles the specific cases we need (not a full TOML parser).
  */
 function parseTomlName(content: string, section: string, key: string): string | undefined {
   // Match [section] followed by key = "value" or key = 'value'
-  const sectionRegex = new RegExp(`\\[${section}\\]([\\s\\S]*?)(?=\\n\\[|$)`, 'm');
-  const sectionMatch = content.match(sectionRegex);
+  const sectionContent = getTomlSection(content, section);
 
-  if (!sectionMatch) {
+  if (sectionContent === undefined) {
     return undefined;
   }
 
-  const sectionContent = sectionMatch[1];
   const keyRegex = new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, 'm');
   const keyMatch = sectionContent.match(keyRegex);
 
   return keyMatch?.[1];
 }
 
+/**
+ * Body of a TOML [section], up to the next section header or end of file.
+ */
+function getTomlSection(content: string, section: string): string | undefined {
+  // No 'm' flag: $ must mean end of file, not end of the header line
+  const escaped = section.replace(/\./g, '\\.');
+  const sectionMatch = content.match(new RegExp(`(?:^|\\n)\\[${escaped}\\][^\\n]*([\\s\\S]*?)(?=\\n\\[|$)`));
+  return sectionMatch?.[1];
+}
+
+/**
+ * Read a TOML string array (e.g. members = ["a", "b"]) from a section.
+ */
+function parseTomlArray(content: string, section: string, key: string): string[] {
+  const sectionContent = getTomlSection(content, section);
+  if (sectionContent === undefined) {
+    return [];
+  }
+
+  const arrayMatch = sectionContent.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  if (!arrayMatch) {
+    return [];
+  }
+
+  return [...arrayMatch[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1]);
+}
+
+/**
+ * Read simple key = value pairs from a TOML section body.
+ * Values may be strings, string arrays, booleans or numbers.
+ */
+function parseTomlTable(sectionContent: string): Record<string, unknown> {
+  const table: Record<string, unknown> = {};
+  const entries = sectionContent.matchAll(/^\s*([A-Za-z0-9_-]+)\s*=\s*("[^"\n]*"|'[^'\n]*'|\[[^\]]*\]|[^\s#]+)/gm);
+
+  for (const [, key, raw] of entries) {
+    if (raw.startsWith('"') || raw.startsWith("'")) {
+      table[key] = raw.slice(1, -1);
+    } else if (raw.startsWith('[')) {
+      table[key] = [...raw.matchAll(/["']([^"']*)["']/g)].map((m) => m[1]);
+    } else if (raw === 'true' || raw === 'false') {
+      table[key] = raw === 'true';
+    } else {
+      table[key] = isNaN(Number(raw)) ? raw : Number(raw);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Turn a configured scope into a valid one: bare names become project scopes.
+ */
+function normalizeConfiguredScope(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (isValidScope(trimmed)) {
+    return trimmed;
+  }
+  if (!trimmed.includes(':')) {
+    const name = sanitizeProjectName(trimmed);
+    return name ? `project:${name}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Keep only the recognised, well-formed fields of a project config.
+ */
+function toProjectConfig(raw: Record<string, unknown>): ProjectConfig {
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  const config: ProjectConfig = {};
+
+  const scope = normalizeConfiguredScope(raw.scope);
+  if (scope) {
+    config.scope = scope;
+  }
+
+  const aliases = strings(raw.aliases)
+    .map(normalizeConfiguredScope)
+    .filter((a): a is string => a !== undefined && a !== scope);
+  if (aliases.length > 0) {
+    config.aliases = [...new Set(aliases)];
+  }
+
+  const tags = strings(raw.default_tags).map((t) => t.trim()).filter(Boolean);
+  if (tags.length > 0) {
+    config.default_tags = [...new Set(tags)];
+  }
+
+  if (typeof raw.plugins === 'object' && raw.plugins !== null && !Array.isArray(raw.plugins)) {
+    const plugins = Object.entries(raw.plugins).filter(
+      (entry): entry is [string, Record<string, unknown>] =>
+        typeof entry[1] === 'object' && entry[1] !== null && !Array.isArray(entry[1])
+    );
+    if (plugins.length > 0) {
+      config.plugins = Object.fromEntries(plugins);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Read a project config from one directory: .brain-jar.json first, then
+ * [tool.brain-jar] (with [tool.brain-jar.plugins.<name>] tables) in pyproject.toml.
+ */
+function readProjectConfig(dir: string): { config: ProjectConfig; path: string } | undefined {
+  const jsonPath = path.join(dir, PROJECT_CONFIG_FILE);
+  if (fs.existsSync(jsonPath)) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+      if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+        return { config: toProjectConfig(raw), path: jsonPath };
+      }
+    } catch {
+      // Invalid JSON, treated as absent
+    }
+  }
+
+  const tomlPath = path.join(dir, 'pyproject.toml');
+  if (!fs.existsSync(tomlPath)) {
+    return undefined;
+  }
+
+  try {
+    const content = fs.readFileSync(tomlPath, 'utf-8');
+    const section = getTomlSection(content, 'tool.brain-jar');
+    const pluginTables = [...content.matchAll(/(?:^|\n)\[tool\.brain-jar\.plugins\.("[^"\n]+"|[A-Za-z0-9_-]+)\]/g)];
+    if (section === undefined && pluginTables.length === 0) {
+      return undefined;
+    }
+
+    const raw: Record<string, unknown> = section ? parseTomlTable(section) : {};
+    raw.plugins = Object.fromEntries(
+      pluginTables.map(([, name]) => [
+        name.replace(/^"|"$/g, ''),
+        parseTomlTable(getTomlSection(content, `tool.brain-jar.plugins.${name}`) || ''),
+      ])
+    );
+    return { config: toProjectConfig(raw), path: tomlPath };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the nearest project config from startDir up to (and including) stopDir.
+ */
+function findProjectConfig(startDir: string, stopDir: string): { config: ProjectConfig; path: string } | undefined {
+  let dir = path.resolve(startDir);
+  const stop = path.resolve(stopDir);
+
+  for (;;) {
+    const found = readProjectConfig(dir);
+    if (found) {
+      return found;
+    }
+    if (dir === stop || dir === path.dirname(dir)) {
+      return undefined;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Workspace member patterns declared at a repository root.
+ * Supports npm/yarn "workspaces", pnpm-workspace.yaml and Cargo [workspace] members.
+ */
+function readWorkspacePatterns(rootDir: string): { manager: WorkspaceManager; patterns: string[] }[] {
+  const found: { manager: WorkspaceManager; patterns: string[] }[] = [];
+  const read = (file: string): string | undefined => {
+    try {
+      return fs.readFileSync(path.join(rootDir, file), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  };
+
+  const packageJson = read('package.json');
+  if (packageJson) {
+    try {
+      const workspaces = JSON.parse(packageJson).workspaces;
+      // npm: ["packages/*"], yarn: { packages: ["packages/*"] }
+      const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+      if (Array.isArray(patterns)) {
+        found.push({ manager: 'npm', patterns });
+      }
+    } catch {
+      // Invalid JSON
+    }
+  }
+
+  const pnpmWorkspace = read('pnpm-workspace.yaml');
+  if (pnpmWorkspace) {
+    // Only the "packages:" list is needed; items are "- pattern" lines
+    const block = pnpmWorkspace.match(/^packages:[^\n]*\n((?:[ \t]+-[^\n]*\n?|[ \t]*#[^\n]*\n?|[ \t]*\n)*)/m);
+    const patterns = block
+      ? [...block[1].matchAll(/^[ \t]+-[ \t]*["']?([^"'#\n]+?)["']?[ \t]*(?:#.*)?$/gm)].map((m) => m[1])
+      : [];
+    if (patterns.length > 0) {
+      found.push({ manager: 'pnpm', patterns });
+    }
+  }
+
+  const cargoToml = read('Cargo.toml');
+  if (cargoToml) {
+    const members = parseTomlArray(cargoToml, 'workspace', 'members');
+    const excluded = parseTomlArray(cargoToml, 'workspace', 'exclude').map((e) => `!${e}`);
+    if (members.length > 0) {
+      found.push({ manager: 'cargo', patterns: [...members, ...excluded] });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Match a relative path against workspace globs ("*" within a segment,
+ * "**" across segments, "!pattern" to exclude).
+ */
+function matchesWorkspacePatterns(relPath: string, patterns: string[]): boolean {
+  const toRegex = (glob: string) =>
+    new RegExp(
+      '^' +
+        glob
+          .replace(/^\.\//, '')
+          .replace(/\/+$/, '')
+          .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*\*/g, '\u0000')
+          .replace(/\*/g, '[^/]*')
+          .replace(/\u0000/g, '.*') +
+        '$'
+    );
+
+  const included = patterns.filter((p) => !p.startsWith('!')).some((p) => toRegex(p).test(relPath));
+  const excluded = patterns.filter((p) => p.startsWith('!')).some((p) => toRegex(p.slice(1)).test(relPath));
+  return included && !excluded;
+}
+
+/**
+ * Find the workspace package containing dir (the deepest matching directory).
+ */
+function findWorkspacePackage(rootDir: string, dir: string): WorkspacePackage | undefined {
+  const relPath = path.relative(rootDir, path.resolve(dir));
+  if (!relPath || relPath.startsWith('..') || path.isAbsolute(relPath)) {
+    return undefined;
+  }
+
+  const parts = relPath.split(path.sep);
+  for (const { manager, patterns } of readWorkspacePatterns(rootDir)) {
+    for (let i = parts.length; i > 0; i--) {
+      const candidate = parts.slice(0, i).join('/');
+      if (matchesWorkspacePatterns(candidate, patterns) && fs.existsSync(path.join(rootDir, candidate))) {
+        return { root: rootDir, packagePath: candidate, manager };
+      }
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Project markers in priority order.
  */
-const PROJECT_MARKERS = [
+const PROJECT_MARKERS: ProjectMarker[] = [
   {
     file: 'package.json',
     extract: (content: string): string | undefined => {
@@ -118,6 +483,64 @@ const PROJECT_MARKERS = [
       return undefined;
     },
   },
+  {
+    file: 'pom.xml',
+    extract: parsePomArtifactId,
+  },
+  {
+    file: 'settings.gradle',
+    extract: parseGradleRootProjectName,
+  },
+  {
+    file: 'settings.gradle.kts',
+    extract: parseGradleRootProjectName,
+  },
+  {
+    // A solution names the whole repository; a lone project file is the fallback
+    file: '*.sln',
+    extract: (_content: string, fileName: string): string | undefined => path.basename(fileName, '.sln'),
+  },
+  {
+    file: '*.csproj',
+    extract: parseCsprojName,
+  },
+  {
+    file: 'composer.json',
+    extract: (content: string): string | undefined => {
+      try {
+        // "vendor/package" -> package, like go.mod's last path segment
+        const name = JSON.parse(content).name;
+        return typeof name === 'string' ? name.split('/').pop() : undefined;
+      } catch {
+        // Invalid JSON
+      }
+      return undefined;
+    },
+  },
+  {
+    file: '*.gemspec',
+    extract: (content: string, fileName: string): string | undefined => {
+      return content.match(/\.name\s*=\s*["']([^"']+)["']/)?.[1] || path.basename(fileName, '.gemspec');
+    },
+  },
+  {
+    file: 'mix.exs',
+    extract: (content: string): string | undefined => {
+      return content.match(/\bapp:\s*:([A-Za-z0-9_]+)/)?.[1];
+    },
+  },
+  {
+    file: 'pubspec.yaml',
+    extract: (content: string): string | undefined => {
+      return content.match(/^name:\s*["']?([^"'\s#]+)/m)?.[1];
+    },
+  },
+  {
+    file: 'Package.swift',
+    extract: (content: string): string | undefined => {
+      return content.match(/Package\s*\(\s*name:\s*"([^"]+)"/)?.[1];
+    },
+  },
 ];
 
 /**
@@ -125,9 +548,14 @@ const PROJECT_MARKERS = [
  *
  * Detection order:
  * 1. Find git root (if any)
- * 2. Check for project markers (package.json, Cargo.toml, etc.)
+ * 2. Check for project markers (package.json, Cargo.toml, pom.xml, *.csproj, etc.)
  * 3. Fall back to git directory name
- * 4. Return "global" if no project detected
+ * 4. Use the scope pinned by .brain-jar.json or [tool.brain-jar] in
+ *    pyproject.toml (nearest one between cwd and the repository root)
+ * 5. Return "global" if no project detected
+ *
+ * Inside a workspace package (npm/pnpm/Cargo workspaces) the package path is
+ * appended, e.g. "project:brain-jar/plugins/forensics".
  *
  * @param cwd - Directory to check (defaults to process.cwd())
  * @returns Scope string like "project:brain-jar" or "global"
@@ -151,22 +579,24 @@ export function detectScopeWithDetails(cwd?: string): ScopeDetectionResult {
   const searchDir = gitRoot || dir;
 
   // 2. Check project markers
+  let result: ScopeDetectionResult | undefined;
   for (const marker of PROJECT_MARKERS) {
     const name = tryExtractName(searchDir, marker);
     if (name) {
-      return {
+      result = {
         scope: `project:${sanitizeProjectName(name)}`,
         projectName: name,
         gitRoot: gitRoot || undefined,
         source: marker.file as ScopeDetectionResult['source'],
       };
+      break;
     }
   }
 
   // 3. Fall back to git directory name
-  if (gitRoot) {
+  if (!result && gitRoot) {
     const dirName = path.basename(gitRoot);
-    return {
+    result = {
       scope: `project:${sanitizeProjectName(dirName)}`,
       projectName: dirName,
       gitRoot,
@@ -174,11 +604,54 @@ export function detectScopeWithDetails(cwd?: string): ScopeDetectionResult {
     };
   }
 
-  // 4. No project detected
-  return {
-    scope: 'global',
-    source: 'none',
-  };
+  // 4. A checked-in project config can pin the scope
+  const projectConfig = findProjectConfig(dir, searchDir);
+  let scopeRoot = searchDir;
+  if (projectConfig?.config.scope) {
+    result = {
+      scope: projectConfig.config.scope,
+      projectName: parseScope(projectConfig.config.scope).projectName,
+      gitRoot: gitRoot || undefined,
+      source: path.basename(projectConfig.path) === PROJECT_CONFIG_FILE ? '.brain-jar.json' : 'tool.brain-jar',
+    };
+    scopeRoot = path.dirname(projectConfig.path);
+  }
+
+  const configFields = projectConfig ? { config: projectConfig.config, configPath: projectConfig.path } : {};
+
+  // 5. No project detected
+  if (!result) {
+    return {
+      scope: 'global',
+      source: 'none',
+      ...configFields,
+    };
+  }
+
+  // Nest workspace packages below the directory the scope belongs to
+  const workspace = findWorkspacePackage(searchDir, dir);
+  if (workspace && result.scope.startsWith('project:')) {
+    const relPath = path.relative(scopeRoot, path.join(searchDir, workspace.packagePath));
+    const subPath = relPath.startsWith('..')
+      ? ''
+      : relPath.split(path.sep).map(sanitizeProjectName).filter(Boolean).join('/');
+    if (subPath) {
+      result.scope += `/${subPath}`;
+      result.workspace = workspace;
+    }
+  }
+
+  return { ...result, ...configFields };
+}
+
+/**
+ * Settings a project config sets for one plugin ({} if none).
+ *
+ * @param plugin - Plugin name, e.g. "shared-memory"
+ * @param cwd - Directory to check (defaults to process.cwd())
+ */
+export function getProjectSettings(plugin: string, cwd?: string): Record<string, unknown> {
+  return detectScopeWithDetails(cwd).config?.plugins?.[plugin] ?? {};
 }
 
 /**
@@ -205,33 +678,76 @@ export function isValidScope(scope: string): boolean {
     return true;
   }
 
-  if (scope.startsWith('project:')) {
-    const projectName = scope.slice(8);
-    // Must have a name, only allowed characters
-    return projectName.length > 0 && /^[a-z0-9-_.]+$/.test(projectName);
-  }
-
-  return false;
+  // Project names (and package path segments) and team names use the same characters
+  return PROJECT_SCOPE_PATTERN.test(scope) || TEAM_SCOPE_PATTERN.test(scope);
 }
 
 /**
  * Parse a scope string into its components.
  *
  * @param scope - Scope string to parse
- * @returns Object with type and optional project name
+ * @returns Object with type, project name and package path, or team name
  */
-export function parseScope(scope: string): { type: 'global' | 'project'; projectName?: string } {
+export function parseScope(scope: string): {
+  type: 'global' | 'project' | 'team';
+  projectName?: string;
+  packagePath?: string;
+  teamName?: string;
+} {
   if (scope === 'global') {
     return { type: 'global' };
   }
 
-  if (scope.startsWith('project:')) {
-    return {
-      type: 'project',
-      projectName: scope.slice(8),
-    };
+  if (PROJECT_SCOPE_PATTERN.test(scope)) {
+    const [projectName, ...packagePath] = scope.slice(8).split('/');
+    return packagePath.length > 0
+      ? { type: 'project', projectName, packagePath: packagePath.join('/') }
+      : { type: 'project', projectName };
+  }
+
+  if (TEAM_SCOPE_PATTERN.test(scope)) {
+    return { type: 'team', teamName: scope.slice(5) };
   }
 
   // Invalid format, treat as global
   return { type: 'global' };
 }
+
+/**
+ * The scope one level up: a package's parent path, then the project,
+ * then global. Returns null for global.
+ *
+ * @example getParentScope('project:brain-jar/plugins/forensics') // 'project:brain-jar/plugins'
+ */
+export function getParentScope(scope: string): string | null {
+  if (scope === 'global') {
+    return null;
+  }
+
+  const slash = scope.lastIndexOf('/');
+  if (scope.startsWith('project:') && slash > 0) {
+    return scope.slice(0, slash);
+  }
+
+  return 'global';
+}
+
+/**
+ * A scope and everything it inherits from, nearest first.
+ *
+ * @example getScopeChain('project:a/b') // ['project:a/b', 'project:a', 'global']
+ */
+export function getScopeChain(scope: string): string[] {
+  const chain = [scope];
+  for (let parent = getParentScope(scope); parent; parent = getParentScope(parent)) {
+    chain.push(parent);
+  }
+  return chain;
+}
+
+/**
+ * Whether scope equals ancestor or is nested below it (everything is within global).
+ */
+export function isScopeWithin(scope: string, ancestor: string): boolean {
+  return ancestor === 'global' || scope === ancestor || scope.startsWith(`${ancestor}/`);
+}
@@ -0,0 +1,324 @@
+/**
+ * Secret storage for brain-jar credentials.
+ *
+ * Credential settings in config.json (see SECRET_CONFIG_PATHS) can hold a
+ * reference instead of the key itself:
+ *
+ *   "secret:<name>"  - entry in the encrypted secrets file (secrets.enc)
+ *   "cmd:<command>"  - stdout of a shell command
+ *   "pass:<entry>"   - first line of `pass show <entry>`
+ *   "op://..."       - `op read` (1Password CLI)
+ *
+ * secrets.enc is AES-256-GCM encrypted with a key derived from
+ * BRAIN_JAR_SECRETS_PASSPHRASE when the file was created with one, otherwise
+ * with a random machine key kept in secrets.key (mode 600) beside it.
+ *
+ * Every resolved secret is registered for redaction, so redactSecrets() can
+ * scrub it from logs and tool output.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import { execFileSync, execSync, type ExecSyncOptionsWithStringEncoding } from 'child_process';
+
+export const SECRETS_FILE = 'secrets.enc';
+export const SECRETS_KEY_FILE = 'secrets.key';
+export const SECRETS_PASSPHRASE_ENV = 'BRAIN_JAR_SECRETS_PASSPHRASE';
+
+const COMMAND_TIMEOUT_MS = 15_000;
+const REDACTED = '[REDACTED]';
+
+export type SecretRef =
+  | { backend: 'file'; name: string }
+  | { backend: 'command'; command: string; args?: string[]; firstLine?: boolean };
+
+export interface SecretsProvider {
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+  delete(name: string): boolean;
+  list(): string[];
+}
+
+interface SecretsFile {
+  version: 1;
+  key: 'machine' | 'passphrase';
+  salt: string; // base64
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Parse a config value as a secret reference, or null for a plain value.
+ */
+export function parseSecretRef(value: string): SecretRef | null {
+  if (value.startsWith('secret:')) {
+    return { backend: 'file', name: value.slice('secret:'.length) };
+  }
+  if (value.startsWith('cmd:')) {
+    return { backend: 'command', command: value.slice('cmd:'.length).trim() };
+  }
+  if (value.startsWith('pass:')) {
+    return { backend: 'command', command: 'pass', args: ['show', value.slice('pass:'.length)], firstLine: true };
+  }
+  if (value.startsWith('op://')) {
+    return { backend: 'command', command: 'op', args: ['read', value] };
+  }
+  return null;
+}
+
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === 'string' && parseSecretRef(value) !== null;
+}
+
+/**
+ * Secrets kept in an encrypted JSON file.
+ */
+export class EncryptedFileSecrets implements SecretsProvider {
+  private readonly filePath: string;
+  private readonly keyPath: string;
+
+  constructor(
+    dir: string,
+    private passphrase: string | undefined = process.env[SECRETS_PASSPHRASE_ENV]
+  ) {
+    this.filePath = path.join(dir, SECRETS_FILE);
+    this.keyPath = path.join(dir, SECRETS_KEY_FILE);
+  }
+
+  get(name: string): string | undefined {
+    return this.read()[name];
+  }
+
+  set(name: string, value: string): void {
+    this.write({ ...this.read(), [name]: value });
+  }
+
+  delete(name: string): boolean {
+    const secrets = this.read();
+    if (!(name in secrets)) return false;
+    delete secrets[name];
+    this.write(secrets);
+    return true;
+  }
+
+  list(): string[] {
+    return Object.keys(this.read()).sort();
+  }
+
+  private read(): Record<string, string> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as SecretsFile;
+    const key = this.deriveKey(file.key, Buffer.from(file.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+    try {
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf-8'));
+    } catch {
+      throw new Error(
+        file.key === 'passphrase'
+          ? `Cannot decrypt ${this.filePath}: wrong ${SECRETS_PASSPHRASE_ENV}`
+          : `Cannot decrypt ${this.filePath}: ${this.keyPath} does not match`
+      );
+    }
+  }
+
+  private write(secrets: Record<string, string>): void {
+    // Keep the protection the file was created with
+    const existing = fs.existsSync(this.filePath)
+      ? (JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as SecretsFile).key
+      : undefined;
+    const mode = existing || (this.passphrase ? 'passphrase' : 'machine');
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(mode, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    const file: SecretsFile = {
+      version: 1,
+      key: mode,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+
+  private deriveKey(mode: SecretsFile['key'], salt: Buffer): Buffer {
+    if (mode === 'passphrase') {
+      if (!this.passphrase) {
+        throw new Error(`${this.filePath} is passphrase-protected; set ${SECRETS_PASSPHRASE_ENV}`);
+      }
+      return crypto.scryptSync(this.passphrase, salt, 32);
+    }
+    return crypto.scryptSync(this.machineKey(), salt, 32);
+  }
+
+  private machineKey(): Buffer {
+    if (fs.existsSync(this.keyPath)) {
+      return fs.readFileSync(this.keyPath);
+    }
+    const key = crypto.randomBytes(32);
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+    fs.writeFileSync(this.keyPath, key, { mode: 0o600 });
+    return key;
+  }
+}
+
+/**
+ * Run a secret command and return its trimmed output.
+ */
+export function runSecretCommand(ref: Extract<SecretRef, { backend: 'command' }>): string {
+  const options: ExecSyncOptionsWithStringEncoding = {
+    encoding: 'utf-8',
+    timeout: COMMAND_TIMEOUT_MS,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  };
+  let output: string;
+  try {
+    // Named commands run without a shell; cmd: refs go through one
+    output = ref.args ? execFileSync(ref.command, ref.args, options) : execSync(ref.command, options);
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`Secret command failed (${ref.command}): ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`);
+  }
+
+  const value = (ref.firstLine ? output.split('\n')[0] : output).trim();
+  if (!value) {
+    throw new Error(`Secret command printed nothing (${ref.command})`);
+  }
+  return value;
+}
+
+// Resolved references, so commands (which may prompt) run once per process
+const resolvedRefs = new Map<string, string>();
+
+/**
+ * Resolve a config value: references are looked up, plain values returned
+ * as-is. Throws if a reference can't be resolved.
+ *
+ * @param dir - Directory holding secrets.enc (the config directory)
+ */
+export function resolveSecret(value: string, dir: string): string {
+  const ref = parseSecretRef(value);
+  if (!ref) {
+    registerSecret(value);
+    return value;
+  }
+
+  const cacheKey = ref.backend === 'file' ? `${dir}\0${value}` : value;
+  const cached = resolvedRefs.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let resolved: string;
+  if (ref.backend === 'file') {
+    const stored = new EncryptedFileSecrets(dir).get(ref.name);
+    if (stored === undefined) {
+      throw new Error(`No secret named "${ref.name}" in ${path.join(dir, SECRETS_FILE)}`);
+    }
+    resolved = stored;
+  } else {
+    resolved = runSecretCommand(ref);
+  }
+
+  registerSecret(resolved);
+  resolvedRefs.set(cacheKey, resolved);
+  return resolved;
+}
+
+/**
+ * Store a secret in the encrypted file and return the reference to put in config.json.
+ */
+export function storeSecret(name: string, value: string, dir: string): string {
+  new EncryptedFileSecrets(dir).set(name, value);
+  resolvedRefs.delete(`${dir}\0secret:${name}`);
+  registerSecret(value);
+  return `secret:${name}`;
+}
+
+// --- Redaction ---
+
+const knownSecrets = new Set<string>();
+
+// Key formats worth scrubbing even if never resolved here
+const SECRET_PATTERNS = [
+  /\bpplx-[A-Za-z0-9]{16,}/g, // Perplexity
+  /\bm0-[A-Za-z0-9]{16,}/g, // Mem0
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g, // GitHub
+  /\bgithub_pat_[A-Za-z0-9_]{20,}/g,
+  /\b(Bearer|Token)\s+[A-Za-z0-9._~+/=-]{16,}/g, // Authorization headers
+];
+
+/**
+ * Remember a value so redactSecrets() removes it. Short values are ignored
+ * to avoid scrubbing ordinary words.
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= 8) {
+    knownSecrets.add(value);
+  }
+}
+
+/**
+ * Replace known secrets and recognizable API keys in text with [REDACTED].
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match) => (/^(Bearer|Token)\s/.test(match) ? `${match.split(/\s/)[0]} ${REDACTED}` : REDACTED));
+  }
+  return result;
+}
+
+/**
+ * Deep copy of a value with every string redacted.
+ */
+export function redactValue<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(v)])) as T;
+  }
+  return value;
+}
+
+let logRedactionInstalled = false;
+
+/**
+ * Redact console.log / console.warn / console.error output (MCP servers log to stderr).
+ */
+export function installLogRedaction(): void {
+  if (logRedactionInstalled) return;
+  logRedactionInstalled = true;
+
+  for (const method of ['log', 'warn', 'error'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => original(redactSecrets(util.format(...args)));
+  }
+}
+
+/**
+ * Redact every message an MCP transport sends (tool results, errors).
+ */
+export function redactTransport<T extends { send: (message: any, ...rest: any[]) => Promise<void> }>(transport: T): T {
+  const send = transport.send.bind(transport);
+  transport.send = ((message: unknown, ...rest: unknown[]) => send(redactValue(message), ...rest)) as T['send'];
+  return transport;
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteBackend } from './sqlite-backend';
+import { createMemoryBackend } from './backend';
+import type { UserProfile } from './types';
+
+describe('SqliteBackend', () => {
+  let backend: SqliteBackend;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = path.join(os.tmpdir(), `test-backend-${Date.now()}-${Math.random()}.db`);
+    backend = new SqliteBackend(dbPath);
+  });
+
+  afterEach(() => {
+    backend.close();
+    if (fs.existsSync(dbPath)) {
+      fs.unlinkSync(dbPath);
+    }
+  });
+
+  describe('core operations', () => {
+    it('should add and return memories with metadata', async () => {
+      const id = await backend.add('Uses OAuth2 for auth', { scope: 'project:api', tags: ['auth'] });
+      const all = await backend.getAll();
+
+      expect(all).toHaveLength(1);
+      expect(all[0].id).toBe(id);
+      expect(all[0].scope).toBe('project:api');
+      expect(all[0].tags).toEqual(['auth']);
+      expect(all[0].metadata?.scope).toBe('project:api');
+    });
+
+    it('should partition by agentId', async () => {
+      await backend.add('regular memory');
+      await backend.add('search memory', {}, { agentId: 'perplexity' });
+
+      expect(await backend.getAll()).toHaveLength(2);
+      const partitioned = await backend.getAll({ agentId: 'perplexity' });
+      expect(partitioned).toHaveLength(1);
+      expect(partitioned[0].content).toBe('search memory');
+    });
+
+    it('should filter by metadata', async () => {
+      await backend.add('{"id":"inv-1"}', { type: 'forensics-investigation', investigation_id: 'inv-1' });
+      await backend.add('{"id":"inv-2"}', { type: 'forensics-investigation', investigation_id: 'inv-2' });
+      await backend.add('note', { type: 'other' });
+
+      const investigations = await backend.getAll({ filters: { type: 'forensics-investigation' } });
+      expect(investigations).toHaveLength(2);
+
+      const one = await backend.getAll({ filters: { investigation_id: 'inv-2' } });
+      expect(one).toHaveLength(1);
+      expect(one[0].content).toBe('{"id":"inv-2"}');
+    });
+
+    it('should rank search results by matching terms', async () => {
+      await backend.add('refresh the JWT before expiry');
+      await backend.add('JWT signing keys rotate monthly');
+      await backend.add('unrelated note about CSS');
+
+      const results = await backend.search('jwt refresh');
+      expect(results).toHaveLength(2);
+      expect(results[0].content).toBe('refresh the JWT before expiry');
+    });
+
+    it('should update content and metadata', async () => {
+      const id = await backend.add('draft', { scope: 'global' });
+      expect(await backend.update(id, 'final', { scope: 'project:api' })).toBe(true);
+
+      const [memory] = await backend.getAll();
+      expect(memory.content).toBe('final');
+      expect(memory.scope).toBe('project:api');
+      expect(await backend.update('missing', 'x')).toBe(false);
+    });
+
+    it('should delete memories', async () => {
+      const id = await backend.add('to delete');
+      expect(await backend.delete(id)).toBe(true);
+      expect(await backend.delete(id)).toBe(false);
+      expect(await backend.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe('profile snapshots', () => {
+    const profile = { version: '1.0.0', identity: { name: 'Sam' } } as unknown as UserProfile;
+
+    it('should keep one snapshot per day', async () => {
+      await backend.saveProfileSnapshot(profile);
+      await backend.saveProfileSnapshot({ ...profile, identity: { name: 'Sam B' } } as UserProfile);
+
+      const history = await backend.getProfileHistory();
+      expect(history).toHaveLength(1);
+      expect(history[0].profile.identity.name).toBe('Sam B');
+
+      const latest = await backend.getLatestProfile();
+      expect(latest?.profile.identity.name).toBe('Sam B');
+    });
+
+    it('should keep snapshots of named profiles apart', async () => {
+      await backend.saveProfileSnapshot(profile);
+      await backend.saveProfileSnapshot({ ...profile, identity: { name: 'Sam at Acme' } } as UserProfile, 'work');
+
+      expect((await backend.getLatestProfile())?.profile.identity.name).toBe('Sam');
+      expect(await backend.getLatestProfile('work')).toMatchObject({
+        profileName: 'work',
+        profile: { identity: { name: 'Sam at Acme' } },
+      });
+      expect(await backend.getProfileHistory(undefined, undefined, 'work')).toHaveLength(1);
+      expect(await backend.pruneProfileHistory()).toBe(0);
+    });
+
+    it('should not leak snapshots into regular search', async () => {
+      await backend.saveProfileSnapshot(profile);
+      expect(await backend.search('Sam', 10, { agentId: 'perplexity' })).toHaveLength(0);
+    });
+  });
+
+  describe('activity summaries', () => {
+    it('should store and filter summaries by scope', async () => {
+      const start = new Date('2026-01-01T00:00:00Z');
+      const end = new Date('2026-01-07T00:00:00Z');
+      await backend.saveSummary('project:a', 'Summary A', start, end, 12);
+      await backend.saveSummary('project:b', 'Summary B', start, end, 3);
+
+      const summaries = await backend.getSummaries('project:a');
+      expect(summaries).toHaveLength(1);
+      expect(summaries[0].memoryCount).toBe(12);
+      expect((await backend.getLatestSummary('project:b'))?.content).toBe('Summary B');
+    });
+  });
+
+  describe('search history', () => {
+    it('should return past searches as context', async () => {
+      await backend.storeSearchResult('react server components', 'RSC render on the server');
+      const context = await backend.getSearchContext('server components');
+      expect(context).toHaveLength(1);
+      expect(context[0]).toContain('react server components');
+    });
+  });
+});
+
+describe('createMemoryBackend', () => {
+  it('should return null without config', () => {
+    expect(createMemoryBackend(null)).toBeNull();
+  });
+
+  it('should create a SQLite backend when selected', () => {
+    const dbPath = path.join(os.tmpdir(), `test-backend-factory-${Date.now()}.db`);
+    const backend = createMemoryBackend({
+      storage_backend: 'sqlite',
+      sqlite_path: dbPath,
+      default_scope: 'global',
+      auto_summarize: true,
+    });
+
+    expect(backend?.kind).toBe('sqlite');
+    (backend as SqliteBackend).close();
+    fs.unlinkSync(dbPath);
+  });
+});
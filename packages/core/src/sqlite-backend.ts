@@ -0,0 +1,383 @@
+/**
+ * SQLite storage backend for brain-jar plugins.
+ * Fully local implementation of the Mem0Client API for machines without
+ * a Mem0 account (air-gapped, offline, privacy-sensitive).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import {
+  Memory,
+  ActivitySummary,
+  UserProfile,
+  ProfileSnapshot,
+  MemoryBackend,
+  MemoryQueryOptions,
+  AddMemoryOptions,
+} from './types';
+import { runMigrations, type Migration } from './migrations';
+import { DEFAULT_PROFILE, getSnapshotProfileName } from './profiles';
+
+interface BackendRow {
+  id: string;
+  user_id: string;
+  agent_id: string | null;
+  content: string;
+  metadata: string; // JSON string
+  created_at: string;
+  updated_at: string;
+}
+
+const BACKEND_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          agent_id TEXT,
+          content TEXT NOT NULL,
+          metadata TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_backend_user_agent ON memories(user_id, agent_id);
+        CREATE INDEX IF NOT EXISTS idx_backend_created ON memories(created_at);
+      `);
+    },
+  },
+];
+
+export class SqliteBackend implements MemoryBackend {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database;
+  private userId: string;
+
+  constructor(dbPath: string, userId: string = 'default') {
+    // Dynamic require to handle optional native dependency
+    const BetterSqlite3 = require('better-sqlite3') as typeof Database;
+
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new BetterSqlite3(dbPath);
+    this.userId = userId;
+    this.init();
+  }
+
+  private init(): void {
+    runMigrations(this.db, BACKEND_MIGRATIONS);
+  }
+
+  async add(
+    content: string,
+    metadata: Record<string, unknown> = {},
+    options?: AddMemoryOptions
+  ): Promise<string> {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `INSERT INTO memories (id, user_id, agent_id, content, metadata, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(id, this.userId, options?.agentId || null, content, JSON.stringify(metadata), now, now);
+
+    return id;
+  }
+
+  async search(query: string, limit: number = 10, options?: MemoryQueryOptions): Promise<Memory[]> {
+    const terms = query
+      .toLowerCase()
+      .split(/\W+/)
+      .filter((t) => t.length > 1);
+
+    // Rank by number of matching query terms (keyword stand-in for semantic search)
+    const scored = this.queryRows(options)
+      .map((row) => {
+        const content = row.content.toLowerCase();
+        const score = terms.filter((t) => content.includes(t)).length;
+        return { row, score };
+      })
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || b.row.created_at.localeCompare(a.row.created_at));
+
+    return scored.slice(0, limit).map((r) => this.toMemory(r.row));
+  }
+
+  async getAll(options?: MemoryQueryOptions): Promise<Memory[]> {
+    return this.queryRows(options).map((row) => this.toMemory(row));
+  }
+
+  async update(memoryId: string, content: string, metadata?: Record<string, unknown>): Promise<boolean> {
+    const now = new Date().toISOString();
+    const result = metadata
+      ? this.db
+          .prepare(`UPDATE memories SET content = ?, metadata = ?, updated_at = ? WHERE id = ?`)
+          .run(content, JSON.stringify(metadata), now, memoryId)
+      : this.db
+          .prepare(`UPDATE memories SET content = ?, updated_at = ? WHERE id = ?`)
+          .run(content, now, memoryId);
+    return result.changes > 0;
+  }
+
+  async delete(memoryId: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM memories WHERE id = ?`).run(memoryId);
+    return result.changes > 0;
+  }
+
+  // --- Profile Snapshot Methods ---
+  // Same partitioning as Mem0Client so data can move between backends
+
+  private static readonly PROFILE_AGENT_ID = 'profile-mgr';
+  private static readonly PERPLEXITY_AGENT_ID = 'perplexity';
+
+  /**
+   * Prune profile history to one snapshot per profile per day (keeps the latest).
+   * Returns count of deleted snapshots.
+   */
+  async pruneProfileHistory(): Promise<number> {
+    const snapshots = await this.getAll({
+      agentId: SqliteBackend.PROFILE_AGENT_ID,
+      filters: { type: 'profile-snapshot' },
+    });
+
+    const latestByDay = new Map<string, Memory>();
+    const toDelete: string[] = [];
+    for (const s of snapshots) {
+      const ts = (s.metadata?.timestamp as string) || s.created_at.toISOString();
+      const day = `${getSnapshotProfileName(s.metadata)}|${ts.split('T')[0]}`;
+      const current = latestByDay.get(day);
+      if (!current) {
+        latestByDay.set(day, s);
+      } else if (ts > ((current.metadata?.timestamp as string) || '')) {
+        toDelete.push(current.id);
+        latestByDay.set(day, s);
+      } else {
+        toDelete.push(s.id);
+      }
+    }
+
+    let deletedCount = 0;
+    for (const id of toDelete) {
+      if (await this.delete(id)) deletedCount++;
+    }
+    return deletedCount;
+  }
+
+  /**
+   * Gets the latest profile snapshot.
+   * Returns null if no profile exists.
+   */
+  async getLatestProfile(profileName: string = DEFAULT_PROFILE): Promise<ProfileSnapshot | null> {
+    const history = await this.getProfileHistory(undefined, 1, profileName);
+    return history[0] || null;
+  }
+
+  /**
+   * Saves a new profile snapshot, replacing any snapshot of the same profile from today.
+   */
+  async saveProfileSnapshot(profile: UserProfile, profileName: string = DEFAULT_PROFILE): Promise<string | null> {
+    try {
+      const todayPrefix = new Date().toISOString().substring(0, 10);
+      const existing = await this.getAll({
+        agentId: SqliteBackend.PROFILE_AGENT_ID,
+        filters: { type: 'profile-snapshot' },
+      });
+      for (const s of existing) {
+        const sameProfile = getSnapshotProfileName(s.metadata) === profileName;
+        if (sameProfile && ((s.metadata?.timestamp as string) || '').startsWith(todayPrefix)) {
+          await this.delete(s.id);
+        }
+      }
+
+      return await this.add(
+        JSON.stringify(profile),
+        {
+          type: 'profile-snapshot',
+          timestamp: new Date().toISOString(),
+          version: profile.version || '1.0.0',
+          scope: 'global',
+          profile_name: profileName,
+        },
+        { agentId: SqliteBackend.PROFILE_AGENT_ID }
+      );
+    } catch (error) {
+      console.warn('Failed to save profile snapshot to SQLite:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets a profile's history, newest first, optionally filtered by date.
+   */
+  async getProfileHistory(
+    since?: Date,
+    limit?: number,
+    profileName: string = DEFAULT_PROFILE
+  ): Promise<ProfileSnapshot[]> {
+    const rows = await this.getAll({
+      agentId: SqliteBackend.PROFILE_AGENT_ID,
+      filters: { type: 'profile-snapshot' },
+    });
+
+    let snapshots = rows
+      .filter((r) => getSnapshotProfileName(r.metadata) === profileName)
+      .map((r): ProfileSnapshot | null => {
+        try {
+          return {
+            profile: JSON.parse(r.content) as UserProfile,
+            timestamp: (r.metadata?.timestamp as string) || r.created_at.toISOString(),
+            mem0Id: r.id,
+            profileName,
+          };
+        } catch {
+          return null;
+        }
+      })
+      .filter((s): s is ProfileSnapshot => s !== null)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    if (since) {
+      const sinceIso = since.toISOString();
+      snapshots = snapshots.filter((s) => s.timestamp >= sinceIso);
+    }
+    if (limit && limit > 0) {
+      snapshots = snapshots.slice(0, limit);
+    }
+    return snapshots;
+  }
+
+  // --- Activity Summary Methods ---
+
+  async saveSummary(
+    scope: string,
+    content: string,
+    periodStart: Date,
+    periodEnd: Date,
+    memoryCount: number
+  ): Promise<string | null> {
+    try {
+      return await this.add(content, {
+        type: 'activity-summary',
+        scope,
+        period_start: periodStart.toISOString(),
+        period_end: periodEnd.toISOString(),
+        memory_count: memoryCount,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn('Failed to save activity summary to SQLite:', error);
+      return null;
+    }
+  }
+
+  async getSummaries(scope?: string, since?: Date, limit?: number): Promise<ActivitySummary[]> {
+    const filters: Record<string, unknown> = { type: 'activity-summary' };
+    if (scope) filters.scope = scope;
+
+    let summaries = (await this.getAll({ filters }))
+      .map((r): ActivitySummary => ({
+        content: r.content,
+        scope: (r.metadata?.scope as string) || 'global',
+        periodStart: (r.metadata?.period_start as string) || '',
+        periodEnd: (r.metadata?.period_end as string) || '',
+        memoryCount: (r.metadata?.memory_count as number) || 0,
+        timestamp: (r.metadata?.timestamp as string) || r.created_at.toISOString(),
+        mem0Id: r.id,
+      }))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    if (since) {
+      const sinceIso = since.toISOString();
+      summaries = summaries.filter((s) => s.timestamp >= sinceIso);
+    }
+    if (limit && limit > 0) {
+      summaries = summaries.slice(0, limit);
+    }
+    return summaries;
+  }
+
+  async getLatestSummary(scope: string): Promise<ActivitySummary | null> {
+    const summaries = await this.getSummaries(scope, undefined, 1);
+    return summaries.length > 0 ? summaries[0] : null;
+  }
+
+  // --- Search Memory Storage (for perplexity-search) ---
+
+  async storeSearchResult(query: string, summary: string): Promise<string | null> {
+    try {
+      return await this.add(
+        `Searched: "${query}" - Found: ${summary}`,
+        {
+          type: 'search',
+          query,
+          scope: 'global',
+          timestamp: new Date().toISOString(),
+        },
+        { agentId: SqliteBackend.PERPLEXITY_AGENT_ID }
+      );
+    } catch (error) {
+      console.warn('Failed to store search result:', error);
+      return null;
+    }
+  }
+
+  async getSearchContext(query: string, limit: number = 3): Promise<string[]> {
+    const results = await this.search(query, limit, { agentId: SqliteBackend.PERPLEXITY_AGENT_ID });
+    return results.map((r) => r.content);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private queryRows(options?: MemoryQueryOptions): BackendRow[] {
+    let sql = `SELECT * FROM memories WHERE user_id = ?`;
+    const params: (string | number)[] = [this.userId];
+
+    if (options?.agentId) {
+      sql += ` AND agent_id = ?`;
+      params.push(options.agentId);
+    }
+
+    for (const [key, value] of Object.entries(options?.filters || {})) {
+      sql += ` AND json_extract(metadata, ?) = ?`;
+      params.push(`$.${key}`, this.toSqlValue(value));
+    }
+
+    sql += ` ORDER BY created_at DESC`;
+    return this.db.prepare(sql).all(...params) as BackendRow[];
+  }
+
+  // json_extract returns booleans as 1/0 and objects as compact JSON text
+  private toSqlValue(value: unknown): string | number {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' || typeof value === 'number') return value;
+    return JSON.stringify(value);
+  }
+
+  private toMemory(row: BackendRow): Memory {
+    const metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+    return {
+      id: row.id,
+      content: row.content,
+      scope: (metadata.scope as string) || 'global',
+      tags: (metadata.tags as string[]) || [],
+      source: {
+        agent: (metadata.source_agent as string) || 'unknown',
+        action: metadata.source_action as string | undefined,
+      },
+      metadata,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Storage backend types for brain-jar plugins.
+ */
+
+import type { Memory, ActivitySummary } from './memory';
+import type { UserProfile, ProfileSnapshot } from './profile';
+
+export type MemoryBackendKind = 'mem0' | 'sqlite';
+
+export interface MemoryQueryOptions {
+  agentId?: string; // Partition (e.g. 'profile-mgr', 'perplexity')
+  filters?: Record<string, unknown>; // Exact-match metadata filters
+}
+
+export interface AddMemoryOptions {
+  agentId?: string;
+  skipInstructions?: boolean;
+}
+
+/**
+ * Storage backend shared by all plugins.
+ * Implemented by Mem0Client (cloud) and SqliteBackend (fully local).
+ */
+export interface MemoryBackend {
+  readonly kind: MemoryBackendKind;
+
+  // --- Core operations ---
+  add(content: string, metadata?: Record<string, unknown>, options?: AddMemoryOptions): Promise<string>;
+  search(query: string, limit?: number, options?: MemoryQueryOptions): Promise<Memory[]>;
+  getAll(options?: MemoryQueryOptions): Promise<Memory[]>;
+  // False when the memory was not changed; Mem0 throws on API errors instead
+  update(memoryId: string, content: string, metadata?: Record<string, unknown>): Promise<boolean>;
+  delete(memoryId: string): Promise<boolean>;
+
+  // --- Profile snapshots (per named profile, 'default' when omitted) ---
+  pruneProfileHistory(): Promise<number>;
+  getLatestProfile(profileName?: string): Promise<ProfileSnapshot | null>;
+  saveProfileSnapshot(profile: UserProfile, profileName?: string): Promise<string | null>;
+  getProfileHistory(since?: Date, limit?: number, profileName?: string): Promise<ProfileSnapshot[]>;
+
+  // --- Activity summaries ---
+  saveSummary(
+    scope: string,
+    content: string,
+    periodStart: Date,
+    periodEnd: Date,
+    memoryCount: number
+  ): Promise<string | null>;
+  getSummaries(scope?: string, since?: Date, limit?: number): Promise<ActivitySummary[]>;
+  getLatestSummary(scope: string): Promise<ActivitySummary | null>;
+
+  // --- Search history (perplexity-search) ---
+  storeSearchResult(query: string, summary: string): Promise<string | null>;
+  getSearchContext(query: string, limit?: number): Promise<string[]>;
+}
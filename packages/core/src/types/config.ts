@@ -3,9 +3,11 @@
  */
 
 export interface BrainJarConfig {
-  mem0_api_key: string;
+  mem0_api_key?: string; // Required unless storage_backend is 'sqlite'
   default_scope: string;
   auto_summarize: boolean;
+  storage_backend?: 'mem0' | 'sqlite'; // Default: 'mem0' when a key is set
+  sqlite_path?: string; // Default: ~/.config/brain-jar/backend.db
 }
 
 export interface ConfigStatus {
@@ -5,3 +5,4 @@
 export * from './profile';
 export * from './memory';
 export * from './config';
+export * from './backend';
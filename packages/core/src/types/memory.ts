@@ -2,17 +2,48 @@
  * Memory types for brain-jar storage.
  */
 
+export type MemoryKind = 'note' | 'decision' | 'gotcha' | 'todo' | 'link';
+
+export interface DecisionPayload {
+  options?: string[]; // Alternatives considered
+  choice: string;
+  rationale?: string;
+}
+
+export interface GotchaPayload {
+  workaround?: string;
+}
+
+export type TodoStatus = 'open' | 'done' | 'dropped';
+
+export interface TodoPayload {
+  status: TodoStatus;
+  due?: string; // YYYY-MM-DD or ISO timestamp
+}
+
+export interface LinkPayload {
+  url: string;
+  title?: string;
+}
+
+// Structured details for a memory's kind (notes have none)
+export type MemoryPayload = DecisionPayload | GotchaPayload | TodoPayload | LinkPayload;
+
 export interface Memory {
   id: string;
   content: string;
   scope: string; // 'global' or 'project:<name>'
   tags: string[];
+  kind?: MemoryKind; // Default: 'note'
+  payload?: MemoryPayload;
   source: {
     agent: string;
     action?: string;
   };
+  metadata?: Record<string, unknown>; // Raw backend metadata (type, ids, etc.)
   created_at: Date;
   updated_at: Date;
+  expires_at?: Date; // Pruned after this time (unset: retention rules apply)
 }
 
 export interface AddMemoryInput {
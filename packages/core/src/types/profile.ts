@@ -56,18 +56,30 @@ export interface UserProfile {
     lastUpdated: string;
     lastOnboardingPrompt?: string;
     createdAt: string;
+    evidence?: Record<string, Record<string, ProfileEvidence>>; // Field -> lowercased entry -> sightings
   };
 }
 
+/**
+ * How often and when a profile list entry was seen (detected, confirmed or added).
+ */
+export interface ProfileEvidence {
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
 export interface InferredPreference {
   id: string;
   field: string; // Dot-path like 'technical.languages'
   value: string | string[];
   confidence: 'high' | 'medium' | 'low';
   evidence: string; // What triggered this inference
-  source: 'codebase' | 'conversation' | 'config';
+  source: 'codebase' | 'conversation' | 'config' | 'decay'; // decay: a demotion proposed from stale evidence
   status: 'pending' | 'confirmed' | 'rejected';
   createdAt: string;
+  demotion?: { to: string | null }; // Confirming moves value out of field into `to` (null drops it)
+  profile?: string; // Named profile it was proposed for (missing: the default profile)
 }
 
 export interface OnboardingQuestion {
@@ -86,4 +98,5 @@ export interface ProfileSnapshot {
   profile: UserProfile;
   timestamp: string;
   mem0Id?: string;
+  profileName?: string; // Named profile the snapshot belongs to ('default' if absent)
 }
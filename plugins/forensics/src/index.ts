@@ -15,6 +15,7 @@ import {
 import { BuildSpecTool, BuildSpecOptions } from './tools/build-spec.js';
 import { InvestigationManager, StartInvestigationOptions } from './tools/investigation-manager.js';
 import { InvestigationMode, InvestigationStatus } from './interop/index.js';
+import { installLogRedaction, redactTransport } from '@brain-jar/core';
 
 // Initialize tools
 const explainConceptTool = new ExplainConceptTool();
@@ -24,6 +25,9 @@ const buildSpecTool = new BuildSpecTool();
 const investigationManager = new InvestigationManager();
 
 async function main() {
+  // Keep API keys out of logs and tool output
+  installLogRedaction();
+
   const server = new Server(
     {
       name: 'forensics',
@@ -460,7 +464,7 @@ async function main() {
     throw new Error(`Unknown tool: ${name}`);
   });
 
-  const transport = new StdioServerTransport();
+  const transport = redactTransport(new StdioServerTransport());
   await server.connect(transport);
 
   console.error('[forensics MCP Server] Running on stdio');
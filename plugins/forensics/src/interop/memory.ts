@@ -1,9 +1,9 @@
 /**
  * ForensicsMemory - Memory integration for the forensics plugin.
- * Uses @brain-jar/core Mem0Client for storage.
+ * Uses the @brain-jar/core storage backend (Mem0 or local SQLite).
  */
 
-import { Mem0Client, loadConfig, type UserProfile } from '@brain-jar/core';
+import { createMemoryBackend, readUserProfile, type MemoryBackend, type UserProfile } from '@brain-jar/core';
 import {
   Investigation,
   APISpec,
@@ -12,15 +12,12 @@ import {
 } from './types.js';
 
 export class ForensicsMemory {
-  private mem0: Mem0Client | null = null;
+  private mem0: MemoryBackend | null = null;
   private configured: boolean = false;
 
   constructor() {
-    const config = loadConfig();
-    if (config?.mem0_api_key) {
-      this.mem0 = new Mem0Client(config.mem0_api_key);
-      this.configured = true;
-    }
+    this.mem0 = createMemoryBackend();
+    this.configured = this.mem0 !== null;
   }
 
   /**
@@ -61,12 +58,9 @@ export class ForensicsMemory {
     if (!this.mem0) return null;
 
     try {
-      const all = await this.mem0.getAll();
-      const found = all.find(
-        (m) =>
-          (m as any).metadata?.type === FORENSICS_TYPES.investigation &&
-          (m as any).metadata?.investigation_id === id
-      );
+      const [found] = await this.mem0.getAll({
+        filters: { type: FORENSICS_TYPES.investigation, investigation_id: id },
+      });
 
       if (!found) return null;
 
@@ -84,9 +78,8 @@ export class ForensicsMemory {
     if (!this.mem0) return [];
 
     try {
-      const all = await this.mem0.getAll();
+      const all = await this.mem0.getAll({ filters: { type: FORENSICS_TYPES.investigation } });
       const investigations = all
-        .filter((m) => (m as any).metadata?.type === FORENSICS_TYPES.investigation)
         .map((m) => {
           try {
             return JSON.parse(m.content) as Investigation;
@@ -148,12 +141,10 @@ export class ForensicsMemory {
 
     try {
       const normalizedConcept = concept.toLowerCase().trim();
-      const all = await this.mem0.getAll();
-      return all.some(
-        (m) =>
-          (m as any).metadata?.type === FORENSICS_TYPES.concept &&
-          (m as any).metadata?.concept === normalizedConcept
-      );
+      const matches = await this.mem0.getAll({
+        filters: { type: FORENSICS_TYPES.concept, concept: normalizedConcept },
+      });
+      return matches.length > 0;
     } catch (error) {
       console.error('[forensics] Failed to check concept:', error);
       return false;
@@ -167,10 +158,9 @@ export class ForensicsMemory {
     if (!this.mem0) return [];
 
     try {
-      const all = await this.mem0.getAll();
+      const all = await this.mem0.getAll({ filters: { type: FORENSICS_TYPES.concept } });
       return all
-        .filter((m) => (m as any).metadata?.type === FORENSICS_TYPES.concept)
-        .map((m) => (m as any).metadata?.concept as string)
+        .map((m) => m.metadata?.concept)
         .filter((c): c is string => typeof c === 'string');
     } catch (error) {
       console.error('[forensics] Failed to get known concepts:', error);
@@ -207,12 +197,9 @@ export class ForensicsMemory {
     if (!this.mem0) return null;
 
     try {
-      const all = await this.mem0.getAll();
-      const found = all.find(
-        (m) =>
-          (m as any).metadata?.type === FORENSICS_TYPES.spec &&
-          (m as any).metadata?.spec_name === name
-      );
+      const [found] = await this.mem0.getAll({
+        filters: { type: FORENSICS_TYPES.spec, spec_name: name },
+      });
 
       if (!found) return null;
 
@@ -230,9 +217,8 @@ export class ForensicsMemory {
     if (!this.mem0) return [];
 
     try {
-      const all = await this.mem0.getAll();
+      const all = await this.mem0.getAll({ filters: { type: FORENSICS_TYPES.spec } });
       return all
-        .filter((m) => (m as any).metadata?.type === FORENSICS_TYPES.spec)
         .map((m) => {
           try {
             return JSON.parse(m.content) as APISpec;
@@ -249,18 +235,27 @@ export class ForensicsMemory {
 
   // --- Profile Integration ---
 
+  /**
+   * The profile that applies in the current scope (named profiles are picked
+   * by scope rules): the local file, else its latest stored snapshot.
+   */
+  private async loadProfile(): Promise<UserProfile | null> {
+    const { name, profile } = readUserProfile();
+    if (profile) return profile;
+    if (!this.mem0) return null;
+
+    const snapshot = await this.mem0.getLatestProfile(name);
+    return snapshot?.profile ?? null;
+  }
+
   /**
    * Get the user's skill level for forensics tasks.
    * Infers from profile's knowledge and workingStyle.
    */
   async getSkillLevel(): Promise<SkillLevel> {
-    if (!this.mem0) return 'beginner'; // Default to beginner if not configured
-
     try {
-      const snapshot = await this.mem0.getLatestProfile();
-      if (!snapshot) return 'beginner';
-
-      const profile = snapshot.profile;
+      const profile = await this.loadProfile();
+      if (!profile) return 'beginner'; // Default to beginner without a profile
 
       // Check if user is expert in relevant areas
       const expertAreas = profile.knowledge?.expert || [];
@@ -296,13 +291,10 @@ export class ForensicsMemory {
    * Get user's tech stack for implementation suggestions.
    */
   async getUserStack(): Promise<{ languages: string[]; frameworks: string[] }> {
-    if (!this.mem0) return { languages: [], frameworks: [] };
-
     try {
-      const snapshot = await this.mem0.getLatestProfile();
-      if (!snapshot) return { languages: [], frameworks: [] };
+      const profile = await this.loadProfile();
+      if (!profile) return { languages: [], frameworks: [] };
 
-      const profile = snapshot.profile;
       return {
         languages: profile.technical?.languages || [],
         frameworks: profile.technical?.frameworks || [],
@@ -317,13 +309,9 @@ export class ForensicsMemory {
    * Get user's verbosity preference.
    */
   async getVerbosity(): Promise<'concise' | 'detailed' | 'adaptive'> {
-    if (!this.mem0) return 'adaptive';
-
     try {
-      const snapshot = await this.mem0.getLatestProfile();
-      if (!snapshot) return 'adaptive';
-
-      return snapshot.profile.workingStyle?.verbosity || 'adaptive';
+      const profile = await this.loadProfile();
+      return profile?.workingStyle?.verbosity || 'adaptive';
     } catch (error) {
       console.error('[forensics] Failed to get verbosity:', error);
       return 'adaptive';
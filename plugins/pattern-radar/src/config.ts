@@ -1,40 +1,45 @@
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import { RadarConfig, UserProfile, getDefaultConfig } from './types';
-
-const CONFIG_DIR = path.join(os.homedir(), '.config', 'brain-jar');
-const RADAR_CONFIG_PATH = path.join(CONFIG_DIR, 'pattern-radar.json');
-const PROFILE_PATH = path.join(CONFIG_DIR, 'user-profile.json');
+import {
+  getConfigPath,
+  getPluginConfig,
+  updateConfigSection,
+  readUserProfile,
+  type PatternRadarSettings,
+} from '@brain-jar/core';
+import { RadarConfig, UserProfile } from './types';
 
 /**
- * Configuration manager for pattern-radar
+ * Configuration manager for pattern-radar.
+ *
+ * Settings live in the pattern_radar section of the shared brain-jar config
+ * (BRAIN_JAR_PATTERN_RADAR_* overrides apply). The old pattern-radar.json is
+ * still read until it is migrated.
  */
 export class ConfigManager {
   /**
    * Load radar configuration
    */
   loadConfig(): RadarConfig {
-    try {
-      if (fs.existsSync(RADAR_CONFIG_PATH)) {
-        const content = fs.readFileSync(RADAR_CONFIG_PATH, 'utf-8');
-        const saved = JSON.parse(content) as Partial<RadarConfig>;
-        return { ...getDefaultConfig(), ...saved };
-      }
-    } catch {
-      // Ignore parse errors
-    }
-    return getDefaultConfig();
+    const settings = getPluginConfig('pattern_radar');
+    return {
+      sources: settings.sources,
+      domains: settings.domains,
+      alertThreshold: settings.alert_threshold,
+      digestFrequency: settings.digest_frequency,
+    };
   }
 
   /**
    * Save radar configuration
    */
   saveConfig(config: RadarConfig): void {
-    if (!fs.existsSync(CONFIG_DIR)) {
-      fs.mkdirSync(CONFIG_DIR, { recursive: true });
-    }
-    fs.writeFileSync(RADAR_CONFIG_PATH, JSON.stringify(config, null, 2));
+    const settings: Partial<PatternRadarSettings> = {
+      sources: config.sources,
+      domains: config.domains,
+      alert_threshold: config.alertThreshold,
+      digest_frequency: config.digestFrequency,
+    };
+    updateConfigSection('pattern_radar', settings);
   }
 
   /**
@@ -60,38 +65,20 @@ export class ConfigManager {
    * Get GitHub token if configured
    */
   getGitHubToken(): string | undefined {
-    try {
-      if (fs.existsSync(RADAR_CONFIG_PATH)) {
-        const content = fs.readFileSync(RADAR_CONFIG_PATH, 'utf-8');
-        const config = JSON.parse(content) as { github_token?: string };
-        return config.github_token;
-      }
-    } catch {
-      // Ignore
-    }
-    return undefined;
+    return getPluginConfig('pattern_radar').github_token;
   }
 
   /**
-   * Load user profile (from shared-memory if available)
+   * Load the user profile selected for the current scope (from shared-memory if available)
    */
   loadUserProfile(): UserProfile | null {
-    try {
-      if (fs.existsSync(PROFILE_PATH)) {
-        const content = fs.readFileSync(PROFILE_PATH, 'utf-8');
-        return JSON.parse(content) as UserProfile;
-      }
-    } catch {
-      // Ignore parse errors
-    }
-    return null;
+    return readUserProfile().profile as UserProfile | null;
   }
 
   /**
    * Check if shared-memory is configured
    */
   hasSharedMemory(): boolean {
-    const brainJarConfig = path.join(CONFIG_DIR, 'config.json');
-    return fs.existsSync(brainJarConfig);
+    return fs.existsSync(getConfigPath());
   }
 }
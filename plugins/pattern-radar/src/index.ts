@@ -13,8 +13,12 @@ import { DigestStorage } from './storage';
 import { Signal, Pattern, DigestResult, DigestStatus } from './types';
 import { quickScan, quickScanAll, deepValidate } from './validation';
 import { loadCustomAdapters } from './adapters/loader.js';
+import { installLogRedaction, redactTransport } from '@brain-jar/core';
 
 async function main(): Promise<void> {
+  // Keep API keys out of logs and tool output
+  installLogRedaction();
+
   // Load custom adapters from ~/.config/pattern-radar/adapters/
   loadCustomAdapters().then(loaded => {
     if (loaded.length > 0) {
@@ -992,7 +996,7 @@ async function main(): Promise<void> {
   );
 
   // Connect transport
-  const transport = new StdioServerTransport();
+  const transport = redactTransport(new StdioServerTransport());
   await server.connect(transport);
 
   console.error('[pattern-radar] MCP server running on stdio');
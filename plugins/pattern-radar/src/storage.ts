@@ -8,6 +8,7 @@ import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { runMigrations, type Migration } from '@brain-jar/core';
 import {
   RadarDigest,
   RadarDigestData,
@@ -24,6 +25,44 @@ const DB_PATH = path.join(RADAR_DIR, 'digests.db');
 // 30 days in milliseconds
 const DIGEST_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
+// Append new migrations; never edit one that has shipped
+const DIGEST_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: (db) => {
+      db.exec(`
+        -- Main digest metadata (lightweight for listing)
+        CREATE TABLE IF NOT EXISTS digests (
+          id TEXT PRIMARY KEY,
+          scope TEXT NOT NULL DEFAULT 'global',
+          generated_at TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'fresh',
+          last_actioned_at TEXT,
+          expires_at TEXT NOT NULL,
+          domains_json TEXT NOT NULL DEFAULT '[]',
+          signal_count INTEGER NOT NULL DEFAULT 0,
+          pattern_count INTEGER NOT NULL DEFAULT 0,
+          top_pattern_titles_json TEXT NOT NULL DEFAULT '[]',
+          top_signal_titles_json TEXT NOT NULL DEFAULT '[]'
+        );
+
+        -- Full digest data (stored separately for efficiency)
+        CREATE TABLE IF NOT EXISTS digest_data (
+          digest_id TEXT PRIMARY KEY,
+          signals_json TEXT NOT NULL DEFAULT '[]',
+          patterns_json TEXT NOT NULL DEFAULT '[]',
+          FOREIGN KEY (digest_id) REFERENCES digests(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_digests_status ON digests(status);
+        CREATE INDEX IF NOT EXISTS idx_digests_expires ON digests(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_digests_generated ON digests(generated_at);
+      `);
+    },
+  },
+];
+
 /**
  * Local storage for radar digests using SQLite
  */
@@ -42,34 +81,12 @@ export class DigestStorage {
   }
 
   private initSchema(): void {
-    this.db.exec(`
-      -- Main digest metadata (lightweight for listing)
-      CREATE TABLE IF NOT EXISTS digests (
-        id TEXT PRIMARY KEY,
-        scope TEXT NOT NULL DEFAULT 'global',
-        generated_at TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'fresh',
-        last_actioned_at TEXT,
-        expires_at TEXT NOT NULL,
-        domains_json TEXT NOT NULL DEFAULT '[]',
-        signal_count INTEGER NOT NULL DEFAULT 0,
-        pattern_count INTEGER NOT NULL DEFAULT 0,
-        top_pattern_titles_json TEXT NOT NULL DEFAULT '[]',
-        top_signal_titles_json TEXT NOT NULL DEFAULT '[]'
-      );
-
-      -- Full digest data (stored separately for efficiency)
-      CREATE TABLE IF NOT EXISTS digest_data (
-        digest_id TEXT PRIMARY KEY,
-        signals_json TEXT NOT NULL DEFAULT '[]',
-        patterns_json TEXT NOT NULL DEFAULT '[]',
-        FOREIGN KEY (digest_id) REFERENCES digests(id) ON DELETE CASCADE
+    const result = runMigrations(this.db, DIGEST_MIGRATIONS);
+    if (result.backupPath) {
+      console.error(
+        `[pattern-radar] Migrated ${this.db.name} from schema v${result.from} to v${result.to} (backup: ${result.backupPath})`
       );
-
-      CREATE INDEX IF NOT EXISTS idx_digests_status ON digests(status);
-      CREATE INDEX IF NOT EXISTS idx_digests_expires ON digests(expires_at);
-      CREATE INDEX IF NOT EXISTS idx_digests_generated ON digests(generated_at);
-    `);
+    }
   }
 
   private rowToDigest(row: DigestRow): RadarDigest {
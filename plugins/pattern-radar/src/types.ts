@@ -232,19 +232,3 @@ export interface DigestDataRow {
   signals_json: string;
   patterns_json: string;
 }
-
-/**
- * Default radar configuration
- */
-export function getDefaultConfig(): RadarConfig {
-  return {
-    sources: {
-      hackernews: { enabled: true, weight: 1.0 },
-      github: { enabled: true, languages: [], weight: 1.0 },
-      perplexity: { enabled: true, weight: 1.0 },
-    },
-    domains: [],
-    alertThreshold: 0.7,
-    digestFrequency: 'manual',
-  };
-}
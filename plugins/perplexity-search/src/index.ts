@@ -13,6 +13,31 @@ import { ProfileManager } from './profile/manager.js';
 import { PerplexitySearchTool } from './tools/perplexity-search.js';
 import { checkConfig, getMissingConfigMessage } from './startup.js';
 import { input, confirm } from '@inquirer/prompts';
+import {
+  getConfigPath,
+  getPluginConfig,
+  getProjectSettings,
+  installLogRedaction,
+  redactTransport,
+  registerSecret,
+  updateConfigSection,
+  type PerplexitySearchSettings,
+} from '@brain-jar/core';
+
+type SearchMode = PerplexitySearchSettings['default_mode'];
+const SEARCH_MODES: readonly SearchMode[] = ['auto', 'quick', 'deep'];
+
+/**
+ * Mode used when a search doesn't specify one: the project's
+ * "perplexity-search": { "default_mode": ... } setting, else
+ * perplexity_search.default_mode in the shared config (auto by default).
+ */
+function getDefaultMode(): SearchMode {
+  const mode = getProjectSettings('perplexity-search').default_mode;
+  return SEARCH_MODES.includes(mode as SearchMode)
+    ? (mode as SearchMode)
+    : getPluginConfig('perplexity_search').default_mode;
+}
 
 /**
  * Interactive setup wizard for first-time users
@@ -35,17 +60,10 @@ async function runSetupWizard(): Promise<void> {
     },
   });
 
-  // Create config directory and file
-  const configDir = path.join(os.homedir(), '.claude', 'perplexity-search');
-  const configPath = path.join(configDir, 'config.json');
+  // Save to the shared brain-jar config
+  updateConfigSection('perplexity_search', { api_key: apiKey.trim() });
 
-  await fs.mkdir(configDir, { recursive: true });
-  await fs.writeFile(
-    configPath,
-    JSON.stringify({ apiKey: apiKey.trim(), defaultMaxResults: 5 }, null, 2)
-  );
-
-  console.error('\n✅ Config file created at', configPath);
+  console.error('\n✅ API key saved to', getConfigPath());
 
   // Offer to install skill file
   const installSkill = await confirm({
@@ -145,6 +163,9 @@ async function runSetupWizard(): Promise<void> {
  * Main function to start the MCP server
  */
 async function main() {
+  // Keep API keys out of logs and tool output
+  installLogRedaction();
+
   // Handle --setup flag
   if (process.argv.includes('--setup')) {
     await runSetupWizard();
@@ -160,15 +181,10 @@ async function main() {
   }
 
   const apiKey = configStatus.apiKey!;
+  registerSecret(apiKey);
 
-  // Initialize components - use shared brain-jar profile
-  const profilePath = path.join(
-    os.homedir(),
-    '.config',
-    'brain-jar',
-    'user-profile.json'
-  );
-  const profileManager = new ProfileManager(profilePath);
+  // Initialize components - use the shared brain-jar profile selected for this scope
+  const profileManager = new ProfileManager();
   const searchTool = new PerplexitySearchTool(apiKey, profileManager);
 
   // Check if profile needs refresh (non-blocking)
@@ -210,10 +226,9 @@ async function main() {
               },
               mode: {
                 type: 'string',
-                enum: ['auto', 'quick', 'deep'],
+                enum: [...SEARCH_MODES],
                 description:
-                  'Search mode: auto (detect automatically), quick (fast results), deep (comprehensive research)',
-                default: 'auto',
+                  'Search mode: auto (detect automatically), quick (fast results), deep (comprehensive research). Defaults to the project\'s default_mode setting, else auto',
               },
             },
             required: ['query'],
@@ -229,9 +244,9 @@ async function main() {
       throw new Error(`Unknown tool: ${request.params.name}`);
     }
 
-    const { query, mode = 'auto' } = request.params.arguments as {
+    const { query, mode = getDefaultMode() } = request.params.arguments as {
       query: string;
-      mode?: 'auto' | 'quick' | 'deep';
+      mode?: SearchMode;
     };
 
     // Execute search with profile context
@@ -259,7 +274,7 @@ ${results.content[0].text}
   });
 
   // Connect to stdio transport
-  const transport = new StdioServerTransport();
+  const transport = redactTransport(new StdioServerTransport());
   await server.connect(transport);
 
   console.error('[Perplexity MCP Server] Running on stdio');
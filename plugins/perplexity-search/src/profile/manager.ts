@@ -4,23 +4,35 @@
  * The profile is managed by shared-memory plugin. This manager provides
  * read-only access for perplexity-search to personalize queries.
  *
- * Profile location: ~/.config/brain-jar/user-profile.json
+ * Profile location: ~/.config/brain-jar/user-profile.json, or
+ * ~/.config/brain-jar/profiles/<name>.json for the named profile selected
+ * for the current scope (see selectProfile in @brain-jar/core).
  */
 
 import * as fs from 'fs/promises';
-import * as path from 'path';
-import type { UserProfile } from '@brain-jar/core';
+import { getProfilePath, selectProfile, type UserProfile } from '@brain-jar/core';
 
 export class ProfileManager {
-  constructor(private profilePath: string) {}
+  /**
+   * @param fixedPath - Always read this file instead of the profile selected for the scope
+   */
+  constructor(private fixedPath?: string) {}
+
+  /**
+   * Path of the profile that applies right now.
+   */
+  get profilePath(): string {
+    return this.fixedPath ?? getProfilePath(selectProfile().name);
+  }
 
   /**
    * Loads user profile from disk.
    * Returns default profile if none exists.
    */
   async load(): Promise<UserProfile> {
+    const profilePath = this.profilePath;
     try {
-      const data = await fs.readFile(this.profilePath, 'utf-8');
+      const data = await fs.readFile(profilePath, 'utf-8');
       const profile = JSON.parse(data) as UserProfile;
       return profile;
     } catch (error) {
@@ -33,12 +45,12 @@ export class ProfileManager {
 
       // Corrupted JSON - log and return default
       if (error instanceof SyntaxError) {
-        console.warn(`Profile file corrupted at ${this.profilePath}, using defaults:`, error.message);
+        console.warn(`Profile file corrupted at ${profilePath}, using defaults:`, error.message);
         return this.createDefaultProfile();
       }
 
       // Other errors (permissions, etc.) - rethrow with context
-      throw new Error(`Failed to load profile from ${this.profilePath}: ${err.message}`);
+      throw new Error(`Failed to load profile from ${profilePath}: ${err.message}`);
     }
   }
 
@@ -16,6 +16,7 @@ describe('checkConfig', () => {
     jest.clearAllMocks();
     process.env = { ...originalEnv };
     delete process.env.PERPLEXITY_API_KEY;
+    delete process.env.BRAIN_JAR_PERPLEXITY_SEARCH_API_KEY;
   });
 
   afterEach(() => {
@@ -51,4 +52,17 @@ describe('checkConfig', () => {
     expect(result.status).toBe('configured');
     expect(result.apiKey).toBe('pplx-envkey');
   });
+
+  it('prefers the shared brain-jar config over the legacy file', async () => {
+    (fs.readFile as jest.Mock).mockResolvedValue(
+      JSON.stringify({ apiKey: 'pplx-legacy' })
+    );
+    process.env.BRAIN_JAR_PERPLEXITY_SEARCH_API_KEY = 'pplx-shared';
+
+    const result = await checkConfig();
+
+    expect(result.status).toBe('configured');
+    expect(result.apiKey).toBe('pplx-shared');
+    expect(fs.readFile).not.toHaveBeenCalled();
+  });
 });
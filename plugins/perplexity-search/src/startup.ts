@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { getConfigEnvName, getConfigPath, getPluginConfig } from '@brain-jar/core';
 
 export interface ConfigStatus {
   status: 'configured' | 'missing';
@@ -8,8 +9,13 @@ export interface ConfigStatus {
   configPath: string;
 }
 
+/**
+ * Finds the API key: PERPLEXITY_API_KEY, then perplexity_search.api_key in
+ * the shared brain-jar config, then the legacy ~/.claude/perplexity-search file.
+ */
 export async function checkConfig(): Promise<ConfigStatus> {
-  const configPath = path.join(
+  const configPath = getConfigPath();
+  const legacyPath = path.join(
     os.homedir(),
     '.claude',
     'perplexity-search',
@@ -25,15 +31,21 @@ export async function checkConfig(): Promise<ConfigStatus> {
     };
   }
 
-  // Check config file
+  // Shared config (includes BRAIN_JAR_PERPLEXITY_SEARCH_API_KEY)
+  const { api_key } = getPluginConfig('perplexity_search');
+  if (api_key) {
+    return { status: 'configured', apiKey: api_key, configPath };
+  }
+
+  // Legacy config file
   try {
-    const content = await fs.readFile(configPath, 'utf-8');
+    const content = await fs.readFile(legacyPath, 'utf-8');
     const config = JSON.parse(content);
     if (config.apiKey) {
       return {
         status: 'configured',
         apiKey: config.apiKey,
-        configPath,
+        configPath: legacyPath,
       };
     }
   } catch {
@@ -52,8 +64,9 @@ To set up, run one of:
   1. Set environment variable:
      export PERPLEXITY_API_KEY=pplx-your-key-here
 
-  2. Create config file at ${configPath}:
-     {"apiKey": "pplx-your-key-here"}
+  2. Add to ${configPath}:
+     {"perplexity_search": {"api_key": "pplx-your-key-here"}}
+     (or set ${getConfigEnvName('perplexity_search.api_key')})
 
   3. Run interactive setup:
      node ${process.argv[1]} --setup
@@ -27,10 +27,9 @@ jest.mock('@perplexity-ai/perplexity_ai', () => {
   };
 });
 
-// Mock @brain-jar/core to avoid Mem0 initialization
+// Mock @brain-jar/core to avoid storage backend initialization
 jest.mock('@brain-jar/core', () => ({
-  loadConfig: jest.fn().mockReturnValue(null),
-  Mem0Client: jest.fn(),
+  createMemoryBackend: jest.fn().mockReturnValue(null),
 }));
 
 describe('PerplexitySearchTool', () => {
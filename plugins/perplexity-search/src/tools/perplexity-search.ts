@@ -4,19 +4,19 @@
  * Responsibilities:
  * - Perform searches via Perplexity API
  * - Optionally enrich queries with user profile context
- * - Store search results in Mem0 (if configured)
+ * - Store search results in the brain-jar backend (Mem0 or local SQLite, if configured)
  * - Get relevant context from past searches
  * - Format results for MCP tool responses
  */
 
 import { Perplexity } from '@perplexity-ai/perplexity_ai';
-import { Mem0Client, loadConfig, type UserProfile } from '@brain-jar/core';
+import { createMemoryBackend, type MemoryBackend, type UserProfile } from '@brain-jar/core';
 import { ProfileManager } from '../profile/manager';
 import { PerplexitySearchParams } from '../types';
 
 export class PerplexitySearchTool {
   private client: any;
-  private mem0Client: Mem0Client | null = null;
+  private mem0Client: MemoryBackend | null = null;
 
   constructor(
     apiKey: string,
@@ -24,14 +24,11 @@ export class PerplexitySearchTool {
   ) {
     this.client = new Perplexity({ apiKey });
 
-    // Initialize Mem0 if brain-jar config exists
+    // Initialize storage backend if brain-jar config exists
     try {
-      const config = loadConfig();
-      if (config?.mem0_api_key) {
-        this.mem0Client = new Mem0Client(config.mem0_api_key);
-      }
+      this.mem0Client = createMemoryBackend();
     } catch {
-      // No Mem0 config - search memory disabled
+      // No usable backend - search memory disabled
     }
   }
 
@@ -51,7 +48,7 @@ export class PerplexitySearchTool {
         }
       }
 
-      // Get relevant context from past searches (if Mem0 configured)
+      // Get relevant context from past searches (if backend configured)
       if (this.mem0Client && params.include_profile_context) {
         const searchContext = await this.mem0Client.getSearchContext(params.query, 3);
         if (searchContext.length > 0) {
@@ -73,7 +70,7 @@ export class PerplexitySearchTool {
       // Extract content from response
       const content = response.choices[0].message.content;
 
-      // Store search result in Mem0 (non-blocking)
+      // Store search result in backend (non-blocking)
       if (this.mem0Client) {
         const summary = this.summarizeResult(content);
         this.mem0Client.storeSearchResult(params.query, summary).catch((err) => {
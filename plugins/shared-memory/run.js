@@ -4,6 +4,15 @@
  *
  * Uses pre-built bundle when available (marketplace installs).
  * Falls back to npm install + build for development.
+ *
+ * CLI flags (handled by the server entry point):
+ *   --setup                      Configure Mem0
+ *   --doctor [--offline]         Check config, databases, Mem0/Perplexity, profile, hooks, adapters
+ *   --export <file>              Write memories, profile, summaries and sessions
+ *     [--format jsonl|markdown] [--scope <s>] [--tag <t>]... [--since <date>] [--until <date>]
+ *     [--only memories,profile,summaries,sessions]
+ *   --import <file>              Import an export (ids preserved, duplicates skipped)
+ *     [--overwrite-profile]
  */
 const { execSync } = require('child_process');
 const { existsSync } = require('fs');
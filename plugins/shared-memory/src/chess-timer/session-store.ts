@@ -12,6 +12,7 @@ import type {
   WorkType,
   ListSessionsInput,
 } from './types';
+import { migrateLocalDb } from '../migrations';
 
 export interface CreateSessionInput {
   feature_id: string;
@@ -89,49 +90,7 @@ export class SessionStore {
   }
 
   private init(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS work_sessions (
-        id TEXT PRIMARY KEY,
-        feature_id TEXT NOT NULL,
-        feature_description TEXT NOT NULL,
-        scope TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'active',
-        started_at TEXT NOT NULL,
-        completed_at TEXT,
-        total_active_seconds INTEGER NOT NULL DEFAULT 0,
-        satisfaction INTEGER,
-        notes TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS work_segments (
-        id TEXT PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        trigger_start TEXT NOT NULL,
-        trigger_end TEXT,
-        FOREIGN KEY (session_id) REFERENCES work_sessions(id)
-      );
-
-      CREATE TABLE IF NOT EXISTS work_metrics (
-        id TEXT PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        files_touched INTEGER NOT NULL DEFAULT 0,
-        lines_added INTEGER NOT NULL DEFAULT 0,
-        lines_removed INTEGER NOT NULL DEFAULT 0,
-        complexity_rating INTEGER NOT NULL DEFAULT 3,
-        work_type TEXT NOT NULL DEFAULT 'other',
-        recorded_at TEXT NOT NULL,
-        FOREIGN KEY (session_id) REFERENCES work_sessions(id)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_sessions_scope ON work_sessions(scope);
-      CREATE INDEX IF NOT EXISTS idx_sessions_status ON work_sessions(status);
-      CREATE INDEX IF NOT EXISTS idx_segments_session ON work_segments(session_id);
-      CREATE INDEX IF NOT EXISTS idx_metrics_session ON work_metrics(session_id);
-    `);
+    migrateLocalDb(this.db);
   }
 
   createSession(input: CreateSessionInput): WorkSession {
@@ -393,6 +352,98 @@ export class SessionStore {
     return this.getSession(sessionId)!;
   }
 
+  /**
+   * Insert a session with its segments and metrics, keeping their ids.
+   * Returns false (and writes nothing) if the session already exists.
+   */
+  importSession(session: WorkSession, segments: WorkSegment[], metrics: WorkMetrics[]): boolean {
+    if (this.getSession(session.id)) {
+      return false;
+    }
+
+    const iso = (d: Date | null) => (d ? d.toISOString() : null);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO work_sessions
+            (id, feature_id, feature_description, scope, status, started_at, completed_at,
+             total_active_seconds, satisfaction, notes, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          session.id,
+          session.feature_id,
+          session.feature_description,
+          session.scope,
+          session.status,
+          iso(session.started_at),
+          iso(session.completed_at),
+          session.total_active_seconds,
+          session.satisfaction,
+          session.notes,
+          iso(session.created_at),
+          iso(session.updated_at)
+        );
+
+      const segmentStmt = this.db.prepare(
+        `INSERT OR IGNORE INTO work_segments (id, session_id, started_at, ended_at, trigger_start, trigger_end)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      for (const s of segments) {
+        segmentStmt.run(s.id, session.id, iso(s.started_at), iso(s.ended_at), s.trigger_start, s.trigger_end);
+      }
+
+      const metricsStmt = this.db.prepare(
+        `INSERT OR IGNORE INTO work_metrics
+          (id, session_id, files_touched, lines_added, lines_removed, complexity_rating, work_type, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const m of metrics) {
+        metricsStmt.run(
+          m.id,
+          session.id,
+          m.files_touched,
+          m.lines_added,
+          m.lines_removed,
+          m.complexity_rating,
+          m.work_type,
+          iso(m.recorded_at)
+        );
+      }
+    })();
+
+    return true;
+  }
+
+  /**
+   * Move sessions to new scopes (see LocalStore.renameScopes).
+   * Returns the ids of the sessions moved.
+   */
+  renameScopes(rename: (scope: string) => string | null, dryRun: boolean = false): string[] {
+    const scopes = (this.db.prepare(`SELECT DISTINCT scope FROM work_sessions`).all() as { scope: string }[]).map(
+      (r) => r.scope
+    );
+    const select = this.db.prepare(`SELECT id FROM work_sessions WHERE scope = ?`);
+    const update = this.db.prepare(`UPDATE work_sessions SET scope = ?, updated_at = ? WHERE scope = ?`);
+    const now = new Date().toISOString();
+    const ids: string[] = [];
+
+    this.db.transaction(() => {
+      for (const scope of scopes) {
+        const target = rename(scope);
+        if (!target || target === scope) continue;
+
+        ids.push(...(select.all(scope) as { id: string }[]).map((r) => r.id));
+        if (!dryRun) {
+          update.run(target, now, scope);
+        }
+      }
+    })();
+
+    return ids;
+  }
+
   close(): void {
     this.db.close();
   }
@@ -0,0 +1,73 @@
+import { shingles, jaccard, findDuplicateClusters } from './consolidation';
+import type { Memory } from '@brain-jar/core';
+
+let nextId = 1;
+function memory(content: string, scope = 'global', tags: string[] = [], updatedAt = new Date()): Memory {
+  return {
+    id: `m${nextId++}`,
+    content,
+    scope,
+    tags,
+    source: { agent: 'claude-code' },
+    created_at: updatedAt,
+    updated_at: updatedAt,
+  };
+}
+
+describe('shingles', () => {
+  it('should build lowercase word pairs ignoring punctuation', () => {
+    expect([...shingles('Use pnpm, not npm!')]).toEqual(['use pnpm', 'pnpm not', 'not npm']);
+  });
+
+  it('should fall back to single words for short text', () => {
+    expect([...shingles('TypeScript')]).toEqual(['typescript']);
+  });
+});
+
+describe('jaccard', () => {
+  it('should measure set overlap', () => {
+    expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+    expect(jaccard(new Set(), new Set())).toBe(0);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('should cluster reworded duplicates and suggest the most detailed keeper', () => {
+    const short = memory('The API uses OAuth2 for authentication', 'global', ['auth']);
+    const long = memory('The API uses OAuth2 for authentication with refresh tokens', 'global', ['api']);
+    const other = memory('Prefers tabs over spaces');
+
+    const [cluster, ...rest] = findDuplicateClusters([short, long, other]);
+
+    expect(rest).toHaveLength(0);
+    expect(cluster.keep_id).toBe(long.id);
+    expect(cluster.merge_ids).toEqual([short.id]);
+    expect(cluster.tags.sort()).toEqual(['api', 'auth']);
+    expect(cluster.similarity).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('should link clusters transitively', () => {
+    const a = memory('deploy with argo cd on fridays after standup');
+    const b = memory('deploy with argo cd on fridays after lunch');
+    const c = memory('we deploy with argo cd on fridays after lunch');
+
+    const clusters = findDuplicateClusters([a, b, c], { threshold: 0.6 });
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].memories).toHaveLength(3);
+  });
+
+  it('should keep scopes apart unless asked', () => {
+    const a = memory('Run migrations before deploying', 'project:a');
+    const b = memory('Run migrations before deploying', 'project:b');
+
+    expect(findDuplicateClusters([a, b])).toHaveLength(0);
+    expect(findDuplicateClusters([a, b], { crossScope: true })).toHaveLength(1);
+  });
+
+  it('should respect the threshold', () => {
+    const a = memory('Use zod for request validation in the API');
+    const b = memory('Use zod for config validation in the CLI');
+
+    expect(findDuplicateClusters([a, b], { threshold: 0.9 })).toHaveLength(0);
+  });
+});
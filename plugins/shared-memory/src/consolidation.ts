@@ -0,0 +1,109 @@
+/**
+ * Near-duplicate detection for LocalStore.
+ *
+ * Memories are compared by Jaccard similarity of their word shingles
+ * (overlapping word pairs), which tolerates small rewordings, reordering of
+ * clauses and added detail while ignoring case and punctuation. Pairs above
+ * the threshold are grouped transitively into clusters, each with a
+ * suggested keeper and merged tag set for merge_memories.
+ */
+
+import type { Memory } from '@brain-jar/core';
+
+const DEFAULT_THRESHOLD = 0.5;
+const SHINGLE_SIZE = 2;
+
+export interface DuplicateOptions {
+  threshold?: number; // Minimum Jaccard similarity (0-1, default 0.5)
+  crossScope?: boolean; // Compare memories in different scopes (default: false)
+}
+
+export interface DuplicateCluster {
+  keep_id: string; // Suggested survivor: the most detailed (longest) memory, newest on ties
+  merge_ids: string[]; // The others, to be folded into keep_id
+  similarity: number; // Lowest pairwise similarity that linked the cluster
+  memories: Memory[];
+  tags: string[]; // Union of all tags
+}
+
+/**
+ * Word shingles of a text (falls back to single words for very short text).
+ */
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length < size) {
+    return new Set(words);
+  }
+
+  const result = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Cluster near-duplicate memories. Memories without a near-duplicate are omitted.
+ */
+export function findDuplicateClusters(memories: Memory[], options: DuplicateOptions = {}): DuplicateCluster[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const sets = memories.map((m) => shingles(m.content));
+
+  // Union-find over memory indexes
+  const parent = memories.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const linkScore = new Map<number, number>();
+
+  for (let i = 0; i < memories.length; i++) {
+    for (let j = i + 1; j < memories.length; j++) {
+      if (!options.crossScope && memories[i].scope !== memories[j].scope) continue;
+
+      const similarity = jaccard(sets[i], sets[j]);
+      if (similarity < threshold) continue;
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      const lowest = Math.min(similarity, linkScore.get(rootI) ?? 1, linkScore.get(rootJ) ?? 1);
+      parent[rootJ] = rootI;
+      linkScore.set(rootI, lowest);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  memories.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const [root, members] of groups) {
+    if (members.length < 2) continue;
+
+    const clusterMemories = members
+      .map((i) => memories[i])
+      .sort(
+        (a, b) =>
+          b.content.length - a.content.length || b.updated_at.getTime() - a.updated_at.getTime()
+      );
+
+    clusters.push({
+      keep_id: clusterMemories[0].id,
+      merge_ids: clusterMemories.slice(1).map((m) => m.id),
+      similarity: Math.round((linkScore.get(root) ?? 1) * 100) / 100,
+      memories: clusterMemories,
+      tags: [...new Set(clusterMemories.flatMap((m) => m.tags))],
+    });
+  }
+
+  return clusters.sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,38 @@
+import { HashedNgramEmbedder, cosineSimilarity } from './embeddings';
+
+describe('HashedNgramEmbedder', () => {
+  const embedder = new HashedNgramEmbedder();
+
+  it('should produce unit vectors of the configured size', async () => {
+    const [vector] = await embedder.embed(['Refresh the JWT before expiry']);
+
+    expect(vector).toHaveLength(512);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it('should be deterministic', async () => {
+    const [a, b] = await embedder.embed(['same text', 'same text']);
+    expect(Array.from(a)).toEqual(Array.from(b));
+  });
+
+  it('should score related text above unrelated text', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'kubernetes deployment',
+      'Deploying services to the kubernets cluster',
+      'Prefers tabs over spaces',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should include the dimensions in its id', () => {
+    expect(new HashedNgramEmbedder(128).id).toBe('hashed-ngram-128');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 0 for empty or mismatched vectors', () => {
+    expect(cosineSimilarity(new Float32Array(3), new Float32Array([1, 0, 0]))).toBe(0);
+    expect(cosineSimilarity(new Float32Array([1]), new Float32Array([1, 0]))).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Embedders for local semantic search.
+ *
+ * Any model can be plugged in by implementing Embedder. The built-in
+ * HashedNgramEmbedder needs no model download: it hashes words and
+ * character trigrams into a fixed-size vector, which catches shared
+ * stems, typos and word-order changes (but not true synonyms).
+ */
+
+export interface Embedder {
+  readonly id: string; // Stored with each vector; changing it triggers re-embedding
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const DEFAULT_DIMENSIONS = 512;
+const TRIGRAM_WEIGHT = 0.5; // Relative to whole-word features
+
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((t) => this.embedOne(t));
+  }
+
+  embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  // Signed feature hashing keeps collisions from biasing similarity upward
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros).
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  if (norm === 0) return vector;
+
+  const scale = 1 / Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) vector[i] *= scale;
+  return vector;
+}
+
+// 32-bit FNV-1a
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -8,7 +8,7 @@ import * as os from 'os';
 import * as fs from 'fs';
 
 import {
-  Mem0Client,
+  createMemoryBackend,
   checkConfig,
   loadConfig,
   saveConfig,
@@ -16,15 +16,64 @@ import {
   getConfigPath,
   ProfileSection,
   detectScope,
+  detectScopeWithDetails,
+  resolveConfig,
+  migrateLegacyConfig,
+  maskConfigSecrets,
+  getConfigEnvName,
+  brainJarConfigSchema,
+  CONFIG_SECTIONS,
+  installLogRedaction,
+  redactTransport,
+  runDoctor,
+  formatDoctorReport,
+  matchesScopePattern,
+  selectProfile,
+  DEFAULT_PROFILE,
 } from '@brain-jar/core';
-import { LocalStore } from './local-store';
+import type { ConfigSection } from '@brain-jar/core';
+import { LocalStore, MEMORY_RELATIONS } from './local-store';
+import type { MemoryRelation } from './local-store';
 import { SummaryManager } from './summary-manager';
-import { AddMemoryInput, SearchMemoryInput, ListMemoriesInput } from './types';
+import { SyncQueue } from './sync-queue';
+import type { SyncStatus } from './sync-queue';
+import { MemoryReconciler } from './reconciler';
+import { SemanticIndex, SCOPE_INHERITANCE, getScopeWeights } from './semantic-index';
+import type { ScopeInheritance } from './semantic-index';
+import { findDuplicateClusters } from './consolidation';
+import { findExpired, getExpiry, loadRetentionRules } from './retention';
+import { buildMemoryGraph, toMermaid } from './memory-graph';
+import { migrateScope, validateScopeMigration } from './scope-migration';
+import {
+  MEMORY_KINDS,
+  decisionPayloadSchema,
+  gotchaPayloadSchema,
+  todoPayloadSchema,
+  linkPayloadSchema,
+  resolveKind,
+  formatPayload,
+  sortOpenTodos,
+} from './memory-kinds';
+import {
+  MemoryPorter,
+  serializeRecords,
+  parseRecords,
+  parsePortabilityArgs,
+  parseSections,
+  parseDateArg,
+  formatFromPath,
+} from './portability';
+import type { ExportFormat, PortabilityCliArgs } from './portability';
+import { Memory, AddMemoryInput, SearchMemoryInput, ListMemoriesInput, UpdateMemoryInput } from './types';
 import { ProfileManager, InferenceEngine } from './profile';
 import { SessionStore, Predictor } from './chess-timer';
 import type { WorkType } from './chess-timer';
 
 const LOCAL_DB_PATH = path.join(os.homedir(), '.config', 'brain-jar', 'local.db');
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_DIR = path.join(os.homedir(), '.config', 'brain-jar', 'exports');
+const DIAGRAMS_DB_PATH = path.join(os.homedir(), '.config', 'brain-jar', 'diagrams', 'diagrams.db'); // visual-thinking
 
 // Chess Timer Hookify Rules
 const CHESS_TIMER_HOOK_START = 'hookify.chess-timer-start.local.md';
@@ -129,6 +178,38 @@ async function runSetup(): Promise<void> {
   console.log('[OK] Ready to use shared-memory!\n');
 }
 
+/**
+ * Handles `run.js --export <file>` / `run.js --import <file>` without starting the server.
+ */
+async function runPortabilityCli(args: PortabilityCliArgs): Promise<void> {
+  const configStatus = checkConfig();
+  const config = configStatus.status !== 'missing' ? loadConfig() : null;
+  const backend = createMemoryBackend(config);
+
+  const localStore = new LocalStore(LOCAL_DB_PATH);
+  const sessionStore = new SessionStore(LOCAL_DB_PATH);
+  const profileManager = new ProfileManager();
+  profileManager.selectForScope(detectScope());
+  const porter = new MemoryPorter({ localStore, sessionStore, profileManager, backend });
+
+  try {
+    if (args.mode === 'export') {
+      const records = await porter.collect(args.filters, args.sections);
+      fs.mkdirSync(path.dirname(path.resolve(args.file)), { recursive: true });
+      fs.writeFileSync(args.file, serializeRecords(records, args.format));
+      console.log(`[OK] Exported ${records.length - 1} record(s) to ${args.file}`);
+    } else {
+      const records = parseRecords(fs.readFileSync(args.file, 'utf-8'));
+      const result = await porter.import(records, { overwriteProfile: args.overwriteProfile });
+      console.log(`[OK] Imported from ${args.file}`);
+      console.log(JSON.stringify(result, null, 2));
+    }
+  } finally {
+    localStore.close();
+    sessionStore.close();
+  }
+}
+
 async function promptChessTimerHooks(): Promise<void> {
   const { confirm } = await import('@inquirer/prompts');
   const claudeDir = path.join(os.homedir(), '.claude');
@@ -179,48 +260,189 @@ async function promptChessTimerHooks(): Promise<void> {
 }
 
 async function main(): Promise<void> {
+  // Keep API keys out of logs and tool output
+  installLogRedaction();
+
   // Handle --setup flag
   if (process.argv.includes('--setup')) {
     await runSetup();
     process.exit(0);
   }
 
+  // Handle --doctor flag (health checks across all brain-jar plugins)
+  if (process.argv.includes('--doctor')) {
+    const report = await runDoctor({ offline: process.argv.includes('--offline') });
+    console.log(formatDoctorReport(report));
+    process.exit(report.ok ? 0 : 1);
+  }
+
+  // Handle --export / --import flags (backups and transfers without Mem0)
+  const portabilityArgs = parsePortabilityArgs(process.argv);
+  if (portabilityArgs) {
+    await runPortabilityCli(portabilityArgs);
+    process.exit(0);
+  }
+
   // Check configuration - but don't exit if missing, just note it
   const configStatus = checkConfig();
   const isConfigured = configStatus.status !== 'missing';
   const config = isConfigured ? loadConfig()! : null;
 
+  // Plugin settings; invalid values fall back to defaults (see validate_config)
+  const resolvedConfig = resolveConfig();
+  for (const issue of resolvedConfig.issues) {
+    console.error(`[shared-memory] Config ${issue.path}: ${issue.message} (using default)`);
+  }
+  const settings = resolvedConfig.config.shared_memory;
+
   // Local store works without Mem0 config
   const localStore = new LocalStore(LOCAL_DB_PATH);
 
+  // Local vector search (hashed n-gram embeddings, no model download)
+  const semanticIndex = new SemanticIndex(localStore);
+  semanticIndex.backfill().catch((error) => {
+    console.error('[shared-memory] Embedding backfill failed:', error);
+  });
+
   // Chess timer stores (use same DB for simplicity)
   const sessionStore = new SessionStore(LOCAL_DB_PATH);
   const predictor = new Predictor(sessionStore);
 
-  // Mem0 client only if configured
-  const mem0Client = config ? new Mem0Client(config.mem0_api_key) : null;
+  // Storage backend (Mem0 cloud or local SQLite) only if configured
+  const backend = createMemoryBackend(config);
+
+  // Memories already live in LocalStore, so only mirror them to a cloud backend
+  const mem0Client = backend?.kind === 'mem0' ? backend : null;
+
+  // Durable outbox for Mem0 writes (same DB as LocalStore).
+  // Successful writes maintain the local <-> Mem0 id mapping.
+  const syncQueue = new SyncQueue(LOCAL_DB_PATH, (entry, remoteId) => {
+    if (entry.operation === 'delete') {
+      localStore.removeSyncMapping(entry.memory_id);
+    } else if (remoteId) {
+      localStore.setRemoteId(entry.memory_id, remoteId, entry.operation === 'update');
+    }
+  });
+  const reconciler = mem0Client ? new MemoryReconciler(localStore, syncQueue, mem0Client) : null;
+
+  /**
+   * Send a local edit to Mem0 (queued, so it is retried while offline).
+   * Edits to a memory whose add is unsent or unconfirmed (the id may be an
+   * async event id) stay local: they are folded into the queued add, queued
+   * to follow an add in flight, or sent by sync_memories once the real id
+   * is known.
+   * Returns a note for the tool response ('' when synced or Mem0 is off).
+   */
+  const syncMemoryUpdate = async (memory: Memory): Promise<string> => {
+    if (!mem0Client) return '';
+
+    const metadata = {
+      scope: memory.scope,
+      tags: memory.tags,
+      kind: memory.kind,
+      payload: memory.payload,
+      source_agent: memory.source.agent,
+      source_action: memory.source.action || 'explicit',
+      local_id: memory.id,
+    };
+    if (syncQueue.updateQueuedAdd(memory.id, { content: memory.content, metadata })) {
+      return '';
+    }
+    if (syncQueue.hasQueued(memory.id, 'add')) {
+      // The add is being sent; follow it with this edit once Mem0 acknowledges it
+      syncQueue.cancel(memory.id, 'update');
+      syncQueue.enqueue('update', memory.id, { remote_id: '', content: memory.content, metadata });
+      return '';
+    }
+
+    const mapping = localStore.getSyncMapping(memory.id);
+    if (!mapping) {
+      // Never synced and not queued - sync_memories will upload it
+      return ' [Not yet in Mem0 - run sync_memories to upload]';
+    }
+    if (!mapping.confirmed) {
+      return ' [Mem0 still processing the add - run sync_memories to send this edit]';
+    }
+
+    const entry = syncQueue.enqueue('update', memory.id, {
+      remote_id: mapping.remote_id,
+      content: memory.content,
+      metadata,
+    });
+    return (await syncQueue.process(entry, mem0Client)) ? '' : ' [Mem0 sync pending - will retry]';
+  };
+
+  /**
+   * Delete the Mem0 copy of a (locally deleted) memory, queued like updates.
+   * remoteFallback is tried when there is no mapping (e.g. a raw Mem0 id).
+   * An add being sent is followed by the delete once Mem0 acknowledges it.
+   * Unconfirmed mappings are kept for the reconciler, which deletes the real
+   * memory once Mem0 has processed the add.
+   * Returns true if Mem0 confirmed the delete.
+   */
+  const syncMemoryDelete = async (localId: string, remoteFallback: string | null = null): Promise<boolean> => {
+    if (!mem0Client) return false;
+
+    if (syncQueue.cancel(localId, 'add') > 0) {
+      // Never reached Mem0 - just drop the queued upload
+      syncQueue.cancel(localId);
+      return false;
+    }
+    if (syncQueue.hasQueued(localId, 'add')) {
+      // Being sent right now; cancelling would leave its cloud copy behind
+      syncQueue.cancel(localId, 'update');
+      syncQueue.enqueue('delete', localId, { remote_id: '' });
+      return false;
+    }
+
+    const mapping = localStore.getSyncMapping(localId);
+    if (mapping && !mapping.confirmed) {
+      syncQueue.cancel(localId, 'update');
+      return false;
+    }
+
+    const remoteId = mapping?.remote_id || remoteFallback;
+    if (!remoteId) {
+      syncQueue.cancel(localId);
+      return false;
+    }
+
+    syncQueue.cancel(localId, 'update');
+    const entry = syncQueue.enqueue('delete', localId, { remote_id: remoteId });
+    return syncQueue.process(entry, mem0Client);
+  };
 
   // Profile manager and inference engine (always available)
   const profileManager = new ProfileManager();
   const inferenceEngine = new InferenceEngine();
+  const profileSelection = profileManager.selectForScope(detectScope());
+  if (profileSelection.name !== DEFAULT_PROFILE) {
+    const why = profileSelection.rule ? `rule ${profileSelection.rule.scope}` : profileSelection.reason;
+    console.error(`[shared-memory] Using profile "${profileSelection.name}" (${why})`);
+  }
 
   // Summary manager for auto-summaries
-  const summaryManager = new SummaryManager(mem0Client, localStore);
+  const summaryManager = new SummaryManager(backend, localStore, undefined, settings);
 
-  // Connect profile manager to Mem0 if configured
-  if (mem0Client) {
-    profileManager.setMem0Client(mem0Client);
-    // Sync profile from Mem0 on startup
+  // Connect profile manager to the storage backend if configured
+  if (backend) {
+    profileManager.setMem0Client(backend);
+    // Sync profile from backend on startup
     try {
       const syncResult = await profileManager.syncFromMem0();
       console.error(`[shared-memory] Profile sync: ${syncResult.action}`);
+      if (syncResult.conflicts.length > 0) {
+        console.error(
+          `[shared-memory] ${syncResult.conflicts.length} profile conflict(s) need a decision: ${syncResult.conflicts.map((c) => c.field).join(', ')}`
+        );
+      }
     } catch (error) {
       console.error('[shared-memory] Profile sync failed:', error);
     }
 
     // One-time migration: prune duplicate profile snapshots
     try {
-      const pruned = await mem0Client.pruneProfileHistory();
+      const pruned = await backend.pruneProfileHistory();
       if (pruned > 0) {
         console.error(`[shared-memory] Pruned ${pruned} duplicate profile snapshot(s)`);
       }
@@ -229,6 +451,54 @@ async function main(): Promise<void> {
     }
   }
 
+  // Propose demoting profile entries not seen for a long time (confirm/reject like other inferences)
+  try {
+    const demotions = await profileManager.proposeDemotions();
+    if (demotions.length > 0) {
+      console.error(`[shared-memory] ${demotions.length} stale profile entr(ies) proposed for demotion`);
+    }
+  } catch (error) {
+    console.error('[shared-memory] Profile decay check failed:', error);
+  }
+
+  // Replay Mem0 operations queued while offline, then keep retrying periodically
+  if (mem0Client) {
+    const replaySyncQueue = async (): Promise<void> => {
+      try {
+        const result = await syncQueue.replay(mem0Client);
+        if (result.synced + result.retrying + result.failed > 0) {
+          console.error(
+            `[shared-memory] Sync replay: ${result.synced} synced, ${result.retrying} retrying, ${result.failed} failed`
+          );
+        }
+      } catch (error) {
+        console.error('[shared-memory] Sync replay failed:', error);
+      }
+    };
+
+    await replaySyncQueue();
+    setInterval(replaySyncQueue, settings.sync_interval_minutes * MINUTE_MS).unref();
+  }
+
+  // Prune expired memories (explicit expires_at or retention rules) on startup, then periodically
+  const pruneExpiredMemories = async (): Promise<void> => {
+    try {
+      const expired = findExpired(localStore.list(), loadRetentionRules());
+      for (const { memory } of expired) {
+        localStore.delete(memory.id);
+        await syncMemoryDelete(memory.id);
+      }
+      if (expired.length > 0) {
+        console.error(`[shared-memory] Retention: pruned ${expired.length} expired memor${expired.length === 1 ? 'y' : 'ies'}`);
+      }
+    } catch (error) {
+      console.error('[shared-memory] Retention prune failed:', error);
+    }
+  };
+
+  await pruneExpiredMemories();
+  setInterval(pruneExpiredMemories, settings.retention_interval_minutes * MINUTE_MS).unref();
+
   if (!isConfigured) {
     console.error('[shared-memory] Warning: Not configured. Run with --setup or create config file.');
     console.error('[shared-memory] Local storage will work, but Mem0 cloud sync disabled.');
@@ -249,33 +519,67 @@ async function main(): Promise<void> {
     'Store a memory with enriched context',
     {
       content: z.string().describe('The memory content with context and sentiment'),
-      scope: z.string().optional().describe('Scope: "global" or "project:<name>"'),
+      scope: z.string().optional().describe('Scope: "global", "project:<name>", a package like "project:<name>/<path>", or "team:<name>"'),
       tags: z.array(z.string()).optional().describe('Tags for categorization'),
+      ttl_days: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Expire after this many days (overrides retention rules, e.g. for transient debugging notes)'),
+      kind: z.enum(MEMORY_KINDS).optional().describe('Memory kind (default: note, or implied by the details given)'),
+      decision: decisionPayloadSchema.partial().optional().describe('Decision details: choice, options, rationale'),
+      gotcha: gotchaPayloadSchema.optional().describe('Gotcha details: workaround'),
+      todo: todoPayloadSchema.partial().optional().describe('Todo details: status (default open), due'),
+      link: linkPayloadSchema.partial().optional().describe('Link details: url, title'),
     },
     async (args: AddMemoryInput) => {
-      const scope = args.scope || config?.default_scope || detectScope();
-      const tags = args.tags || [];
+      const project = detectScopeWithDetails();
+      const scope = args.scope || config?.default_scope || project.scope;
+      // Project default tags (.brain-jar.json) apply to memories stored in that project
+      const defaultTags = scope === project.scope ? project.config?.default_tags || [] : [];
+      const tags = [...new Set([...(args.tags || []), ...defaultTags])];
+
+      let kind;
+      try {
+        kind = resolveKind(args);
+      } catch (error) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+        };
+      }
 
       // Store locally first (working memory)
       const memory = localStore.add({
         content: args.content,
         scope,
         tags,
+        kind: kind.kind,
+        payload: kind.payload,
         source: { agent: 'claude-code', action: 'explicit' },
+        expires_at: args.ttl_days ? new Date(Date.now() + args.ttl_days * DAY_MS) : undefined,
       });
 
-      // Also sync to Mem0 (persistent memory) if configured
+      // Also sync to Mem0 (persistent memory) if configured.
+      // Queued first so the write survives being offline; retried later on failure.
+      let queuedNote = '';
       if (mem0Client) {
-        try {
-          await mem0Client.add(args.content, {
+        const entry = syncQueue.enqueue('add', memory.id, {
+          content: args.content,
+          metadata: {
             scope,
             tags,
+            kind: memory.kind,
+            payload: memory.payload,
             source_agent: 'claude-code',
             source_action: 'explicit',
-          });
-        } catch (error) {
+            local_id: memory.id, // Resolves async event ids (see MemoryReconciler)
+          },
+        });
+        const synced = await syncQueue.process(entry, mem0Client);
+        if (!synced) {
           // Log but don't fail - local storage succeeded
-          console.error('[shared-memory] Mem0 sync failed:', error);
+          console.error('[shared-memory] Mem0 sync failed, queued for retry:', syncQueue.get(entry.id)?.last_error);
+          queuedNote = ' [Mem0 sync pending - will retry]';
         }
       }
 
@@ -295,7 +599,7 @@ async function main(): Promise<void> {
         content: [
           {
             type: 'text' as const,
-            text: `Memory stored (id: ${memory.id})${syncNote}${summaryNote}`,
+            text: `Memory stored (id: ${memory.id})${syncNote}${queuedNote}${summaryNote}`,
           },
         ],
       };
@@ -306,23 +610,59 @@ async function main(): Promise<void> {
     'search_memory',
     'Search memories semantically',
     {
-      query: z.string().describe('Natural language search query'),
+      query: z
+        .string()
+        .describe('Search query. Local search supports "exact phrase", prefix*, AND / OR / NOT'),
       scope: z.string().optional().describe('Filter by scope'),
+      inherit: z
+        .enum(SCOPE_INHERITANCE)
+        .optional()
+        .describe(
+          'With scope: "ancestors" (default unless the project config sets search_inherit) also searches parent scopes up to global, ranked lower; "subtree" searches nested package scopes; "exact" only the scope'
+        ),
+      kind: z.enum(MEMORY_KINDS).optional().describe('Filter by kind'),
       limit: z.number().optional().describe('Maximum results (default: 10)'),
     },
     async (args: SearchMemoryInput) => {
       const limit = args.limit || 10;
+      const project = detectScopeWithDetails();
+      const settings = project.config?.plugins?.['shared-memory'] || {};
+      const inherit =
+        args.inherit ??
+        (SCOPE_INHERITANCE.includes(settings.search_inherit as ScopeInheritance)
+          ? (settings.search_inherit as ScopeInheritance)
+          : undefined);
+      const scopeWeights = args.scope
+        ? getScopeWeights(args.scope, inherit, localStore.getActiveScopes())
+        : undefined;
+
+      // Memories stored under a project's old names rank like the project itself
+      const aliasTarget = project.config?.scope || project.scope;
+      if (scopeWeights && aliasTarget in scopeWeights) {
+        for (const alias of project.config?.aliases || []) {
+          scopeWeights[alias] ??= scopeWeights[aliasTarget];
+        }
+      }
 
-      // Try local first
-      let results = localStore.search(args.query, args.scope, limit);
+      // Try local first (bm25 keyword ranking blended with vector similarity)
+      let results: (Memory & { snippet?: string })[] = await semanticIndex.search(
+        args.query,
+        scopeWeights,
+        limit,
+        args.kind
+      );
 
       // If few local results, also search Mem0 (if configured)
       if (mem0Client && results.length < limit) {
         try {
           const mem0Results = await mem0Client.search(args.query, limit);
-          // Merge, avoiding duplicates by content
+          // Merge, skipping cloud copies of local memories (by id mapping, then content)
+          const existingIds = new Set(results.map((r) => r.id));
           const existingContent = new Set(results.map((r) => r.content));
           for (const r of mem0Results) {
+            const localId = localStore.getLocalId(r.id);
+            if (localId && existingIds.has(localId)) continue;
+            if (args.kind && (r.metadata?.kind || 'note') !== args.kind) continue;
             if (!existingContent.has(r.content)) {
               results.push(r);
             }
@@ -333,8 +673,8 @@ async function main(): Promise<void> {
       }
 
       // Apply scope filter if specified
-      if (args.scope) {
-        results = results.filter((r) => r.scope === args.scope || r.scope === 'global');
+      if (scopeWeights) {
+        results = results.filter((r) => r.scope in scopeWeights);
       }
 
       const syncNote = mem0Client ? '' : '\n\n(Searching local only - configure Mem0 for cloud sync)';
@@ -344,7 +684,13 @@ async function main(): Promise<void> {
             type: 'text' as const,
             text:
               results.length > 0
-                ? results.map((m) => `[${m.scope}] ${m.content}`).join('\n\n---\n\n') + syncNote
+                ? results
+                    .map((m) => {
+                      const kind = m.kind || (m.metadata?.kind as string | undefined);
+                      const label = kind && kind !== 'note' ? ` (${kind})` : '';
+                      return `[${m.scope}]${label} ${m.snippet || m.content}`;
+                    })
+                    .join('\n\n---\n\n') + syncNote
                 : 'No memories found.' + syncNote,
           },
         ],
@@ -358,12 +704,14 @@ async function main(): Promise<void> {
     {
       scope: z.string().optional().describe('Filter by scope'),
       tags: z.array(z.string()).optional().describe('Filter by tags'),
+      kind: z.enum(MEMORY_KINDS).optional().describe('Filter by kind'),
       limit: z.number().optional().describe('Maximum results'),
     },
     async (args: ListMemoriesInput) => {
       const results = localStore.list({
         scope: args.scope,
         tags: args.tags,
+        kind: args.kind,
         limit: args.limit,
       });
 
@@ -374,10 +722,11 @@ async function main(): Promise<void> {
             text:
               results.length > 0
                 ? results
-                    .map(
-                      (m) =>
-                        `[${m.scope}] (${m.tags.join(', ') || 'no tags'})\n${m.content}`
-                    )
+                    .map((m) => {
+                      const label = m.kind && m.kind !== 'note' ? ` ${m.kind}` : '';
+                      const details = formatPayload(m);
+                      return `[${m.scope}]${label} (${m.tags.join(', ') || 'no tags'})\n${m.content}${details ? `\n${details}` : ''}`;
+                    })
                     .join('\n\n---\n\n')
                 : 'No memories found.',
           },
@@ -386,6 +735,51 @@ async function main(): Promise<void> {
     }
   );
 
+  server.tool(
+    'list_open_todos',
+    'List open todo memories for a project, soonest due first',
+    {
+      scope: z.string().optional().describe('Scope (default: current project, including its aliases)'),
+      all_scopes: z.boolean().optional().describe('List open todos from every scope'),
+    },
+    async (args: { scope?: string; all_scopes?: boolean }) => {
+      const project = detectScopeWithDetails();
+      const scope = args.all_scopes ? undefined : args.scope || project.scope;
+      const aliases = args.scope ? [] : project.config?.aliases || [];
+      const scopes = scope && aliases.length > 0 ? [scope, ...aliases] : scope;
+      const todos = sortOpenTodos(localStore.list({ scope: scopes, kind: 'todo' }));
+      const today = new Date().toISOString().split('T')[0];
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                scope: scope || 'all',
+                open: todos.length,
+                todos: todos.map((m) => {
+                  const due = (m.payload as { due?: string } | undefined)?.due;
+                  return {
+                    id: m.id,
+                    scope: m.scope,
+                    content: m.content,
+                    due: due || null,
+                    overdue: !!due && due.split('T')[0] < today,
+                    tags: m.tags,
+                    created_at: m.created_at.toISOString(),
+                  };
+                }),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
   server.tool(
     'delete_memory',
     'Delete a memory by ID',
@@ -393,16 +787,12 @@ async function main(): Promise<void> {
       id: z.string().describe('Memory ID to delete'),
     },
     async (args: { id: string }) => {
-      const deleted = localStore.delete(args.id);
+      // Accept either a local id or a Mem0 id (search results can include both)
+      const localId = localStore.get(args.id) ? args.id : localStore.getLocalId(args.id) || args.id;
+      let deleted = localStore.delete(localId);
 
-      // Also try to delete from Mem0 (if configured)
-      if (mem0Client) {
-        try {
-          await mem0Client.delete(args.id);
-        } catch {
-          // Ignore - might not exist in Mem0
-        }
-      }
+      // Also delete from Mem0 (if configured)
+      deleted = (await syncMemoryDelete(localId, deleted ? null : args.id)) || deleted;
 
       return {
         content: [
@@ -415,33 +805,104 @@ async function main(): Promise<void> {
     }
   );
 
-  // --- Profile Management Tools ---
-
   server.tool(
-    'get_user_profile',
-    'Get the user profile or a specific section',
+    'update_memory',
+    'Correct a memory in place. The previous version is kept in its history and the edit is synced to Mem0',
     {
-      section: z
-        .enum(['all', 'identity', 'technical', 'workingStyle', 'knowledge', 'personal', 'meta'])
+      id: z.string().describe('Memory ID to update'),
+      content: z.string().optional().describe('New content'),
+      scope: z.string().optional().describe('New scope'),
+      tags: z.array(z.string()).optional().describe('New tags (replaces existing)'),
+      ttl_days: z
+        .number()
+        .positive()
+        .nullable()
         .optional()
-        .describe('Section to retrieve (default: all)'),
+        .describe('Expire this many days from now; null clears the expiry so retention rules apply again'),
+      kind: z.enum(MEMORY_KINDS).optional().describe('Change the kind'),
+      decision: decisionPayloadSchema.partial().optional().describe('Decision details to set (merged into existing)'),
+      gotcha: gotchaPayloadSchema.optional().describe('Gotcha details to set'),
+      todo: todoPayloadSchema.partial().optional().describe('Todo details to set, e.g. { "status": "done" }'),
+      link: linkPayloadSchema.partial().optional().describe('Link details to set'),
     },
-    async (args: { section?: ProfileSection }) => {
-      const profile = await profileManager.load();
-      const section = args.section || 'all';
+    async (args: UpdateMemoryInput) => {
+      const editsKind = [args.kind, args.decision, args.gotcha, args.todo, args.link].some((v) => v !== undefined);
+      const editsContent =
+        args.content !== undefined || args.scope !== undefined || args.tags !== undefined || editsKind;
+      if (!editsContent && args.ttl_days === undefined) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: 'Error: Provide at least one of content, scope, tags, kind details or ttl_days.',
+            },
+          ],
+        };
+      }
 
-      let data: unknown;
-      if (section === 'all') {
-        data = profile;
-      } else {
-        data = profile[section as keyof typeof profile];
+      // Accept either a local id or a Mem0 id
+      const localId = localStore.get(args.id) ? args.id : localStore.getLocalId(args.id);
+      const existing = localId ? localStore.get(localId) : null;
+
+      let kind;
+      try {
+        kind = existing && editsKind ? resolveKind(args, existing) : undefined;
+      } catch (error) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+        };
+      }
+
+      if (localId && args.ttl_days !== undefined) {
+        localStore.setExpiry(localId, args.ttl_days === null ? null : new Date(Date.now() + args.ttl_days * DAY_MS));
       }
+      const memory = localId
+        ? editsContent
+          ? localStore.update(localId, {
+              content: args.content,
+              scope: args.scope,
+              tags: args.tags,
+              kind: kind?.kind,
+              payload: kind ? kind.payload ?? null : undefined,
+            })
+          : localStore.get(localId)
+        : null;
+
+      if (!memory) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Memory ${args.id} not found locally. Run sync_memories to pull it from Mem0 first.`,
+            },
+          ],
+        };
+      }
+
+      // Expiry is local-only; Mem0 sees the delete when the memory is pruned
+      if (!editsContent) {
+        const expiry = getExpiry(memory, loadRetentionRules());
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: expiry
+                ? `Memory ${memory.id} expires ${expiry.expires_at.toISOString()} (${expiry.reason})`
+                : `Memory ${memory.id} no longer expires`,
+            },
+          ],
+        };
+      }
+
+      // Propagate to Mem0 (if configured)
+      const queuedNote = await syncMemoryUpdate(memory);
 
+      const revisions = localStore.getRevisions(memory.id);
       return {
         content: [
           {
             type: 'text' as const,
-            text: JSON.stringify(data, null, 2),
+            text: `Memory ${memory.id} updated (revision ${revisions.length + 1})${queuedNote}`,
           },
         ],
       };
@@ -449,27 +910,68 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'update_user_profile',
-    'Update a field in the user profile',
+    'get_memory_history',
+    'Show how a memory changed over time (all previous versions plus the current one)',
     {
-      field: z.string().describe('Dot-path to field (e.g., "identity.name", "technical.languages")'),
-      value: z.union([z.string(), z.array(z.string())]).describe('Value to set'),
-      append: z.boolean().optional().describe('For array fields, append instead of replace'),
+      id: z.string().describe('Memory ID'),
     },
-    async (args: { field: string; value: string | string[]; append?: boolean }) => {
-      if (args.append && Array.isArray(args.value)) {
-        await profileManager.addToArray(args.field, args.value);
-      } else if (args.append && typeof args.value === 'string') {
-        await profileManager.addToArray(args.field, [args.value]);
-      } else {
-        await profileManager.set(args.field, args.value);
+    async (args: { id: string }) => {
+      const localId = localStore.get(args.id) ? args.id : localStore.getLocalId(args.id);
+      const memory = localId ? localStore.get(localId) : null;
+
+      if (!memory) {
+        return {
+          content: [{ type: 'text' as const, text: `Memory ${args.id} not found.` }],
+        };
       }
 
+      const revisions = localStore.getRevisions(memory.id);
+      const history = [
+        ...revisions.map((r) => ({
+          revision: r.revision,
+          content: r.content,
+          scope: r.scope,
+          tags: r.tags,
+          kind: r.kind,
+          payload: r.payload,
+          written_at: r.created_at.toISOString(),
+          replaced_at: r.replaced_at.toISOString(),
+          replaced_by: r.changed_by,
+        })),
+        {
+          revision: revisions.length + 1,
+          content: memory.content,
+          scope: memory.scope,
+          tags: memory.tags,
+          kind: memory.kind,
+          payload: memory.payload,
+          written_at: memory.updated_at.toISOString(),
+          current: true,
+        },
+      ];
+
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Profile updated: ${args.field} = ${JSON.stringify(args.value)}`,
+            text: JSON.stringify(
+              {
+                id: memory.id,
+                mem0_id: localStore.getRemoteId(memory.id),
+                created_at: memory.created_at.toISOString(),
+                revisions: history,
+                merged_from: localStore.getMerges(memory.id).map((m) => ({
+                  id: m.merged_id,
+                  content: m.content,
+                  scope: m.scope,
+                  tags: m.tags,
+                  created_at: m.created_at.toISOString(),
+                  merged_at: m.merged_at.toISOString(),
+                })),
+              },
+              null,
+              2
+            ),
           },
         ],
       };
@@ -477,41 +979,49 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'propose_profile_inference',
-    'Propose an inferred preference for user confirmation',
+    'find_duplicate_memories',
+    'Find clusters of near-duplicate memories and propose merges (apply with merge_memories)',
     {
-      field: z.string().describe('Dot-path to field (e.g., "technical.languages")'),
-      value: z.union([z.string(), z.array(z.string())]).describe('Inferred value'),
-      evidence: z.string().describe('What triggered this inference'),
-      confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level'),
-      source: z.enum(['codebase', 'conversation', 'config']).optional().describe('Source of inference'),
+      scope: z.string().optional().describe('Only check this scope (default: all)'),
+      threshold: z.number().min(0).max(1).optional().describe('Similarity threshold 0-1 (default: 0.5)'),
+      cross_scope: z.boolean().optional().describe('Also match memories across different scopes (default: false)'),
+      limit: z.number().optional().describe('Maximum clusters to return (default: 20)'),
     },
-    async (args: {
-      field: string;
-      value: string | string[];
-      evidence: string;
-      confidence: 'high' | 'medium' | 'low';
-      source?: 'codebase' | 'conversation' | 'config';
-    }) => {
-      const inference = await profileManager.addInference({
-        field: args.field,
-        value: args.value,
-        evidence: args.evidence,
-        confidence: args.confidence,
-        source: args.source || 'conversation',
-      });
+    async (args: { scope?: string; threshold?: number; cross_scope?: boolean; limit?: number }) => {
+      const memories = localStore.list({ scope: args.scope });
+      const clusters = findDuplicateClusters(memories, {
+        threshold: args.threshold,
+        crossScope: args.cross_scope,
+      }).slice(0, args.limit || 20);
+
+      if (clusters.length === 0) {
+        return {
+          content: [{ type: 'text' as const, text: `No near-duplicates found among ${memories.length} memories.` }],
+        };
+      }
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: JSON.stringify({
-              message: 'Inference proposed - ask user to confirm',
-              inference_id: inference.id,
-              field: inference.field,
-              value: inference.value,
-              evidence: inference.evidence,
-            }),
+            text: JSON.stringify(
+              {
+                checked: memories.length,
+                clusters: clusters.map((c) => ({
+                  similarity: c.similarity,
+                  proposed_merge: { keep_id: c.keep_id, merge_ids: c.merge_ids, tags: c.tags },
+                  memories: c.memories.map((m) => ({
+                    id: m.id,
+                    scope: m.scope,
+                    tags: m.tags,
+                    content: m.content,
+                    updated_at: m.updated_at.toISOString(),
+                  })),
+                })),
+              },
+              null,
+              2
+            ),
           },
         ],
       };
@@ -519,21 +1029,45 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'confirm_profile_update',
-    'Confirm a pending profile inference',
+    'merge_memories',
+    'Merge duplicate memories into one. Tags are combined and the merged-away memories are kept as provenance in the survivor\'s history',
     {
-      inference_id: z.string().describe('ID of the inference to confirm'),
+      ids: z.array(z.string()).min(2).describe('Memory IDs to merge'),
+      keep_id: z.string().optional().describe('Memory to keep (default: first id)'),
+      content: z.string().optional().describe('Consolidated content for the kept memory (default: keep its content)'),
     },
-    async (args: { inference_id: string }) => {
-      const confirmed = await profileManager.confirmInference(args.inference_id);
+    async (args: { ids: string[]; keep_id?: string; content?: string }) => {
+      const keepId = args.keep_id || args.ids[0];
+      const mergeIds = args.ids.filter((id) => id !== keepId);
+
+      const missing = [keepId, ...mergeIds].filter((id) => !localStore.get(id));
+      if (missing.length > 0) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: Memories not found locally: ${missing.join(', ')}` }],
+        };
+      }
+
+      const merged = localStore.merge(keepId, mergeIds, args.content);
+      if (!merged) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: Memory ${keepId} not found.` }],
+        };
+      }
+
+      // Mirror to Mem0: update the survivor, remove the merged-away copies
+      let queuedNote = await syncMemoryUpdate(merged);
+      for (const id of mergeIds) {
+        const hadRemote = localStore.getRemoteId(id) !== null;
+        if (!(await syncMemoryDelete(id)) && mem0Client && hadRemote) {
+          queuedNote ||= ' [Mem0 sync pending - will retry]';
+        }
+      }
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: confirmed
-              ? `Inference ${args.inference_id} confirmed and applied to profile.`
-              : `Inference ${args.inference_id} not found or already processed.`,
+            text: `Merged ${mergeIds.length} memor${mergeIds.length === 1 ? 'y' : 'ies'} into ${merged.id} (tags: ${merged.tags.join(', ') || 'none'}). Originals are listed in get_memory_history.${queuedNote}`,
           },
         ],
       };
@@ -541,21 +1075,51 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'reject_profile_update',
-    'Reject a pending profile inference',
+    'link_memories',
+    'Link two memories with a typed relation, e.g. a new decision that supersedes an old one (or remove a link)',
     {
-      inference_id: z.string().describe('ID of the inference to reject'),
+      from_id: z.string().describe('Source memory ID'),
+      to_id: z.string().describe('Target memory ID'),
+      relation: z
+        .enum(MEMORY_RELATIONS)
+        .describe('from supersedes / relates-to / caused-by / implements to'),
+      note: z.string().optional().describe('Why they are linked'),
+      remove: z.boolean().optional().describe('Remove the link instead of adding it'),
     },
-    async (args: { inference_id: string }) => {
-      const rejected = await profileManager.rejectInference(args.inference_id);
+    async (args: { from_id: string; to_id: string; relation: MemoryRelation; note?: string; remove?: boolean }) => {
+      // Accept either local ids or Mem0 ids
+      const fromId = localStore.get(args.from_id) ? args.from_id : localStore.getLocalId(args.from_id);
+      const toId = localStore.get(args.to_id) ? args.to_id : localStore.getLocalId(args.to_id);
+
+      if (args.remove) {
+        const removed = fromId && toId ? localStore.unlink(fromId, toId, args.relation) : 0;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: removed > 0 ? `Link removed: ${fromId} ${args.relation} ${toId}` : 'No such link.',
+            },
+          ],
+        };
+      }
+
+      const link = fromId && toId ? localStore.link(fromId, toId, args.relation, args.note) : null;
+      if (!link) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: Both memories must exist locally and differ (run sync_memories to pull Mem0-only memories).`,
+            },
+          ],
+        };
+      }
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: rejected
-              ? `Inference ${args.inference_id} rejected.`
-              : `Inference ${args.inference_id} not found or already processed.`,
+            text: `Linked: ${link.from_id} ${link.relation} ${link.to_id}`,
           },
         ],
       };
@@ -563,12 +1127,515 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'get_onboarding_questions',
-    'Get the next batch of onboarding questions based on profile gaps',
+    'get_memory_graph',
+    'Show the memories linked to a memory (both directions) as JSON or as a Mermaid flowchart that visual-thinking can store',
     {
-      category: z
-        .enum(['identity', 'technical', 'workingStyle', 'personal'])
-        .optional()
+      id: z.string().describe('Memory ID at the center of the graph'),
+      depth: z.number().int().min(1).max(3).optional().describe('How many hops to follow (default: 1)'),
+      format: z.enum(['json', 'mermaid']).optional().describe('Output format (default: json)'),
+    },
+    async (args: { id: string; depth?: number; format?: 'json' | 'mermaid' }) => {
+      const localId = localStore.get(args.id) ? args.id : localStore.getLocalId(args.id);
+      const graph = localId ? buildMemoryGraph(localStore, localId, args.depth || 1) : null;
+
+      if (!graph) {
+        return {
+          content: [{ type: 'text' as const, text: `Memory ${args.id} not found.` }],
+        };
+      }
+
+      if (args.format === 'mermaid') {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `\`\`\`mermaid\n${toMermaid(graph)}\n\`\`\`\n\nSave it with visual-thinking's create_diagram (type: flowchart).`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(graph, null, 2) }],
+      };
+    }
+  );
+
+  server.tool(
+    'preview_retention',
+    'Dry run of the retention job: list memories that would be pruned now (or within the next N days) and why. Nothing is deleted',
+    {
+      scope: z.string().optional().describe('Only check this scope (default: all)'),
+      within_days: z.number().min(0).optional().describe('Also include memories expiring within this many days (default: 0)'),
+      limit: z.number().optional().describe('Maximum memories to list (default: 50)'),
+    },
+    async (args: { scope?: string; within_days?: number; limit?: number }) => {
+      const rules = loadRetentionRules();
+      const horizon = new Date(Date.now() + (args.within_days || 0) * DAY_MS);
+      const expiring = findExpired(localStore.list({ scope: args.scope }), rules, horizon);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                rules,
+                until: horizon.toISOString(),
+                would_prune: expiring.length,
+                memories: expiring.slice(0, args.limit || 50).map((c) => ({
+                  id: c.memory.id,
+                  scope: c.memory.scope,
+                  tags: c.memory.tags,
+                  content: c.memory.content,
+                  expires_at: c.expires_at.toISOString(),
+                  reason: c.reason,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'migrate_scope',
+    'Rename or merge a scope (e.g. after a project rename): moves memories, work sessions, summary state, diagrams, investigations and Mem0 metadata. Dry run by default',
+    {
+      from: z.string().describe('Scope to move, e.g. "project:old-name"'),
+      to: z.string().describe('Target scope; merged if it already has data'),
+      include_nested: z
+        .boolean()
+        .optional()
+        .describe('Also move nested package scopes, e.g. project:old/api -> project:new/api (default: true)'),
+      dry_run: z.boolean().optional().describe('Only report what would move (default: true)'),
+    },
+    async (args: { from: string; to: string; include_nested?: boolean; dry_run?: boolean }) => {
+      const invalid = validateScopeMigration(args.from, args.to);
+      if (invalid) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${invalid}` }],
+        };
+      }
+
+      try {
+        const report = await migrateScope(
+          {
+            localStore,
+            sessionStore,
+            summaryManager,
+            backend,
+            diagramsDbPath: DIAGRAMS_DB_PATH,
+            syncMemory: async (memory) => (await syncMemoryUpdate(memory)) === '',
+          },
+          args.from,
+          args.to,
+          { includeNested: args.include_nested, dryRun: args.dry_run }
+        );
+
+        const next = report.dry_run ? '\n\nRun again with dry_run: false to apply.' : '';
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(report, null, 2) + next }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'get_sync_status',
+    'Show Mem0 operations waiting to sync (pending) or given up on (failed)',
+    {
+      status: z.enum(['pending', 'failed']).optional().describe('Filter by status (default: both)'),
+      retry_failed: z.boolean().optional().describe('Move failed items back to pending and replay now'),
+      limit: z.number().optional().describe('Maximum items to list (default: 20)'),
+    },
+    async (args: { status?: SyncStatus; retry_failed?: boolean; limit?: number }) => {
+      let replayed = null;
+      if (args.retry_failed) {
+        syncQueue.retryFailed();
+        if (mem0Client) {
+          replayed = await syncQueue.replay(mem0Client);
+        }
+      }
+
+      const counts = syncQueue.getCounts();
+      const items = syncQueue.list(args.status, args.limit || 20);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                mem0_configured: !!mem0Client,
+                pending: counts.pending,
+                failed: counts.failed,
+                replayed,
+                items: items.map((e) => ({
+                  id: e.id,
+                  operation: e.operation,
+                  memory_id: e.memory_id,
+                  status: e.status,
+                  attempts: e.attempts,
+                  last_error: e.last_error,
+                  next_attempt_at: e.status === 'pending' ? e.next_attempt_at.toISOString() : null,
+                  queued_at: e.created_at.toISOString(),
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'sync_memories',
+    'Reconcile local memories with Mem0: pull memories from other machines, push local-only ones, and apply edits/deletes both ways',
+    {
+      push_local: z.boolean().optional().describe('Upload local-only memories to Mem0 (default: true)'),
+    },
+    async (args: { push_local?: boolean }) => {
+      if (!reconciler) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: 'Mem0 not configured - memories are local only. Run with --setup to enable cloud sync.',
+            },
+          ],
+        };
+      }
+
+      try {
+        const result = await reconciler.reconcile({ pushLocal: args.push_local });
+        const counts = syncQueue.getCounts();
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ ...result, outbox: counts }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: Sync failed - ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // --- Configuration Tools ---
+
+  server.tool(
+    'get_config',
+    'Show the effective brain-jar settings (secrets masked) and where each non-default value comes from: config.json, a BRAIN_JAR_* variable or a legacy plugin file. Credentials held in the encrypted secrets file or a command are listed under secret_refs',
+    {
+      section: z.enum(CONFIG_SECTIONS).optional().describe('Only this plugin section (default: everything)'),
+    },
+    async (args: { section?: ConfigSection }) => {
+      const resolved = resolveConfig();
+      const config = maskConfigSecrets(resolved.config);
+      const inSection = (key: string) => !args.section || key.startsWith(`${args.section}.`);
+      const sources = Object.fromEntries(Object.entries(resolved.sources).filter(([key]) => inSection(key)));
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                config_path: resolved.configPath,
+                config: args.section ? config[args.section] : config,
+                sources,
+                env_overrides: Object.keys(sources)
+                  .filter((key) => sources[key] === 'env')
+                  .map(getConfigEnvName),
+                secret_refs: Object.fromEntries(Object.entries(resolved.secretRefs).filter(([key]) => inSection(key))),
+                issues: resolved.issues.filter((i) => inSection(i.path)).length,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'validate_config',
+    'Check brain-jar settings: explains invalid values (which fall back to defaults), unresolvable secrets, unknown keys, plaintext keys and legacy config files. Set migrate to move legacy files into config.json and plaintext keys into the encrypted secrets file',
+    {
+      migrate: z
+        .boolean()
+        .optional()
+        .describe('Copy legacy perplexity-search / pattern-radar files and top-level retention into config.json, and encrypt plaintext keys'),
+    },
+    async (args: { migrate?: boolean }) => {
+      try {
+        const migrated = args.migrate ? migrateLegacyConfig() : [];
+        const resolved = resolveConfig();
+        const defaults = brainJarConfigSchema.parse({});
+        const defaultOf = (settingPath: string) =>
+          settingPath.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], defaults);
+
+        const issues = resolved.issues.map((issue) => ({
+          setting: issue.path,
+          problem: issue.message,
+          value: issue.value,
+          using_default: defaultOf(issue.path) ?? null,
+          fix:
+            issue.source === 'env'
+              ? `Fix or unset ${getConfigEnvName(issue.path)}`
+              : issue.source === 'legacy'
+                ? 'Fix the value in the legacy file, or migrate and fix it in config.json'
+                : `Fix "${issue.path}" in ${resolved.configPath}`,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  valid: issues.length === 0,
+                  config_path: resolved.configPath,
+                  config_found: resolved.fileFound,
+                  issues,
+                  warnings: resolved.warnings,
+                  legacy_files: resolved.legacyFiles,
+                  migrated: args.migrate ? migrated : undefined,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'doctor',
+    'Health check across all brain-jar plugins: config validity, plugin databases (integrity, schema version), Mem0 and Perplexity reachability, profile JSON, hookify rules and pattern-radar adapters, with a fix for each problem',
+    {
+      offline: z.boolean().optional().describe('Skip the Mem0 and Perplexity network checks'),
+      only_problems: z.boolean().optional().describe('Leave out passing and skipped checks (default: false)'),
+    },
+    async (args: { offline?: boolean; only_problems?: boolean }) => {
+      const report = await runDoctor({ offline: args.offline });
+      const shown = args.only_problems
+        ? { ...report, checks: report.checks.filter((c) => c.status === 'warn' || c.status === 'fail') }
+        : report;
+
+      return {
+        content: [{ type: 'text' as const, text: formatDoctorReport(shown) }],
+      };
+    }
+  );
+
+  // --- Profile Management Tools ---
+
+  server.tool(
+    'get_user_profile',
+    'Get the user profile or a specific section',
+    {
+      section: z
+        .enum(['all', 'identity', 'technical', 'workingStyle', 'knowledge', 'personal', 'meta'])
+        .optional()
+        .describe('Section to retrieve (default: all)'),
+    },
+    async (args: { section?: ProfileSection }) => {
+      const profile = await profileManager.load();
+      const section = args.section || 'all';
+
+      let data: unknown;
+      if (section === 'all') {
+        data = profile;
+      } else {
+        data = profile[section as keyof typeof profile];
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'update_user_profile',
+    'Update a field in the user profile',
+    {
+      field: z.string().describe('Dot-path to field (e.g., "identity.name", "technical.languages")'),
+      value: z.union([z.string(), z.array(z.string())]).describe('Value to set'),
+      append: z.boolean().optional().describe('For array fields, append instead of replace'),
+    },
+    async (args: { field: string; value: string | string[]; append?: boolean }) => {
+      if (args.append && Array.isArray(args.value)) {
+        await profileManager.addToArray(args.field, args.value);
+      } else if (args.append && typeof args.value === 'string') {
+        await profileManager.addToArray(args.field, [args.value]);
+      } else {
+        await profileManager.set(args.field, args.value);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Profile updated: ${args.field} = ${JSON.stringify(args.value)}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'propose_profile_inference',
+    'Propose an inferred preference for user confirmation',
+    {
+      field: z.string().describe('Dot-path to field (e.g., "technical.languages")'),
+      value: z.union([z.string(), z.array(z.string())]).describe('Inferred value'),
+      evidence: z.string().describe('What triggered this inference'),
+      confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level'),
+      source: z.enum(['codebase', 'conversation', 'config']).optional().describe('Source of inference'),
+    },
+    async (args: {
+      field: string;
+      value: string | string[];
+      evidence: string;
+      confidence: 'high' | 'medium' | 'low';
+      source?: 'codebase' | 'conversation' | 'config';
+    }) => {
+      const { proposed, reinforced } = await profileManager.recordDetections([
+        {
+          field: args.field,
+          value: args.value,
+          evidence: args.evidence,
+          confidence: args.confidence,
+          source: args.source || 'conversation',
+        },
+      ]);
+
+      if (proposed.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text:
+                reinforced.length > 0
+                  ? `Already in profile - recorded as evidence for ${reinforced.map((r) => `${r.field}: ${r.value}`).join(', ')}`
+                  : 'Already in profile or pending confirmation.',
+            },
+          ],
+        };
+      }
+
+      const inference = proposed[0];
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              message: 'Inference proposed - ask user to confirm',
+              inference_id: inference.id,
+              field: inference.field,
+              value: inference.value,
+              evidence: inference.evidence,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'confirm_profile_update',
+    'Confirm a pending profile inference',
+    {
+      inference_id: z.string().describe('ID of the inference to confirm'),
+    },
+    async (args: { inference_id: string }) => {
+      const confirmed = await profileManager.confirmInference(args.inference_id);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: confirmed
+              ? `Inference ${args.inference_id} confirmed and applied to profile.`
+              : `Inference ${args.inference_id} not found or already processed.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'reject_profile_update',
+    'Reject a pending profile inference',
+    {
+      inference_id: z.string().describe('ID of the inference to reject'),
+    },
+    async (args: { inference_id: string }) => {
+      const rejected = await profileManager.rejectInference(args.inference_id);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: rejected
+              ? `Inference ${args.inference_id} rejected.`
+              : `Inference ${args.inference_id} not found or already processed.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'get_onboarding_questions',
+    'Get the next batch of onboarding questions based on profile gaps',
+    {
+      category: z
+        .enum(['identity', 'technical', 'workingStyle', 'personal'])
+        .optional()
         .describe('Filter by category'),
       count: z.number().optional().describe('Maximum questions to return (default: 3)'),
     },
@@ -588,9 +1655,200 @@ async function main(): Promise<void> {
           {
             type: 'text' as const,
             text:
-              questions.length > 0
-                ? JSON.stringify(questions, null, 2)
-                : 'No pending onboarding questions. Profile is complete or recently prompted.',
+              questions.length > 0
+                ? JSON.stringify(questions, null, 2)
+                : 'No pending onboarding questions. Profile is complete or recently prompted.',
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'analyze_codebase_for_profile',
+    'Analyze current directory to infer tech preferences',
+    {
+      cwd: z.string().optional().describe('Directory to analyze (default: current working directory)'),
+    },
+    async (args: { cwd?: string }) => {
+      const cwd = args.cwd || process.cwd();
+      const profile = await profileManager.load();
+      const detections = await inferenceEngine.detectFromCodebase(cwd, profile, { includeKnown: true });
+
+      // Known entries count as evidence; the rest become pending inferences
+      const { proposed: storedInferences, reinforced } = await profileManager.recordDetections(detections);
+
+      if (storedInferences.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text:
+                reinforced.length > 0
+                  ? `No new preferences detected; recorded evidence for ${reinforced.length} existing profile entr(ies).`
+                  : 'No new preferences detected from codebase analysis.',
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                message: `Detected ${storedInferences.length} potential preferences. Ask user to confirm each.`,
+                inferences: storedInferences.map((i) => ({
+                  id: i.id,
+                  field: i.field,
+                  value: i.value,
+                  evidence: i.evidence,
+                  confidence: i.confidence,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'analyze_git_history_for_profile',
+    'Infer languages, tools and timezone from your own recent commits in the local git history (matched on identity.email)',
+    {
+      cwd: z.string().optional().describe('Repository to read (default: current working directory)'),
+      days: z.number().optional().describe('How far back to look, in days (default: 90)'),
+      email: z.string().optional().describe('Author email to match (default: identity.email from the profile)'),
+    },
+    async (args: { cwd?: string; days?: number; email?: string }) => {
+      try {
+        const cwd = args.cwd || process.cwd();
+        const days = args.days || 90;
+        const profile = await profileManager.load();
+        const { commits, inferences } = await inferenceEngine.detectFromGitHistory(cwd, profile, {
+          days,
+          email: args.email,
+          includeKnown: true,
+        });
+
+        if (commits === 0) {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `No commits by ${args.email || profile.identity.email} in the last ${days} days.`,
+              },
+            ],
+          };
+        }
+
+        // Same flow as propose_profile_inference: known entries count as evidence, the rest wait for confirmation
+        const { proposed, reinforced } = await profileManager.recordDetections(inferences);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  message:
+                    proposed.length > 0
+                      ? `Read ${commits} commit(s); detected ${proposed.length} potential preferences. Ask user to confirm each.`
+                      : `Read ${commits} commit(s); no new preferences detected.`,
+                  reinforced: reinforced.map((r) => `${r.field}: ${r.value}`),
+                  inferences: proposed.map((i) => ({
+                    id: i.id,
+                    field: i.field,
+                    value: i.value,
+                    evidence: i.evidence,
+                    confidence: i.confidence,
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'get_profile_confidence',
+    'Show how much evidence backs each profile list entry (times seen, first/last seen) and its confidence, which decays when an entry is not seen for a while',
+    {
+      field: z.string().optional().describe('Field or section to show, e.g. "technical.languages" or "knowledge" (default: all)'),
+    },
+    async (args: { field?: string }) => {
+      const entries = await profileManager.getEntryConfidence(args.field);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text:
+              entries.length > 0
+                ? JSON.stringify(
+                    entries.map((e) => ({
+                      field: e.field,
+                      value: e.value,
+                      confidence: e.confidence,
+                      seen: e.count,
+                      first_seen: e.firstSeen,
+                      last_seen: e.lastSeen,
+                    })),
+                    null,
+                    2
+                  )
+                : 'No evidence recorded yet for these profile entries.',
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'review_profile_decay',
+    'Propose demoting profile entries not seen for a long time (expert -> proficient -> dropped). Demotions are pending inferences: confirm or reject each with the user.',
+    {},
+    async () => {
+      const demotions = await profileManager.proposeDemotions();
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text:
+              demotions.length > 0
+                ? JSON.stringify(
+                    {
+                      message: `${demotions.length} stale entr(ies) proposed for demotion. Ask user to confirm or reject each.`,
+                      demotions: demotions.map((d) => ({
+                        id: d.id,
+                        field: d.field,
+                        value: d.value,
+                        demote_to: d.demotion?.to ?? 'dropped',
+                        evidence: d.evidence,
+                      })),
+                    },
+                    null,
+                    2
+                  )
+                : 'No stale profile entries to demote.',
           },
         ],
       };
@@ -598,33 +1856,42 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'analyze_codebase_for_profile',
-    'Analyze current directory to infer tech preferences',
+    'get_profile_history',
+    'Get profile change history from Mem0 (shows how profile evolved over time)',
     {
-      cwd: z.string().optional().describe('Directory to analyze (default: current working directory)'),
+      since: z.string().optional().describe('ISO date string to filter history from (e.g., "2024-01-01")'),
+      limit: z.number().optional().describe('Maximum snapshots to return (default: 10)'),
     },
-    async (args: { cwd?: string }) => {
-      const cwd = args.cwd || process.cwd();
-      const profile = await profileManager.load();
-      const inferences = await inferenceEngine.detectFromCodebase(cwd, profile);
+    async (args: { since?: string; limit?: number }) => {
+      const since = args.since ? new Date(args.since) : undefined;
+      const limit = args.limit || 10;
+
+      const snapshots = await profileManager.getHistory(since, limit);
 
-      if (inferences.length === 0) {
+      if (snapshots.length === 0) {
+        const reason = backend
+          ? `No profile history found in ${backend.kind === 'mem0' ? 'Mem0' : 'local storage'}.`
+          : 'Profile history requires Mem0 or local SQLite configuration.';
         return {
           content: [
             {
               type: 'text' as const,
-              text: 'No new preferences detected from codebase analysis.',
+              text: reason,
             },
           ],
         };
       }
 
-      // Store all as pending inferences
-      const storedInferences = [];
-      for (const inf of inferences) {
-        const stored = await profileManager.addInference(inf);
-        storedInferences.push(stored);
-      }
+      const formatted = snapshots.map((s) => ({
+        id: s.mem0Id,
+        timestamp: s.timestamp,
+        identity: s.profile.identity,
+        technical: {
+          languages: s.profile.technical.languages,
+          frameworks: s.profile.technical.frameworks,
+        },
+        workingStyle: s.profile.workingStyle,
+      }));
 
       return {
         content: [
@@ -632,14 +1899,8 @@ async function main(): Promise<void> {
             type: 'text' as const,
             text: JSON.stringify(
               {
-                message: `Detected ${storedInferences.length} potential preferences. Ask user to confirm each.`,
-                inferences: storedInferences.map((i) => ({
-                  id: i.id,
-                  field: i.field,
-                  value: i.value,
-                  evidence: i.evidence,
-                  confidence: i.confidence,
-                })),
+                message: `Found ${snapshots.length} profile snapshot(s)`,
+                snapshots: formatted,
               },
               null,
               2
@@ -651,41 +1912,101 @@ async function main(): Promise<void> {
   );
 
   server.tool(
-    'get_profile_history',
-    'Get profile change history from Mem0 (shows how profile evolved over time)',
+    'diff_profile',
+    'Show field by field what changed in the profile between two snapshots, or between a snapshot and the current profile',
     {
-      since: z.string().optional().describe('ISO date string to filter history from (e.g., "2024-01-01")'),
-      limit: z.number().optional().describe('Maximum snapshots to return (default: 10)'),
+      from: z.string().describe('Snapshot id from get_profile_history, a date/timestamp (newest snapshot at or before it), or "current"'),
+      to: z.string().optional().describe('Same forms as from (default: "current")'),
     },
-    async (args: { since?: string; limit?: number }) => {
-      const since = args.since ? new Date(args.since) : undefined;
-      const limit = args.limit || 10;
+    async (args: { from: string; to?: string }) => {
+      try {
+        const { from, to, changes } = await profileManager.diffSnapshots(args.from, args.to);
 
-      const snapshots = await profileManager.getHistory(since, limit);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  message:
+                    changes.length === 0
+                      ? 'No differences'
+                      : `${changes.length} field(s) changed between ${from.timestamp} and ${to.timestamp}`,
+                  from: { id: from.mem0Id ?? 'current', timestamp: from.timestamp },
+                  to: { id: to.mem0Id ?? 'current', timestamp: to.timestamp },
+                  changes,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'restore_profile_snapshot',
+    'Restore the profile from an earlier snapshot, either entirely or only selected fields. Use diff_profile first to see what would change.',
+    {
+      snapshot: z.string().describe('Snapshot id from get_profile_history, or a date/timestamp (newest snapshot at or before it)'),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe('Dot-paths to restore, e.g. ["workingStyle", "technical.languages"] (default: everything except meta)'),
+    },
+    async (args: { snapshot: string; fields?: string[] }) => {
+      try {
+        const { snapshot, restored } = await profileManager.restoreSnapshot(args.snapshot, args.fields);
 
-      if (snapshots.length === 0) {
-        const reason = mem0Client
-          ? 'No profile history found in Mem0.'
-          : 'Profile history requires Mem0 configuration.';
         return {
           content: [
             {
               type: 'text' as const,
-              text: reason,
+              text: JSON.stringify(
+                {
+                  message:
+                    restored.length === 0
+                      ? `Profile already matches the snapshot from ${snapshot.timestamp}`
+                      : `Restored ${restored.length} field(s) from the snapshot of ${snapshot.timestamp}`,
+                  restored: restored.map((c) => c.field),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
             },
           ],
         };
       }
+    }
+  );
 
-      const formatted = snapshots.map((s) => ({
-        timestamp: s.timestamp,
-        identity: s.profile.identity,
-        technical: {
-          languages: s.profile.technical.languages,
-          frameworks: s.profile.technical.frameworks,
-        },
-        workingStyle: s.profile.workingStyle,
-      }));
+  server.tool(
+    'list_profiles',
+    'List named user profiles (e.g. work, personal), the one in use and why, and the scope rules that pick profiles automatically',
+    {},
+    async () => {
+      const settings = profileManager.getProfileSettings();
+      const scope = detectScope();
 
       return {
         content: [
@@ -693,8 +2014,12 @@ async function main(): Promise<void> {
             type: 'text' as const,
             text: JSON.stringify(
               {
-                message: `Found ${snapshots.length} profile snapshot(s)`,
-                snapshots: formatted,
+                current: profileManager.getProfileName(),
+                scope,
+                rule_for_scope: settings.rules.find((r) => matchesScopePattern(scope, r.scope)) ?? null,
+                active: settings.active,
+                profiles: profileManager.listProfiles(),
+                rules: settings.rules,
               },
               null,
               2
@@ -705,6 +2030,166 @@ async function main(): Promise<void> {
     }
   );
 
+  server.tool(
+    'switch_profile',
+    'Switch to another named user profile for this session and make it the active profile. Only shared-memory follows the switch for the rest of the session: in a project matched by a scope rule (set_profile_rule) or with BRAIN_JAR_PROFILE set, perplexity-search, forensics and pattern-radar keep using that profile, as do new sessions.',
+    {
+      name: z.string().describe('Profile name (lowercase letters, digits, "-" and "_"), e.g. "work"'),
+      create: z.boolean().optional().describe('Create the profile if it does not exist'),
+      copy_from: z.string().optional().describe('When creating, start from a copy of this profile'),
+      persist: z.boolean().optional().describe('Also make it the active profile for other sessions and plugins (default: true)'),
+    },
+    async (args: { name: string; create?: boolean; copy_from?: string; persist?: boolean }) => {
+      try {
+        const previous = profileManager.getProfileName();
+        const profile = await profileManager.switchProfile(args.name, {
+          create: args.create,
+          copyFrom: args.copy_from,
+          persist: args.persist,
+        });
+
+        // Other plugins still select by env and scope rules
+        const elsewhere = selectProfile({ scope: detectScope() });
+        const why = elsewhere.rule ? `scope rule ${elsewhere.rule.scope}` : 'BRAIN_JAR_PROFILE';
+        const note =
+          elsewhere.reason !== 'active' && elsewhere.name !== args.name
+            ? `Other plugins keep using profile "${elsewhere.name}" here (${why}). Change it with set_profile_rule.`
+            : undefined;
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  message: `Switched profile: ${previous} -> ${args.name}`,
+                  name: args.name,
+                  note,
+                  identity: profile.identity,
+                  onboarding_complete: profile.meta.onboardingComplete,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'set_profile_rule',
+    'Pick a profile automatically by scope, e.g. scope "project:acme-*" -> profile "work". Rules are checked in order and the first match wins. Omit profile to remove the rule for that scope.',
+    {
+      scope: z.string().describe('Scope or glob pattern ("*" matches anything), e.g. "project:acme-*" or "team:acme"'),
+      profile: z.string().optional().describe('Profile to use in matching scopes; omit to remove the rule'),
+    },
+    async (args: { scope: string; profile?: string }) => {
+      try {
+        if (args.profile && !profileManager.listProfiles().includes(args.profile)) {
+          throw new Error(`Profile "${args.profile}" does not exist. Create it first with switch_profile (create: true).`);
+        }
+        const settings = profileManager.setProfileRule(args.scope, args.profile ?? null);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  message: args.profile
+                    ? `Scopes matching ${args.scope} now use profile "${args.profile}" (from the next session)`
+                    : `Removed the rule for ${args.scope}`,
+                  rules: settings.rules,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'list_profile_conflicts',
+    'List profile fields that were changed differently on two machines and need a decision (kept at the local value until resolved)',
+    {
+      all_profiles: z.boolean().optional().describe('Include conflicts in other named profiles (default: current profile only)'),
+    },
+    async (args: { all_profiles?: boolean }) => {
+      const conflicts = await profileManager.getConflicts(args.all_profiles ? undefined : profileManager.getProfileName());
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text:
+              conflicts.length > 0
+                ? JSON.stringify({ message: `${conflicts.length} open conflict(s). Ask the user which value to keep.`, conflicts }, null, 2)
+                : 'No open profile conflicts.',
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    'resolve_profile_conflict',
+    'Resolve a profile sync conflict by keeping the local, remote or base value, or a custom value',
+    {
+      conflict_id: z.string().describe('ID from list_profile_conflicts'),
+      keep: z.enum(['local', 'remote', 'base', 'custom']).describe('Which value to keep'),
+      value: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe('The value to set when keep is "custom"'),
+    },
+    async (args: { conflict_id: string; keep: 'local' | 'remote' | 'base' | 'custom'; value?: string | string[] }) => {
+      try {
+        const { conflict, value } = await profileManager.resolveConflict(args.conflict_id, args.keep, args.value);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Conflict resolved: ${conflict.field} = ${JSON.stringify(value)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
   // --- Activity Summary Tools ---
 
   server.tool(
@@ -797,19 +2282,19 @@ async function main(): Promise<void> {
       limit: z.number().optional().describe('Maximum summaries to return'),
     },
     async (args: { scope?: string; since?: string; limit?: number }) => {
-      if (!mem0Client) {
+      if (!backend) {
         return {
           content: [
             {
               type: 'text' as const,
-              text: 'Activity summaries require Mem0 configuration.',
+              text: 'Activity summaries require Mem0 or local SQLite configuration.',
             },
           ],
         };
       }
 
       const since = args.since ? new Date(args.since) : undefined;
-      const summaries = await mem0Client.getSummaries(args.scope, since, args.limit || 10);
+      const summaries = await backend.getSummaries(args.scope, since, args.limit || 10);
 
       if (summaries.length === 0) {
         return {
@@ -898,17 +2383,17 @@ async function main(): Promise<void> {
     async () => {
       const localStats = localStore.getStats();
 
-      // Get Mem0 stats if configured
+      // Get backend stats if configured
       let mem0Stats: { total: number; by_agent: Record<string, number> } | null = null;
       let profileSnapshots = 0;
 
-      if (mem0Client) {
+      if (backend) {
         try {
           // Parallel fetch - allMem0 gets everything, others get partitioned data
           const [allMem0, profileMem0, perplexityMem0] = await Promise.all([
-            mem0Client.getAll(),
-            mem0Client.getAll({ agentId: 'profile-mgr' }),
-            mem0Client.getAll({ agentId: 'perplexity' }),
+            backend.getAll(),
+            backend.getAll({ agentId: 'profile-mgr' }),
+            backend.getAll({ agentId: 'perplexity' }),
           ]);
 
           const total = allMem0.length;
@@ -927,7 +2412,7 @@ async function main(): Promise<void> {
           };
           profileSnapshots = profileCount;
         } catch (error) {
-          console.error('[shared-memory] Failed to get Mem0 stats:', error);
+          console.error(`[shared-memory] Failed to get ${backend.kind} stats:`, error);
         }
       }
 
@@ -937,6 +2422,7 @@ async function main(): Promise<void> {
         health: {
           profile_snapshots: profileSnapshots,
           mem0_configured: !!mem0Client,
+          storage_backend: backend?.kind || null,
         },
       };
 
@@ -951,6 +2437,119 @@ async function main(): Promise<void> {
     }
   );
 
+  // --- Import / Export Tools ---
+
+  const porter = new MemoryPorter({ localStore, sessionStore, profileManager, backend });
+
+  server.tool(
+    'export_memories',
+    'Export memories, profile, activity summaries and work sessions to a JSONL or Markdown file (backup or hand-off)',
+    {
+      path: z.string().optional().describe('Output file (default: ~/.config/brain-jar/exports/brain-jar-<date>.<ext>)'),
+      format: z.enum(['jsonl', 'markdown']).optional().describe('File format (default: from extension, else jsonl)'),
+      scope: z.string().optional().describe('Only this scope'),
+      tags: z.array(z.string()).optional().describe('Only memories with all of these tags'),
+      since: z.string().optional().describe('ISO date - only records created on/after'),
+      until: z.string().optional().describe('ISO date - only records created on/before'),
+      include: z
+        .array(z.enum(['memories', 'profile', 'summaries', 'sessions']))
+        .optional()
+        .describe('Sections to include (default: all)'),
+    },
+    async (args: {
+      path?: string;
+      format?: ExportFormat;
+      scope?: string;
+      tags?: string[];
+      since?: string;
+      until?: string;
+      include?: string[];
+    }) => {
+      try {
+        const format = args.format || (args.path ? formatFromPath(args.path) : 'jsonl');
+        const filePath =
+          args.path ||
+          path.join(
+            EXPORT_DIR,
+            `brain-jar-${new Date().toISOString().split('T')[0]}.${format === 'markdown' ? 'md' : 'jsonl'}`
+          );
+
+        const records = await porter.collect(
+          {
+            scope: args.scope,
+            tags: args.tags,
+            since: parseDateArg(args.since, 'since'),
+            until: parseDateArg(args.until, 'until'),
+          },
+          args.include ? parseSections(args.include) : undefined
+        );
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, serializeRecords(records, format));
+
+        const counts: Record<string, number> = {};
+        for (const r of records.slice(1)) {
+          counts[r.type] = (counts[r.type] || 0) + 1;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ path: filePath, format, records: counts }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'import_memories',
+    'Import a JSONL or Markdown export. Keeps original ids and skips anything already present',
+    {
+      path: z.string().describe('File produced by export_memories (or run.js --export)'),
+      overwrite_profile: z.boolean().optional().describe('Replace your profile with the exported one (default: false)'),
+    },
+    async (args: { path: string; overwrite_profile?: boolean }) => {
+      try {
+        const records = parseRecords(fs.readFileSync(args.path, 'utf-8'));
+        const result = await porter.import(records, { overwriteProfile: args.overwrite_profile });
+
+        const syncNote =
+          mem0Client && result.memories.imported > 0
+            ? '\n\nRun sync_memories to upload imported memories to Mem0.'
+            : '';
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(result, null, 2) + syncNote,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
   // --- Chess Timer Tools ---
 
   server.tool(
@@ -1481,7 +3080,7 @@ async function main(): Promise<void> {
   );
 
   // Connect transport
-  const transport = new StdioServerTransport();
+  const transport = redactTransport(new StdioServerTransport());
   await server.connect(transport);
 
   console.error('[shared-memory] MCP server running on stdio');
@@ -1,4 +1,6 @@
-import { LocalStore } from './local-store';
+import { LocalStore, buildFtsQuery } from './local-store';
+import { LOCAL_DB_MIGRATIONS } from './migrations';
+import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -52,6 +54,108 @@ describe('LocalStore', () => {
       expect(results).toHaveLength(1);
       expect(results[0].scope).toBe('global');
     });
+
+    it('should match words in any order and rank by relevance', () => {
+      store.add({ content: 'Refresh the JWT before it expires', scope: 'global', tags: [] });
+      store.add({ content: 'JWT refresh tokens rotate; refresh often', scope: 'global', tags: [] });
+      store.add({ content: 'Unrelated CSS note', scope: 'global', tags: [] });
+
+      const results = store.search('jwt refresh');
+      expect(results).toHaveLength(2);
+      expect(results[0].content).toContain('refresh often');
+      expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+    });
+
+    it('should support phrase, prefix and boolean syntax', () => {
+      store.add({ content: 'OAuth token refresh flow', scope: 'global', tags: [] });
+      store.add({ content: 'Refresh the token cache', scope: 'global', tags: [] });
+      store.add({ content: 'Authentication via SAML', scope: 'global', tags: [] });
+
+      expect(store.search('"token refresh"')).toHaveLength(1);
+      expect(store.search('authent*')).toHaveLength(1);
+      expect(store.search('oauth OR saml')).toHaveLength(2);
+      expect(store.search('token NOT oauth')).toHaveLength(1);
+    });
+
+    it('should return highlighted snippets', () => {
+      store.add({ content: 'We deploy with ArgoCD on Fridays', scope: 'global', tags: [] });
+
+      const [result] = store.search('argocd');
+      expect(result.snippet).toContain('**ArgoCD**');
+    });
+
+    it('should search tags', () => {
+      store.add({ content: 'Use pnpm workspaces', scope: 'global', tags: ['tooling'] });
+
+      expect(store.search('tooling')).toHaveLength(1);
+    });
+
+    it('should keep the index in sync with updates and deletes', () => {
+      const memory = store.add({ content: 'Uses webpack', scope: 'global', tags: [] });
+      store.update(memory.id, { content: 'Uses vite' });
+
+      expect(store.search('webpack')).toHaveLength(0);
+      expect(store.search('vite')).toHaveLength(1);
+
+      store.delete(memory.id);
+      expect(store.search('vite')).toHaveLength(0);
+    });
+
+    it('should index memories stored before full-text search existed', () => {
+      store.close();
+      fs.unlinkSync(testDbPath);
+
+      const legacy = new Database(testDbPath);
+      legacy.exec(`
+        CREATE TABLE memories (
+          id TEXT PRIMARY KEY, content TEXT NOT NULL, scope TEXT NOT NULL DEFAULT 'global',
+          tags TEXT NOT NULL DEFAULT '[]', source_agent TEXT NOT NULL DEFAULT 'claude-code',
+          source_action TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+        );
+        INSERT INTO memories (id, content, created_at, updated_at)
+        VALUES ('old-1', 'Legacy memory about Kafka', '2025-01-01T00:00:00Z', '2025-01-01T00:00:00Z');
+      `);
+      legacy.close();
+
+      const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+      store = new LocalStore(testDbPath);
+      log.mockRestore();
+      expect(store.search('kafka').map((m) => m.id)).toEqual(['old-1']);
+      expect(store.setExpiry('old-1', new Date('2025-02-01T00:00:00Z'))).toBe(true);
+
+      // Migrated to the current schema version after taking a backup
+      const backups = fs.readdirSync(os.tmpdir()).filter((f) => f.startsWith(`${path.basename(testDbPath)}.v0-`));
+      expect(backups).toHaveLength(1);
+      const backup = new Database(path.join(os.tmpdir(), backups[0]), { readonly: true });
+      expect(backup.prepare(`SELECT COUNT(*) AS n FROM memories`).get()).toEqual({ n: 1 });
+      backup.close();
+      fs.unlinkSync(path.join(os.tmpdir(), backups[0]));
+
+      const migrated = new Database(testDbPath, { readonly: true });
+      expect(migrated.pragma('user_version', { simple: true })).toBe(LOCAL_DB_MIGRATIONS.length);
+      expect(migrated.prepare(`SELECT name FROM sqlite_master WHERE name = 'sync_outbox'`).get()).toBeDefined();
+      migrated.close();
+    });
+
+    it('should fall back to substring matching', () => {
+      store.add({ content: 'User prefers TypeScript', scope: 'global', tags: [] });
+
+      expect(store.search('Script')).toHaveLength(1);
+      expect(store.search('NOT')).toHaveLength(0);
+    });
+  });
+
+  describe('buildFtsQuery', () => {
+    it('should quote plain words and keep operators', () => {
+      expect(buildFtsQuery('jwt refresh')).toBe('"jwt" "refresh"');
+      expect(buildFtsQuery('auth* OR "token flow"')).toBe('"auth"* OR "token flow"');
+      expect(buildFtsQuery('(a OR b) NOT c')).toBe('( "a" OR "b" ) NOT "c"');
+    });
+
+    it('should neutralise punctuation', () => {
+      expect(buildFtsQuery("C++ don't foo.bar")).toBe('"C" "don t" "foo bar"');
+      expect(buildFtsQuery('---')).toBe('');
+    });
   });
 
   describe('list', () => {
@@ -84,4 +188,225 @@ describe('LocalStore', () => {
       expect(results).toHaveLength(0);
     });
   });
+
+  describe('update', () => {
+    it('should update content and bump updated_at', () => {
+      const memory = store.add({ content: 'Draft', scope: 'global', tags: ['a'] });
+      const later = new Date(Date.now() + 1000);
+
+      const updated = store.update(memory.id, { content: 'Final', updated_at: later });
+      expect(updated?.content).toBe('Final');
+      expect(updated?.tags).toEqual(['a']);
+      expect(updated?.updated_at.toISOString()).toBe(later.toISOString());
+    });
+
+    it('should return null for unknown ids', () => {
+      expect(store.update('missing', { content: 'x' })).toBeNull();
+    });
+
+    it('should keep prior versions as revisions', () => {
+      const memory = store.add({ content: 'v1', scope: 'global', tags: ['a'] });
+      store.update(memory.id, { content: 'v2' });
+      store.update(memory.id, { tags: ['b'], changed_by: 'mem0-sync' });
+
+      const revisions = store.getRevisions(memory.id);
+      expect(revisions.map((r) => r.revision)).toEqual([1, 2]);
+      expect(revisions[0].content).toBe('v1');
+      expect(revisions[0].changed_by).toBe('claude-code');
+      expect(revisions[1].content).toBe('v2');
+      expect(revisions[1].tags).toEqual(['a']);
+      expect(revisions[1].changed_by).toBe('mem0-sync');
+      expect(store.get(memory.id)?.tags).toEqual(['b']);
+    });
+
+    it('should drop revisions when the memory is deleted', () => {
+      const memory = store.add({ content: 'v1', scope: 'global', tags: [] });
+      store.update(memory.id, { content: 'v2' });
+      store.delete(memory.id);
+
+      expect(store.getRevisions(memory.id)).toHaveLength(0);
+    });
+  });
+
+  describe('kinds', () => {
+    it('should default to note and store kind with payload', () => {
+      const note = store.add({ content: 'Plain note', scope: 'global', tags: [] });
+      const todo = store.add({
+        content: 'Upgrade Node',
+        scope: 'global',
+        tags: [],
+        kind: 'todo',
+        payload: { status: 'open', due: '2026-05-01' },
+      });
+
+      expect(note.kind).toBe('note');
+      expect(note.payload).toBeUndefined();
+      expect(store.get(todo.id)?.kind).toBe('todo');
+      expect(store.get(todo.id)?.payload).toEqual({ status: 'open', due: '2026-05-01' });
+    });
+
+    it('should filter list and search by kind', () => {
+      store.add({ content: 'Auth uses OAuth2', scope: 'global', tags: [] });
+      store.add({
+        content: 'Auth: chose OAuth2 over SAML',
+        scope: 'global',
+        tags: [],
+        kind: 'decision',
+        payload: { choice: 'OAuth2', options: ['OAuth2', 'SAML'] },
+      });
+
+      expect(store.list({ kind: 'decision' }).map((m) => m.content)).toEqual(['Auth: chose OAuth2 over SAML']);
+      expect(store.search('auth', undefined, 10, 'decision')).toHaveLength(1);
+      expect(store.search('auth')).toHaveLength(2);
+    });
+
+    it('should keep the previous kind and payload in revisions', () => {
+      const todo = store.add({ content: 'Ship it', scope: 'global', tags: [], kind: 'todo', payload: { status: 'open' } });
+
+      const updated = store.update(todo.id, { payload: { status: 'done' } });
+
+      expect(updated?.payload).toEqual({ status: 'done' });
+      const [revision] = store.getRevisions(todo.id);
+      expect(revision.kind).toBe('todo');
+      expect(revision.payload).toEqual({ status: 'open' });
+
+      expect(store.update(todo.id, { kind: 'note', payload: null })?.payload).toBeUndefined();
+    });
+  });
+
+  describe('links', () => {
+    it('should link memories and find links in both directions', () => {
+      const a = store.add({ content: 'Use OAuth2', scope: 'global', tags: [] });
+      const b = store.add({ content: 'Use sessions', scope: 'global', tags: [] });
+
+      const link = store.link(a.id, b.id, 'supersedes', 'SSO rollout');
+
+      expect(link).toMatchObject({ from_id: a.id, to_id: b.id, relation: 'supersedes', note: 'SSO rollout' });
+      expect(store.getLinks(b.id)).toHaveLength(1);
+      expect(store.link(a.id, b.id, 'supersedes')?.note).toBe('SSO rollout');
+      expect(store.getLinks(a.id)).toHaveLength(1);
+    });
+
+    it('should refuse links to missing memories or to itself', () => {
+      const a = store.add({ content: 'A', scope: 'global', tags: [] });
+
+      expect(store.link(a.id, 'missing', 'relates-to')).toBeNull();
+      expect(store.link(a.id, a.id, 'relates-to')).toBeNull();
+    });
+
+    it('should unlink by relation or all at once', () => {
+      const a = store.add({ content: 'A', scope: 'global', tags: [] });
+      const b = store.add({ content: 'B', scope: 'global', tags: [] });
+      store.link(a.id, b.id, 'relates-to');
+      store.link(a.id, b.id, 'implements');
+
+      expect(store.unlink(a.id, b.id, 'implements')).toBe(1);
+      expect(store.unlink(a.id, b.id)).toBe(1);
+      expect(store.getLinks(a.id)).toHaveLength(0);
+    });
+
+    it('should drop links with a deleted memory and move them on merge', () => {
+      const a = store.add({ content: 'A', scope: 'global', tags: [] });
+      const b = store.add({ content: 'B', scope: 'global', tags: [] });
+      const c = store.add({ content: 'C', scope: 'global', tags: [] });
+      store.link(a.id, b.id, 'relates-to');
+      store.link(c.id, b.id, 'caused-by');
+
+      store.merge(a.id, [c.id]);
+      expect(store.getLinks(a.id).map((l) => l.relation).sort()).toEqual(['caused-by', 'relates-to']);
+
+      store.delete(b.id);
+      expect(store.getLinks(a.id)).toHaveLength(0);
+    });
+  });
+
+  describe('expiry', () => {
+    it('should store an explicit expiry', () => {
+      const expiresAt = new Date('2030-01-01T00:00:00Z');
+      const memory = store.add({ content: 'Temp note', scope: 'global', tags: [], expires_at: expiresAt });
+
+      expect(memory.expires_at).toEqual(expiresAt);
+      expect(store.get(memory.id)?.expires_at).toEqual(expiresAt);
+    });
+
+    it('should set and clear expiry without adding a revision', () => {
+      const memory = store.add({ content: 'Temp note', scope: 'global', tags: [] });
+      expect(memory.expires_at).toBeUndefined();
+
+      store.setExpiry(memory.id, new Date('2030-01-01T00:00:00Z'));
+      expect(store.get(memory.id)?.expires_at).toBeDefined();
+
+      store.setExpiry(memory.id, null);
+      expect(store.get(memory.id)?.expires_at).toBeUndefined();
+      expect(store.getRevisions(memory.id)).toHaveLength(0);
+      expect(store.setExpiry('missing', null)).toBe(false);
+    });
+  });
+
+  describe('merge', () => {
+    it('should fold memories into the keeper and keep provenance', () => {
+      const keep = store.add({ content: 'Uses OAuth2', scope: 'global', tags: ['auth'] });
+      const dup = store.add({ content: 'Uses OAuth2 for login', scope: 'global', tags: ['login'] });
+
+      const merged = store.merge(keep.id, [dup.id], 'Uses OAuth2 for login');
+
+      expect(merged?.content).toBe('Uses OAuth2 for login');
+      expect(merged?.tags).toEqual(['auth', 'login']);
+      expect(store.get(dup.id)).toBeNull();
+      expect(store.getRevisions(keep.id)[0].changed_by).toBe('merge');
+
+      const [provenance] = store.getMerges(keep.id);
+      expect(provenance.merged_id).toBe(dup.id);
+      expect(provenance.content).toBe('Uses OAuth2 for login');
+      expect(provenance.tags).toEqual(['login']);
+    });
+
+    it('should carry provenance through repeated merges', () => {
+      const a = store.add({ content: 'A', scope: 'global', tags: [] });
+      const b = store.add({ content: 'B', scope: 'global', tags: [] });
+      const c = store.add({ content: 'C', scope: 'global', tags: [] });
+
+      store.merge(b.id, [a.id]);
+      store.merge(c.id, [b.id]);
+
+      expect(store.getMerges(c.id).map((m) => m.merged_id).sort()).toEqual([a.id, b.id].sort());
+    });
+
+    it('should return null when the keeper is missing', () => {
+      expect(store.merge('missing', [])).toBeNull();
+    });
+  });
+
+  describe('sync mapping', () => {
+    it('should map local ids to remote ids both ways', () => {
+      const memory = store.add({ content: 'Synced', scope: 'global', tags: [] });
+      store.setRemoteId(memory.id, 'remote-1');
+
+      expect(store.getRemoteId(memory.id)).toBe('remote-1');
+      expect(store.getLocalId('remote-1')).toBe(memory.id);
+      expect(store.getSyncMappings()[0].confirmed).toBe(false);
+      expect(store.getSyncMapping(memory.id)).toMatchObject({ remote_id: 'remote-1', confirmed: false });
+      expect(store.getSyncMapping('missing')).toBeNull();
+    });
+
+    it('should keep the mapping after a local delete', () => {
+      const memory = store.add({ content: 'Synced', scope: 'global', tags: [] });
+      store.setRemoteId(memory.id, 'remote-1', true);
+      store.delete(memory.id);
+
+      expect(store.getRemoteId(memory.id)).toBe('remote-1');
+      expect(store.removeSyncMapping(memory.id)).toBe(true);
+      expect(store.getRemoteId(memory.id)).toBeNull();
+    });
+
+    it('should move a remote id to the newest local owner', () => {
+      const a = store.add({ content: 'A', scope: 'global', tags: [] });
+      const b = store.add({ content: 'B', scope: 'global', tags: [] });
+      store.setRemoteId(a.id, 'remote-1');
+      store.setRemoteId(b.id, 'remote-1', true);
+
+      expect(store.getRemoteId(a.id)).toBeNull();
+      expect(store.getLocalId('remote-1')).toBe(b.id);
+    });
+  });
 });
@@ -2,30 +2,174 @@ import Database from 'better-sqlite3';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { Memory } from '@brain-jar/core';
+import type { Memory, MemoryKind, MemoryPayload } from '@brain-jar/core';
+import { migrateLocalDb } from './migrations';
 
 interface LocalMemory {
   id: string;
   content: string;
   scope: string;
   tags: string; // JSON string
+  kind: string;
+  payload: string | null; // JSON string
   source_agent: string;
   source_action: string | null;
   created_at: string;
   updated_at: string;
+  expires_at: string | null;
+}
+
+interface DbRevision {
+  id: string;
+  memory_id: string;
+  revision: number;
+  content: string;
+  scope: string;
+  tags: string; // JSON string
+  kind: string;
+  payload: string | null; // JSON string
+  changed_by: string;
+  created_at: string;
+  replaced_at: string;
+}
+
+interface DbMerge {
+  id: string;
+  memory_id: string;
+  merged_id: string;
+  content: string;
+  scope: string;
+  tags: string; // JSON string
+  source_agent: string;
+  created_at: string;
+  merged_at: string;
+}
+
+interface DbLink {
+  id: string;
+  from_id: string;
+  to_id: string;
+  relation: string;
+  note: string | null;
+  created_at: string;
+}
+
+interface DbSyncMapping {
+  local_id: string;
+  remote_id: string;
+  confirmed: number;
+  synced_at: string;
 }
 
 export interface AddInput {
   content: string;
   scope: string;
   tags: string[];
+  kind?: MemoryKind; // Default: 'note'
+  payload?: MemoryPayload;
   source?: { agent: string; action?: string };
+  id?: string; // Preserved on import; generated otherwise
+  created_at?: Date; // Defaults to now (set when pulling from Mem0 or importing)
+  updated_at?: Date; // Defaults to created_at
+  expires_at?: Date; // Explicit expiry (overrides retention rules)
 }
 
-export interface ListOptions {
+export interface UpdateInput {
+  content?: string;
   scope?: string;
   tags?: string[];
+  kind?: MemoryKind;
+  payload?: MemoryPayload | null; // null clears it
+  updated_at?: Date; // Defaults to now
+  changed_by?: string; // Who made the edit, recorded on the revision (default: 'claude-code')
+}
+
+/**
+ * A prior version of a memory, saved whenever it is edited.
+ * created_at is when this version was written; replaced_at when it was superseded.
+ */
+export interface MemoryRevision {
+  id: string;
+  memory_id: string;
+  revision: number; // 1 = original content
+  content: string;
+  scope: string;
+  tags: string[];
+  kind: MemoryKind;
+  payload?: MemoryPayload;
+  changed_by: string; // Who replaced this version
+  created_at: Date;
+  replaced_at: Date;
+}
+
+/**
+ * Link between a local memory and its Mem0 copy.
+ * Unconfirmed links hold the id returned by Mem0's add (possibly an async
+ * event_id) until a reconciliation sees the memory in Mem0.
+ */
+export interface SyncMapping {
+  local_id: string;
+  remote_id: string;
+  confirmed: boolean;
+  synced_at: Date;
+}
+
+/**
+ * Search hit with bm25 relevance (higher is better) and a highlighted
+ * snippet (matches wrapped in **bold**).
+ */
+export interface SearchResult extends Memory {
+  score: number;
+  snippet: string;
+}
+
+/**
+ * A memory that was folded into another by merge(), kept for provenance.
+ */
+export interface MergedMemory {
+  id: string;
+  memory_id: string; // The memory it was merged into
+  merged_id: string; // Its original id
+  content: string;
+  scope: string;
+  tags: string[];
+  source_agent: string;
+  created_at: Date;
+  merged_at: Date;
+}
+
+export const MEMORY_RELATIONS = ['supersedes', 'relates-to', 'caused-by', 'implements'] as const;
+
+export type MemoryRelation = (typeof MEMORY_RELATIONS)[number];
+
+/**
+ * Directed, typed edge between two memories ("from supersedes to").
+ */
+export interface MemoryLink {
+  id: string;
+  from_id: string;
+  to_id: string;
+  relation: MemoryRelation;
+  note?: string;
+  created_at: Date;
+}
+
+export interface StoredEmbedding {
+  memory_id: string;
+  vector: Float32Array;
+}
+
+/**
+ * One scope, or any of several (e.g. a scope and the scopes it inherits from).
+ */
+export type ScopeFilter = string | string[];
+
+export interface ListOptions {
+  scope?: ScopeFilter;
+  tags?: string[];
+  kind?: MemoryKind;
   since?: Date;
+  until?: Date;
   limit?: number;
 }
 
@@ -44,29 +188,20 @@ export class LocalStore {
   }
 
   private init(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS memories (
-        id TEXT PRIMARY KEY,
-        content TEXT NOT NULL,
-        scope TEXT NOT NULL DEFAULT 'global',
-        tags TEXT NOT NULL DEFAULT '[]',
-        source_agent TEXT NOT NULL DEFAULT 'claude-code',
-        source_action TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_scope ON memories(scope);
-      CREATE INDEX IF NOT EXISTS idx_created ON memories(created_at);
-    `);
+    migrateLocalDb(this.db);
   }
 
   add(input: AddInput): Memory {
-    const id = crypto.randomUUID();
-    const now = new Date().toISOString();
+    const id = input.id || crypto.randomUUID();
+    const now = (input.created_at || new Date()).toISOString();
+    const updatedAt = input.updated_at ? input.updated_at.toISOString() : now;
+    const expiresAt = input.expires_at ? input.expires_at.toISOString() : null;
+    const kind = input.kind || 'note';
+    const payload = input.payload ? JSON.stringify(input.payload) : null;
 
     const stmt = this.db.prepare(`
-      INSERT INTO memories (id, content, scope, tags, source_agent, source_action, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO memories (id, content, scope, tags, kind, payload, source_agent, source_action, created_at, updated_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -74,10 +209,13 @@ export class LocalStore {
       input.content,
       input.scope,
       JSON.stringify(input.tags),
+      kind,
+      payload,
       input.source?.agent || 'claude-code',
       input.source?.action || null,
       now,
-      now
+      updatedAt,
+      expiresAt
     );
 
     return this.toMemory({
@@ -85,20 +223,172 @@ export class LocalStore {
       content: input.content,
       scope: input.scope,
       tags: JSON.stringify(input.tags),
+      kind,
+      payload,
       source_agent: input.source?.agent || 'claude-code',
       source_action: input.source?.action || null,
       created_at: now,
-      updated_at: now,
+      updated_at: updatedAt,
+      expires_at: expiresAt,
     });
   }
 
-  search(query: string, scope?: string, limit: number = 10): Memory[] {
+  get(id: string): Memory | null {
+    const row = this.db.prepare(`SELECT * FROM memories WHERE id = ?`).get(id) as LocalMemory | undefined;
+    return row ? this.toMemory(row) : null;
+  }
+
+  /**
+   * Find a memory with exactly this content in a scope (duplicate check).
+   */
+  findByContent(content: string, scope: string): Memory | null {
+    const row = this.db
+      .prepare(`SELECT * FROM memories WHERE content = ? AND scope = ? LIMIT 1`)
+      .get(content, scope) as LocalMemory | undefined;
+    return row ? this.toMemory(row) : null;
+  }
+
+  /**
+   * Update content, scope, tags or kind of a memory, saving the previous version
+   * to memory_revisions. Returns the updated memory, or null if it does not exist.
+   */
+  update(id: string, input: UpdateInput): Memory | null {
+    const existing = this.get(id);
+    if (!existing) return null;
+
+    const updatedAt = (input.updated_at || new Date()).toISOString();
+
+    this.db.transaction(() => {
+      const { next } = this.db
+        .prepare(`SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM memory_revisions WHERE memory_id = ?`)
+        .get(id) as { next: number };
+
+      this.db
+        .prepare(
+          `INSERT INTO memory_revisions (id, memory_id, revision, content, scope, tags, kind, payload, changed_by, created_at, replaced_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          crypto.randomUUID(),
+          id,
+          next,
+          existing.content,
+          existing.scope,
+          JSON.stringify(existing.tags),
+          existing.kind || 'note',
+          existing.payload ? JSON.stringify(existing.payload) : null,
+          input.changed_by || 'claude-code',
+          existing.updated_at.toISOString(),
+          updatedAt
+        );
+
+      const payload = input.payload === undefined ? existing.payload : input.payload;
+      this.db
+        .prepare(
+          `UPDATE memories SET content = ?, scope = ?, tags = ?, kind = ?, payload = ?, updated_at = ? WHERE id = ?`
+        )
+        .run(
+          input.content ?? existing.content,
+          input.scope ?? existing.scope,
+          JSON.stringify(input.tags ?? existing.tags),
+          input.kind ?? existing.kind ?? 'note',
+          payload ? JSON.stringify(payload) : null,
+          updatedAt,
+          id
+        );
+    })();
+
+    return this.get(id);
+  }
+
+  /**
+   * Set or clear (null) a memory's explicit expiry. Not recorded as a revision.
+   */
+  setExpiry(id: string, expiresAt: Date | null): boolean {
+    const result = this.db
+      .prepare(`UPDATE memories SET expires_at = ? WHERE id = ?`)
+      .run(expiresAt ? expiresAt.toISOString() : null, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Prior versions of a memory, oldest first.
+   */
+  getRevisions(memoryId: string): MemoryRevision[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_revisions WHERE memory_id = ? ORDER BY revision ASC`)
+      .all(memoryId) as DbRevision[];
+    return rows.map((r) => ({
+      id: r.id,
+      memory_id: r.memory_id,
+      revision: r.revision,
+      content: r.content,
+      scope: r.scope,
+      tags: JSON.parse(r.tags),
+      kind: r.kind as MemoryKind,
+      ...(r.payload && { payload: JSON.parse(r.payload) }),
+      changed_by: r.changed_by,
+      created_at: new Date(r.created_at),
+      replaced_at: new Date(r.replaced_at),
+    }));
+  }
+
+  /**
+   * Full-text search ranked by bm25.
+   * Supports FTS5 syntax: "exact phrase", prefix*, AND / OR / NOT, (grouping).
+   * Falls back to substring matching when nothing matches (or the query
+   * cannot be parsed), so partial words still find something.
+   */
+  search(query: string, scope?: ScopeFilter, limit: number = 10, kind?: MemoryKind): SearchResult[] {
+    const ftsQuery = buildFtsQuery(query);
+    if (ftsQuery) {
+      let sql = `
+        SELECT m.*,
+          bm25(memories_fts, 1.0, 0.5) AS bm25_rank,
+          snippet(memories_fts, 0, '**', '**', '…', 32) AS snippet
+        FROM memories_fts
+        JOIN memories m ON m.rowid = memories_fts.rowid
+        WHERE memories_fts MATCH ?`;
+      const params: (string | number)[] = [ftsQuery];
+
+      sql += this.scopeClause('m.scope', scope, params);
+
+      if (kind) {
+        sql += ` AND m.kind = ?`;
+        params.push(kind);
+      }
+
+      sql += ` ORDER BY bm25_rank, m.created_at DESC LIMIT ?`;
+      params.push(limit);
+
+      try {
+        const rows = this.db.prepare(sql).all(...params) as (LocalMemory & { bm25_rank: number; snippet: string })[];
+        if (rows.length > 0) {
+          return rows.map((row) => ({
+            ...this.toMemory(row),
+            // bm25 is negative with lower = better; flip so higher = better
+            score: -row.bm25_rank,
+            // Snippet is empty when only tags matched
+            snippet: row.snippet || row.content,
+          }));
+        }
+      } catch {
+        // Malformed FTS syntax (e.g. dangling operator) - use substring match below
+      }
+    }
+
+    return this.searchSubstring(query, scope, limit, kind);
+  }
+
+  private searchSubstring(query: string, scope?: ScopeFilter, limit: number = 10, kind?: MemoryKind): SearchResult[] {
     let sql = `SELECT * FROM memories WHERE content LIKE ?`;
     const params: (string | number)[] = [`%${query}%`];
 
-    if (scope) {
-      sql += ` AND scope = ?`;
-      params.push(scope);
+    sql += this.scopeClause('scope', scope, params);
+
+    if (kind) {
+      sql += ` AND kind = ?`;
+      params.push(kind);
     }
 
     sql += ` ORDER BY created_at DESC LIMIT ?`;
@@ -106,17 +396,14 @@ export class LocalStore {
 
     const stmt = this.db.prepare(sql);
     const rows = stmt.all(...params) as LocalMemory[];
-    return rows.map((row) => this.toMemory(row));
+    return rows.map((row) => ({ ...this.toMemory(row), score: 0, snippet: row.content }));
   }
 
   list(options: ListOptions = {}): Memory[] {
     let sql = `SELECT * FROM memories WHERE 1=1`;
     const params: (string | number)[] = [];
 
-    if (options.scope) {
-      sql += ` AND scope = ?`;
-      params.push(options.scope);
-    }
+    sql += this.scopeClause('scope', options.scope, params);
 
     if (options.tags && options.tags.length > 0) {
       for (const tag of options.tags) {
@@ -125,11 +412,21 @@ export class LocalStore {
       }
     }
 
+    if (options.kind) {
+      sql += ` AND kind = ?`;
+      params.push(options.kind);
+    }
+
     if (options.since) {
       sql += ` AND created_at >= ?`;
       params.push(options.since.toISOString());
     }
 
+    if (options.until) {
+      sql += ` AND created_at <= ?`;
+      params.push(options.until.toISOString());
+    }
+
     sql += ` ORDER BY created_at DESC`;
 
     if (options.limit) {
@@ -184,6 +481,32 @@ export class LocalStore {
     return rows.map((r) => r.scope);
   }
 
+  /**
+   * Move memories to new scopes, e.g. after a project rename. `rename` maps a
+   * scope to its replacement (null to leave it). Bumps updated_at so the move
+   * wins over the old cloud copy when reconciling. Returns the ids moved.
+   */
+  renameScopes(rename: (scope: string) => string | null, dryRun: boolean = false): string[] {
+    const select = this.db.prepare(`SELECT id FROM memories WHERE scope = ?`);
+    const update = this.db.prepare(`UPDATE memories SET scope = ?, updated_at = ? WHERE scope = ?`);
+    const now = new Date().toISOString();
+    const ids: string[] = [];
+
+    this.db.transaction(() => {
+      for (const scope of this.getActiveScopes()) {
+        const target = rename(scope);
+        if (!target || target === scope) continue;
+
+        ids.push(...(select.all(scope) as { id: string }[]).map((r) => r.id));
+        if (!dryRun) {
+          update.run(target, now, scope);
+        }
+      }
+    })();
+
+    return ids;
+  }
+
   /**
    * Get memory statistics for health checks.
    */
@@ -243,22 +566,307 @@ export class LocalStore {
     };
   }
 
+  // --- Merging ---
+
+  /**
+   * Fold memories into keepId: the keeper takes the given content (or keeps
+   * its own) plus the union of all tags, and the others are deleted with
+   * their content recorded in memory_merges.
+   * Returns the updated keeper, or null if it does not exist.
+   */
+  merge(keepId: string, mergeIds: string[], content?: string): Memory | null {
+    const keeper = this.get(keepId);
+    if (!keeper) return null;
+
+    const absorbed = mergeIds
+      .filter((id) => id !== keepId)
+      .map((id) => this.get(id))
+      .filter((m): m is Memory => m !== null);
+
+    const tags = [...new Set([keeper.tags, ...absorbed.map((m) => m.tags)].flat())];
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      const stmt = this.db.prepare(
+        `INSERT INTO memory_merges (id, memory_id, merged_id, content, scope, tags, source_agent, created_at, merged_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const m of absorbed) {
+        stmt.run(
+          crypto.randomUUID(),
+          keepId,
+          m.id,
+          m.content,
+          m.scope,
+          JSON.stringify(m.tags),
+          m.source.agent,
+          m.created_at.toISOString(),
+          now
+        );
+        // Carry over anything the absorbed memory had itself absorbed, and its links
+        this.db.prepare(`UPDATE memory_merges SET memory_id = ? WHERE memory_id = ?`).run(keepId, m.id);
+        this.db.prepare(`UPDATE OR IGNORE memory_links SET from_id = ? WHERE from_id = ?`).run(keepId, m.id);
+        this.db.prepare(`UPDATE OR IGNORE memory_links SET to_id = ? WHERE to_id = ?`).run(keepId, m.id);
+        this.delete(m.id);
+      }
+      // Links between merged memories would now point at the keeper itself
+      this.db.prepare(`DELETE FROM memory_links WHERE from_id = ? AND to_id = ?`).run(keepId, keepId);
+
+      this.update(keepId, { content: content ?? keeper.content, tags, changed_by: 'merge' });
+    })();
+
+    return this.get(keepId);
+  }
+
+  /**
+   * Memories merged into this one, oldest first.
+   */
+  getMerges(memoryId: string): MergedMemory[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_merges WHERE memory_id = ? ORDER BY created_at ASC`)
+      .all(memoryId) as DbMerge[];
+    return rows.map((r) => ({
+      id: r.id,
+      memory_id: r.memory_id,
+      merged_id: r.merged_id,
+      content: r.content,
+      scope: r.scope,
+      tags: JSON.parse(r.tags),
+      source_agent: r.source_agent,
+      created_at: new Date(r.created_at),
+      merged_at: new Date(r.merged_at),
+    }));
+  }
+
+  // --- Links ---
+
+  /**
+   * Link two memories. Linking the same pair with the same relation again
+   * updates the note. Returns null if either memory does not exist.
+   */
+  link(fromId: string, toId: string, relation: MemoryRelation, note?: string): MemoryLink | null {
+    if (fromId === toId || !this.get(fromId) || !this.get(toId)) return null;
+
+    this.db
+      .prepare(
+        `INSERT INTO memory_links (id, from_id, to_id, relation, note, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(from_id, to_id, relation) DO UPDATE SET note = COALESCE(excluded.note, note)`
+      )
+      .run(crypto.randomUUID(), fromId, toId, relation, note || null, new Date().toISOString());
+
+    const row = this.db
+      .prepare(`SELECT * FROM memory_links WHERE from_id = ? AND to_id = ? AND relation = ?`)
+      .get(fromId, toId, relation) as DbLink;
+    return this.toLink(row);
+  }
+
+  /**
+   * Remove links from one memory to another (all relations unless given).
+   * Returns the number removed.
+   */
+  unlink(fromId: string, toId: string, relation?: MemoryRelation): number {
+    let sql = `DELETE FROM memory_links WHERE from_id = ? AND to_id = ?`;
+    const params = [fromId, toId];
+
+    if (relation) {
+      sql += ` AND relation = ?`;
+      params.push(relation);
+    }
+
+    return this.db.prepare(sql).run(...params).changes;
+  }
+
+  /**
+   * Links touching a memory in either direction, oldest first.
+   */
+  getLinks(memoryId: string): MemoryLink[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_links WHERE from_id = ? OR to_id = ? ORDER BY created_at ASC, rowid ASC`)
+      .all(memoryId, memoryId) as DbLink[];
+    return rows.map((row) => this.toLink(row));
+  }
+
+  // --- Embeddings ---
+
+  setEmbedding(memoryId: string, model: string, vector: Float32Array): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO memory_embeddings (memory_id, model, vector, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(memoryId, model, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), new Date().toISOString());
+  }
+
+  /**
+   * Get stored vectors for a model, optionally limited to one scope and kind.
+   */
+  getEmbeddings(model: string, scope?: ScopeFilter, kind?: MemoryKind): StoredEmbedding[] {
+    let sql = `
+      SELECT e.memory_id, e.vector FROM memory_embeddings e
+      JOIN memories m ON m.id = e.memory_id
+      WHERE e.model = ?`;
+    const params: string[] = [model];
+
+    sql += this.scopeClause('m.scope', scope, params);
+
+    if (kind) {
+      sql += ` AND m.kind = ?`;
+      params.push(kind);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as { memory_id: string; vector: Buffer }[];
+    return rows.map((r) => ({
+      memory_id: r.memory_id,
+      // Copy into an aligned buffer; SQLite blobs may start at any offset
+      vector: new Float32Array(new Uint8Array(r.vector).buffer),
+    }));
+  }
+
+  /**
+   * Memories without a vector for the given model (new, edited, or embedded by another model).
+   */
+  getUnembedded(model: string, limit: number = 100): Memory[] {
+    const rows = this.db
+      .prepare(
+        `SELECT m.* FROM memories m
+         LEFT JOIN memory_embeddings e ON e.memory_id = m.id AND e.model = ?
+         WHERE e.memory_id IS NULL
+         ORDER BY m.created_at DESC
+         LIMIT ?`
+      )
+      .all(model, limit) as LocalMemory[];
+    return rows.map((row) => this.toMemory(row));
+  }
+
+  // --- Mem0 ID Mapping ---
+  // Kept after a local delete until the cloud delete succeeds
+
+  setRemoteId(localId: string, remoteId: string, confirmed: boolean = false): void {
+    // A remote id belongs to exactly one local memory
+    this.db.prepare(`DELETE FROM memory_sync_map WHERE remote_id = ? AND local_id != ?`).run(remoteId, localId);
+    this.db
+      .prepare(
+        `INSERT INTO memory_sync_map (local_id, remote_id, confirmed, synced_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(local_id) DO UPDATE SET
+           remote_id = excluded.remote_id,
+           confirmed = excluded.confirmed,
+           synced_at = excluded.synced_at`
+      )
+      .run(localId, remoteId, confirmed ? 1 : 0, new Date().toISOString());
+  }
+
+  getRemoteId(localId: string): string | null {
+    const row = this.db
+      .prepare(`SELECT remote_id FROM memory_sync_map WHERE local_id = ?`)
+      .get(localId) as { remote_id: string } | undefined;
+    return row?.remote_id || null;
+  }
+
+  getLocalId(remoteId: string): string | null {
+    const row = this.db
+      .prepare(`SELECT local_id FROM memory_sync_map WHERE remote_id = ?`)
+      .get(remoteId) as { local_id: string } | undefined;
+    return row?.local_id || null;
+  }
+
+  getSyncMapping(localId: string): SyncMapping | null {
+    const row = this.db
+      .prepare(`SELECT * FROM memory_sync_map WHERE local_id = ?`)
+      .get(localId) as DbSyncMapping | undefined;
+    return row ? this.toSyncMapping(row) : null;
+  }
+
+  getSyncMappings(): SyncMapping[] {
+    const rows = this.db.prepare(`SELECT * FROM memory_sync_map`).all() as DbSyncMapping[];
+    return rows.map((r) => this.toSyncMapping(r));
+  }
+
+  removeSyncMapping(localId: string): boolean {
+    const result = this.db.prepare(`DELETE FROM memory_sync_map WHERE local_id = ?`).run(localId);
+    return result.changes > 0;
+  }
+
   close(): void {
     this.db.close();
   }
 
+  /**
+   * SQL condition for a scope filter (empty when there is none); pushes its params.
+   */
+  private scopeClause(column: string, scope: ScopeFilter | undefined, params: (string | number)[]): string {
+    if (!scope) return '';
+
+    const scopes = Array.isArray(scope) ? scope : [scope];
+    params.push(...scopes);
+    return ` AND ${column} IN (${scopes.map(() => '?').join(', ')})`;
+  }
+
+  private toLink(row: DbLink): MemoryLink {
+    return {
+      id: row.id,
+      from_id: row.from_id,
+      to_id: row.to_id,
+      relation: row.relation as MemoryRelation,
+      ...(row.note && { note: row.note }),
+      created_at: new Date(row.created_at),
+    };
+  }
+
+  private toSyncMapping(row: DbSyncMapping): SyncMapping {
+    return {
+      local_id: row.local_id,
+      remote_id: row.remote_id,
+      confirmed: row.confirmed === 1,
+      synced_at: new Date(row.synced_at),
+    };
+  }
+
   private toMemory(row: LocalMemory): Memory {
     return {
       id: row.id,
       content: row.content,
       scope: row.scope,
       tags: JSON.parse(row.tags),
+      kind: row.kind as MemoryKind,
+      ...(row.payload && { payload: JSON.parse(row.payload) }),
       source: {
         agent: row.source_agent,
         action: row.source_action || undefined,
       },
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at),
+      ...(row.expires_at && { expires_at: new Date(row.expires_at) }),
     };
   }
 }
+
+/**
+ * Turn user input into a safe FTS5 query.
+ * Keeps phrases, prefix stars, AND/OR/NOT and parentheses; every other
+ * token is quoted so punctuation (C++, don't, foo.bar) can't break parsing.
+ * Bare words are implicitly ANDed by FTS5.
+ */
+export function buildFtsQuery(query: string): string {
+  const tokens = query.match(/"[^"]*"?|[()]|[^\s()"]+/g) || [];
+  const parts: string[] = [];
+
+  for (const token of tokens) {
+    if (token === '(' || token === ')') {
+      parts.push(token);
+    } else if (token === 'AND' || token === 'OR' || token === 'NOT') {
+      parts.push(token);
+    } else if (token.startsWith('"')) {
+      const phrase = token.replace(/"/g, '').trim();
+      if (phrase) parts.push(`"${phrase}"`);
+    } else {
+      const prefix = token.endsWith('*');
+      const words = token.split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+      if (words.length === 0) continue;
+      parts.push(`"${words.join(' ')}"${prefix ? '*' : ''}`);
+    }
+  }
+
+  return parts.join(' ');
+}
@@ -0,0 +1,70 @@
+import { buildMemoryGraph, toMermaid } from './memory-graph';
+import { LocalStore } from './local-store';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('memory graph', () => {
+  let store: LocalStore;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(os.tmpdir(), `test-graph-${Date.now()}.db`);
+    store = new LocalStore(testDbPath);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  function chain() {
+    const old = store.add({ content: 'Auth via sessions', scope: 'global', tags: [] });
+    const current = store.add({
+      content: 'Auth via OAuth2',
+      scope: 'global',
+      tags: [],
+      kind: 'decision',
+      payload: { choice: 'OAuth2' },
+    });
+    const task = store.add({ content: 'Add "Login with GitHub" [button]', scope: 'global', tags: [] });
+    store.link(current.id, old.id, 'supersedes');
+    store.link(task.id, current.id, 'implements');
+    return { old, current, task };
+  }
+
+  it('should return null for an unknown memory', () => {
+    expect(buildMemoryGraph(store, 'missing')).toBeNull();
+  });
+
+  it('should collect neighbors in both directions up to the depth', () => {
+    const { old, current, task } = chain();
+
+    const near = buildMemoryGraph(store, old.id, 1)!;
+    expect(near.nodes.map((n) => n.id)).toEqual([old.id, current.id]);
+    expect(near.edges).toEqual([{ from: current.id, to: old.id, relation: 'supersedes' }]);
+
+    const far = buildMemoryGraph(store, old.id, 2)!;
+    expect(far.nodes.map((n) => [n.id, n.depth])).toEqual([
+      [old.id, 0],
+      [current.id, 1],
+      [task.id, 2],
+    ]);
+    expect(far.edges).toHaveLength(2);
+  });
+
+  it('should render a Mermaid flowchart with escaped labels', () => {
+    const { current } = chain();
+
+    const mermaid = toMermaid(buildMemoryGraph(store, current.id)!);
+
+    expect(mermaid).toContain('flowchart LR');
+    expect(mermaid).toContain('m0["decision: Auth via OAuth2"]');
+    expect(mermaid).toContain('m0 -->|supersedes| m1');
+    expect(mermaid).toContain('m2 -->|implements| m0');
+    expect(mermaid).toContain('#quot;Login with GitHub#quot; #91;button#93;');
+    expect(mermaid).toContain('class m0 root');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Neighborhood graphs over memory links.
+ *
+ * Starting from one memory, follows links in both directions up to a given
+ * depth and returns the nodes and edges found, either as JSON or as a
+ * Mermaid flowchart (which visual-thinking's create_diagram can store).
+ */
+
+import type { MemoryKind } from '@brain-jar/core';
+import type { LocalStore, MemoryRelation } from './local-store';
+
+const MAX_LABEL_LENGTH = 60;
+
+export interface GraphNode {
+  id: string;
+  content: string;
+  scope: string;
+  kind: MemoryKind;
+  depth: number; // Hops from the root
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  relation: MemoryRelation;
+  note?: string;
+}
+
+export interface MemoryGraph {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Breadth-first walk of the links around rootId. Returns null if the root
+ * memory does not exist.
+ */
+export function buildMemoryGraph(localStore: LocalStore, rootId: string, depth: number = 1): MemoryGraph | null {
+  const root = localStore.get(rootId);
+  if (!root) return null;
+
+  const nodes = new Map<string, GraphNode>([
+    [root.id, { id: root.id, content: root.content, scope: root.scope, kind: root.kind || 'note', depth: 0 }],
+  ]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [root.id];
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+
+    for (const id of frontier) {
+      for (const link of localStore.getLinks(id)) {
+        edges.set(link.id, {
+          from: link.from_id,
+          to: link.to_id,
+          relation: link.relation,
+          ...(link.note && { note: link.note }),
+        });
+
+        const neighborId = link.from_id === id ? link.to_id : link.from_id;
+        if (nodes.has(neighborId)) continue;
+
+        const neighbor = localStore.get(neighborId);
+        if (!neighbor) continue;
+        nodes.set(neighbor.id, {
+          id: neighbor.id,
+          content: neighbor.content,
+          scope: neighbor.scope,
+          kind: neighbor.kind || 'note',
+          depth: hop,
+        });
+        next.push(neighbor.id);
+      }
+    }
+
+    frontier = next;
+  }
+
+  // Edges from the outermost ring can point past the depth limit
+  return {
+    root: root.id,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()].filter((e) => nodes.has(e.from) && nodes.has(e.to)),
+  };
+}
+
+/**
+ * Render a graph as a Mermaid flowchart. Nodes are labelled with their kind
+ * and (truncated) content; the root is highlighted.
+ */
+export function toMermaid(graph: MemoryGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `m${i}`]));
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    const text = node.content.length > MAX_LABEL_LENGTH ? `${node.content.slice(0, MAX_LABEL_LENGTH - 1)}…` : node.content;
+    const label = node.kind === 'note' ? text : `${node.kind}: ${text}`;
+    lines.push(`  ${ids.get(node.id)}["${escapeLabel(label)}"]`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} -->|${edge.relation}| ${ids.get(edge.to)}`);
+  }
+
+  lines.push('  classDef root stroke-width:3px', `  class ${ids.get(graph.root)} root`);
+  return lines.join('\n');
+}
+
+// Mermaid labels can't contain raw quotes, brackets or newlines
+function escapeLabel(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/"/g, '#quot;')
+    .replace(/[[\]]/g, (c) => (c === '[' ? '#91;' : '#93;'))
+    .replace(/[<>]/g, (c) => (c === '<' ? '#lt;' : '#gt;'));
+}
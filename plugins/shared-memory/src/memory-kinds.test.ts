@@ -0,0 +1,83 @@
+import { resolveKind, formatPayload, sortOpenTodos } from './memory-kinds';
+import type { Memory } from '@brain-jar/core';
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: 'm1',
+    content: 'Content',
+    scope: 'global',
+    tags: [],
+    kind: 'note',
+    source: { agent: 'claude-code' },
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('resolveKind', () => {
+  it('should default to a plain note', () => {
+    expect(resolveKind({})).toEqual({ kind: 'note' });
+  });
+
+  it('should infer the kind from the details given', () => {
+    expect(resolveKind({ decision: { choice: 'Postgres', rationale: 'JSONB support' } })).toEqual({
+      kind: 'decision',
+      payload: { choice: 'Postgres', rationale: 'JSONB support' },
+    });
+  });
+
+  it('should default todos to open', () => {
+    expect(resolveKind({ kind: 'todo' })).toEqual({ kind: 'todo', payload: { status: 'open' } });
+  });
+
+  it('should allow gotchas without details', () => {
+    expect(resolveKind({ kind: 'gotcha' })).toEqual({ kind: 'gotcha' });
+  });
+
+  it('should reject details that do not fit the kind', () => {
+    expect(() => resolveKind({ kind: 'link', todo: { status: 'open' } })).toThrow('todo details given for a link memory');
+    expect(() => resolveKind({ decision: { choice: 'a' }, link: { url: 'https://x.dev' } })).toThrow('one kind only');
+    expect(() => resolveKind({ kind: 'decision' })).toThrow('Invalid decision details');
+    expect(() => resolveKind({ link: { url: 'not a url' } })).toThrow('Invalid link details');
+    expect(() => resolveKind({ todo: { due: 'someday' } })).toThrow('Invalid todo details');
+  });
+
+  it('should merge edits into the existing payload of the same kind', () => {
+    const existing = memory({ kind: 'todo', payload: { status: 'open', due: '2026-02-01' } });
+
+    expect(resolveKind({ todo: { status: 'done', due: undefined } }, existing)).toEqual({
+      kind: 'todo',
+      payload: { status: 'done', due: '2026-02-01' },
+    });
+    expect(resolveKind({ kind: 'note' }, existing)).toEqual({ kind: 'note' });
+  });
+});
+
+describe('formatPayload', () => {
+  it('should summarize each kind', () => {
+    expect(
+      formatPayload(
+        memory({ kind: 'decision', payload: { choice: 'vitest', options: ['jest', 'vitest'], rationale: 'faster' } })
+      )
+    ).toBe('Chose: vitest over jest — faster');
+    expect(formatPayload(memory({ kind: 'todo', payload: { status: 'open', due: '2026-02-01' } }))).toBe(
+      'Status: open, due 2026-02-01'
+    );
+    expect(formatPayload(memory({ kind: 'link', payload: { url: 'https://zod.dev', title: 'Zod docs' } }))).toBe(
+      'Zod docs <https://zod.dev>'
+    );
+    expect(formatPayload(memory())).toBe('');
+  });
+});
+
+describe('sortOpenTodos', () => {
+  it('should keep open todos, soonest due first and undated last', () => {
+    const undated = memory({ id: 'undated', kind: 'todo', payload: { status: 'open' } });
+    const later = memory({ id: 'later', kind: 'todo', payload: { status: 'open', due: '2026-03-01' } });
+    const sooner = memory({ id: 'sooner', kind: 'todo', payload: { status: 'open', due: '2026-02-01' } });
+    const done = memory({ id: 'done', kind: 'todo', payload: { status: 'done', due: '2026-01-15' } });
+
+    expect(sortOpenTodos([undated, later, done, sooner]).map((m) => m.id)).toEqual(['sooner', 'later', 'undated']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Structured memory kinds.
+ *
+ * Every memory has a kind (default 'note'). Decisions, gotchas, todos and
+ * links can also carry a structured payload; the schemas here are shared by
+ * the MCP tools and validate payloads before they reach LocalStore or Mem0.
+ */
+
+import { z } from 'zod';
+import type { Memory, MemoryKind, MemoryPayload, TodoPayload } from '@brain-jar/core';
+
+export const MEMORY_KINDS = ['note', 'decision', 'gotcha', 'todo', 'link'] as const;
+
+export const decisionPayloadSchema = z.object({
+  options: z.array(z.string()).optional().describe('Alternatives that were considered'),
+  choice: z.string().describe('What was decided'),
+  rationale: z.string().optional().describe('Why'),
+});
+
+export const gotchaPayloadSchema = z.object({
+  workaround: z.string().optional().describe('How to avoid or work around it'),
+});
+
+export const todoPayloadSchema = z.object({
+  status: z.enum(['open', 'done', 'dropped']).describe('Default: open'),
+  due: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), 'must be a date (YYYY-MM-DD or ISO)')
+    .optional()
+    .describe('Due date (YYYY-MM-DD)'),
+});
+
+export const linkPayloadSchema = z.object({
+  url: z.string().url(),
+  title: z.string().optional(),
+});
+
+const PAYLOAD_SCHEMAS = {
+  decision: decisionPayloadSchema,
+  gotcha: gotchaPayloadSchema,
+  todo: todoPayloadSchema,
+  link: linkPayloadSchema,
+};
+
+type PayloadKind = keyof typeof PAYLOAD_SCHEMAS;
+
+/**
+ * Tool arguments describing a kind: an explicit kind and/or the details
+ * object for one kind (which implies it).
+ */
+export interface KindInput {
+  kind?: MemoryKind;
+  decision?: Record<string, unknown>;
+  gotcha?: Record<string, unknown>;
+  todo?: Record<string, unknown>;
+  link?: Record<string, unknown>;
+}
+
+/**
+ * Work out the kind and validated payload from tool arguments.
+ * When editing (existing given) details are merged into the current payload
+ * of the same kind, so e.g. { todo: { status: 'done' } } keeps the due date.
+ * Throws with a readable message if the details don't fit the kind.
+ */
+export function resolveKind(input: KindInput, existing?: Memory): { kind: MemoryKind; payload?: MemoryPayload } {
+  const given = (Object.keys(PAYLOAD_SCHEMAS) as PayloadKind[]).filter((k) => input[k] !== undefined);
+  if (given.length > 1) {
+    throw new Error(`Provide details for one kind only (got ${given.join(', ')})`);
+  }
+
+  const detailsKind = given[0];
+  const kind = input.kind ?? detailsKind ?? existing?.kind ?? 'note';
+  if (detailsKind && detailsKind !== kind) {
+    throw new Error(`${detailsKind} details given for a ${kind} memory`);
+  }
+  if (kind === 'note') {
+    return { kind };
+  }
+
+  const current = existing && (existing.kind ?? 'note') === kind ? existing.payload : undefined;
+  const details = detailsKind
+    ? Object.fromEntries(Object.entries(input[detailsKind]!).filter(([, value]) => value !== undefined))
+    : undefined;
+  const raw = details ? { ...current, ...details } : current;
+
+  // Gotchas work without details; todos default to open
+  if (raw === undefined && kind === 'gotcha') {
+    return { kind };
+  }
+
+  const parsed = PAYLOAD_SCHEMAS[kind].safeParse(kind === 'todo' ? { status: 'open', ...raw } : (raw ?? {}));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || kind}: ${i.message}`).join('; ');
+    throw new Error(`Invalid ${kind} details (${issues})`);
+  }
+  return { kind, payload: parsed.data as MemoryPayload };
+}
+
+/**
+ * One-line summary of a memory's structured details ('' for plain notes).
+ */
+export function formatPayload(memory: Memory): string {
+  const payload = memory.payload as Record<string, unknown> | undefined;
+  if (!payload) return '';
+
+  switch (memory.kind) {
+    case 'decision': {
+      const { choice, options, rationale } = payload as { choice: string; options?: string[]; rationale?: string };
+      const others = (options || []).filter((o) => o !== choice);
+      return [
+        `Chose: ${choice}`,
+        others.length > 0 ? ` over ${others.join(', ')}` : '',
+        rationale ? ` — ${rationale}` : '',
+      ].join('');
+    }
+    case 'gotcha':
+      return payload.workaround ? `Workaround: ${payload.workaround}` : '';
+    case 'todo': {
+      const { status, due } = payload as unknown as TodoPayload;
+      return due ? `Status: ${status}, due ${due}` : `Status: ${status}`;
+    }
+    case 'link':
+      return payload.title ? `${payload.title} <${payload.url}>` : String(payload.url);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Open todos sorted by due date (undated last, then oldest first).
+ */
+export function sortOpenTodos(memories: Memory[]): Memory[] {
+  const due = (m: Memory) => {
+    const value = (m.payload as TodoPayload | undefined)?.due;
+    return value ? Date.parse(value) : Infinity;
+  };
+  return memories
+    .filter((m) => m.kind === 'todo' && (m.payload as TodoPayload | undefined)?.status === 'open')
+    .sort((a, b) => due(a) - due(b) || a.created_at.getTime() - b.created_at.getTime());
+}
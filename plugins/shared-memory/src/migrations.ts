@@ -0,0 +1,240 @@
+/**
+ * Schema migrations for local.db.
+ *
+ * LocalStore, SessionStore and SyncQueue share local.db, so its tables are
+ * versioned together: whichever store opens the file first brings it up to
+ * date. Append new migrations to the end of LOCAL_DB_MIGRATIONS; never edit
+ * one that has shipped.
+ */
+
+import type Database from 'better-sqlite3';
+import { runMigrations, type Migration } from '@brain-jar/core';
+
+export const LOCAL_DB_MIGRATIONS: Migration[] = [
+  {
+    // Everything up to the introduction of versioning. Also upgrades
+    // unversioned databases from any earlier release, hence IF NOT EXISTS
+    // and the column checks.
+    version: 1,
+    name: 'baseline',
+    up: (db) => {
+      // Databases created before FTS need their existing rows indexed once
+      const hasFts = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'`).get();
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          scope TEXT NOT NULL DEFAULT 'global',
+          tags TEXT NOT NULL DEFAULT '[]',
+          kind TEXT NOT NULL DEFAULT 'note',
+          payload TEXT,
+          source_agent TEXT NOT NULL DEFAULT 'claude-code',
+          source_action TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          expires_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_scope ON memories(scope);
+        CREATE INDEX IF NOT EXISTS idx_created ON memories(created_at);
+
+        -- Full-text index over content and tags (external content, kept in sync by triggers)
+        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+          content,
+          tags,
+          content = 'memories',
+          content_rowid = 'rowid',
+          tokenize = 'porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts (rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+        END;
+        CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+          INSERT INTO memories_fts (memories_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+        END;
+        CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF content, tags ON memories BEGIN
+          INSERT INTO memories_fts (memories_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+          INSERT INTO memories_fts (rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+        END;
+
+        -- Prior versions of edited memories (removed with the memory)
+        CREATE TABLE IF NOT EXISTS memory_revisions (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          tags TEXT NOT NULL DEFAULT '[]',
+          kind TEXT NOT NULL DEFAULT 'note',
+          payload TEXT,
+          changed_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          replaced_at TEXT NOT NULL,
+          UNIQUE (memory_id, revision)
+        );
+        CREATE TRIGGER IF NOT EXISTS memory_revisions_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_revisions WHERE memory_id = old.id;
+        END;
+
+        -- Memories absorbed by a merge (provenance for the surviving memory)
+        CREATE TABLE IF NOT EXISTS memory_merges (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          merged_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          tags TEXT NOT NULL DEFAULT '[]',
+          source_agent TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          merged_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_merges_memory ON memory_merges(memory_id);
+        CREATE TRIGGER IF NOT EXISTS memory_merges_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_merges WHERE memory_id = old.id;
+        END;
+
+        -- Typed edges between memories (removed with either end)
+        CREATE TABLE IF NOT EXISTS memory_links (
+          id TEXT PRIMARY KEY,
+          from_id TEXT NOT NULL,
+          to_id TEXT NOT NULL,
+          relation TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL,
+          UNIQUE (from_id, to_id, relation)
+        );
+        CREATE INDEX IF NOT EXISTS idx_links_to ON memory_links(to_id);
+        CREATE TRIGGER IF NOT EXISTS memory_links_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_links WHERE from_id = old.id OR to_id = old.id;
+        END;
+
+        -- Embedding vectors per memory; dropped when content changes so they get recomputed
+        CREATE TABLE IF NOT EXISTS memory_embeddings (
+          memory_id TEXT PRIMARY KEY,
+          model TEXT NOT NULL,
+          vector BLOB NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE TRIGGER IF NOT EXISTS memory_embeddings_stale AFTER UPDATE OF content ON memories BEGIN
+          DELETE FROM memory_embeddings WHERE memory_id = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS memory_embeddings_delete AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_embeddings WHERE memory_id = old.id;
+        END;
+
+        CREATE TABLE IF NOT EXISTS memory_sync_map (
+          local_id TEXT PRIMARY KEY,
+          remote_id TEXT NOT NULL UNIQUE,
+          confirmed INTEGER NOT NULL DEFAULT 0,
+          synced_at TEXT NOT NULL
+        );
+
+        -- Chess timer (SessionStore)
+        CREATE TABLE IF NOT EXISTS work_sessions (
+          id TEXT PRIMARY KEY,
+          feature_id TEXT NOT NULL,
+          feature_description TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          started_at TEXT NOT NULL,
+          completed_at TEXT,
+          total_active_seconds INTEGER NOT NULL DEFAULT 0,
+          satisfaction INTEGER,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS work_segments (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          trigger_start TEXT NOT NULL,
+          trigger_end TEXT,
+          FOREIGN KEY (session_id) REFERENCES work_sessions(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS work_metrics (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          files_touched INTEGER NOT NULL DEFAULT 0,
+          lines_added INTEGER NOT NULL DEFAULT 0,
+          lines_removed INTEGER NOT NULL DEFAULT 0,
+          complexity_rating INTEGER NOT NULL DEFAULT 3,
+          work_type TEXT NOT NULL DEFAULT 'other',
+          recorded_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES work_sessions(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_scope ON work_sessions(scope);
+        CREATE INDEX IF NOT EXISTS idx_sessions_status ON work_sessions(status);
+        CREATE INDEX IF NOT EXISTS idx_segments_session ON work_segments(session_id);
+        CREATE INDEX IF NOT EXISTS idx_metrics_session ON work_metrics(session_id);
+
+        -- Mem0 outbox (SyncQueue)
+        CREATE TABLE IF NOT EXISTS sync_outbox (
+          id TEXT PRIMARY KEY,
+          operation TEXT NOT NULL,
+          memory_id TEXT NOT NULL,
+          payload TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_outbox_status ON sync_outbox(status, next_attempt_at);
+      `);
+
+      if (!hasFts) {
+        db.exec(`INSERT INTO memories_fts (memories_fts) VALUES ('rebuild')`);
+      }
+
+      // Columns added after the tables were introduced
+      addMissingColumns(db, 'memories', {
+        expires_at: 'TEXT',
+        kind: `TEXT NOT NULL DEFAULT 'note'`,
+        payload: 'TEXT',
+      });
+      addMissingColumns(db, 'memory_revisions', {
+        kind: `TEXT NOT NULL DEFAULT 'note'`,
+        payload: 'TEXT',
+      });
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_expires ON memories(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_kind ON memories(kind);
+      `);
+    },
+  },
+  {
+    // Outbox entries being sent, so other callers leave them alone
+    version: 2,
+    name: 'outbox-claims',
+    up: (db) => {
+      addMissingColumns(db, 'sync_outbox', { claimed_until: 'TEXT' });
+    },
+  },
+];
+
+/**
+ * Bring local.db up to date. Called by every store that opens it.
+ */
+export function migrateLocalDb(db: Database.Database): void {
+  const result = runMigrations(db, LOCAL_DB_MIGRATIONS);
+  if (result.backupPath) {
+    console.error(
+      `[shared-memory] Migrated ${db.name} from schema v${result.from} to v${result.to} (backup: ${result.backupPath})`
+    );
+  }
+}
+
+function addMissingColumns(db: Database.Database, table: string, columns: Record<string, string>): void {
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name));
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
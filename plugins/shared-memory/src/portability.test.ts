@@ -0,0 +1,154 @@
+import { MemoryPorter, serializeRecords, parseRecords, parsePortabilityArgs } from './portability';
+import { LocalStore } from './local-store';
+import { SessionStore } from './chess-timer';
+import { ProfileManager } from './profile';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('MemoryPorter', () => {
+  let tmpDir: string;
+  type Side = { store: LocalStore; sessions: SessionStore; porter: MemoryPorter; profiles: ProfileManager };
+  let source: Side;
+  let target: Side;
+
+  const createSide = (name: string): Side => {
+    const dbPath = path.join(tmpDir, `${name}.db`);
+    const store = new LocalStore(dbPath);
+    const sessions = new SessionStore(dbPath);
+    const profiles = new ProfileManager(
+      path.join(tmpDir, `${name}-profile.json`),
+      path.join(tmpDir, `${name}-inferences.json`)
+    );
+    const porter = new MemoryPorter({ localStore: store, sessionStore: sessions, profileManager: profiles, backend: null });
+    return { store, sessions, profiles, porter };
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-portability-'));
+    source = createSide('source');
+    target = createSide('target');
+  });
+
+  afterEach(() => {
+    for (const side of [source, target]) {
+      side.store.close();
+      side.sessions.close();
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip memories and sessions through JSONL with ids preserved', async () => {
+    const memory = source.store.add({ content: 'Use pnpm', scope: 'project:a', tags: ['tooling'] });
+    const session = source.sessions.createSession({ feature_id: 'f1', description: 'Add login', scope: 'project:a' });
+    source.sessions.completeSession(session.id, { notes: 'done' });
+
+    const text = serializeRecords(await source.porter.collect(), 'jsonl');
+    const result = await target.porter.import(parseRecords(text));
+
+    expect(result.memories).toEqual({ imported: 1, skipped: 0 });
+    expect(result.sessions).toEqual({ imported: 1, skipped: 0 });
+    expect(result.profile).toBe('skipped');
+    expect(target.store.get(memory.id)?.tags).toEqual(['tooling']);
+    expect(target.store.get(memory.id)?.created_at.toISOString()).toBe(memory.created_at.toISOString());
+    expect(target.sessions.getSession(session.id)?.status).toBe('completed');
+    expect(target.sessions.getSegments(session.id)).toHaveLength(1);
+  });
+
+  it('should round-trip through Markdown, including content that looks like a comment end', async () => {
+    const memory = source.store.add({ content: 'Arrow --> and <!-- markers -->', scope: 'global', tags: [] });
+
+    const text = serializeRecords(await source.porter.collect({}, ['memories']), 'markdown');
+    expect(text).toContain('## Memories (1)');
+
+    await target.porter.import(parseRecords(text));
+    expect(target.store.get(memory.id)?.content).toBe('Arrow --> and <!-- markers -->');
+  });
+
+  it('should carry links between exported memories', async () => {
+    const old = source.store.add({ content: 'Auth via sessions', scope: 'global', tags: [] });
+    const current = source.store.add({ content: 'Auth via OAuth2', scope: 'global', tags: [] });
+    source.store.link(current.id, old.id, 'supersedes', 'moved to SSO');
+
+    const text = serializeRecords(await source.porter.collect({}, ['memories']), 'markdown');
+    expect(text).toContain('## Memory Links (1)');
+
+    const result = await target.porter.import(parseRecords(text));
+    expect(result.links).toEqual({ imported: 1, skipped: 0 });
+    expect(target.store.getLinks(old.id)).toMatchObject([
+      { from_id: current.id, to_id: old.id, relation: 'supersedes', note: 'moved to SSO' },
+    ]);
+
+    expect((await target.porter.import(parseRecords(text))).links).toEqual({ imported: 0, skipped: 1 });
+  });
+
+  it('should be safe to import twice', async () => {
+    source.store.add({ content: 'Once', scope: 'global', tags: [] });
+    const records = await source.porter.collect({}, ['memories']);
+
+    await target.porter.import(records);
+    const second = await target.porter.import(records);
+
+    expect(second.memories).toEqual({ imported: 0, skipped: 1 });
+    expect(target.store.list()).toHaveLength(1);
+  });
+
+  it('should skip memories whose content already exists under another id', async () => {
+    source.store.add({ content: 'Same fact', scope: 'global', tags: [] });
+    target.store.add({ content: 'Same fact', scope: 'global', tags: [] });
+
+    const result = await target.porter.import(await source.porter.collect({}, ['memories']));
+    expect(result.memories.skipped).toBe(1);
+  });
+
+  it('should apply scope and tag filters', async () => {
+    source.store.add({ content: 'A', scope: 'project:a', tags: ['debug'] });
+    source.store.add({ content: 'B', scope: 'project:a', tags: [] });
+    source.store.add({ content: 'C', scope: 'project:b', tags: ['debug'] });
+
+    const records = await source.porter.collect({ scope: 'project:a', tags: ['debug'] }, ['memories']);
+    const memories = records.filter((r) => r.type === 'memory');
+    expect(memories).toHaveLength(1);
+  });
+
+  it('should only replace the profile when asked', async () => {
+    const profile = await source.profiles.load();
+    profile.identity.name = 'Sam';
+    await source.profiles.save(profile);
+
+    const records = await source.porter.collect({}, ['profile']);
+    await target.porter.import(records, { overwriteProfile: true });
+
+    expect((await target.profiles.load()).identity.name).toBe('Sam');
+  });
+
+  it('should reject files that are not exports', () => {
+    expect(() => parseRecords('{"hello":"world"}\n')).toThrow('Not a brain-jar export');
+  });
+});
+
+describe('parsePortabilityArgs', () => {
+  it('should return null without export/import flags', () => {
+    expect(parsePortabilityArgs(['node', 'run.js'])).toBeNull();
+  });
+
+  it('should parse export filters', () => {
+    const args = parsePortabilityArgs([
+      'node', 'run.js', '--export', 'out.md', '--scope', 'project:a',
+      '--tag', 'x', '--tag', 'y', '--since', '2026-01-01', '--only', 'memories,sessions',
+    ]);
+
+    expect(args?.mode).toBe('export');
+    expect(args?.format).toBe('markdown');
+    expect(args?.filters.scope).toBe('project:a');
+    expect(args?.filters.tags).toEqual(['x', 'y']);
+    expect(args?.filters.since?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(args?.sections).toEqual(['memories', 'sessions']);
+  });
+
+  it('should reject bad input', () => {
+    expect(() => parsePortabilityArgs(['--import'])).toThrow('requires a file path');
+    expect(() => parsePortabilityArgs(['--export', 'x.jsonl', '--since', 'soon'])).toThrow('invalid date');
+    expect(() => parsePortabilityArgs(['--export', 'x.jsonl', '--only', 'photos'])).toThrow('Unknown section');
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * Portable import/export of shared-memory data (no Mem0 required).
+ *
+ * Two formats carry the same records:
+ * - JSONL: one record per line, first line is a header
+ * - Markdown: a readable bundle where each record is also embedded as an
+ *   HTML comment (<!-- brain-jar:record {...} -->) so it can be re-imported
+ *
+ * Import preserves ids and is duplicate-safe: records whose id already
+ * exists (or memories with identical content in the same scope) are skipped,
+ * so the same bundle can be imported repeatedly.
+ */
+
+import type { ActivitySummary, MemoryBackend, MemoryKind, MemoryPayload, UserProfile } from '@brain-jar/core';
+import type { LocalStore, MemoryRelation } from './local-store';
+import type { ProfileManager } from './profile';
+import type { SessionStore, WorkMetrics, WorkSegment, WorkSession } from './chess-timer';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFormat = 'jsonl' | 'markdown';
+export type ExportSection = 'memories' | 'profile' | 'summaries' | 'sessions';
+
+const ALL_SECTIONS: ExportSection[] = ['memories', 'profile', 'summaries', 'sessions'];
+const RECORD_COMMENT = /<!-- brain-jar:record (.*?) -->/g;
+
+export interface ExportFilters {
+  scope?: string;
+  tags?: string[]; // Memories must have all tags (other sections ignore tags)
+  since?: Date;
+  until?: Date;
+}
+
+export interface ExportedMemory {
+  id: string;
+  content: string;
+  scope: string;
+  tags: string[];
+  kind?: MemoryKind;
+  payload?: MemoryPayload;
+  source: { agent: string; action?: string };
+  created_at: string;
+  updated_at: string;
+  expires_at?: string;
+}
+
+export interface ExportedLink {
+  from_id: string;
+  to_id: string;
+  relation: MemoryRelation;
+  note?: string;
+}
+
+export interface ExportedSession {
+  session: WorkSession;
+  segments: WorkSegment[];
+  metrics: WorkMetrics[];
+}
+
+export type ExportRecord =
+  | {
+      type: 'header';
+      format: 'brain-jar-export';
+      version: number;
+      exported_at: string;
+      filters: { scope?: string; tags?: string[]; since?: string; until?: string };
+    }
+  | { type: 'memory'; data: ExportedMemory }
+  | { type: 'memory_link'; data: ExportedLink }
+  | { type: 'profile'; data: UserProfile }
+  | { type: 'summary'; data: ActivitySummary }
+  | { type: 'session'; data: ExportedSession };
+
+export interface ImportOptions {
+  overwriteProfile?: boolean; // Replace the local profile with the bundled one (default: false)
+}
+
+export interface ImportResult {
+  memories: { imported: number; skipped: number };
+  links: { imported: number; skipped: number };
+  summaries: { imported: number; skipped: number };
+  sessions: { imported: number; skipped: number };
+  profile: 'imported' | 'skipped' | 'none';
+}
+
+export interface PortabilityDeps {
+  localStore: LocalStore;
+  sessionStore: SessionStore;
+  profileManager: ProfileManager;
+  backend: MemoryBackend | null; // Source/target for activity summaries
+}
+
+export class MemoryPorter {
+  constructor(private deps: PortabilityDeps) {}
+
+  /**
+   * Gather records matching the filters.
+   */
+  async collect(filters: ExportFilters = {}, sections: ExportSection[] = ALL_SECTIONS): Promise<ExportRecord[]> {
+    const records: ExportRecord[] = [
+      {
+        type: 'header',
+        format: 'brain-jar-export',
+        version: EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        filters: {
+          scope: filters.scope,
+          tags: filters.tags,
+          since: filters.since?.toISOString(),
+          until: filters.until?.toISOString(),
+        },
+      },
+    ];
+
+    if (sections.includes('memories')) {
+      const memories = this.deps.localStore.list({
+        scope: filters.scope,
+        tags: filters.tags,
+        since: filters.since,
+        until: filters.until,
+      });
+      // Oldest first so imports replay in creation order
+      for (const m of memories.reverse()) {
+        records.push({
+          type: 'memory',
+          data: {
+            id: m.id,
+            content: m.content,
+            scope: m.scope,
+            tags: m.tags,
+            kind: m.kind,
+            payload: m.payload,
+            source: m.source,
+            created_at: m.created_at.toISOString(),
+            updated_at: m.updated_at.toISOString(),
+            ...(m.expires_at && { expires_at: m.expires_at.toISOString() }),
+          },
+        });
+      }
+
+      // Links whose ends are both in the export (after the memories, so imports can resolve them)
+      const exported = new Set(memories.map((m) => m.id));
+      for (const m of memories) {
+        for (const link of this.deps.localStore.getLinks(m.id)) {
+          if (link.from_id !== m.id || !exported.has(link.to_id)) continue;
+          records.push({
+            type: 'memory_link',
+            data: {
+              from_id: link.from_id,
+              to_id: link.to_id,
+              relation: link.relation,
+              ...(link.note && { note: link.note }),
+            },
+          });
+        }
+      }
+    }
+
+    if (sections.includes('profile')) {
+      records.push({ type: 'profile', data: await this.deps.profileManager.load() });
+    }
+
+    if (sections.includes('summaries') && this.deps.backend) {
+      try {
+        const summaries = await this.deps.backend.getSummaries(filters.scope, filters.since);
+        for (const s of summaries.reverse()) {
+          if (filters.until && s.periodEnd > filters.until.toISOString()) continue;
+          const { mem0Id: _mem0Id, ...summary } = s;
+          records.push({ type: 'summary', data: summary });
+        }
+      } catch (error) {
+        console.error('[shared-memory] Could not export summaries:', error);
+      }
+    }
+
+    if (sections.includes('sessions')) {
+      const sessions = this.deps.sessionStore.listSessions({ scope: filters.scope });
+      for (const session of sessions.reverse()) {
+        if (filters.since && session.started_at < filters.since) continue;
+        if (filters.until && session.started_at > filters.until) continue;
+        records.push({
+          type: 'session',
+          data: {
+            session,
+            segments: this.deps.sessionStore.getSegments(session.id),
+            metrics: this.deps.sessionStore.getMetrics(session.id),
+          },
+        });
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Import records, skipping anything already present.
+   */
+  async import(records: ExportRecord[], options: ImportOptions = {}): Promise<ImportResult> {
+    const result: ImportResult = {
+      memories: { imported: 0, skipped: 0 },
+      links: { imported: 0, skipped: 0 },
+      summaries: { imported: 0, skipped: 0 },
+      sessions: { imported: 0, skipped: 0 },
+      profile: 'none',
+    };
+
+    let existingSummaries: ActivitySummary[] | null = null;
+
+    for (const record of records) {
+      switch (record.type) {
+        case 'memory': {
+          const m = record.data;
+          const { localStore } = this.deps;
+          if (localStore.get(m.id) || localStore.findByContent(m.content, m.scope)) {
+            result.memories.skipped++;
+            break;
+          }
+          localStore.add({
+            id: m.id,
+            content: m.content,
+            scope: m.scope,
+            tags: m.tags,
+            kind: m.kind,
+            payload: m.payload,
+            source: m.source,
+            created_at: new Date(m.created_at),
+            updated_at: new Date(m.updated_at),
+            expires_at: m.expires_at ? new Date(m.expires_at) : undefined,
+          });
+          result.memories.imported++;
+          break;
+        }
+
+        case 'memory_link': {
+          const l = record.data;
+          const { localStore } = this.deps;
+          const exists = localStore
+            .getLinks(l.from_id)
+            .some((link) => link.to_id === l.to_id && link.relation === l.relation);
+          if (exists || !localStore.link(l.from_id, l.to_id, l.relation, l.note)) {
+            result.links.skipped++;
+            break;
+          }
+          result.links.imported++;
+          break;
+        }
+
+        case 'profile': {
+          if (options.overwriteProfile) {
+            await this.deps.profileManager.save(record.data);
+            result.profile = 'imported';
+          } else {
+            result.profile = 'skipped';
+          }
+          break;
+        }
+
+        case 'summary': {
+          const s = record.data;
+          if (!this.deps.backend) {
+            result.summaries.skipped++;
+            break;
+          }
+          existingSummaries ??= await this.deps.backend.getSummaries();
+          const duplicate = existingSummaries.some(
+            (e) => e.scope === s.scope && e.periodEnd === s.periodEnd && e.content === s.content
+          );
+          if (duplicate) {
+            result.summaries.skipped++;
+            break;
+          }
+          await this.deps.backend.saveSummary(
+            s.scope,
+            s.content,
+            new Date(s.periodStart),
+            new Date(s.periodEnd),
+            s.memoryCount
+          );
+          existingSummaries.push(s);
+          result.summaries.imported++;
+          break;
+        }
+
+        case 'session': {
+          const { session, segments, metrics } = reviveSession(record.data);
+          if (this.deps.sessionStore.importSession(session, segments, metrics)) {
+            result.sessions.imported++;
+          } else {
+            result.sessions.skipped++;
+          }
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+// --- CLI ---
+
+export interface PortabilityCliArgs {
+  mode: 'export' | 'import';
+  file: string;
+  format: ExportFormat;
+  filters: ExportFilters;
+  sections?: ExportSection[];
+  overwriteProfile: boolean;
+}
+
+/**
+ * Parse run.js flags:
+ *   --export <file> [--format jsonl|markdown] [--scope s] [--tag t]... [--since d] [--until d] [--only memories,sessions]
+ *   --import <file> [--overwrite-profile]
+ * Returns null when neither --export nor --import is present.
+ */
+export function parsePortabilityArgs(argv: string[]): PortabilityCliArgs | null {
+  const valueOf = (flag: string): string | undefined => {
+    const i = argv.indexOf(flag);
+    return i >= 0 && i + 1 < argv.length ? argv[i + 1] : undefined;
+  };
+
+  const mode = argv.includes('--export') ? 'export' : argv.includes('--import') ? 'import' : null;
+  if (!mode) return null;
+
+  const file = valueOf(`--${mode}`);
+  if (!file || file.startsWith('--')) {
+    throw new Error(`--${mode} requires a file path`);
+  }
+
+  const tags = argv.flatMap((arg, i) => (arg === '--tag' && argv[i + 1] ? [argv[i + 1]] : []));
+  const only = valueOf('--only');
+  const format = valueOf('--format');
+  if (format && format !== 'jsonl' && format !== 'markdown') {
+    throw new Error(`Unknown format "${format}" (expected jsonl or markdown)`);
+  }
+
+  return {
+    mode,
+    file,
+    format: (format as ExportFormat) || formatFromPath(file),
+    filters: {
+      scope: valueOf('--scope'),
+      tags: tags.length > 0 ? tags : undefined,
+      since: parseDateArg(valueOf('--since'), '--since'),
+      until: parseDateArg(valueOf('--until'), '--until'),
+    },
+    sections: only ? parseSections(only) : undefined,
+    overwriteProfile: argv.includes('--overwrite-profile'),
+  };
+}
+
+export function parseSections(value: string | string[]): ExportSection[] {
+  const names = Array.isArray(value) ? value : value.split(',').map((s) => s.trim());
+  for (const name of names) {
+    if (!ALL_SECTIONS.includes(name as ExportSection)) {
+      throw new Error(`Unknown section "${name}" (expected ${ALL_SECTIONS.join(', ')})`);
+    }
+  }
+  return names as ExportSection[];
+}
+
+export function parseDateArg(value: string | undefined, label: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${label}: invalid date "${value}"`);
+  }
+  return date;
+}
+
+// --- Serialization ---
+
+export function serializeRecords(records: ExportRecord[], format: ExportFormat): string {
+  if (format === 'jsonl') {
+    return records.map((r) => JSON.stringify(r)).join('\n') + '\n';
+  }
+  return toMarkdown(records);
+}
+
+/**
+ * Parse a JSONL or Markdown bundle (detected from content).
+ */
+export function parseRecords(text: string): ExportRecord[] {
+  const records: ExportRecord[] = [];
+
+  if (text.includes('<!-- brain-jar:record ')) {
+    for (const match of text.matchAll(RECORD_COMMENT)) {
+      records.push(JSON.parse(match[1]) as ExportRecord);
+    }
+  } else {
+    for (const line of text.split('\n')) {
+      if (line.trim()) {
+        records.push(JSON.parse(line) as ExportRecord);
+      }
+    }
+  }
+
+  const header = records[0];
+  if (!header || header.type !== 'header' || header.format !== 'brain-jar-export') {
+    throw new Error('Not a brain-jar export (missing header record)');
+  }
+  if (header.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`Export format v${header.version} is newer than supported v${EXPORT_FORMAT_VERSION}`);
+  }
+
+  return records;
+}
+
+export function formatFromPath(filePath: string): ExportFormat {
+  return /\.(md|markdown)$/i.test(filePath) ? 'markdown' : 'jsonl';
+}
+
+// `>` only occurs inside JSON strings, so escaping it keeps "-->" out of the comment
+function embedRecord(record: ExportRecord): string {
+  return `<!-- brain-jar:record ${JSON.stringify(record).replace(/>/g, '\\u003e')} -->`;
+}
+
+function toMarkdown(records: ExportRecord[]): string {
+  const lines: string[] = [];
+  const byType = (type: ExportRecord['type']) => records.filter((r) => r.type === type);
+  const header = records.find((r) => r.type === 'header');
+
+  lines.push('# Brain-Jar Export', '');
+  if (header?.type === 'header') {
+    lines.push(`Exported: ${header.exported_at}`);
+    const f = header.filters;
+    const filterText = [
+      f.scope && `scope=${f.scope}`,
+      f.tags?.length && `tags=${f.tags.join(',')}`,
+      f.since && `since=${f.since}`,
+      f.until && `until=${f.until}`,
+    ].filter(Boolean);
+    if (filterText.length > 0) {
+      lines.push(`Filters: ${filterText.join(' ')}`);
+    }
+    lines.push('', embedRecord(header), '');
+  }
+
+  const memories = byType('memory');
+  if (memories.length > 0) {
+    lines.push(`## Memories (${memories.length})`, '');
+    for (const r of memories) {
+      if (r.type !== 'memory') continue;
+      const m = r.data;
+      lines.push(`### [${m.scope}] ${m.created_at.split('T')[0]}`, '');
+      if (m.tags.length > 0) {
+        lines.push(`Tags: ${m.tags.join(', ')}`, '');
+      }
+      lines.push(m.content, '', embedRecord(r), '');
+    }
+  }
+
+  const links = byType('memory_link');
+  if (links.length > 0) {
+    lines.push(`## Memory Links (${links.length})`, '');
+    for (const r of links) {
+      if (r.type !== 'memory_link') continue;
+      lines.push(`- ${r.data.from_id} ${r.data.relation} ${r.data.to_id}${r.data.note ? ` (${r.data.note})` : ''}`);
+      lines.push(`  ${embedRecord(r)}`);
+    }
+    lines.push('');
+  }
+
+  const summaries = byType('summary');
+  if (summaries.length > 0) {
+    lines.push(`## Activity Summaries (${summaries.length})`, '');
+    for (const r of summaries) {
+      if (r.type !== 'summary') continue;
+      const s = r.data;
+      lines.push(`### [${s.scope}] ${s.periodStart.split('T')[0]} to ${s.periodEnd.split('T')[0]}`, '');
+      lines.push(s.content, '', embedRecord(r), '');
+    }
+  }
+
+  const sessions = byType('session');
+  if (sessions.length > 0) {
+    lines.push(`## Work Sessions (${sessions.length})`, '');
+    for (const r of sessions) {
+      if (r.type !== 'session') continue;
+      const s = r.data.session;
+      const minutes = Math.round(s.total_active_seconds / 60);
+      lines.push(`- [${s.scope}] ${s.feature_description} (${s.status}, ${minutes} min)`);
+      lines.push(`  ${embedRecord(r)}`);
+    }
+    lines.push('');
+  }
+
+  const [profile] = byType('profile');
+  if (profile?.type === 'profile') {
+    lines.push('## Profile', '', '```json', JSON.stringify(profile.data, null, 2), '```', '');
+    lines.push(embedRecord(profile), '');
+  }
+
+  return lines.join('\n');
+}
+
+// JSON turns Dates into strings; restore them for SessionStore
+function reviveSession(data: ExportedSession): ExportedSession {
+  const date = (v: unknown) => (v ? new Date(v as string) : null);
+  return {
+    session: {
+      ...data.session,
+      started_at: date(data.session.started_at)!,
+      completed_at: date(data.session.completed_at),
+      created_at: date(data.session.created_at)!,
+      updated_at: date(data.session.updated_at)!,
+    },
+    segments: data.segments.map((s) => ({ ...s, started_at: date(s.started_at)!, ended_at: date(s.ended_at) })),
+    metrics: data.metrics.map((m) => ({ ...m, recorded_at: date(m.recorded_at)! })),
+  };
+}
@@ -0,0 +1,119 @@
+import { scanCodebase, listRepo } from './codebase';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('scanCodebase', () => {
+  let repo: string;
+
+  const write = (file: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), content);
+  };
+  const values = async (field: string) =>
+    [...new Set((await scanCodebase(repo)).filter((s) => s.field === field).map((s) => s.value))].sort();
+  const evidenceFor = async (value: string) =>
+    (await scanCodebase(repo)).filter((s) => s.value === value).map((s) => s.evidence);
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'test-codebase-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should read manifests anywhere in a multi-language repo', async () => {
+    write('web/package.json', JSON.stringify({ dependencies: { '@angular/core': '17' }, devDependencies: { typescript: '5' } }));
+    write(
+      'services/api/Cargo.toml',
+      '[package]\nname = "api"\n\n[dependencies]\naxum = "0.7"\nserde = { version = "1" }\n\n[dependencies.tokio]\nversion = "1"\n'
+    );
+    write('services/worker/go.mod', 'module example.com/worker\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n');
+    write(
+      'ml/pyproject.toml',
+      '[project]\nname = "ml"\ndependencies = [\n  "fastapi>=0.110",\n  "uvicorn[standard]",\n  "torch",\n]\n\n[tool.ruff]\nline-length = 100\n'
+    );
+
+    expect(await values('technical.languages')).toEqual(['Go', 'Python', 'Rust', 'TypeScript']);
+    expect(await values('technical.frameworks')).toEqual(['Angular', 'Axum', 'FastAPI', 'Gin', 'PyTorch', 'Tokio']);
+    expect(await values('technical.tools')).toEqual(['Ruff']);
+    expect(await evidenceFor('Axum')).toEqual(['Found axum in services/api/Cargo.toml']);
+  });
+
+  it('should detect package managers from lockfiles and languages from file counts', async () => {
+    write('pnpm-lock.yaml');
+    write('poetry.lock');
+    for (const name of ['a', 'b', 'c']) write(`scripts/${name}.rb`);
+    write('scripts/only.swift');
+
+    expect(await values('technical.tools')).toEqual(['Poetry', 'pnpm']);
+    expect(await values('technical.languages')).toEqual(['Python', 'Ruby']);
+  });
+
+  it('should read resolved packages from lockfiles', async () => {
+    write(
+      'web/package-lock.json',
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: { '': { name: 'web' }, 'node_modules/next': {}, 'node_modules/next/node_modules/@playwright/test': {} },
+      })
+    );
+    write('admin/yarn.lock', '"@nestjs/core@^10.0.0", "@nestjs/core@^10.1.0":\n  version "10.1.0"\n\nvitest@^1.0.0:\n  version "1.6.0"\n');
+    write('docs/pnpm-lock.yaml', "lockfileVersion: '9.0'\n\npackages:\n\n  astro@4.0.0:\n    resolution: {}\n\n  '@biomejs/biome@1.5.0':\n    resolution: {}\n");
+    write('ml/poetry.lock', '[[package]]\nname = "django"\nversion = "5.0"\n\n[[package]]\nname = "pytest"\nversion = "8.0"\n');
+    write('api/Cargo.lock', 'version = 3\n\n[[package]]\nname = "api"\nversion = "0.1.0"\n\n[[package]]\nname = "tokio"\nversion = "1.36.0"\n');
+    write('cli/go.sum', 'github.com/spf13/cobra v1.8.0 h1:abc=\ngithub.com/spf13/cobra v1.8.0/go.mod h1:def=\n');
+
+    expect(await values('technical.frameworks')).toEqual(['Astro', 'Cobra', 'Django', 'NestJS', 'Next.js', 'Tokio']);
+    expect(await values('technical.tools')).toEqual(
+      ['Biome', 'Cargo', 'Go modules', 'Playwright', 'Poetry', 'Vitest', 'Yarn', 'npm', 'pnpm', 'pytest'].sort()
+    );
+    expect(await evidenceFor('Tokio')).toEqual(['Found tokio in api/Cargo.lock']);
+    expect(await evidenceFor('Cobra')).toEqual(['Found github.com/spf13/cobra in cli/go.sum']);
+  });
+
+  it('should detect CI, Docker, compose services and Terraform', async () => {
+    write('.github/workflows/ci.yml', 'jobs:\n  test:\n    steps:\n      - uses: actions/checkout@v4\n      - uses: actions/setup-go@v5\n');
+    write('.gitlab-ci.yml', 'image: python:3.12\n');
+    write('api/Dockerfile', 'FROM golang:1.22 AS build\nFROM gcr.io/distroless/base\n');
+    write(
+      'docker-compose.yml',
+      'services:\n  api:\n    build: ./api\n  web:\n    build: ./web\n  worker:\n    build: ./worker\n  db:\n    image: postgres:16\n  cache:\n    image: redis:7\n'
+    );
+    write('infra/main.tf', 'provider "aws" {\n  region = "eu-west-1"\n}\n');
+
+    expect(await values('technical.tools')).toEqual(
+      ['AWS', 'Docker', 'Docker Compose', 'GitHub Actions', 'GitLab CI', 'PostgreSQL', 'Redis', 'Terraform'].sort()
+    );
+    expect(await values('technical.languages')).toEqual(['Go', 'Python']);
+    expect(await values('technical.patterns')).toEqual(['CI/CD', 'infrastructure as code', 'microservices']);
+    expect(await evidenceFor('microservices')).toEqual(['3 services built from source in docker-compose.yml: api, web, worker']);
+  });
+
+  it('should detect editors, monorepos and test-heavy repos', async () => {
+    write('.vscode/settings.json', '{}');
+    write('.idea/modules.xml');
+    write('package.json', JSON.stringify({ workspaces: ['packages/*'] }));
+    write('packages/core/package.json', '{}');
+    write('packages/cli/package.json', '{}');
+    for (let i = 0; i < 12; i++) {
+      write(`packages/core/src/mod${i}.ts`);
+      write(`packages/core/src/mod${i}.test.ts`);
+    }
+
+    expect(await values('technical.editors')).toEqual(['JetBrains', 'VS Code']);
+    expect(await values('technical.patterns')).toEqual(['TDD', 'monorepo']);
+    expect(await evidenceFor('monorepo')).toEqual(['workspaces in package.json; 2 projects under packages/']);
+    expect(await evidenceFor('TDD')).toEqual(['12 test files for 12 source files']);
+  });
+
+  it('should skip dependency and build output when listing', async () => {
+    write('node_modules/react/package.json', '{}');
+    write('.git/config');
+    write('target/debug/main.rs');
+    write('src/main.rs');
+
+    expect((await listRepo(repo)).files).toEqual(['src/main.rs']);
+  });
+});
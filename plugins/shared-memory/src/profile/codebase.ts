@@ -0,0 +1,819 @@
+/**
+ * Codebase scanning for InferenceEngine.detectFromCodebase.
+ *
+ * Walks the repository (bounded depth and size, skipping dependency and
+ * build output) and runs one detector per kind of file: package manifests
+ * and lockfiles, CI configs, Dockerfiles and compose files, Terraform,
+ * editor settings and test layout. Manifests are read wherever they sit,
+ * so a repo with a Go service and a TypeScript frontend reports both.
+ *
+ * Each detector returns signals with an evidence string naming the file
+ * that triggered it; the engine merges and filters them into inferences.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface CodebaseSignal {
+  field: string; // Dot-path like 'technical.frameworks'
+  value: string;
+  confidence: 'high' | 'medium' | 'low';
+  evidence: string;
+}
+
+export interface RepoListing {
+  files: string[]; // Relative to the root, '/'-separated
+  dirs: string[];
+  truncated: boolean; // Hit MAX_ENTRIES before finishing
+}
+
+const MAX_DEPTH = 5;
+const MAX_ENTRIES = 5000;
+const SKIP_DIRS = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'out',
+  'target',
+  'vendor',
+  'coverage',
+  'venv',
+  '__pycache__',
+]);
+// Hidden directories worth looking into; the rest (.git, .cache, .venv, ...) are skipped
+const HIDDEN_DIRS = new Set(['.github', '.circleci', '.vscode', '.idea', '.zed', '.cursor', '.gitlab']);
+
+export const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.swift': 'Swift',
+  '.cs': 'C#',
+  '.cpp': 'C++',
+  '.cc': 'C++',
+  '.hpp': 'C++',
+  '.c': 'C',
+  '.scala': 'Scala',
+  '.ex': 'Elixir',
+  '.exs': 'Elixir',
+};
+
+const NPM_FRAMEWORKS: Record<string, string> = {
+  react: 'React',
+  'react-native': 'React Native',
+  vue: 'Vue',
+  angular: 'Angular',
+  '@angular/core': 'Angular',
+  next: 'Next.js',
+  nuxt: 'Nuxt',
+  svelte: 'Svelte',
+  '@sveltejs/kit': 'SvelteKit',
+  '@remix-run/react': 'Remix',
+  astro: 'Astro',
+  express: 'Express',
+  fastify: 'Fastify',
+  koa: 'Koa',
+  hono: 'Hono',
+  nestjs: 'NestJS',
+  '@nestjs/core': 'NestJS',
+  electron: 'Electron',
+};
+
+const NPM_TOOLS: Record<string, string> = {
+  jest: 'Jest',
+  vitest: 'Vitest',
+  mocha: 'Mocha',
+  playwright: 'Playwright',
+  '@playwright/test': 'Playwright',
+  cypress: 'Cypress',
+  prettier: 'Prettier',
+  eslint: 'ESLint',
+  '@biomejs/biome': 'Biome',
+  webpack: 'Webpack',
+  vite: 'Vite',
+  esbuild: 'esbuild',
+  turbo: 'Turborepo',
+  nx: 'Nx',
+  lerna: 'Lerna',
+  prisma: 'Prisma',
+  tailwindcss: 'Tailwind CSS',
+  storybook: 'Storybook',
+  docker: 'Docker',
+};
+
+const PYTHON_FRAMEWORKS: Record<string, string> = {
+  django: 'Django',
+  flask: 'Flask',
+  fastapi: 'FastAPI',
+  torch: 'PyTorch',
+  tensorflow: 'TensorFlow',
+  pandas: 'pandas',
+  streamlit: 'Streamlit',
+};
+
+const PYTHON_TOOLS: Record<string, string> = {
+  pytest: 'pytest',
+  ruff: 'Ruff',
+  black: 'Black',
+  mypy: 'mypy',
+  poetry: 'Poetry',
+  sqlalchemy: 'SQLAlchemy',
+};
+
+const CARGO_FRAMEWORKS: Record<string, string> = {
+  'actix-web': 'Actix',
+  axum: 'Axum',
+  rocket: 'Rocket',
+  bevy: 'Bevy',
+  tauri: 'Tauri',
+  tokio: 'Tokio',
+};
+
+const GO_FRAMEWORKS: Record<string, string> = {
+  'github.com/gin-gonic/gin': 'Gin',
+  'github.com/labstack/echo': 'Echo',
+  'github.com/gofiber/fiber': 'Fiber',
+  'github.com/go-chi/chi': 'chi',
+  'gorm.io/gorm': 'GORM',
+  'github.com/spf13/cobra': 'Cobra',
+};
+
+const LOCKFILES: Record<string, { tool: string; language?: string }> = {
+  'package-lock.json': { tool: 'npm' },
+  'yarn.lock': { tool: 'Yarn' },
+  'pnpm-lock.yaml': { tool: 'pnpm' },
+  'bun.lockb': { tool: 'Bun' },
+  'bun.lock': { tool: 'Bun' },
+  'poetry.lock': { tool: 'Poetry', language: 'Python' },
+  'uv.lock': { tool: 'uv', language: 'Python' },
+  'Pipfile.lock': { tool: 'Pipenv', language: 'Python' },
+  'Cargo.lock': { tool: 'Cargo', language: 'Rust' },
+  'go.sum': { tool: 'Go modules', language: 'Go' },
+  'Gemfile.lock': { tool: 'Bundler', language: 'Ruby' },
+  'composer.lock': { tool: 'Composer', language: 'PHP' },
+};
+
+// Base images (FROM / CI image:) that say which language a service is in
+const IMAGE_LANGUAGES: Record<string, string> = {
+  python: 'Python',
+  golang: 'Go',
+  rust: 'Rust',
+  openjdk: 'Java',
+  'eclipse-temurin': 'Java',
+  maven: 'Java',
+  gradle: 'Java',
+  ruby: 'Ruby',
+  php: 'PHP',
+  elixir: 'Elixir',
+};
+
+// Service images in compose files
+const IMAGE_TOOLS: Record<string, string> = {
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  mongo: 'MongoDB',
+  redis: 'Redis',
+  rabbitmq: 'RabbitMQ',
+  'confluentinc/cp-kafka': 'Kafka',
+  'bitnami/kafka': 'Kafka',
+  elasticsearch: 'Elasticsearch',
+  nginx: 'nginx',
+};
+
+const CI_SETUP_ACTIONS: Record<string, string> = {
+  'actions/setup-node': 'Node.js',
+  'actions/setup-python': 'Python',
+  'actions/setup-go': 'Go',
+  'actions/setup-java': 'Java',
+  'dtolnay/rust-toolchain': 'Rust',
+  'ruby/setup-ruby': 'Ruby',
+};
+
+const TERRAFORM_PROVIDERS: Record<string, string> = {
+  aws: 'AWS',
+  google: 'Google Cloud',
+  azurerm: 'Azure',
+  kubernetes: 'Kubernetes',
+  cloudflare: 'Cloudflare',
+};
+
+// Larger lockfiles still count as found, but are not read
+const MAX_LOCKFILE_BYTES = 10 * 1024 * 1024;
+
+const MONOREPO_DIRS = ['packages', 'apps', 'services', 'libs', 'crates', 'plugins'];
+const MANIFESTS = new Set(['package.json', 'Cargo.toml', 'go.mod', 'pyproject.toml', 'requirements.txt']);
+
+/**
+ * Scans a repository and returns everything the detectors found, unmerged.
+ */
+export async function scanCodebase(cwd: string): Promise<CodebaseSignal[]> {
+  const listing = await listRepo(cwd);
+  const detectors = [
+    detectManifests,
+    detectLockfiles,
+    detectLanguagesByExtension,
+    detectCi,
+    detectDocker,
+    detectTerraform,
+    detectEditors,
+    detectTests,
+    detectMonorepo,
+  ];
+
+  const signals: CodebaseSignal[] = [];
+  for (const detect of detectors) {
+    signals.push(...(await detect(cwd, listing)));
+  }
+  return signals;
+}
+
+/**
+ * Lists files and directories under cwd, breadth-first so shallow files
+ * are always included when the entry limit is hit.
+ */
+export async function listRepo(cwd: string): Promise<RepoListing> {
+  const listing: RepoListing = { files: [], dirs: [], truncated: false };
+  let queue: Array<{ rel: string; depth: number }> = [{ rel: '', depth: 0 }];
+
+  while (queue.length > 0) {
+    const next: typeof queue = [];
+    for (const { rel, depth } of queue) {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(cwd, rel), { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (listing.files.length + listing.dirs.length >= MAX_ENTRIES) {
+          listing.truncated = true;
+          return listing;
+        }
+        const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (SKIP_DIRS.has(entry.name) || (entry.name.startsWith('.') && !HIDDEN_DIRS.has(entry.name))) continue;
+          listing.dirs.push(entryRel);
+          if (depth + 1 < MAX_DEPTH) next.push({ rel: entryRel, depth: depth + 1 });
+        } else if (entry.isFile()) {
+          listing.files.push(entryRel);
+        }
+      }
+    }
+    queue = next;
+  }
+  return listing;
+}
+
+// --- Detectors ---
+
+async function detectManifests(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const signals: CodebaseSignal[] = [];
+
+  for (const file of files.filter((f) => MANIFESTS.has(path.posix.basename(f)))) {
+    const text = await readText(cwd, file);
+    if (text === null) continue;
+
+    switch (path.posix.basename(file)) {
+      case 'package.json':
+        signals.push(...packageJsonSignals(file, text));
+        break;
+      case 'Cargo.toml':
+        signals.push(language('Rust', file));
+        signals.push(...dependencySignals(file, cargoDependencies(text), CARGO_FRAMEWORKS, {}));
+        break;
+      case 'go.mod':
+        signals.push(language('Go', file));
+        signals.push(...goModSignals(file, text));
+        break;
+      case 'pyproject.toml':
+        signals.push(language('Python', file));
+        signals.push(...dependencySignals(file, pyprojectDependencies(text), PYTHON_FRAMEWORKS, PYTHON_TOOLS));
+        break;
+      case 'requirements.txt':
+        signals.push(language('Python', file));
+        signals.push(...dependencySignals(file, requirementNames(text), PYTHON_FRAMEWORKS, PYTHON_TOOLS));
+        break;
+    }
+  }
+  return signals;
+}
+
+/**
+ * Package managers from lockfiles, plus frameworks and tools from the
+ * packages they resolve (which includes transitive dependencies).
+ */
+async function detectLockfiles(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const signals: CodebaseSignal[] = [];
+  for (const file of files) {
+    const lock = LOCKFILES[path.posix.basename(file)];
+    if (!lock) continue;
+    signals.push({ field: 'technical.tools', value: lock.tool, confidence: 'medium', evidence: `Found ${file}` });
+    if (lock.language) signals.push(language(lock.language, file));
+
+    const text = await readText(cwd, file, MAX_LOCKFILE_BYTES);
+    if (text) signals.push(...lockfileSignals(file, text));
+  }
+  return signals;
+}
+
+/**
+ * Languages by file count, so repos without a manifest for every language
+ * (scripts, a C extension, a Swift app) still show up.
+ */
+async function detectLanguagesByExtension(_cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const lang = EXTENSION_LANGUAGES[path.posix.extname(file)];
+    if (lang && !file.endsWith('.d.ts') && !/\.config\.[cm]?js$/.test(file)) {
+      counts.set(lang, (counts.get(lang) ?? 0) + 1);
+    }
+  }
+
+  const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+  return [...counts.entries()]
+    .filter(([, n]) => n >= 3 && n / total >= 0.05)
+    .map(([value, n]) => ({
+      field: 'technical.languages',
+      value,
+      confidence: n / total >= 0.25 ? 'high' : 'medium',
+      evidence: `${n} ${value} source file(s)`,
+    }));
+}
+
+async function detectCi(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const signals: CodebaseSignal[] = [];
+
+  const workflows = files.filter((f) => /^\.github\/workflows\/[^/]+\.ya?ml$/.test(f));
+  if (workflows.length > 0) {
+    signals.push(tool('GitHub Actions', `Found ${workflows.length} workflow(s) in .github/workflows`));
+    signals.push(pattern('CI/CD', 'medium', `GitHub Actions workflows in .github/workflows`));
+  }
+  for (const file of workflows) {
+    const text = (await readText(cwd, file)) ?? '';
+    for (const match of text.matchAll(/uses:\s*['"]?([\w.-]+\/[\w.-]+)@/g)) {
+      const setup = CI_SETUP_ACTIONS[match[1]];
+      if (setup) signals.push(setupSignal(setup, `${file} uses ${match[1]}`));
+    }
+  }
+
+  if (files.includes('.gitlab-ci.yml')) {
+    signals.push(tool('GitLab CI', 'Found .gitlab-ci.yml'));
+    signals.push(pattern('CI/CD', 'medium', 'GitLab pipeline in .gitlab-ci.yml'));
+    const text = (await readText(cwd, '.gitlab-ci.yml')) ?? '';
+    signals.push(...imageSignals(text, '.gitlab-ci.yml'));
+  }
+  if (files.includes('.circleci/config.yml')) {
+    signals.push(tool('CircleCI', 'Found .circleci/config.yml'));
+    signals.push(pattern('CI/CD', 'medium', 'CircleCI pipeline in .circleci/config.yml'));
+  }
+  if (files.includes('Jenkinsfile')) {
+    signals.push(tool('Jenkins', 'Found Jenkinsfile'));
+    signals.push(pattern('CI/CD', 'medium', 'Jenkins pipeline in Jenkinsfile'));
+  }
+  return signals;
+}
+
+async function detectDocker(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const signals: CodebaseSignal[] = [];
+
+  const dockerfiles = files.filter((f) => /(^|\/)(Dockerfile(\.[\w-]+)?|[\w-]+\.Dockerfile)$/.test(f));
+  for (const file of dockerfiles) {
+    signals.push(tool('Docker', `Found ${file}`));
+    signals.push(...imageSignals((await readText(cwd, file)) ?? '', file));
+  }
+
+  const composeFiles = files.filter((f) => /(^|\/)(docker-)?compose(\.[\w-]+)?\.ya?ml$/.test(f));
+  for (const file of composeFiles) {
+    const text = (await readText(cwd, file)) ?? '';
+    signals.push(tool('Docker Compose', `Found ${file}`));
+
+    for (const match of text.matchAll(/^\s*image:\s*['"]?([\w./-]+)/gm)) {
+      const name = imageName(match[1]);
+      const service = IMAGE_TOOLS[name] ?? IMAGE_TOOLS[name.split('/').pop() ?? ''];
+      if (service) signals.push(tool(service, `${file} runs ${match[1]}`));
+    }
+
+    // Several services built from this repo's own code
+    const built = composeServices(text).filter((s) => s.build);
+    if (built.length >= 3) {
+      signals.push(
+        pattern('microservices', 'medium', `${built.length} services built from source in ${file}: ${built.map((s) => s.name).join(', ')}`)
+      );
+    }
+  }
+
+  // Or one Dockerfile per service directory
+  const serviceDirs = new Set(dockerfiles.map((f) => path.posix.dirname(f)).filter((d) => d !== '.'));
+  if (serviceDirs.size >= 3) {
+    signals.push(pattern('microservices', 'low', `Dockerfiles in ${serviceDirs.size} directories: ${[...serviceDirs].slice(0, 5).join(', ')}`));
+  }
+  return signals;
+}
+
+async function detectTerraform(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const tfFiles = files.filter((f) => f.endsWith('.tf'));
+  if (tfFiles.length === 0) return [];
+
+  const signals: CodebaseSignal[] = [
+    tool('Terraform', `Found ${tfFiles.length} .tf file(s), e.g. ${tfFiles[0]}`),
+    pattern('infrastructure as code', 'medium', `Terraform configuration in ${tfFiles[0]}`),
+  ];
+  for (const file of tfFiles) {
+    const text = (await readText(cwd, file)) ?? '';
+    const providers = [
+      ...[...text.matchAll(/provider\s+"([\w-]+)"/g)].map((m) => m[1]),
+      ...[...text.matchAll(/source\s*=\s*"[\w-]+\/([\w-]+)"/g)].map((m) => m[1]),
+    ];
+    for (const provider of providers) {
+      const value = TERRAFORM_PROVIDERS[provider];
+      if (value) signals.push(tool(value, `Terraform provider "${provider}" in ${file}`));
+    }
+  }
+  return signals;
+}
+
+async function detectEditors(cwd: string, { files, dirs }: RepoListing): Promise<CodebaseSignal[]> {
+  const signals: CodebaseSignal[] = [];
+  const editor = (value: string, evidence: string): CodebaseSignal => ({
+    field: 'technical.editors',
+    value,
+    confidence: 'medium',
+    evidence,
+  });
+
+  if (dirs.includes('.vscode')) {
+    const settings = files.filter((f) => f.startsWith('.vscode/')).map((f) => path.posix.basename(f));
+    signals.push(editor('VS Code', settings.length > 0 ? `Found .vscode/${settings.join(', .vscode/')}` : 'Found .vscode directory'));
+
+    const extensions = await readText(cwd, '.vscode/extensions.json');
+    if (extensions && /esbenp\.prettier-vscode/.test(extensions)) {
+      signals.push(tool('Prettier', 'Recommended in .vscode/extensions.json'));
+    }
+  }
+  if (dirs.includes('.idea')) {
+    signals.push(editor('JetBrains', 'Found .idea directory'));
+  }
+  if (dirs.includes('.zed')) {
+    signals.push(editor('Zed', 'Found .zed directory'));
+  }
+  if (dirs.includes('.cursor') || files.includes('.cursorrules')) {
+    signals.push(editor('Cursor', dirs.includes('.cursor') ? 'Found .cursor directory' : 'Found .cursorrules'));
+  }
+  return signals;
+}
+
+/**
+ * TDD can't be seen in a snapshot, but a test suite about as large as the
+ * code it covers is a hint worth asking about.
+ */
+async function detectTests(_cwd: string, { files, dirs }: RepoListing): Promise<CodebaseSignal[]> {
+  const isTest = (f: string) =>
+    /(^|\/)(tests?|__tests__|spec|e2e)\//.test(f) ||
+    /\.(test|spec)\.[cm]?[jt]sx?$/.test(f) ||
+    /_test\.(go|py)$/.test(f) ||
+    /(^|\/)test_[^/]+\.py$/.test(f);
+  const code = files.filter((f) => EXTENSION_LANGUAGES[path.posix.extname(f)] && !f.endsWith('.d.ts'));
+  const tests = code.filter(isTest);
+  const testDirs = dirs.filter((d) => /(^|\/)(tests?|__tests__|spec|e2e)$/.test(d));
+  const sources = code.length - tests.length;
+
+  if (tests.length >= 10 && sources > 0 && tests.length / sources >= 0.5) {
+    const where = testDirs.length > 0 ? ` (${testDirs.slice(0, 3).join(', ')})` : '';
+    return [pattern('TDD', 'low', `${tests.length} test files for ${sources} source files${where}`)];
+  }
+  return [];
+}
+
+async function detectMonorepo(cwd: string, { files }: RepoListing): Promise<CodebaseSignal[]> {
+  const evidence: string[] = [];
+
+  const pkg = files.includes('package.json') ? await readText(cwd, 'package.json') : null;
+  if (pkg && /"workspaces"\s*:/.test(pkg)) evidence.push('workspaces in package.json');
+  for (const file of ['pnpm-workspace.yaml', 'lerna.json', 'nx.json', 'turbo.json', 'go.work']) {
+    if (files.includes(file)) evidence.push(`Found ${file}`);
+  }
+  const cargo = files.includes('Cargo.toml') ? await readText(cwd, 'Cargo.toml') : null;
+  if (cargo && /^\[workspace\]/m.test(cargo)) evidence.push('[workspace] in Cargo.toml');
+
+  const nested = files.filter((f) => {
+    const parts = f.split('/');
+    return parts.length === 3 && MONOREPO_DIRS.includes(parts[0]) && MANIFESTS.has(parts[2]);
+  });
+  if (nested.length >= 2) {
+    evidence.push(`${nested.length} projects under ${[...new Set(nested.map((f) => f.split('/')[0]))].join(', ')}/`);
+  }
+
+  return evidence.length > 0 ? [pattern('monorepo', 'high', evidence.join('; '))] : [];
+}
+
+// --- Lockfile parsing ---
+
+function lockfileSignals(file: string, text: string): CodebaseSignal[] {
+  switch (path.posix.basename(file)) {
+    case 'package-lock.json':
+      return dependencySignals(file, packageLockNames(text), NPM_FRAMEWORKS, NPM_TOOLS);
+    case 'yarn.lock':
+      return dependencySignals(file, yarnLockNames(text), NPM_FRAMEWORKS, NPM_TOOLS);
+    case 'pnpm-lock.yaml':
+      return dependencySignals(file, pnpmLockNames(text), NPM_FRAMEWORKS, NPM_TOOLS);
+    case 'poetry.lock':
+    case 'uv.lock':
+      return dependencySignals(file, lockPackageNames(text), PYTHON_FRAMEWORKS, PYTHON_TOOLS);
+    case 'Cargo.lock':
+      return dependencySignals(file, lockPackageNames(text), CARGO_FRAMEWORKS, {});
+    case 'go.sum':
+      return goModuleSignals(file, goSumModules(text));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Package names in a package-lock.json: "packages" paths (v2/v3, e.g.
+ * node_modules/a/node_modules/@scope/b) and "dependencies" keys (v1).
+ */
+function packageLockNames(text: string): string[] {
+  let lock: { packages?: Record<string, unknown>; dependencies?: Record<string, unknown> };
+  try {
+    lock = JSON.parse(text);
+  } catch {
+    return [];
+  }
+
+  const names = Object.keys(lock.packages ?? {})
+    .filter((key) => key.includes('node_modules/'))
+    .map((key) => key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length));
+  return unique([...names, ...Object.keys(lock.dependencies ?? {})]);
+}
+
+/**
+ * Package names from the entry headers of a yarn.lock, classic
+ * (`"@scope/a@^1.0.0", "@scope/a@^1.2.0":`) or berry (`"a@npm:^1.0.0":`).
+ */
+function yarnLockNames(text: string): string[] {
+  const names: string[] = [];
+  for (const line of text.split('\n')) {
+    if (!/^["\w@]/.test(line) || !line.trimEnd().endsWith(':')) continue;
+    for (const spec of line.trimEnd().slice(0, -1).split(',')) {
+      const name = spec.trim().replace(/^"|"$/g, '');
+      const at = name.indexOf('@', 1);
+      if (at > 0) names.push(name.slice(0, at));
+    }
+  }
+  return unique(names);
+}
+
+/**
+ * Package names from the keys under packages: in a pnpm-lock.yaml
+ * (`/a/1.0.0:` in v5, `/a@1.0.0:` in v6, `a@1.0.0:` in v9).
+ */
+function pnpmLockNames(text: string): string[] {
+  const names: string[] = [];
+  let inPackages = false;
+  for (const line of text.split('\n')) {
+    if (/^\S/.test(line)) inPackages = /^packages:\s*$/.test(line);
+    if (!inPackages) continue;
+    const key = line.match(/^ {2}['"]?\/?((?:@[^/@\s'"]+\/)?[^/@\s'"]+)[@/]/);
+    if (key) names.push(key[1]);
+  }
+  return unique(names);
+}
+
+/**
+ * Names of the [[package]] entries in a Cargo.lock, poetry.lock or uv.lock.
+ */
+function lockPackageNames(text: string): string[] {
+  const names: string[] = [];
+  for (const entry of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const name = entry.match(/^name\s*=\s*"([^"]+)"/m);
+    if (name) names.push(name[1]);
+  }
+  return unique(names);
+}
+
+/**
+ * Module paths in a go.sum (each appears once per version and once for its go.mod).
+ */
+function goSumModules(text: string): string[] {
+  return unique(text.split('\n').map((line) => line.trim().split(/\s+/)[0]).filter(Boolean));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// --- Manifest parsing ---
+
+function packageJsonSignals(file: string, text: string): CodebaseSignal[] {
+  let pkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string> };
+  try {
+    pkg = JSON.parse(text);
+  } catch {
+    return [];
+  }
+
+  const deps = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies });
+  const signals = dependencySignals(file, deps, NPM_FRAMEWORKS, NPM_TOOLS);
+  if (deps.includes('typescript')) {
+    signals.push({ field: 'technical.languages', value: 'TypeScript', confidence: 'high', evidence: `Found typescript in ${file}` });
+  }
+  return signals;
+}
+
+function dependencySignals(
+  file: string,
+  deps: string[],
+  frameworks: Record<string, string>,
+  tools: Record<string, string>
+): CodebaseSignal[] {
+  const signals: CodebaseSignal[] = [];
+  for (const dep of deps) {
+    const name = dep.toLowerCase();
+    if (frameworks[name]) {
+      signals.push({ field: 'technical.frameworks', value: frameworks[name], confidence: 'high', evidence: `Found ${dep} in ${file}` });
+    }
+    if (tools[name]) {
+      signals.push({ field: 'technical.tools', value: tools[name], confidence: 'medium', evidence: `Found ${dep} in ${file}` });
+    }
+  }
+  return signals;
+}
+
+function goModSignals(file: string, text: string): CodebaseSignal[] {
+  const modules = [...text.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w]+\/[\w./-]+)\s+v[\d.]/gm)].map((m) => m[1]);
+  return goModuleSignals(file, modules);
+}
+
+function goModuleSignals(file: string, modules: string[]): CodebaseSignal[] {
+  const signals: CodebaseSignal[] = [];
+  for (const mod of modules) {
+    const match = Object.keys(GO_FRAMEWORKS).find((prefix) => mod === prefix || mod.startsWith(`${prefix}/`));
+    if (match) {
+      signals.push({ field: 'technical.frameworks', value: GO_FRAMEWORKS[match], confidence: 'high', evidence: `Found ${mod} in ${file}` });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Dependency names from [dependencies]-style tables of a Cargo.toml,
+ * including [dependencies.name] sub-tables.
+ */
+function cargoDependencies(text: string): string[] {
+  const names: string[] = [];
+  for (const [section, lines] of tomlSections(text)) {
+    const table = section.match(/^(?:workspace\.)?(?:dev-|build-)?dependencies(?:\.([\w-]+))?$/);
+    if (!table) continue;
+    if (table[1]) {
+      names.push(table[1]);
+      continue;
+    }
+    for (const line of lines) {
+      const key = line.match(/^\s*([\w-]+)\s*=/);
+      if (key) names.push(key[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Dependency names from a pyproject.toml: PEP 621 [project] dependencies
+ * and optional-dependencies, Poetry dependency tables, and [tool.*] sections
+ * (a [tool.ruff] table means Ruff is in use).
+ */
+function pyprojectDependencies(text: string): string[] {
+  const names: string[] = [];
+  for (const [section, lines] of tomlSections(text)) {
+    const tool = section.match(/^tool\.([\w-]+)/);
+    if (tool) names.push(tool[1]);
+
+    if (section === 'project' || section === 'project.optional-dependencies') {
+      // Strings inside the dependency arrays (entries may contain [extras])
+      let inArray = false;
+      for (const line of lines) {
+        const opens = section === 'project' ? /^\s*dependencies\s*=\s*\[/ : /^\s*[\w-]+\s*=\s*\[/;
+        if (!inArray && !opens.test(line)) continue;
+        inArray = true;
+        for (const spec of line.matchAll(/["']([^"']+)["']/g)) {
+          names.push(requirementName(spec[1]));
+        }
+        if (line.replace(/["'][^"']*["']/g, '').includes(']')) inArray = false;
+      }
+    } else if (/^tool\.poetry\.(?:dev-)?dependencies$|^tool\.poetry\.group\.[\w-]+\.dependencies$/.test(section)) {
+      for (const line of lines) {
+        const key = line.match(/^\s*([\w.-]+)\s*=/);
+        if (key && key[1] !== 'python') names.push(key[1]);
+      }
+    }
+  }
+  return names;
+}
+
+function requirementNames(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/#.*/, '').trim())
+    .filter((line) => line && !line.startsWith('-'))
+    .map(requirementName);
+}
+
+function requirementName(spec: string): string {
+  return spec.split(/[\s<>=!~;[(]/)[0].trim().toLowerCase();
+}
+
+/**
+ * Splits TOML into [section] -> body lines. Enough for dependency tables;
+ * not a TOML parser.
+ */
+function tomlSections(text: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current = '';
+  sections.set(current, []);
+  for (const line of text.split('\n')) {
+    const header = line.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*$/);
+    if (header) {
+      current = header[1].replace(/["']/g, '');
+      if (!sections.has(current)) sections.set(current, []);
+    } else {
+      sections.get(current)!.push(line);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Top-level services of a compose file and whether they have a build key.
+ */
+function composeServices(text: string): Array<{ name: string; build: boolean }> {
+  const lines = text.split('\n');
+  const start = lines.findIndex((l) => /^services:\s*$/.test(l));
+  if (start === -1) return [];
+
+  const services: Array<{ name: string; build: boolean }> = [];
+  let indent: number | null = null;
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break; // Next top-level key
+    const match = line.match(/^(\s+)([\w.-]+):\s*$/);
+    if (match && (indent === null || match[1].length === indent)) {
+      indent = match[1].length;
+      services.push({ name: match[2], build: false });
+    } else if (services.length > 0 && /^\s+build:/.test(line)) {
+      services[services.length - 1].build = true;
+    }
+  }
+  return services;
+}
+
+function imageSignals(text: string, file: string): CodebaseSignal[] {
+  const signals: CodebaseSignal[] = [];
+  for (const match of text.matchAll(/^\s*(?:FROM|image:)\s+['"]?(?:--platform=\S+\s+)?([\w./-]+)/gim)) {
+    const name = imageName(match[1]);
+    if (IMAGE_LANGUAGES[name]) {
+      signals.push({ field: 'technical.languages', value: IMAGE_LANGUAGES[name], confidence: 'medium', evidence: `${file} uses ${match[1]} image` });
+    } else if (name === 'node') {
+      signals.push(tool('Node.js', `${file} uses ${match[1]} image`));
+    }
+  }
+  return signals;
+}
+
+function imageName(image: string): string {
+  return image.split(':')[0].replace(/^(docker\.io\/)?(library\/)?/, '').toLowerCase();
+}
+
+function setupSignal(value: string, evidence: string): CodebaseSignal {
+  return value === 'Node.js' ? tool(value, evidence) : { field: 'technical.languages', value, confidence: 'medium', evidence };
+}
+
+function language(value: string, file: string): CodebaseSignal {
+  return { field: 'technical.languages', value, confidence: 'high', evidence: `Found ${file}` };
+}
+
+function tool(value: string, evidence: string): CodebaseSignal {
+  return { field: 'technical.tools', value, confidence: 'medium', evidence };
+}
+
+function pattern(value: string, confidence: CodebaseSignal['confidence'], evidence: string): CodebaseSignal {
+  return { field: 'technical.patterns', value, confidence, evidence };
+}
+
+async function readText(cwd: string, file: string, maxBytes?: number): Promise<string | null> {
+  try {
+    if (maxBytes !== undefined && (await fs.stat(path.join(cwd, file))).size > maxBytes) return null;
+    return await fs.readFile(path.join(cwd, file), 'utf-8');
+  } catch {
+    return null;
+  }
+}
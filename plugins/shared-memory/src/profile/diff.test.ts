@@ -0,0 +1,70 @@
+import { diffProfiles, isWithinField } from './diff';
+import type { UserProfile } from '@brain-jar/core';
+
+function profile(): UserProfile {
+  return {
+    version: '1.0.0',
+    identity: { name: 'Sam' },
+    technical: { languages: ['TypeScript', 'Python'], frameworks: [], tools: [], editors: [], patterns: [], operatingSystems: [] },
+    workingStyle: { verbosity: 'adaptive', learningPace: 'adaptive', priorities: [] },
+    knowledge: { expert: [], proficient: [], learning: [], interests: [] },
+    personal: { interests: [], goals: [], context: [] },
+    meta: {
+      onboardingComplete: false,
+      onboardingProgress: { identity: false, technical: false, workingStyle: false, personal: false },
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    },
+  };
+}
+
+describe('diffProfiles', () => {
+  it('should report leaf fields and array items that changed', () => {
+    const before = profile();
+    const after = profile();
+    after.identity.role = 'Staff engineer';
+    after.identity.name = 'Sam Lee';
+    after.technical.languages = ['TypeScript', 'Rust'];
+    after.meta.onboardingComplete = true;
+
+    expect(diffProfiles(before, after)).toEqual([
+      { field: 'identity.name', change: 'changed', before: 'Sam', after: 'Sam Lee' },
+      { field: 'identity.role', change: 'added', after: 'Staff engineer' },
+      {
+        field: 'technical.languages',
+        change: 'changed',
+        before: ['TypeScript', 'Python'],
+        after: ['TypeScript', 'Rust'],
+        added: ['Rust'],
+        removed: ['Python'],
+      },
+    ]);
+  });
+
+  it('should ignore array order and meta', () => {
+    const after = profile();
+    after.technical.languages = ['Python', 'TypeScript'];
+    after.meta.lastUpdated = '2026-06-01T00:00:00.000Z';
+
+    expect(diffProfiles(profile(), after)).toEqual([]);
+  });
+
+  it('should report removed fields', () => {
+    const before = profile();
+    before.workingStyle.communicationStyle = 'direct';
+
+    expect(diffProfiles(before, profile())).toEqual([
+      { field: 'workingStyle.communicationStyle', change: 'removed', before: 'direct' },
+    ]);
+  });
+});
+
+describe('isWithinField', () => {
+  it('should match a field and anything inside it', () => {
+    const change = { field: 'technical.languages', change: 'changed' as const };
+
+    expect(isWithinField(change, 'technical')).toBe(true);
+    expect(isWithinField(change, 'technical.languages')).toBe(true);
+    expect(isWithinField(change, 'tech')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Field-level diff of two user profiles, for comparing snapshots.
+ *
+ * Objects are compared field by field down to the leaves; string arrays
+ * report the items added and removed rather than the whole list. meta is
+ * bookkeeping (timestamps, onboarding flags) and is left out.
+ */
+
+import type { UserProfile } from '@brain-jar/core';
+
+export interface ProfileFieldChange {
+  field: string; // Dot-path like 'technical.languages'
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+  added?: string[]; // Array fields: items only in `after`
+  removed?: string[]; // Array fields: items only in `before`
+}
+
+type Json = Record<string, unknown>;
+
+export function diffProfiles(before: UserProfile, after: UserProfile): ProfileFieldChange[] {
+  const { meta: _beforeMeta, ...beforeFields } = before;
+  const { meta: _afterMeta, ...afterFields } = after;
+  const changes: ProfileFieldChange[] = [];
+  diffObject('', beforeFields as Json, afterFields as Json, changes);
+  return changes;
+}
+
+/**
+ * Whether a change is to `field` itself or to something inside it.
+ */
+export function isWithinField(change: ProfileFieldChange, field: string): boolean {
+  return change.field === field || change.field.startsWith(`${field}.`);
+}
+
+function diffObject(prefix: string, before: Json, after: Json, changes: ProfileFieldChange[]): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const a = before[key];
+    const b = after[key];
+
+    if (isObject(a) || isObject(b)) {
+      if ((a === undefined || isObject(a)) && (b === undefined || isObject(b))) {
+        diffObject(field, (a as Json) ?? {}, (b as Json) ?? {}, changes);
+        continue;
+      }
+    }
+
+    if (isStringArray(a) && isStringArray(b)) {
+      const added = b.filter((item) => !a.includes(item));
+      const removed = a.filter((item) => !b.includes(item));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field, change: 'changed', before: a, after: b, added, removed });
+      }
+      continue;
+    }
+
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+    if (isEmpty(a)) {
+      changes.push({ field, change: 'added', after: b });
+    } else if (isEmpty(b)) {
+      changes.push({ field, change: 'removed', before: a });
+    } else {
+      changes.push({ field, change: 'changed', before: a, after: b });
+    }
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
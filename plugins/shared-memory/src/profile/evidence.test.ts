@@ -0,0 +1,83 @@
+import {
+  backfillEvidence,
+  entryConfidence,
+  findDemotions,
+  listEntryConfidence,
+  moveEvidence,
+  recordEvidence,
+} from './evidence';
+import type { UserProfile } from '@brain-jar/core';
+
+function profile(): UserProfile {
+  return {
+    version: '1.0.0',
+    identity: {},
+    technical: { languages: ['TypeScript', 'Perl'], frameworks: [], tools: [], editors: [], patterns: [], operatingSystems: [] },
+    workingStyle: { verbosity: 'adaptive', learningPace: 'adaptive', priorities: [] },
+    knowledge: { expert: ['SQL'], proficient: [], learning: [], interests: [] },
+    personal: { interests: ['climbing'], goals: [], context: [] },
+    meta: {
+      onboardingComplete: false,
+      onboardingProgress: { identity: false, technical: false, workingStyle: false, personal: false },
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    },
+  };
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe('evidence', () => {
+  it('should count sightings and keep first/last seen', () => {
+    const p = profile();
+    recordEvidence(p, 'technical.languages', 'TypeScript', day('2026-01-01'));
+    recordEvidence(p, 'technical.languages', 'typescript', day('2026-03-01'));
+
+    expect(p.meta.evidence?.['technical.languages']?.typescript).toEqual({
+      count: 2,
+      firstSeen: '2026-01-01T00:00:00.000Z',
+      lastSeen: '2026-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('should grow confidence with sightings and halve it every half-life', () => {
+    const seen = { count: 1, firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-01-01T00:00:00.000Z' };
+
+    expect(entryConfidence(seen, day('2026-01-01'))).toBe(0.5);
+    expect(entryConfidence({ ...seen, count: 3 }, day('2026-01-01'))).toBe(0.88);
+    expect(entryConfidence(seen, day('2026-06-30'))).toBe(0.25);
+  });
+
+  it('should demote stale technical and knowledge entries one step', () => {
+    const p = profile();
+    backfillEvidence(p, day('2024-01-01'));
+    for (let i = 0; i < 5; i++) recordEvidence(p, 'technical.languages', 'TypeScript', day('2026-09-01'));
+
+    expect(findDemotions(p, day('2026-10-01'))).toMatchObject([
+      { field: 'technical.languages', value: 'Perl', to: null },
+      { field: 'knowledge.expert', value: 'SQL', to: 'knowledge.proficient' },
+    ]);
+    expect(listEntryConfidence(p, day('2026-10-01'), 'personal')).toHaveLength(1);
+  });
+
+  it('should backfill entries without evidence once', () => {
+    const p = profile();
+
+    expect(backfillEvidence(p, day('2026-10-01'))).toBe(true);
+    expect(backfillEvidence(p, day('2026-10-02'))).toBe(false);
+    expect(findDemotions(p, day('2026-10-01'))).toEqual([]);
+  });
+
+  it('should restart the clock when moving evidence to a lower level', () => {
+    const p = profile();
+    recordEvidence(p, 'knowledge.expert', 'SQL', day('2024-01-01'));
+    moveEvidence(p, 'knowledge.expert', 'knowledge.proficient', 'SQL', day('2026-10-01'));
+
+    expect(p.meta.evidence?.['knowledge.expert']?.sql).toBeUndefined();
+    expect(p.meta.evidence?.['knowledge.proficient']?.sql).toEqual({
+      count: 1,
+      firstSeen: '2024-01-01T00:00:00.000Z',
+      lastSeen: '2026-10-01T00:00:00.000Z',
+    });
+  });
+});
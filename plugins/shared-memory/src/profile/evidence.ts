@@ -0,0 +1,136 @@
+/**
+ * Evidence behind profile list entries and the confidence decay built on it.
+ *
+ * Every time an entry is detected, confirmed or added counts as a sighting.
+ * Sightings live in meta.evidence (field -> lowercased entry), so they sync
+ * with the profile while the lists other plugins read stay plain strings.
+ *
+ * Confidence grows with the number of sightings and halves every
+ * CONFIDENCE_HALF_LIFE_DAYS since the last one. Entries in technical.* and
+ * knowledge.* whose confidence decays far enough are demoted one step
+ * (expert -> proficient -> dropped); the manager proposes these as pending
+ * inferences rather than applying them.
+ */
+
+import type { ProfileEvidence, UserProfile } from '@brain-jar/core';
+
+export const CONFIDENCE_HALF_LIFE_DAYS = 180;
+const DEMOTE_BELOW = 0.2;
+const MIN_INACTIVE_DAYS = 180; // Never demote anything seen more recently than this
+const DECAYING_SECTIONS = ['technical', 'knowledge'] as const;
+// Where a demoted entry goes; fields not listed drop it
+const DEMOTIONS: Record<string, string> = {
+  'knowledge.expert': 'knowledge.proficient',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EntryConfidence extends ProfileEvidence {
+  field: string;
+  value: string;
+  confidence: number; // 0-1
+}
+
+export interface ProposedDemotion extends EntryConfidence {
+  to: string | null; // Field to move the entry to, or null to drop it
+}
+
+/**
+ * Records a sighting of a list entry.
+ */
+export function recordEvidence(profile: UserProfile, field: string, value: string, at: Date = new Date()): void {
+  const evidence = (profile.meta.evidence ??= {});
+  const entries = (evidence[field] ??= {});
+  const key = value.toLowerCase();
+  const seen = at.toISOString();
+  const existing = entries[key];
+
+  entries[key] = existing
+    ? { count: existing.count + 1, firstSeen: existing.firstSeen, lastSeen: seen > existing.lastSeen ? seen : existing.lastSeen }
+    : { count: 1, firstSeen: seen, lastSeen: seen };
+}
+
+/**
+ * Moves an entry's evidence to another field (or discards it) after a
+ * demotion. The move counts as a sighting so the entry gets a full decay
+ * period in its new field before the next demotion.
+ */
+export function moveEvidence(profile: UserProfile, from: string, to: string | null, value: string, at: Date = new Date()): void {
+  const key = value.toLowerCase();
+  const existing = profile.meta.evidence?.[from]?.[key];
+  if (existing) {
+    delete profile.meta.evidence![from][key];
+  }
+  if (to) {
+    const entries = ((profile.meta.evidence ??= {})[to] ??= {});
+    entries[key] = { count: existing?.count ?? 1, firstSeen: existing?.firstSeen ?? at.toISOString(), lastSeen: at.toISOString() };
+  }
+}
+
+export function entryConfidence(evidence: ProfileEvidence, now: Date = new Date()): number {
+  const strength = 1 - 0.5 ** Math.max(evidence.count, 1);
+  const decay = 0.5 ** (daysSince(evidence.lastSeen, now) / CONFIDENCE_HALF_LIFE_DAYS);
+  return Math.round(strength * decay * 100) / 100;
+}
+
+/**
+ * Gives entries without evidence (added before evidence was kept, or set
+ * directly) a single sighting now, so they decay from here rather than
+ * being demoted straight away. Returns whether anything was added.
+ */
+export function backfillEvidence(profile: UserProfile, at: Date = new Date()): boolean {
+  let added = false;
+  for (const { field, values } of listFields(profile)) {
+    for (const value of values) {
+      if (!profile.meta.evidence?.[field]?.[value.toLowerCase()]) {
+        recordEvidence(profile, field, value, at);
+        added = true;
+      }
+    }
+  }
+  return added;
+}
+
+/**
+ * Confidence of every tracked list entry, lowest first.
+ */
+export function listEntryConfidence(profile: UserProfile, now: Date = new Date(), field?: string): EntryConfidence[] {
+  const result: EntryConfidence[] = [];
+  for (const list of listFields(profile)) {
+    if (field && list.field !== field && !list.field.startsWith(`${field}.`)) continue;
+    for (const value of list.values) {
+      const evidence = profile.meta.evidence?.[list.field]?.[value.toLowerCase()];
+      if (evidence) {
+        result.push({ field: list.field, value, ...evidence, confidence: entryConfidence(evidence, now) });
+      }
+    }
+  }
+  return result.sort((a, b) => a.confidence - b.confidence);
+}
+
+/**
+ * Entries in technical.* and knowledge.* that have decayed enough to demote.
+ */
+export function findDemotions(profile: UserProfile, now: Date = new Date()): ProposedDemotion[] {
+  return listEntryConfidence(profile, now)
+    .filter((entry) => DECAYING_SECTIONS.some((section) => entry.field.startsWith(`${section}.`)))
+    .filter((entry) => entry.confidence < DEMOTE_BELOW && daysSince(entry.lastSeen, now) >= MIN_INACTIVE_DAYS)
+    .map((entry) => ({ ...entry, to: DEMOTIONS[entry.field] ?? null }));
+}
+
+function listFields(profile: UserProfile): Array<{ field: string; values: string[] }> {
+  const fields: Array<{ field: string; values: string[] }> = [];
+  for (const [section, value] of Object.entries(profile)) {
+    if (section === 'meta' || typeof value !== 'object' || value === null) continue;
+    for (const [key, list] of Object.entries(value as Record<string, unknown>)) {
+      if (Array.isArray(list)) {
+        fields.push({ field: `${section}.${key}`, values: list.filter((v): v is string => typeof v === 'string') });
+      }
+    }
+  }
+  return fields;
+}
+
+function daysSince(iso: string, now: Date): number {
+  return Math.max(0, (now.getTime() - Date.parse(iso)) / DAY_MS);
+}
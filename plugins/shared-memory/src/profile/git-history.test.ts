@@ -0,0 +1,120 @@
+import { gitHistorySignals, readGitLog, type GitCommit } from './git-history';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function commits(count: number, files: string[], authoredAt = '2026-09-01T10:00:00+02:00'): GitCommit[] {
+  return Array.from({ length: count }, (_, i) => ({ hash: `h${i}`, authoredAt, files }));
+}
+
+describe('gitHistorySignals', () => {
+  it('should infer languages from the share of files changed', () => {
+    const history = [
+      ...commits(10, ['plugins/api/src/a.ts', 'plugins/api/src/b.ts', 'README.md']),
+      ...commits(4, ['scripts/build.py']),
+      ...commits(1, ['tools/gen.rs']),
+    ];
+
+    const signals = gitHistorySignals(history, '2026-06-01');
+
+    expect(signals.filter((s) => s.field === 'technical.languages')).toEqual([
+      {
+        field: 'technical.languages',
+        value: 'TypeScript',
+        confidence: 'high',
+        evidence: 'Changed 20 .ts file(s) in 10 of your 15 commits since 2026-06-01 (mostly plugins/api)',
+      },
+      {
+        field: 'technical.languages',
+        value: 'Python',
+        confidence: 'medium',
+        evidence: 'Changed 4 .py file(s) in 4 of your 15 commits since 2026-06-01 (mostly scripts)',
+      },
+    ]);
+  });
+
+  it('should infer tools from the kinds of files changed', () => {
+    const history = [...commits(2, ['api/Dockerfile', '.github/workflows/ci.yml']), ...commits(1, ['infra/main.tf'])];
+
+    expect(gitHistorySignals(history, '2026-06-01').filter((s) => s.field === 'technical.tools').map((s) => s.value)).toEqual([
+      'Docker',
+      'GitHub Actions',
+    ]);
+  });
+
+  it('should propose the most common UTC offset', () => {
+    const history = [...commits(8, ['a.go']), ...commits(2, ['a.go'], '2026-02-01T10:00:00+01:00')];
+
+    expect(gitHistorySignals(history, '2026-01-01').find((s) => s.field === 'identity.timezone')).toEqual({
+      field: 'identity.timezone',
+      value: 'UTC+02:00',
+      confidence: 'medium',
+      evidence: '8 of your 10 commits were authored at UTC+02:00',
+    });
+    expect(gitHistorySignals(commits(4, ['a.go']), '2026-01-01').some((s) => s.field === 'identity.timezone')).toBe(false);
+  });
+});
+
+describe('readGitLog', () => {
+  let repo: string;
+
+  const commit = (email: string, file: string, date: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), `${date}\n`);
+    execFileSync('git', ['add', '-A'], { cwd: repo });
+    execFileSync('git', ['commit', '-q', '-m', `edit ${file}`], {
+      cwd: repo,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Dev',
+        GIT_AUTHOR_EMAIL: email,
+        GIT_COMMITTER_NAME: 'Dev',
+        GIT_COMMITTER_EMAIL: email,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'test-git-history-'));
+    execFileSync('git', ['init', '-q'], { cwd: repo });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("should read only the author's commits within the window", async () => {
+    const recent = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+    commit('sam@example.com', 'old/d.rs', '2020-01-01T09:00:00+02:00');
+    commit('sam@example.com', 'src/a.ts', recent);
+    commit('other@example.com', 'src/b.py', recent);
+    commit('Sam@Example.com', 'src/c.ts', recent);
+
+    const log = await readGitLog(repo, 'sam@example.com', 30);
+
+    expect(log.map((c) => c.files)).toEqual([['src/c.ts'], ['src/a.ts']]);
+    expect(log[0].authoredAt).toMatch(/\+00:00$/);
+  });
+
+  it('should match plus-addressed emails literally', async () => {
+    const recent = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+    commit('12345+sam@users.noreply.github.com', 'src/a.ts', recent);
+    commit('12345sam@users.noreply.github.com', 'src/b.ts', recent);
+
+    const log = await readGitLog(repo, '12345+sam@users.noreply.github.com', 30);
+
+    expect(log.map((c) => c.files)).toEqual([['src/a.ts']]);
+  });
+
+  it('should report directories that are not repositories', async () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'test-not-git-'));
+    try {
+      await expect(readGitLog(plain, 'sam@example.com', 30)).rejects.toThrow(/Not a git repository/);
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
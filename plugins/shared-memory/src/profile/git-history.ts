@@ -0,0 +1,188 @@
+/**
+ * Git-history inference for InferenceEngine.detectFromGitHistory.
+ *
+ * Reads the local git log for one author over a time window and turns what
+ * they actually touched into signals: languages from file extensions, tools
+ * from the kinds of files changed (Dockerfiles, workflows, Terraform), and a
+ * UTC offset for identity.timezone from the commit timestamps.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import { EXTENSION_LANGUAGES, type CodebaseSignal } from './codebase';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 15000;
+const MAX_COMMITS = 2000;
+const MIN_LANGUAGE_COMMITS = 3;
+const MIN_LANGUAGE_SHARE = 0.1; // Of all file changes
+const MIN_TOOL_COMMITS = 2;
+const MIN_TIMEZONE_COMMITS = 5;
+
+const PATH_TOOLS: Array<[RegExp, string]> = [
+  [/(^|\/)(Dockerfile(\.[\w-]+)?|[\w-]+\.Dockerfile)$/, 'Docker'],
+  [/(^|\/)(docker-)?compose(\.[\w-]+)?\.ya?ml$/, 'Docker Compose'],
+  [/^\.github\/workflows\/[^/]+\.ya?ml$/, 'GitHub Actions'],
+  [/(^|\/)\.gitlab-ci\.yml$/, 'GitLab CI'],
+  [/\.tf$/, 'Terraform'],
+  [/(^|\/)(k8s|kubernetes|helm)\//, 'Kubernetes'],
+];
+
+export interface GitCommit {
+  hash: string;
+  authoredAt: string; // ISO 8601 with the author's UTC offset, e.g. 2026-05-04T09:12:00+02:00
+  files: string[];
+}
+
+/**
+ * Commits by an author (matched on email) in the last `days` days, newest
+ * first, without merges.
+ */
+export async function readGitLog(cwd: string, email: string, days: number): Promise<GitCommit[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      'git',
+      [
+        'log',
+        '--no-merges',
+        `--max-count=${MAX_COMMITS}`,
+        `--since=${days}.days`,
+        '--regexp-ignore-case',
+        '--fixed-strings', // Emails like 12345+sam@users.noreply.github.com are not patterns
+        `--author=<${email}>`,
+        '--format=%x1e%H%x1f%aI',
+        '--name-only',
+      ],
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 }
+    ));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/not a git repository/i.test(message)) {
+      throw new Error(`Not a git repository: ${cwd}`);
+    }
+    throw new Error(`git log failed: ${message.split('\n')[0]}`);
+  }
+
+  return stdout
+    .split('\x1e')
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [header, ...files] = record.split('\n');
+      const [hash, authoredAt] = header.split('\x1f');
+      return { hash, authoredAt, files: files.map((f) => f.trim()).filter(Boolean) };
+    });
+}
+
+/**
+ * Signals from a set of commits. `since` is only used in evidence strings.
+ */
+export function gitHistorySignals(commits: GitCommit[], since: string): CodebaseSignal[] {
+  if (commits.length === 0) return [];
+  return [...languageSignals(commits, since), ...toolSignals(commits, since), ...timezoneSignals(commits)];
+}
+
+function languageSignals(commits: GitCommit[], since: string): CodebaseSignal[] {
+  const stats = new Map<string, { changes: number; commits: number; extensions: Set<string>; dirs: Map<string, number> }>();
+  let totalChanges = 0;
+
+  for (const commit of commits) {
+    const touched = new Set<string>();
+    for (const file of commit.files) {
+      totalChanges++;
+      const ext = path.posix.extname(file);
+      const lang = EXTENSION_LANGUAGES[ext];
+      if (!lang || file.endsWith('.d.ts')) continue;
+
+      const entry = stats.get(lang) ?? { changes: 0, commits: 0, extensions: new Set(), dirs: new Map() };
+      entry.changes++;
+      entry.extensions.add(ext);
+      const dir = topDirectory(file);
+      entry.dirs.set(dir, (entry.dirs.get(dir) ?? 0) + 1);
+      stats.set(lang, entry);
+      touched.add(lang);
+    }
+    for (const lang of touched) stats.get(lang)!.commits++;
+  }
+
+  const signals: CodebaseSignal[] = [];
+  for (const [value, s] of stats) {
+    const share = s.changes / totalChanges;
+    if (s.commits < MIN_LANGUAGE_COMMITS || share < MIN_LANGUAGE_SHARE) continue;
+
+    const dirs = [...s.dirs.entries()].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([d]) => d);
+    signals.push({
+      field: 'technical.languages',
+      value,
+      confidence: share >= 0.3 && s.commits >= 10 ? 'high' : 'medium',
+      evidence:
+        `Changed ${s.changes} ${[...s.extensions].join('/')} file(s) in ${s.commits} of your ${commits.length} commits since ${since}` +
+        ` (mostly ${dirs.join(', ')})`,
+    });
+  }
+  return signals;
+}
+
+function toolSignals(commits: GitCommit[], since: string): CodebaseSignal[] {
+  const counts = new Map<string, { commits: number; example: string }>();
+  for (const commit of commits) {
+    const touched = new Map<string, string>();
+    for (const file of commit.files) {
+      for (const [regex, tool] of PATH_TOOLS) {
+        if (regex.test(file) && !touched.has(tool)) touched.set(tool, file);
+      }
+    }
+    for (const [tool, file] of touched) {
+      const entry = counts.get(tool) ?? { commits: 0, example: file };
+      entry.commits++;
+      counts.set(tool, entry);
+    }
+  }
+
+  return [...counts.entries()]
+    .filter(([, c]) => c.commits >= MIN_TOOL_COMMITS)
+    .map(([value, c]) => ({
+      field: 'technical.tools',
+      value,
+      confidence: 'medium' as const,
+      evidence: `Changed ${c.example} and similar in ${c.commits} of your commits since ${since}`,
+    }));
+}
+
+/**
+ * The most common author UTC offset. Git records offsets, not zones, so
+ * this proposes e.g. "UTC+02:00"; DST splits a zone over two offsets, which
+ * lowers confidence rather than picking the wrong one.
+ */
+function timezoneSignals(commits: GitCommit[]): CodebaseSignal[] {
+  const offsets = new Map<string, number>();
+  for (const commit of commits) {
+    const match = commit.authoredAt.match(/([+-]\d{2}:\d{2}|Z)$/);
+    if (!match) continue;
+    const offset = match[1] === 'Z' ? '+00:00' : match[1];
+    offsets.set(offset, (offsets.get(offset) ?? 0) + 1);
+  }
+
+  const [best] = [...offsets.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < MIN_TIMEZONE_COMMITS) return [];
+
+  const share = best[1] / commits.length;
+  return [
+    {
+      field: 'identity.timezone',
+      value: `UTC${best[0]}`,
+      confidence: share >= 0.7 ? 'medium' : 'low',
+      evidence: `${best[1]} of your ${commits.length} commits were authored at UTC${best[0]}`,
+    },
+  ];
+}
+
+function topDirectory(file: string): string {
+  const parts = file.split('/');
+  if (parts.length === 1) return '(root)';
+  return parts.length > 2 && ['packages', 'plugins', 'apps', 'services', 'libs', 'src'].includes(parts[0])
+    ? `${parts[0]}/${parts[1]}`
+    : parts[0];
+}
@@ -1,3 +1,18 @@
 export * from './types';
-export { ProfileManager, PROFILE_PATH, INFERENCES_PATH } from './manager';
-export { InferenceEngine } from './inference-engine';
+export {
+  ProfileManager,
+  PROFILE_PATH,
+  INFERENCES_PATH,
+  type SwitchProfileOptions,
+  type ProfileConflict,
+  type ProfileSyncResult,
+} from './manager';
+export { mergeProfiles, sameProfile, type FieldConflict, type ProfileMergeResult } from './merge';
+export { diffProfiles, type ProfileFieldChange } from './diff';
+export {
+  entryConfidence,
+  CONFIDENCE_HALF_LIFE_DAYS,
+  type EntryConfidence,
+  type ProposedDemotion,
+} from './evidence';
+export { InferenceEngine, type DetectionOptions } from './inference-engine';
@@ -0,0 +1,66 @@
+import { InferenceEngine } from './inference-engine';
+import { ProfileManager } from './manager';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('InferenceEngine.detectFromCodebase', () => {
+  let tmpDir: string;
+  let repo: string;
+  const engine = new InferenceEngine();
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-inference-'));
+    repo = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repo);
+    fs.writeFileSync(path.join(repo, 'Cargo.toml'), '[dependencies]\naxum = "0.7"\n');
+    fs.writeFileSync(path.join(repo, 'Cargo.lock'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should merge evidence for a value found in several files', async () => {
+    const profile = await new ProfileManager(path.join(tmpDir, 'user-profile.json'), path.join(tmpDir, 'inferences.json')).load();
+    const inferences = await engine.detectFromCodebase(repo, profile);
+
+    expect(inferences.filter((i) => i.value === 'Rust')).toEqual([
+      {
+        field: 'technical.languages',
+        value: 'Rust',
+        confidence: 'high',
+        evidence: 'Found Cargo.toml; Found Cargo.lock',
+        source: 'codebase',
+      },
+    ]);
+    expect(inferences.map((i) => i.value)).toEqual(expect.arrayContaining(['Axum', 'Cargo']));
+  });
+
+  it('should leave out known values unless asked for them', async () => {
+    const profile = await new ProfileManager(path.join(tmpDir, 'user-profile.json'), path.join(tmpDir, 'inferences.json')).load();
+    profile.technical.languages = ['rust'];
+
+    expect((await engine.detectFromCodebase(repo, profile)).some((i) => i.value === 'Rust')).toBe(false);
+    expect((await engine.detectFromCodebase(repo, profile, { includeKnown: true })).some((i) => i.value === 'Rust')).toBe(true);
+  });
+});
+
+describe('InferenceEngine.detectFromGitHistory', () => {
+  let tmpDir: string;
+  const engine = new InferenceEngine();
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-inference-git-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should need an email to find the user\'s commits', async () => {
+    const profile = await new ProfileManager(path.join(tmpDir, 'user-profile.json'), path.join(tmpDir, 'inferences.json')).load();
+
+    await expect(engine.detectFromGitHistory(tmpDir, profile)).rejects.toThrow(/identity\.email/);
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * InferenceEngine - Detects user preferences from text and codebase.
+ * InferenceEngine - Detects user preferences from text, codebase and git history.
  *
  * Returns InferredPreference objects that require user confirmation
  * before being added to the profile.
@@ -8,6 +8,14 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { InferredPreference, UserProfile } from '@brain-jar/core';
+import { scanCodebase, type CodebaseSignal } from './codebase';
+import { readGitLog, gitHistorySignals } from './git-history';
+
+const CONFIDENCE_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+export interface DetectionOptions {
+  includeKnown?: boolean; // Also return values already in the profile, to count as evidence
+}
 
 interface Pattern {
   regex: RegExp;
@@ -168,8 +176,13 @@ export class InferenceEngine {
    * Detects potential preferences from text input.
    * Returns inferences that should be confirmed with the user.
    */
-  detectFromText(text: string, profile: UserProfile): Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] {
+  detectFromText(
+    text: string,
+    profile: UserProfile,
+    options: DetectionOptions = {}
+  ): Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] {
     const inferences: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] = [];
+    const skip = (field: string, value: string) => !options.includeKnown && this.isAlreadyInProfile(profile, field, value);
     const seen = new Set<string>();
 
     for (const pattern of this.textPatterns) {
@@ -183,7 +196,7 @@ export class InferenceEngine {
           if (!v || v.length < 2) continue;
 
           // Check if already in profile
-          if (this.isAlreadyInProfile(profile, pattern.field, v)) continue;
+          if (skip(pattern.field, v)) continue;
 
           // Dedupe within this detection run
           const key = `${pattern.field}:${v.toLowerCase()}`;
@@ -206,181 +219,18 @@ export class InferenceEngine {
 
   /**
    * Analyzes codebase to infer tech preferences.
-   * Scans package.json, config files, etc.
+   * Scans manifests, lockfiles, CI, Docker, Terraform, editor configs and
+   * test layout (see ./codebase).
    */
-  async detectFromCodebase(cwd: string, profile: UserProfile): Promise<Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[]> {
+  async detectFromCodebase(
+    cwd: string,
+    profile: UserProfile,
+    options: DetectionOptions = {}
+  ): Promise<Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[]> {
     const inferences: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] = [];
+    const skip = (field: string, value: string) => !options.includeKnown && this.isAlreadyInProfile(profile, field, value);
 
-    // Check package.json
-    try {
-      const pkgPath = path.join(cwd, 'package.json');
-      const pkgData = await fs.readFile(pkgPath, 'utf-8');
-      const pkg = JSON.parse(pkgData);
-
-      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-
-      // Detect frameworks
-      const frameworkMap: Record<string, string> = {
-        react: 'React',
-        vue: 'Vue',
-        angular: 'Angular',
-        next: 'Next.js',
-        nuxt: 'Nuxt',
-        svelte: 'Svelte',
-        express: 'Express',
-        fastify: 'Fastify',
-        nestjs: 'NestJS',
-      };
-
-      for (const [dep, framework] of Object.entries(frameworkMap)) {
-        if (deps[dep] && !this.isAlreadyInProfile(profile, 'technical.frameworks', framework)) {
-          inferences.push({
-            field: 'technical.frameworks',
-            value: framework,
-            confidence: 'high',
-            evidence: `Found ${dep} in package.json`,
-            source: 'codebase',
-          });
-        }
-      }
-
-      // Detect TypeScript
-      if (deps.typescript && !this.isAlreadyInProfile(profile, 'technical.languages', 'TypeScript')) {
-        inferences.push({
-          field: 'technical.languages',
-          value: 'TypeScript',
-          confidence: 'high',
-          evidence: 'Found typescript in package.json',
-          source: 'codebase',
-        });
-      }
-
-      // Detect tools
-      const toolMap: Record<string, string> = {
-        jest: 'Jest',
-        vitest: 'Vitest',
-        playwright: 'Playwright',
-        cypress: 'Cypress',
-        prettier: 'Prettier',
-        eslint: 'ESLint',
-        webpack: 'Webpack',
-        vite: 'Vite',
-        docker: 'Docker',
-      };
-
-      for (const [dep, tool] of Object.entries(toolMap)) {
-        if (deps[dep] && !this.isAlreadyInProfile(profile, 'technical.tools', tool)) {
-          inferences.push({
-            field: 'technical.tools',
-            value: tool,
-            confidence: 'medium',
-            evidence: `Found ${dep} in package.json`,
-            source: 'codebase',
-          });
-        }
-      }
-    } catch {
-      // No package.json or error reading it
-    }
-
-    // Check for Python
-    try {
-      const reqPath = path.join(cwd, 'requirements.txt');
-      await fs.access(reqPath);
-      if (!this.isAlreadyInProfile(profile, 'technical.languages', 'Python')) {
-        inferences.push({
-          field: 'technical.languages',
-          value: 'Python',
-          confidence: 'high',
-          evidence: 'Found requirements.txt',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No requirements.txt
-    }
-
-    // Check pyproject.toml
-    try {
-      const pyprojectPath = path.join(cwd, 'pyproject.toml');
-      await fs.access(pyprojectPath);
-      if (!this.isAlreadyInProfile(profile, 'technical.languages', 'Python')) {
-        inferences.push({
-          field: 'technical.languages',
-          value: 'Python',
-          confidence: 'high',
-          evidence: 'Found pyproject.toml',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No pyproject.toml
-    }
-
-    // Check for Go
-    try {
-      const goModPath = path.join(cwd, 'go.mod');
-      await fs.access(goModPath);
-      if (!this.isAlreadyInProfile(profile, 'technical.languages', 'Go')) {
-        inferences.push({
-          field: 'technical.languages',
-          value: 'Go',
-          confidence: 'high',
-          evidence: 'Found go.mod',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No go.mod
-    }
-
-    // Check for Rust
-    try {
-      const cargoPath = path.join(cwd, 'Cargo.toml');
-      await fs.access(cargoPath);
-      if (!this.isAlreadyInProfile(profile, 'technical.languages', 'Rust')) {
-        inferences.push({
-          field: 'technical.languages',
-          value: 'Rust',
-          confidence: 'high',
-          evidence: 'Found Cargo.toml',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No Cargo.toml
-    }
-
-    // Check for editor configs
-    try {
-      await fs.access(path.join(cwd, '.vscode'));
-      if (!this.isAlreadyInProfile(profile, 'technical.editors', 'VS Code')) {
-        inferences.push({
-          field: 'technical.editors',
-          value: 'VS Code',
-          confidence: 'medium',
-          evidence: 'Found .vscode directory',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No .vscode
-    }
-
-    try {
-      await fs.access(path.join(cwd, '.idea'));
-      if (!this.isAlreadyInProfile(profile, 'technical.editors', 'JetBrains')) {
-        inferences.push({
-          field: 'technical.editors',
-          value: 'JetBrains',
-          confidence: 'medium',
-          evidence: 'Found .idea directory',
-          source: 'codebase',
-        });
-      }
-    } catch {
-      // No .idea
-    }
+    inferences.push(...this.mergeSignals(await scanCodebase(cwd), skip));
 
     // Check git config for name
     try {
@@ -406,6 +256,71 @@ export class InferenceEngine {
     return inferences;
   }
 
+  /**
+   * Infers languages, tools and timezone from the user's own commits in the
+   * local git history (author matched on identity.email unless an email is
+   * given). Returns the number of commits read alongside the inferences.
+   */
+  async detectFromGitHistory(
+    cwd: string,
+    profile: UserProfile,
+    options: DetectionOptions & { days?: number; email?: string } = {}
+  ): Promise<{ commits: number; inferences: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] }> {
+    const email = options.email ?? profile.identity.email;
+    if (!email) {
+      throw new Error('Set identity.email in the profile (or pass an email) to find your commits');
+    }
+    const days = options.days ?? 90;
+    const skip = (field: string, value: string) =>
+      // A UTC offset would only compete with a timezone the user already gave
+      (field === 'identity.timezone' && !!profile.identity.timezone) ||
+      (!options.includeKnown && this.isAlreadyInProfile(profile, field, value));
+
+    const commits = await readGitLog(cwd, email, days);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+    return { commits: commits.length, inferences: this.mergeSignals(gitHistorySignals(commits, since), skip) };
+  }
+
+  /**
+   * Turns scan signals into inferences. A value found in several places
+   * becomes one inference with the strongest confidence and the combined
+   * evidence.
+   */
+  private mergeSignals(
+    signals: CodebaseSignal[],
+    skip: (field: string, value: string) => boolean
+  ): Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] {
+    const merged = new Map<string, { signal: CodebaseSignal; evidence: string[] }>();
+    for (const signal of signals) {
+      const key = `${signal.field}:${signal.value.toLowerCase()}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { signal, evidence: [signal.evidence] });
+        continue;
+      }
+      if (CONFIDENCE_RANK[signal.confidence] > CONFIDENCE_RANK[existing.signal.confidence]) {
+        existing.signal = signal;
+      }
+      if (!existing.evidence.includes(signal.evidence)) {
+        existing.evidence.push(signal.evidence);
+      }
+    }
+
+    const inferences: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[] = [];
+    for (const { signal, evidence } of merged.values()) {
+      if (skip(signal.field, signal.value)) continue;
+      const more = evidence.length > 3 ? ` (+${evidence.length - 3} more)` : '';
+      inferences.push({
+        field: signal.field,
+        value: signal.value,
+        confidence: signal.confidence,
+        evidence: evidence.slice(0, 3).join('; ') + more,
+        source: 'codebase',
+      });
+    }
+    return inferences;
+  }
+
   /**
    * Checks if a value is already in the profile.
    */
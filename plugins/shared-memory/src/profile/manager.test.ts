@@ -0,0 +1,259 @@
+import { ProfileManager } from './manager';
+import { SqliteBackend, type MemoryBackend, type ProfileSnapshot, type UserProfile } from '@brain-jar/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ProfileManager named profiles', () => {
+  let tmpDir: string;
+  let manager: ProfileManager;
+  const previousEnv = process.env.BRAIN_JAR_PROFILE;
+
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(path.join(tmpDir, file), 'utf-8'));
+
+  beforeEach(() => {
+    delete process.env.BRAIN_JAR_PROFILE;
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-profiles-'));
+    manager = new ProfileManager(path.join(tmpDir, 'user-profile.json'), path.join(tmpDir, 'inferences.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    if (previousEnv !== undefined) process.env.BRAIN_JAR_PROFILE = previousEnv;
+  });
+
+  it('should use the default profile file until switched', async () => {
+    await manager.set('identity.name', 'Sam');
+
+    expect(manager.getProfileName()).toBe('default');
+    expect(readJson('user-profile.json').identity.name).toBe('Sam');
+    expect(manager.listProfiles()).toEqual(['default']);
+  });
+
+  it('should create, switch and persist named profiles', async () => {
+    await manager.set('identity.name', 'Sam');
+    await expect(manager.switchProfile('work')).rejects.toThrow(/does not exist/);
+
+    const work = await manager.switchProfile('work', { create: true, copyFrom: 'default' });
+    expect(work.identity.name).toBe('Sam');
+
+    await manager.set('workingStyle.verbosity', 'concise');
+    expect(readJson('profiles/work.json').workingStyle.verbosity).toBe('concise');
+    expect(readJson('user-profile.json').workingStyle.verbosity).toBe('adaptive');
+    expect(readJson('profiles.json')).toEqual({ active: 'work', rules: [] });
+    expect(manager.listProfiles()).toEqual(['default', 'work']);
+  });
+
+  it('should select profiles by scope rule until switched explicitly', async () => {
+    await manager.switchProfile('work', { create: true, persist: false });
+    manager.setProfileRule('project:acme-*', 'work');
+    manager.setProfileRule('project:scratch', 'default');
+
+    const fresh = new ProfileManager(path.join(tmpDir, 'user-profile.json'), path.join(tmpDir, 'inferences.json'));
+    expect(fresh.selectForScope('project:acme-api')).toMatchObject({ name: 'work', reason: 'rule' });
+    expect(fresh.selectForScope('project:other')).toEqual({ name: 'default', reason: 'active' });
+
+    await fresh.switchProfile('work');
+    expect(fresh.selectForScope('project:scratch').name).toBe('work');
+
+    expect(manager.setProfileRule('project:scratch', null).rules).toEqual([{ scope: 'project:acme-*', profile: 'work' }]);
+  });
+
+  it('should keep snapshots per profile and pull profiles that only exist remotely', async () => {
+    const dbPath = path.join(tmpDir, 'backend.db');
+    const backend = new SqliteBackend(dbPath);
+    manager.setMem0Client(backend);
+
+    await manager.set('identity.name', 'Sam');
+    const laptop = new ProfileManager(path.join(tmpDir, 'laptop', 'user-profile.json'), path.join(tmpDir, 'inferences.json'));
+    laptop.setMem0Client(backend);
+    await laptop.switchProfile('work', { create: true });
+    await laptop.set('identity.organization', 'Acme');
+
+    const work = await manager.switchProfile('work');
+    expect(work.identity.organization).toBe('Acme');
+    expect(readJson('profiles/work.json').identity.organization).toBe('Acme');
+    expect((await manager.getHistory()).every((s) => s.profileName === 'work')).toBe(true);
+    expect((await backend.getLatestProfile())?.profile.identity.name).toBe('Sam');
+
+    backend.close();
+  });
+
+  describe('sync merge', () => {
+    let backend: SqliteBackend;
+    const laptopPath = () => path.join(tmpDir, 'laptop', 'user-profile.json');
+
+    beforeEach(async () => {
+      backend = new SqliteBackend(path.join(tmpDir, 'backend.db'));
+      manager.setMem0Client(backend);
+      await manager.set('identity.name', 'Sam');
+
+      const laptop = new ProfileManager(laptopPath(), path.join(tmpDir, 'inferences.json'));
+      laptop.setMem0Client(backend);
+      await laptop.syncFromMem0();
+    });
+
+    afterEach(() => {
+      backend.close();
+    });
+
+    it('should keep edits made on both machines since the last sync', async () => {
+      // Laptop edits offline while the desktop pushes a newer change
+      const offline = new ProfileManager(laptopPath(), path.join(tmpDir, 'inferences.json'));
+      await offline.addToArray('technical.languages', ['Rust']);
+      await manager.set('workingStyle.verbosity', 'concise');
+
+      const laptop = new ProfileManager(laptopPath(), path.join(tmpDir, 'inferences.json'));
+      laptop.setMem0Client(backend);
+      const result = await laptop.syncFromMem0();
+
+      expect(result.action).toBe('merged');
+      expect(result.conflicts).toEqual([]);
+      expect(result.profile.technical.languages).toContain('Rust');
+      expect(result.profile.workingStyle.verbosity).toBe('concise');
+
+      expect(await manager.syncFromMem0()).toMatchObject({ action: 'pulled' });
+      expect((await manager.load()).technical.languages).toContain('Rust');
+    });
+
+    it('should record conflicting scalar edits until resolved', async () => {
+      const offline = new ProfileManager(laptopPath(), path.join(tmpDir, 'inferences.json'));
+      await offline.set('workingStyle.verbosity', 'detailed');
+      await manager.set('workingStyle.verbosity', 'concise');
+
+      const laptop = new ProfileManager(laptopPath(), path.join(tmpDir, 'inferences.json'));
+      laptop.setMem0Client(backend);
+      const { conflicts } = await laptop.syncFromMem0();
+
+      expect(conflicts).toMatchObject([
+        { field: 'workingStyle.verbosity', base: 'adaptive', local: 'detailed', remote: 'concise', profile: 'default' },
+      ]);
+      expect(await laptop.getConflicts('work')).toEqual([]);
+
+      const { value } = await laptop.resolveConflict(conflicts[0].id, 'remote');
+      expect(value).toBe('concise');
+      expect((await laptop.load()).workingStyle.verbosity).toBe('concise');
+      expect(await laptop.getConflicts()).toEqual([]);
+      await expect(laptop.resolveConflict(conflicts[0].id, 'local')).rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('snapshots', () => {
+    let snapshots: ProfileSnapshot[];
+
+    // SQLite keeps one snapshot per day, so keep a dated history in memory
+    const snapshot = (id: string, timestamp: string, edit: (p: UserProfile) => void, base: UserProfile) => {
+      const profile = JSON.parse(JSON.stringify(base)) as UserProfile;
+      edit(profile);
+      snapshots.unshift({ profile, timestamp, mem0Id: id, profileName: 'default' });
+    };
+
+    beforeEach(async () => {
+      snapshots = [];
+      const base = await manager.load();
+      snapshot('snap-1', '2026-03-01T10:00:00.000Z', (p) => (p.technical.languages = ['Go']), base);
+      snapshot('snap-2', '2026-04-01T10:00:00.000Z', (p) => {
+        p.technical.languages = ['Go', 'Rust'];
+        p.workingStyle.verbosity = 'concise';
+      }, base);
+
+      manager.setMem0Client({
+        getLatestProfile: async () => snapshots[0] ?? null,
+        getProfileHistory: async () => snapshots,
+        saveProfileSnapshot: async (profile: UserProfile) => {
+          snapshot(`snap-${snapshots.length + 1}`, new Date().toISOString(), () => {}, profile);
+          return snapshots[0].mem0Id!;
+        },
+      } as unknown as MemoryBackend);
+      await manager.save(JSON.parse(JSON.stringify(snapshots[0].profile)), true);
+      expect((await manager.syncFromMem0()).action).toBe('unchanged');
+    });
+
+    it('should diff snapshots by id, date or against the current profile', async () => {
+      const byDate = await manager.diffSnapshots('2026-03-15', 'snap-2');
+      expect(byDate.from.mem0Id).toBe('snap-1');
+      expect(byDate.changes).toEqual([
+        { field: 'technical.languages', change: 'changed', before: ['Go'], after: ['Go', 'Rust'], added: ['Rust'], removed: [] },
+        { field: 'workingStyle.verbosity', change: 'changed', before: 'adaptive', after: 'concise' },
+      ]);
+
+      expect((await manager.diffSnapshots('snap-2')).changes).toEqual([]);
+      await expect(manager.diffSnapshots('2025-01-01')).rejects.toThrow(/No snapshot/);
+    });
+
+    it('should restore selected fields or the whole snapshot', async () => {
+      const partial = await manager.restoreSnapshot('snap-1', ['technical.languages']);
+      expect(partial.restored.map((c) => c.field)).toEqual(['technical.languages']);
+      expect((await manager.load()).technical.languages).toEqual(['Go']);
+      expect((await manager.load()).workingStyle.verbosity).toBe('concise');
+      expect(snapshots[0].profile.technical.languages).toEqual(['Go']);
+
+      await manager.restoreSnapshot('snap-1');
+      expect((await manager.load()).workingStyle.verbosity).toBe('adaptive');
+      expect((await manager.restoreSnapshot('snap-1')).restored).toEqual([]);
+
+      await expect(manager.restoreSnapshot('snap-1', ['meta.createdAt'])).rejects.toThrow(/meta/);
+      await expect(manager.restoreSnapshot('snap-1', ['technical.langs'])).rejects.toThrow(/Unknown profile field/);
+    });
+  });
+
+  describe('evidence and decay', () => {
+    it('should count known detections as evidence and propose only new ones', async () => {
+      await manager.addToArray('technical.languages', ['TypeScript']);
+      const detection = { confidence: 'high' as const, evidence: 'Found in package.json', source: 'codebase' as const };
+
+      const first = await manager.recordDetections([
+        { ...detection, field: 'technical.languages', value: 'typescript' },
+        { ...detection, field: 'technical.tools', value: 'Vitest' },
+      ]);
+      expect(first.reinforced).toEqual([{ field: 'technical.languages', value: 'typescript' }]);
+      expect(first.proposed.map((i) => i.value)).toEqual(['Vitest']);
+
+      const again = await manager.recordDetections([{ ...detection, field: 'technical.tools', value: 'Vitest' }]);
+      expect(again.proposed).toEqual([]);
+
+      const [entry] = await manager.getEntryConfidence('technical.languages');
+      expect(entry).toMatchObject({ value: 'TypeScript', count: 2 });
+    });
+
+    it('should propose demotions once and apply them on confirm', async () => {
+      await manager.addToArray('knowledge.expert', ['SQL']);
+      await manager.addToArray('technical.languages', ['Perl']);
+      const later = new Date(Date.now() + 400 * 24 * 60 * 60 * 1000);
+
+      const demotions = await manager.proposeDemotions(later);
+      expect(demotions.map((d) => [d.field, d.value, d.demotion?.to])).toEqual([
+        ['technical.languages', 'Perl', null],
+        ['knowledge.expert', 'SQL', 'knowledge.proficient'],
+      ]);
+      expect(await manager.proposeDemotions(later)).toHaveLength(2);
+
+      await manager.confirmInference(demotions[1].id);
+      await manager.rejectInference(demotions[0].id);
+
+      const profile = await manager.load();
+      expect(profile.knowledge.expert).toEqual([]);
+      expect(profile.knowledge.proficient).toEqual(['SQL']);
+      expect(profile.technical.languages).toEqual(['Perl']);
+      expect(profile.meta.evidence?.['technical.languages']?.perl?.count).toBe(2);
+    });
+
+    it('should keep pending inferences and demotions to the profile they were proposed for', async () => {
+      await manager.addToArray('technical.languages', ['Perl']);
+      await manager.switchProfile('work', { create: true, copyFrom: 'default' });
+      const later = new Date(Date.now() + 400 * 24 * 60 * 60 * 1000);
+      const [demotion] = await manager.proposeDemotions(later);
+      expect(demotion).toMatchObject({ value: 'Perl', profile: 'work' });
+
+      await manager.switchProfile('default');
+      expect(await manager.getPendingInferences()).toEqual([]);
+      expect(await manager.confirmInference(demotion.id)).toBe(false);
+      expect((await manager.proposeDemotions(later)).map((d) => d.profile)).toEqual(['default']);
+      expect((await manager.load()).technical.languages).toEqual(['Perl']);
+
+      await manager.switchProfile('work');
+      expect(await manager.confirmInference(demotion.id)).toBe(true);
+      expect((await manager.load()).technical.languages).toEqual([]);
+    });
+  });
+});
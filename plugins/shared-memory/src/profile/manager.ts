@@ -4,6 +4,10 @@
  * Profile is shared across all brain-jar plugins at:
  * ~/.config/brain-jar/user-profile.json
  *
+ * Named profiles (work, personal, ...) live in ~/.config/brain-jar/profiles/
+ * and are picked by scope rules in profiles.json; see selectProfile in
+ * @brain-jar/core. The manager works on one profile at a time.
+ *
  * Profile is synced to Mem0 as append-only snapshots using infer:false
  * to preserve raw JSON. This enables profile portability across machines
  * and historical analysis ("You, Wrapped").
@@ -13,25 +17,95 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { randomUUID } from 'crypto';
-import type { Mem0Client, UserProfile, ProfileSnapshot, OnboardingQuestion, InferredPreference } from '@brain-jar/core';
+import {
+  DEFAULT_PROFILE,
+  getProfilePath,
+  isValidProfileName,
+  listProfiles,
+  loadProfileSettings,
+  saveProfileSettings,
+  selectProfile,
+  type MemoryBackend,
+  type UserProfile,
+  type ProfileSnapshot,
+  type OnboardingQuestion,
+  type InferredPreference,
+  type ProfileSelection,
+  type ProfileSettings,
+} from '@brain-jar/core';
+import { mergeProfiles, sameProfile, type FieldConflict } from './merge';
+import { diffProfiles, isWithinField, type ProfileFieldChange } from './diff';
+import {
+  backfillEvidence,
+  findDemotions,
+  listEntryConfidence,
+  moveEvidence,
+  recordEvidence,
+  type EntryConfidence,
+} from './evidence';
 
 const PROFILE_PATH = path.join(os.homedir(), '.config', 'brain-jar', 'user-profile.json');
 const INFERENCES_PATH = path.join(os.homedir(), '.config', 'brain-jar', 'pending-inferences.json');
+// Per-profile sync bases and open merge conflicts, beside the profiles
+const SYNC_DIR = 'profile-sync';
+
+export interface ProfileConflict extends FieldConflict {
+  id: string;
+  profile: string; // Named profile the conflict is in
+  detectedAt: string;
+}
+
+export interface ProfileSyncResult {
+  action: 'pulled' | 'pushed' | 'merged' | 'unchanged' | 'skipped';
+  profile: UserProfile;
+  conflicts: ProfileConflict[]; // Recorded by this sync
+}
+
+export interface SwitchProfileOptions {
+  create?: boolean; // Create the profile if it doesn't exist
+  copyFrom?: string; // Start a new profile from this one instead of empty
+  persist?: boolean; // Make it the active profile in profiles.json (default: true)
+}
 
 export class ProfileManager {
-  private mem0Client: Mem0Client | null = null;
+  private mem0Client: MemoryBackend | null = null;
   private lastSyncedProfile: string | null = null; // JSON string for deep compare
+  private profileName: string = DEFAULT_PROFILE;
+  private switched = false; // An explicit switch wins over scope rules for this process
 
+  /**
+   * @param defaultProfilePath - The default profile; named profiles and
+   *   profiles.json are looked up in the same directory
+   */
   constructor(
-    private profilePath: string = PROFILE_PATH,
+    private defaultProfilePath: string = PROFILE_PATH,
     private inferencesPath: string = INFERENCES_PATH
   ) {}
 
+  private get configDir(): string {
+    return path.dirname(this.defaultProfilePath);
+  }
+
+  private pathFor(name: string): string {
+    return name === DEFAULT_PROFILE ? this.defaultProfilePath : getProfilePath(name, this.configDir);
+  }
+
   /**
-   * Sets the Mem0 client for cloud sync.
-   * Call this after construction if Mem0 is configured.
+   * File of the profile currently in use.
    */
-  setMem0Client(client: Mem0Client): void {
+  get profilePath(): string {
+    return this.pathFor(this.profileName);
+  }
+
+  getProfileName(): string {
+    return this.profileName;
+  }
+
+  /**
+   * Sets the storage backend (Mem0 or local SQLite) for snapshot sync.
+   * Call this after construction if a backend is configured.
+   */
+  setMem0Client(client: MemoryBackend): void {
     this.mem0Client = client;
   }
 
@@ -40,8 +114,9 @@ export class ProfileManager {
    * Creates default profile if none exists.
    */
   async load(): Promise<UserProfile> {
+    const profilePath = this.profilePath;
     try {
-      const data = await fs.readFile(this.profilePath, 'utf-8');
+      const data = await fs.readFile(profilePath, 'utf-8');
       const profile = JSON.parse(data) as UserProfile;
       return this.migrateIfNeeded(profile);
     } catch (error) {
@@ -56,14 +131,14 @@ export class ProfileManager {
 
       // Corrupted JSON - log and create default
       if (error instanceof SyntaxError) {
-        console.warn(`Profile file corrupted at ${this.profilePath}, creating default:`, error.message);
+        console.warn(`Profile file corrupted at ${profilePath}, creating default:`, error.message);
         const defaultProfile = this.createDefaultProfile();
         await this.save(defaultProfile);
         return defaultProfile;
       }
 
       // Other errors - rethrow
-      throw new Error(`Failed to load profile from ${this.profilePath}: ${err.message}`);
+      throw new Error(`Failed to load profile from ${profilePath}: ${err.message}`);
     }
   }
 
@@ -82,56 +157,172 @@ export class ProfileManager {
     }
   }
 
+  // --- Named Profiles ---
+
+  /**
+   * Uses the profile selected for a scope (BRAIN_JAR_PROFILE, a scope rule,
+   * or the active profile). Does nothing after an explicit switchProfile.
+   */
+  selectForScope(scope: string): ProfileSelection {
+    if (this.switched) {
+      return { name: this.profileName, reason: 'active' };
+    }
+    const selection = selectProfile({ scope, configDir: this.configDir });
+    this.useProfile(selection.name);
+    return selection;
+  }
+
+  /**
+   * Switches to a named profile for the rest of this process and (unless
+   * persist is false) makes it the active profile.
+   */
+  async switchProfile(name: string, options: SwitchProfileOptions = {}): Promise<UserProfile> {
+    if (!isValidProfileName(name)) {
+      throw new Error(`Invalid profile name "${name}": use lowercase letters, digits, "-" and "_"`);
+    }
+
+    // A profile created on another machine only exists as a snapshot here
+    const local = this.listProfiles().includes(name);
+    const remote = local ? null : await this.getRemoteSnapshot(name);
+    if (!local && !remote && !options.create) {
+      throw new Error(`Profile "${name}" does not exist. Pass create: true to create it.`);
+    }
+
+    let seed: UserProfile | null = null;
+    if (!local && !remote && options.copyFrom) {
+      if (!this.listProfiles().includes(options.copyFrom)) {
+        throw new Error(`Profile "${options.copyFrom}" does not exist`);
+      }
+      seed = JSON.parse(await fs.readFile(this.pathFor(options.copyFrom), 'utf-8')) as UserProfile;
+    }
+
+    this.useProfile(name);
+    this.switched = true;
+    if (options.persist !== false) {
+      this.updateSettings((settings) => ({ ...settings, active: name }));
+    }
+
+    if (remote) {
+      await this.save(remote.profile, true);
+      this.lastSyncedProfile = JSON.stringify(remote.profile);
+      await this.saveSyncBase(remote.profile);
+      return remote.profile;
+    }
+    if (seed) {
+      seed.meta = { ...seed.meta, createdAt: new Date().toISOString() };
+      await this.save(seed);
+      return seed;
+    }
+    return (await this.syncFromMem0()).profile;
+  }
+
+  listProfiles(): string[] {
+    return listProfiles(this.configDir);
+  }
+
+  getProfileSettings(): ProfileSettings {
+    return loadProfileSettings(this.configDir);
+  }
+
+  /**
+   * Adds or replaces the rule for a scope pattern, or removes it when
+   * profile is null. Rules are checked in order; the first match wins.
+   */
+  setProfileRule(scope: string, profile: string | null): ProfileSettings {
+    return this.updateSettings((settings) => {
+      const index = settings.rules.findIndex((r) => r.scope === scope);
+      const rules = [...settings.rules];
+      if (profile === null) {
+        if (index >= 0) rules.splice(index, 1);
+      } else if (index >= 0) {
+        rules[index] = { scope, profile };
+      } else {
+        rules.push({ scope, profile });
+      }
+      return { ...settings, rules };
+    });
+  }
+
+  private updateSettings(change: (settings: ProfileSettings) => ProfileSettings): ProfileSettings {
+    const updated = change(loadProfileSettings(this.configDir));
+    saveProfileSettings(updated, this.configDir);
+    return updated;
+  }
+
+  private useProfile(name: string): void {
+    if (name !== this.profileName) {
+      this.profileName = name;
+      this.lastSyncedProfile = null;
+    }
+  }
+
+  private async getRemoteSnapshot(name: string): Promise<ProfileSnapshot | null> {
+    if (!this.mem0Client) return null;
+    try {
+      return await this.mem0Client.getLatestProfile(name);
+    } catch (error) {
+      console.warn(`Failed to look up profile "${name}" in Mem0:`, error);
+      return null;
+    }
+  }
+
   // --- Mem0 Sync Methods ---
 
   /**
-   * Syncs profile from Mem0 on startup.
-   * - If Mem0 has a newer profile, pull it (and save locally)
-   * - If local is newer or Mem0 is empty, push local to Mem0
+   * Syncs profile with Mem0 on startup, comparing both copies against the
+   * profile as of the last sync from this machine (the base):
+   * - Only Mem0 changed: pull it
+   * - Only local changed, or Mem0 is empty: push local
+   * - Both changed: merge field by field (see ./merge), save and push the
+   *   result; scalars changed differently on both sides become conflicts
    * - If no Mem0 client, skip sync
    */
-  async syncFromMem0(): Promise<{ action: 'pulled' | 'pushed' | 'skipped'; profile: UserProfile }> {
+  async syncFromMem0(): Promise<ProfileSyncResult> {
     const localProfile = await this.load();
 
     if (!this.mem0Client) {
-      return { action: 'skipped', profile: localProfile };
+      return { action: 'skipped', profile: localProfile, conflicts: [] };
     }
 
     try {
-      const remoteSnapshot = await this.mem0Client.getLatestProfile();
+      const remoteSnapshot = await this.mem0Client.getLatestProfile(this.profileName);
 
       if (!remoteSnapshot) {
         // No remote profile - push local
-        await this.pushSnapshot(localProfile);
-        return { action: 'pushed', profile: localProfile };
+        await this.pushToBackend(localProfile);
+        return { action: 'pushed', profile: localProfile, conflicts: [] };
       }
 
-      // Compare timestamps
-      const localUpdated = new Date(localProfile.meta.lastUpdated || 0);
-      const remoteUpdated = new Date(remoteSnapshot.timestamp);
+      const remoteProfile = remoteSnapshot.profile;
+      const base = await this.loadSyncBase();
 
-      if (remoteUpdated > localUpdated) {
-        // Remote is newer - pull it
-        await this.save(remoteSnapshot.profile, true); // skipMem0Sync to avoid loop
-        this.lastSyncedProfile = JSON.stringify(remoteSnapshot.profile);
-        return { action: 'pulled', profile: remoteSnapshot.profile };
-      } else {
-        // Local is newer or same - push if changed
-        const localJson = JSON.stringify(localProfile);
-        if (localJson !== this.lastSyncedProfile) {
-          await this.pushSnapshot(localProfile);
-        }
-        return { action: 'pushed', profile: localProfile };
+      if (sameProfile(remoteProfile, localProfile)) {
+        this.lastSyncedProfile = JSON.stringify(localProfile);
+        await this.saveSyncBase(localProfile);
+        return { action: 'unchanged', profile: localProfile, conflicts: [] };
+      }
+      if (sameProfile(remoteProfile, base)) {
+        await this.pushToBackend(localProfile);
+        return { action: 'pushed', profile: localProfile, conflicts: [] };
+      }
+      if (sameProfile(localProfile, base)) {
+        await this.save(remoteProfile, true); // skipMem0Sync to avoid loop
+        this.lastSyncedProfile = JSON.stringify(remoteProfile);
+        await this.saveSyncBase(remoteProfile);
+        return { action: 'pulled', profile: remoteProfile, conflicts: [] };
       }
+
+      return await this.mergeWithRemote(base, localProfile, remoteProfile);
     } catch (error) {
       console.warn('Profile sync from Mem0 failed:', error);
-      return { action: 'skipped', profile: localProfile };
+      return { action: 'skipped', profile: localProfile, conflicts: [] };
     }
   }
 
   /**
    * Pushes a new profile snapshot to Mem0.
-   * Uses infer:false to store raw JSON without semantic extraction.
+   * If another machine pushed since our last sync, merges with its snapshot
+   * instead of overwriting it.
    */
   async pushSnapshot(profile: UserProfile): Promise<boolean> {
     if (!this.mem0Client) {
@@ -139,18 +330,19 @@ export class ProfileManager {
     }
 
     try {
-      const profileJson = JSON.stringify(profile);
       // Only push if changed
-      if (profileJson === this.lastSyncedProfile) {
+      if (JSON.stringify(profile) === this.lastSyncedProfile) {
         return true;
       }
 
-      const id = await this.mem0Client.saveProfileSnapshot(profile);
-      if (id) {
-        this.lastSyncedProfile = profileJson;
+      const remoteSnapshot = await this.mem0Client.getLatestProfile(this.profileName);
+      const base = await this.loadSyncBase();
+      if (remoteSnapshot && !sameProfile(remoteSnapshot.profile, base) && !sameProfile(remoteSnapshot.profile, profile)) {
+        await this.mergeWithRemote(base, profile, remoteSnapshot.profile);
         return true;
       }
-      return false;
+
+      return await this.pushToBackend(profile);
     } catch (error) {
       console.warn('Failed to push profile snapshot to Mem0:', error);
       return false;
@@ -158,7 +350,119 @@ export class ProfileManager {
   }
 
   /**
-   * Gets profile history from Mem0.
+   * Stores a snapshot (uses infer:false to keep the raw JSON) and makes it
+   * the new sync base.
+   */
+  private async pushToBackend(profile: UserProfile): Promise<boolean> {
+    const profileJson = JSON.stringify(profile);
+    if (profileJson === this.lastSyncedProfile) {
+      return true;
+    }
+
+    const id = await this.mem0Client!.saveProfileSnapshot(profile, this.profileName);
+    if (id) {
+      this.lastSyncedProfile = profileJson;
+      await this.saveSyncBase(profile);
+      return true;
+    }
+    return false;
+  }
+
+  private async mergeWithRemote(
+    base: UserProfile | null,
+    local: UserProfile,
+    remote: UserProfile
+  ): Promise<ProfileSyncResult> {
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+    await this.save(merged, true);
+    const recorded = await this.recordConflicts(conflicts);
+    await this.pushToBackend(merged);
+    return { action: 'merged', profile: merged, conflicts: recorded };
+  }
+
+  private syncBasePath(): string {
+    return path.join(this.configDir, SYNC_DIR, `${this.profileName}.base.json`);
+  }
+
+  private async loadSyncBase(): Promise<UserProfile | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.syncBasePath(), 'utf-8')) as UserProfile;
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveSyncBase(profile: UserProfile): Promise<void> {
+    await fs.mkdir(path.join(this.configDir, SYNC_DIR), { recursive: true });
+    await fs.writeFile(this.syncBasePath(), JSON.stringify(profile, null, 2));
+  }
+
+  // --- Sync Conflicts ---
+
+  /**
+   * Open conflicts from merges, optionally for one profile.
+   */
+  async getConflicts(profileName?: string): Promise<ProfileConflict[]> {
+    try {
+      const conflicts = JSON.parse(await fs.readFile(this.conflictsPath, 'utf-8')) as ProfileConflict[];
+      return profileName ? conflicts.filter((c) => c.profile === profileName) : conflicts;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Settles a conflict by setting the field to one side's value (or a custom
+   * one) on the current profile, which also syncs it.
+   */
+  async resolveConflict(
+    conflictId: string,
+    keep: 'local' | 'remote' | 'base' | 'custom',
+    customValue?: unknown
+  ): Promise<{ conflict: ProfileConflict; value: unknown }> {
+    const conflicts = await this.getConflicts();
+    const conflict = conflicts.find((c) => c.id === conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found or already resolved`);
+    }
+    if (conflict.profile !== this.profileName) {
+      throw new Error(`Conflict ${conflictId} is in profile "${conflict.profile}"; switch_profile to it first`);
+    }
+    if (keep === 'custom' && customValue === undefined) {
+      throw new Error('A value is required to resolve with a custom value');
+    }
+
+    const value = keep === 'custom' ? customValue : conflict[keep];
+    await this.set(conflict.field, value);
+    await this.saveConflicts(conflicts.filter((c) => c.id !== conflictId));
+    return { conflict, value };
+  }
+
+  private get conflictsPath(): string {
+    return path.join(this.configDir, SYNC_DIR, 'conflicts.json');
+  }
+
+  /**
+   * Records merge conflicts, replacing any open conflict on the same field.
+   */
+  private async recordConflicts(fieldConflicts: FieldConflict[]): Promise<ProfileConflict[]> {
+    if (fieldConflicts.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const recorded = fieldConflicts.map((c) => ({ ...c, id: randomUUID(), profile: this.profileName, detectedAt: now }));
+    const fields = new Set(recorded.map((c) => c.field));
+    const existing = (await this.getConflicts()).filter((c) => c.profile !== this.profileName || !fields.has(c.field));
+    await this.saveConflicts([...existing, ...recorded]);
+    return recorded;
+  }
+
+  private async saveConflicts(conflicts: ProfileConflict[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.conflictsPath), { recursive: true });
+    await fs.writeFile(this.conflictsPath, JSON.stringify(conflicts, null, 2));
+  }
+
+  /**
+   * Gets the current profile's history from Mem0.
    * Returns snapshots sorted newest-first.
    */
   async getHistory(since?: Date, limit?: number): Promise<ProfileSnapshot[]> {
@@ -167,47 +471,105 @@ export class ProfileManager {
     }
 
     try {
-      return await this.mem0Client.getProfileHistory(since, limit);
+      return await this.mem0Client.getProfileHistory(since, limit, this.profileName);
     } catch (error) {
       console.warn('Failed to get profile history from Mem0:', error);
       return [];
     }
   }
 
+  // --- Snapshots ---
+
   /**
-   * Gets a value from the profile using dot-path notation.
-   * e.g., get('identity.name') or get('technical.languages')
+   * Finds a snapshot of the current profile by id, or the newest one taken
+   * at or before a date/timestamp. 'current' is the profile on disk.
    */
-  async get<T>(dotPath: string): Promise<T | undefined> {
-    const profile = await this.load();
-    const parts = dotPath.split('.');
-    let current: unknown = profile;
+  async getSnapshot(ref: string): Promise<ProfileSnapshot> {
+    if (ref === 'current') {
+      const profile = await this.load();
+      return { profile, timestamp: profile.meta.lastUpdated, profileName: this.profileName };
+    }
+    if (!this.mem0Client) {
+      throw new Error('Profile snapshots require Mem0 or local SQLite configuration');
+    }
 
-    for (const part of parts) {
-      if (current === null || current === undefined) return undefined;
-      current = (current as Record<string, unknown>)[part];
+    const history = await this.getHistory();
+    const byId = history.find((s) => s.mem0Id === ref);
+    if (byId) return byId;
+
+    // A bare date means any time that day
+    const at = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(ref) ? `${ref}T23:59:59.999Z` : ref);
+    const byDate = Number.isNaN(at) ? undefined : history.find((s) => Date.parse(s.timestamp) <= at);
+    if (!byDate) {
+      throw new Error(`No snapshot of profile "${this.profileName}" matches "${ref}"`);
     }
+    return byDate;
+  }
 
-    return current as T;
+  /**
+   * Field-level diff between two snapshots (see getSnapshot for refs).
+   */
+  async diffSnapshots(
+    from: string,
+    to: string = 'current'
+  ): Promise<{ from: ProfileSnapshot; to: ProfileSnapshot; changes: ProfileFieldChange[] }> {
+    const fromSnapshot = await this.getSnapshot(from);
+    const toSnapshot = await this.getSnapshot(to);
+    return { from: fromSnapshot, to: toSnapshot, changes: diffProfiles(fromSnapshot.profile, toSnapshot.profile) };
   }
 
   /**
-   * Sets a value in the profile using dot-path notation.
+   * Restores the current profile from a snapshot, either entirely or only
+   * the given fields (dot-paths such as 'workingStyle' or
+   * 'technical.languages'). Saves once, so the restore syncs as one snapshot.
+   * Returns the changes that were undone.
    */
-  async set(dotPath: string, value: unknown): Promise<void> {
+  async restoreSnapshot(
+    ref: string,
+    fields?: string[]
+  ): Promise<{ snapshot: ProfileSnapshot; restored: ProfileFieldChange[] }> {
+    const snapshot = await this.getSnapshot(ref);
     const profile = await this.load();
-    const parts = dotPath.split('.');
-    let current: Record<string, unknown> = profile as unknown as Record<string, unknown>;
 
-    for (let i = 0; i < parts.length - 1; i++) {
-      const part = parts[i];
-      if (!(part in current)) {
-        current[part] = {};
+    for (const field of fields ?? []) {
+      if (field === 'meta' || field.startsWith('meta.')) {
+        throw new Error('meta fields are managed automatically and cannot be restored');
       }
-      current = current[part] as Record<string, unknown>;
+      if (getPath(profile, field) === undefined && getPath(snapshot.profile, field) === undefined) {
+        throw new Error(`Unknown profile field: ${field}`);
+      }
+    }
+
+    const targets =
+      fields && fields.length > 0 ? fields : Object.keys(snapshot.profile).filter((key) => key !== 'meta');
+    const restored = diffProfiles(profile, snapshot.profile).filter((change) =>
+      targets.some((field) => isWithinField(change, field))
+    );
+    if (restored.length === 0) {
+      return { snapshot, restored };
     }
 
-    current[parts[parts.length - 1]] = value;
+    for (const field of targets) {
+      setPath(profile, field, structuredClone(getPath(snapshot.profile, field)));
+    }
+    await this.save(profile);
+    return { snapshot, restored };
+  }
+
+  /**
+   * Gets a value from the profile using dot-path notation.
+   * e.g., get('identity.name') or get('technical.languages')
+   */
+  async get<T>(dotPath: string): Promise<T | undefined> {
+    return getPath(await this.load(), dotPath) as T | undefined;
+  }
+
+  /**
+   * Sets a value in the profile using dot-path notation.
+   */
+  async set(dotPath: string, value: unknown): Promise<void> {
+    const profile = await this.load();
+    setPath(profile, dotPath, value);
     await this.save(profile);
   }
 
@@ -216,10 +578,13 @@ export class ProfileManager {
    */
   async addToArray(dotPath: string, values: string[]): Promise<void> {
     const profile = await this.load();
-    const currentValue = await this.get<string[]>(dotPath);
-    const existing = Array.isArray(currentValue) ? currentValue : [];
-    const unique = [...new Set([...existing, ...values])];
-    await this.set(dotPath, unique);
+    const currentValue = getPath(profile, dotPath);
+    const existing = Array.isArray(currentValue) ? (currentValue as string[]) : [];
+    setPath(profile, dotPath, [...new Set([...existing, ...values])]);
+    for (const value of values) {
+      recordEvidence(profile, dotPath, value);
+    }
+    await this.save(profile);
   }
 
   /**
@@ -384,6 +749,7 @@ export class ProfileManager {
   }
 
   // --- Inference Management ---
+  // One file for all profiles; each inference only applies to the profile it was proposed for
 
   /**
    * Loads pending inferences from disk.
@@ -407,7 +773,7 @@ export class ProfileManager {
   }
 
   /**
-   * Adds a new inference to pending list.
+   * Adds a new inference to pending list, for the profile in use.
    */
   async addInference(inference: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>): Promise<InferredPreference> {
     const inferences = await this.loadInferences();
@@ -416,6 +782,7 @@ export class ProfileManager {
       id: randomUUID(),
       status: 'pending',
       createdAt: new Date().toISOString(),
+      profile: this.profileName,
     };
     inferences.push(newInference);
     await this.saveInferences(inferences);
@@ -424,16 +791,24 @@ export class ProfileManager {
 
   /**
    * Confirms an inference and applies it to the profile.
+   * Inferences proposed for another profile are not found.
    */
   async confirmInference(inferenceId: string): Promise<boolean> {
     const inferences = await this.loadInferences();
-    const inference = inferences.find((i) => i.id === inferenceId);
+    const inference = inferences.find((i) => i.id === inferenceId && this.isForCurrentProfile(i));
 
     if (!inference || inference.status !== 'pending') {
       return false;
     }
 
     // Apply to profile
+    if (inference.demotion) {
+      await this.applyDemotion(inference);
+      inference.status = 'confirmed';
+      await this.saveInferences(inferences);
+      return true;
+    }
+
     const currentValue = await this.get<string[] | string>(inference.field);
     if (Array.isArray(inference.value)) {
       await this.addToArray(inference.field, inference.value);
@@ -454,7 +829,7 @@ export class ProfileManager {
    */
   async rejectInference(inferenceId: string): Promise<boolean> {
     const inferences = await this.loadInferences();
-    const inference = inferences.find((i) => i.id === inferenceId);
+    const inference = inferences.find((i) => i.id === inferenceId && this.isForCurrentProfile(i));
 
     if (!inference || inference.status !== 'pending') {
       return false;
@@ -462,15 +837,134 @@ export class ProfileManager {
 
     inference.status = 'rejected';
     await this.saveInferences(inferences);
+
+    // Keeping a decayed entry vouches for it, so it isn't proposed again soon
+    if (inference.demotion && typeof inference.value === 'string') {
+      const profile = await this.load();
+      recordEvidence(profile, inference.field, inference.value);
+      await this.save(profile);
+    }
     return true;
   }
 
+  // --- Evidence & Decay ---
+
+  /**
+   * Feeds InferenceEngine detections (run with includeKnown) into the
+   * profile: entries already in a list count as another sighting, anything
+   * new becomes a pending inference unless the same one is already pending.
+   */
+  async recordDetections(
+    detections: Omit<InferredPreference, 'id' | 'status' | 'createdAt'>[]
+  ): Promise<{ proposed: InferredPreference[]; reinforced: Array<{ field: string; value: string }> }> {
+    const profile = await this.load();
+    const pending = await this.getPendingInferences();
+    const proposed: InferredPreference[] = [];
+    const reinforced: Array<{ field: string; value: string }> = [];
+    const seen = new Set<string>();
+
+    for (const detection of detections) {
+      const values = Array.isArray(detection.value) ? detection.value : [detection.value];
+      const current = getPath(profile, detection.field);
+      const fresh: string[] = [];
+
+      for (const value of values) {
+        const key = `${detection.field}:${value.toLowerCase()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        if (Array.isArray(current) && current.some((v) => String(v).toLowerCase() === value.toLowerCase())) {
+          recordEvidence(profile, detection.field, value);
+          reinforced.push({ field: detection.field, value });
+        } else if (typeof current === 'string' && current.toLowerCase() === value.toLowerCase()) {
+          continue;
+        } else if (!pending.some((p) => !p.demotion && p.field === detection.field && sameValue(p.value, value))) {
+          fresh.push(value);
+        }
+      }
+
+      if (fresh.length > 0) {
+        const value = Array.isArray(detection.value) ? fresh : fresh[0];
+        proposed.push(await this.addInference({ ...detection, value }));
+      }
+    }
+
+    if (reinforced.length > 0) {
+      await this.save(profile);
+    }
+    return { proposed, reinforced };
+  }
+
+  /**
+   * Evidence count, first/last seen and decayed confidence of list entries,
+   * lowest confidence first, optionally within one field or section.
+   */
+  async getEntryConfidence(field?: string): Promise<EntryConfidence[]> {
+    return listEntryConfidence(await this.load(), new Date(), field);
+  }
+
+  /**
+   * Proposes demotions (expert -> proficient -> dropped) for technical and
+   * knowledge entries whose confidence has decayed, as pending inferences.
+   * Entries without evidence get their first sighting now. Returns all
+   * pending demotions, including ones proposed earlier.
+   */
+  async proposeDemotions(now: Date = new Date()): Promise<InferredPreference[]> {
+    const profile = await this.load();
+    if (backfillEvidence(profile, now)) {
+      await this.save(profile);
+    }
+
+    const pending = (await this.getPendingInferences()).filter((i) => i.demotion);
+    for (const demotion of findDemotions(profile, now)) {
+      if (pending.some((p) => p.field === demotion.field && sameValue(p.value, demotion.value))) continue;
+
+      const lastSeen = demotion.lastSeen.substring(0, 10);
+      const outcome = demotion.to ? `move to ${demotion.to}` : 'drop';
+      pending.push(
+        await this.addInference({
+          field: demotion.field,
+          value: demotion.value,
+          confidence: 'medium',
+          evidence: `Last seen ${lastSeen} (${demotion.count} sighting(s), confidence ${demotion.confidence}); ${outcome}`,
+          source: 'decay',
+          demotion: { to: demotion.to },
+        })
+      );
+    }
+    return pending;
+  }
+
+  private async applyDemotion(inference: InferredPreference): Promise<void> {
+    const profile = await this.load();
+    const value = String(inference.value);
+    const to = inference.demotion?.to ?? null;
+    const from = getPath(profile, inference.field);
+
+    if (Array.isArray(from)) {
+      setPath(profile, inference.field, from.filter((v) => String(v).toLowerCase() !== value.toLowerCase()));
+    }
+    if (to) {
+      const target = getPath(profile, to);
+      const existing = Array.isArray(target) ? (target as string[]) : [];
+      if (!existing.some((v) => v.toLowerCase() === value.toLowerCase())) {
+        setPath(profile, to, [...existing, value]);
+      }
+    }
+    moveEvidence(profile, inference.field, to, value);
+    await this.save(profile);
+  }
+
   /**
-   * Gets pending inferences.
+   * Gets pending inferences of the profile in use.
    */
   async getPendingInferences(): Promise<InferredPreference[]> {
     const inferences = await this.loadInferences();
-    return inferences.filter((i) => i.status === 'pending');
+    return inferences.filter((i) => i.status === 'pending' && this.isForCurrentProfile(i));
+  }
+
+  private isForCurrentProfile(inference: InferredPreference): boolean {
+    return (inference.profile ?? DEFAULT_PROFILE) === this.profileName;
   }
 
   // --- Helpers ---
@@ -543,4 +1037,33 @@ export class ProfileManager {
   }
 }
 
+function sameValue(value: string | string[], other: string): boolean {
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((v) => v.toLowerCase() === other.toLowerCase());
+}
+
+function getPath(profile: UserProfile, dotPath: string): unknown {
+  let current: unknown = profile;
+  for (const part of dotPath.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function setPath(profile: UserProfile, dotPath: string, value: unknown): void {
+  const parts = dotPath.split('.');
+  let current: Record<string, unknown> = profile as unknown as Record<string, unknown>;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i];
+    if (!(part in current)) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  current[parts[parts.length - 1]] = value;
+}
+
 export { PROFILE_PATH, INFERENCES_PATH };
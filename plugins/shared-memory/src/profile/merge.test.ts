@@ -0,0 +1,125 @@
+import { mergeProfiles, sameProfile } from './merge';
+import type { UserProfile } from '@brain-jar/core';
+
+function profile(overrides: { [K in keyof UserProfile]?: Partial<UserProfile[K]> } = {}): UserProfile {
+  const base: UserProfile = {
+    version: '1.0.0',
+    identity: { name: 'Sam' },
+    technical: { languages: ['TypeScript'], frameworks: [], tools: [], editors: [], patterns: [], operatingSystems: [] },
+    workingStyle: { verbosity: 'adaptive', learningPace: 'adaptive', priorities: [] },
+    knowledge: { expert: [], proficient: [], learning: [], interests: [] },
+    personal: { interests: [], goals: [], context: [] },
+    meta: {
+      onboardingComplete: false,
+      onboardingProgress: { identity: false, technical: false, workingStyle: false, personal: false },
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    },
+  };
+  const result = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] = { ...(base as unknown as Record<string, object>)[key], ...(value as object) };
+  }
+  return result as unknown as UserProfile;
+}
+
+describe('mergeProfiles', () => {
+  it('should keep additions from both sides of an array', () => {
+    const base = profile();
+    const local = profile({ technical: { languages: ['TypeScript', 'Rust'] } });
+    const remote = profile({ technical: { languages: ['TypeScript', 'Go'] }, workingStyle: { verbosity: 'concise' } });
+
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+
+    expect(merged.technical.languages).toEqual(['TypeScript', 'Rust', 'Go']);
+    expect(merged.workingStyle.verbosity).toBe('concise');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should propagate removals the other side did not touch', () => {
+    const base = profile({ knowledge: { learning: ['Rust', 'Elixir'] } });
+    const local = profile({ knowledge: { learning: ['Rust'] } });
+    const remote = profile({ knowledge: { learning: ['Rust', 'Elixir', 'Zig'] } });
+
+    expect(mergeProfiles(base, local, remote).merged.knowledge.learning).toEqual(['Rust', 'Zig']);
+  });
+
+  it('should report scalars changed differently on both sides and keep local', () => {
+    const base = profile();
+    const local = profile({ identity: { name: 'Sam', role: 'Staff engineer' }, workingStyle: { verbosity: 'detailed' } });
+    const remote = profile({ identity: { name: 'Sam', role: 'Founder' }, workingStyle: { verbosity: 'concise' } });
+
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+
+    expect(merged.identity.role).toBe('Staff engineer');
+    expect(merged.workingStyle.verbosity).toBe('detailed');
+    expect(conflicts).toEqual([
+      { field: 'identity.role', base: undefined, local: 'Staff engineer', remote: 'Founder' },
+      { field: 'workingStyle.verbosity', base: 'adaptive', local: 'detailed', remote: 'concise' },
+    ]);
+  });
+
+  it('should union arrays and fill gaps without a base', () => {
+    const local = profile({ technical: { languages: ['Python'] }, identity: { name: 'Sam' } });
+    const remote = profile({ technical: { languages: ['Go'] }, identity: { name: 'Sam', timezone: 'Europe/Berlin' } });
+
+    const { merged, conflicts } = mergeProfiles(null, local, remote);
+
+    expect(merged.technical.languages).toEqual(['Python', 'Go']);
+    expect(merged.identity.timezone).toBe('Europe/Berlin');
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should combine meta bookkeeping', () => {
+    const local = profile({
+      meta: { lastUpdated: '2026-03-01T00:00:00.000Z', onboardingProgress: { identity: true, technical: false, workingStyle: false, personal: false } },
+    });
+    const remote = profile({
+      meta: {
+        lastUpdated: '2026-04-01T00:00:00.000Z',
+        createdAt: '2025-12-01T00:00:00.000Z',
+        onboardingProgress: { identity: false, technical: true, workingStyle: false, personal: false },
+      },
+    });
+
+    const { meta } = mergeProfiles(profile(), local, remote).merged;
+
+    expect(meta.lastUpdated).toBe('2026-04-01T00:00:00.000Z');
+    expect(meta.createdAt).toBe('2025-12-01T00:00:00.000Z');
+    expect(meta.onboardingProgress).toMatchObject({ identity: true, technical: true });
+  });
+
+  it('should combine entry evidence from both sides', () => {
+    const local = profile({
+      meta: { evidence: { 'technical.languages': { rust: { count: 3, firstSeen: '2026-02-01', lastSeen: '2026-03-01' } } } },
+    });
+    const remote = profile({
+      meta: {
+        evidence: {
+          'technical.languages': {
+            rust: { count: 2, firstSeen: '2026-01-01', lastSeen: '2026-02-15' },
+            go: { count: 1, firstSeen: '2026-01-01', lastSeen: '2026-01-01' },
+          },
+        },
+      },
+    });
+
+    expect(mergeProfiles(profile(), local, remote).merged.meta.evidence).toEqual({
+      'technical.languages': {
+        rust: { count: 3, firstSeen: '2026-01-01', lastSeen: '2026-03-01' },
+        go: { count: 1, firstSeen: '2026-01-01', lastSeen: '2026-01-01' },
+      },
+    });
+  });
+});
+
+describe('sameProfile', () => {
+  it('should ignore save timestamps and key order', () => {
+    const a = profile();
+    const b = profile({ meta: { lastUpdated: '2026-05-05T00:00:00.000Z' } });
+    const reordered = { ...b, identity: { ...b.identity }, version: b.version } as UserProfile;
+
+    expect(sameProfile(a, reordered)).toBe(true);
+    expect(sameProfile(a, profile({ identity: { name: 'Alex' } }))).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Field-level three-way merge of user profiles for sync.
+ *
+ * The base is the profile as of the last successful sync on this machine.
+ * Each field of the local and remote copies is compared against it:
+ * - String arrays are merged as sets: additions from either side are kept,
+ *   and an item removed on one side stays removed if the other side didn't touch it
+ * - Scalars take whichever side changed; if both changed to different
+ *   values the local value is kept and a conflict is reported
+ * - meta is bookkeeping: timestamps take the latest, onboarding flags the OR,
+ *   and entry evidence the higher count and widest first/last seen range
+ */
+
+import type { UserProfile } from '@brain-jar/core';
+
+export interface FieldConflict {
+  field: string; // Dot-path like 'workingStyle.verbosity'
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface ProfileMergeResult {
+  merged: UserProfile;
+  conflicts: FieldConflict[];
+}
+
+type Json = Record<string, unknown>;
+
+export function mergeProfiles(base: UserProfile | null, local: UserProfile, remote: UserProfile): ProfileMergeResult {
+  const conflicts: FieldConflict[] = [];
+  const { meta: localMeta, ...localFields } = local;
+  const { meta: remoteMeta, ...remoteFields } = remote;
+  const baseFields = base ? (({ meta: _meta, ...fields }) => fields)(base) : undefined;
+
+  const merged = mergeObject('', baseFields as Json | undefined, localFields as Json, remoteFields as Json, conflicts);
+  return {
+    merged: { ...(merged as Omit<UserProfile, 'meta'>), meta: mergeMeta(localMeta, remoteMeta) },
+    conflicts,
+  };
+}
+
+/**
+ * Whether two profiles have the same content, ignoring when they were saved.
+ */
+export function sameProfile(a: UserProfile | null | undefined, b: UserProfile | null | undefined): boolean {
+  if (!a || !b) return a === b;
+  return stableStringify(withoutTimestamp(a)) === stableStringify(withoutTimestamp(b));
+}
+
+function mergeObject(prefix: string, base: Json | undefined, local: Json, remote: Json, conflicts: FieldConflict[]): Json {
+  const result: Json = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const value = mergeValue(field, base?.[key], local[key], remote[key], conflicts);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function mergeValue(field: string, base: unknown, local: unknown, remote: unknown, conflicts: FieldConflict[]): unknown {
+  if (isStringArray(local) && isStringArray(remote)) {
+    return mergeSets(isStringArray(base) ? base : [], local, remote);
+  }
+  if (isObject(local) && isObject(remote)) {
+    return mergeObject(field, isObject(base) ? base : undefined, local, remote, conflicts);
+  }
+
+  if (equal(local, remote)) return local;
+  if (equal(local, base)) return remote;
+  if (equal(remote, base)) return local;
+  // No common base (first sync): a value on one side only isn't a disagreement
+  if (base === undefined && (local === undefined || remote === undefined)) {
+    return local ?? remote;
+  }
+
+  conflicts.push({ field, base, local, remote });
+  return local;
+}
+
+function mergeSets(base: string[], local: string[], remote: string[]): string[] {
+  const inBase = new Set(base);
+  const inLocal = new Set(local);
+  const inRemote = new Set(remote);
+  const keep = (item: string) =>
+    (inLocal.has(item) && inRemote.has(item)) ||
+    (inLocal.has(item) && !inBase.has(item)) ||
+    (inRemote.has(item) && !inBase.has(item));
+
+  return [...new Set([...local, ...remote])].filter(keep);
+}
+
+function mergeMeta(local: UserProfile['meta'], remote: UserProfile['meta']): UserProfile['meta'] {
+  const latest = (a?: string, b?: string) => (!a ? b : !b ? a : a > b ? a : b);
+  const earliest = (a?: string, b?: string) => (!a ? b : !b ? a : a < b ? a : b);
+  const progress = { ...local.onboardingProgress };
+  for (const key of Object.keys(progress) as Array<keyof typeof progress>) {
+    progress[key] = Boolean(local.onboardingProgress?.[key] || remote.onboardingProgress?.[key]);
+  }
+
+  return {
+    ...remote,
+    ...local,
+    onboardingComplete: Boolean(local.onboardingComplete || remote.onboardingComplete),
+    onboardingProgress: progress,
+    lastUpdated: latest(local.lastUpdated, remote.lastUpdated)!,
+    lastOnboardingPrompt: latest(local.lastOnboardingPrompt, remote.lastOnboardingPrompt),
+    createdAt: earliest(local.createdAt, remote.createdAt)!,
+    evidence: mergeEvidence(local.evidence, remote.evidence),
+  };
+}
+
+function mergeEvidence(
+  local: UserProfile['meta']['evidence'],
+  remote: UserProfile['meta']['evidence']
+): UserProfile['meta']['evidence'] {
+  if (!local || !remote) return local ?? remote;
+
+  const merged: NonNullable<UserProfile['meta']['evidence']> = {};
+  for (const field of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    merged[field] = { ...remote[field], ...local[field] };
+    for (const [key, theirs] of Object.entries(remote[field] ?? {})) {
+      const ours = local[field]?.[key];
+      if (!ours) continue;
+      merged[field][key] = {
+        count: Math.max(ours.count, theirs.count),
+        firstSeen: ours.firstSeen < theirs.firstSeen ? ours.firstSeen : theirs.firstSeen,
+        lastSeen: ours.lastSeen > theirs.lastSeen ? ours.lastSeen : theirs.lastSeen,
+      };
+    }
+  }
+  return merged;
+}
+
+function withoutTimestamp(profile: UserProfile): unknown {
+  return { ...profile, meta: { ...profile.meta, lastUpdated: undefined } };
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
@@ -0,0 +1,261 @@
+import { MemoryReconciler } from './reconciler';
+import { LocalStore } from './local-store';
+import { SyncQueue } from './sync-queue';
+import type { Memory, MemoryBackend } from '@brain-jar/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * In-memory stand-in for Mem0 (plain memories only).
+ * With eventIds, add returns an async event id like Mem0 v2 instead of the memory id.
+ */
+function createFakeMem0({ eventIds = false } = {}) {
+  const memories = new Map<string, Memory>();
+  let nextId = 1;
+
+  const remember = (content: string, metadata: Record<string, unknown> = {}, at = new Date()): string => {
+    const id = `remote-${nextId++}`;
+    memories.set(id, {
+      id,
+      content,
+      scope: (metadata.scope as string) || 'global',
+      tags: (metadata.tags as string[]) || [],
+      source: { agent: (metadata.source_agent as string) || 'unknown' },
+      metadata,
+      created_at: at,
+      updated_at: at,
+    });
+    return id;
+  };
+
+  const client = {
+    kind: 'mem0',
+    add: jest.fn(async (content: string, metadata?: Record<string, unknown>) => {
+      const id = remember(content, metadata);
+      return eventIds ? id.replace('remote-', 'evt-') : id;
+    }),
+    update: jest.fn(async (id: string, content: string, metadata?: Record<string, unknown>) => {
+      const existing = memories.get(id);
+      if (!existing) return false;
+      memories.set(id, {
+        ...existing,
+        content,
+        scope: (metadata?.scope as string) || existing.scope,
+        tags: (metadata?.tags as string[]) || existing.tags,
+        updated_at: new Date(),
+      });
+      return true;
+    }),
+    delete: jest.fn(async (id: string) => memories.delete(id)),
+    getAll: jest.fn(async () => [...memories.values()]),
+  } as unknown as MemoryBackend;
+
+  return { client, memories, remember };
+}
+
+describe('MemoryReconciler', () => {
+  let store: LocalStore;
+  let queue: SyncQueue;
+  let testDbPath: string;
+  let mem0: ReturnType<typeof createFakeMem0>;
+  let reconciler: MemoryReconciler;
+
+  beforeEach(() => {
+    testDbPath = path.join(os.tmpdir(), `test-reconcile-${Date.now()}.db`);
+    store = new LocalStore(testDbPath);
+    queue = new SyncQueue(testDbPath, (entry, remoteId) => {
+      if (entry.operation === 'delete') {
+        store.removeSyncMapping(entry.memory_id);
+      } else {
+        store.setRemoteId(entry.memory_id, remoteId, entry.operation === 'update');
+      }
+    });
+    mem0 = createFakeMem0();
+    reconciler = new MemoryReconciler(store, queue, mem0.client);
+  });
+
+  afterEach(() => {
+    queue.close();
+    store.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should pull memories created on other machines', async () => {
+    mem0.remember('Deploys go through ArgoCD', { scope: 'project:infra', tags: ['deploy'] });
+    mem0.remember('{"profile":true}', { type: 'profile-snapshot' });
+
+    const result = await reconciler.reconcile();
+
+    expect(result.pulled).toBe(1);
+    const [local] = store.list();
+    expect(local.content).toBe('Deploys go through ArgoCD');
+    expect(local.scope).toBe('project:infra');
+    expect(store.getRemoteId(local.id)).toBe('remote-1');
+
+    // Second run is a no-op
+    expect((await reconciler.reconcile()).pulled).toBe(0);
+    expect(store.list()).toHaveLength(1);
+  });
+
+  it('should push local-only memories and record their remote ids', async () => {
+    const local = store.add({ content: 'Prefer zod for validation', scope: 'global', tags: [] });
+
+    const result = await reconciler.reconcile();
+
+    expect(result.pushed).toBe(1);
+    expect(mem0.memories.size).toBe(1);
+    expect(store.getRemoteId(local.id)).toBe('remote-1');
+  });
+
+  it('should carry kind and payload through Mem0 metadata', async () => {
+    store.add({ content: 'Use pnpm', scope: 'global', tags: [], kind: 'decision', payload: { choice: 'pnpm' } });
+    mem0.remember('Rotate the staging keys', { kind: 'todo', payload: { status: 'open', due: '2026-04-01' } });
+
+    await reconciler.reconcile();
+
+    const pushed = [...mem0.memories.values()].find((m) => m.content === 'Use pnpm');
+    expect(pushed?.metadata).toMatchObject({ kind: 'decision', payload: { choice: 'pnpm' } });
+
+    const [pulled] = store.list({ kind: 'todo' });
+    expect(pulled.content).toBe('Rotate the staging keys');
+    expect(pulled.payload).toEqual({ status: 'open', due: '2026-04-01' });
+
+    // Nothing left to reconcile
+    const again = await reconciler.reconcile();
+    expect(again.updated_local + again.updated_remote).toBe(0);
+  });
+
+  it('should skip pushing when push_local is off', async () => {
+    store.add({ content: 'Local only', scope: 'global', tags: [] });
+
+    const result = await reconciler.reconcile({ pushLocal: false });
+
+    expect(result.pushed).toBe(0);
+    expect(mem0.memories.size).toBe(0);
+  });
+
+  it('should link existing copies by content instead of duplicating', async () => {
+    const local = store.add({ content: 'Same everywhere', scope: 'global', tags: [] });
+    mem0.remember('Same everywhere');
+
+    const result = await reconciler.reconcile();
+
+    expect(result.linked).toBe(1);
+    expect(result.pulled).toBe(0);
+    expect(result.pushed).toBe(0);
+    expect(store.getRemoteId(local.id)).toBe('remote-1');
+  });
+
+  it('should apply cloud deletes locally', async () => {
+    mem0.remember('Short-lived');
+    await reconciler.reconcile();
+
+    mem0.memories.clear();
+    const result = await reconciler.reconcile();
+
+    expect(result.deleted_local).toBe(1);
+    expect(store.list()).toHaveLength(0);
+  });
+
+  it('should send local deletes that are still pending', async () => {
+    mem0.remember('Delete me');
+    await reconciler.reconcile();
+    const [local] = store.list();
+    store.delete(local.id);
+
+    const result = await reconciler.reconcile();
+
+    expect(result.pending_deletes).toBe(1);
+    expect(mem0.memories.size).toBe(0);
+    expect(store.getRemoteId(local.id)).toBeNull();
+  });
+
+  it('should pull cloud edits made after the last sync', async () => {
+    mem0.remember('Old wording');
+    await reconciler.reconcile();
+
+    const remote = mem0.memories.get('remote-1')!;
+    mem0.memories.set('remote-1', {
+      ...remote,
+      content: 'New wording',
+      updated_at: new Date(Date.now() + 60_000),
+    });
+
+    const result = await reconciler.reconcile();
+
+    expect(result.updated_local).toBe(1);
+    expect(store.list()[0].content).toBe('New wording');
+  });
+
+  it('should push local edits made after the last sync', async () => {
+    mem0.remember('Old wording');
+    await reconciler.reconcile();
+    const [local] = store.list();
+    store.update(local.id, { content: 'Edited locally', updated_at: new Date(Date.now() + 60_000) });
+
+    const result = await reconciler.reconcile();
+
+    expect(result.updated_remote).toBe(1);
+    expect(mem0.memories.get('remote-1')?.content).toBe('Edited locally');
+  });
+
+  describe('with async event ids', () => {
+    beforeEach(() => {
+      mem0 = createFakeMem0({ eventIds: true });
+      reconciler = new MemoryReconciler(store, queue, mem0.client);
+    });
+
+    it('should confirm pushed memories through their local_id', async () => {
+      const local = store.add({ content: 'hello world', scope: 'global', tags: [] });
+      await reconciler.reconcile();
+      expect(store.getRemoteId(local.id)).toBe('evt-1');
+
+      const result = await reconciler.reconcile();
+
+      expect(result.pulled).toBe(0);
+      expect(store.getSyncMappings()).toEqual([expect.objectContaining({ remote_id: 'remote-1', confirmed: true })]);
+    });
+
+    it('should delete the real cloud memory when deleted before confirmation', async () => {
+      const local = store.add({ content: 'hello world', scope: 'global', tags: [] });
+      await reconciler.reconcile();
+      store.delete(local.id);
+      queue.enqueue('delete', local.id, { remote_id: 'evt-1' });
+
+      const result = await reconciler.reconcile();
+
+      expect(result.pulled).toBe(0);
+      expect(result.pending_deletes).toBe(1);
+      expect(mem0.memories.size).toBe(0);
+      expect(store.list()).toHaveLength(0);
+      expect(store.getRemoteId(local.id)).toBeNull();
+      expect(queue.list()).toHaveLength(0);
+    });
+
+    it('should keep the mapping of a deleted memory until its cloud copy shows up', async () => {
+      const local = store.add({ content: 'hello world', scope: 'global', tags: [] });
+      store.setRemoteId(local.id, 'evt-9');
+      store.delete(local.id);
+
+      await reconciler.reconcile();
+
+      expect(store.getRemoteId(local.id)).toBe('evt-9');
+    });
+
+    it('should push edits made before confirmation instead of pulling a duplicate', async () => {
+      const local = store.add({ content: 'hello world', scope: 'global', tags: [] });
+      await reconciler.reconcile();
+      store.update(local.id, { content: 'hello world, edited', updated_at: new Date(Date.now() + 60_000) });
+
+      const result = await reconciler.reconcile();
+
+      expect(result.pulled).toBe(0);
+      expect(result.updated_remote).toBe(1);
+      expect(store.list().map((m) => m.content)).toEqual(['hello world, edited']);
+      expect(mem0.memories.get('remote-1')?.content).toBe('hello world, edited');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * MemoryReconciler - Two-way sync between LocalStore and Mem0.
+ *
+ * Uses the id mapping in LocalStore to pair local and cloud copies:
+ * - Cloud memories created on other machines are pulled into LocalStore
+ * - Local memories never sent to the cloud are pushed (via SyncQueue)
+ * - Content/scope/tag edits flow to whichever side changed last
+ * - Memories deleted in the cloud are deleted locally; local deletes still
+ *   waiting in the outbox are left for SyncQueue to finish
+ *
+ * Mem0's add may return an async event id instead of the memory id. Such
+ * unconfirmed links are resolved through the local_id stored in the
+ * memory's metadata, so edits and deletes made in the meantime still
+ * reach the right cloud memory.
+ */
+
+import type { Memory, MemoryBackend, MemoryKind, MemoryPayload } from '@brain-jar/core';
+import type { LocalStore, SyncMapping } from './local-store';
+import type { SyncQueue } from './sync-queue';
+
+// How long a locally deleted memory waits for its unconfirmed cloud copy to show up
+const UNCONFIRMED_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface ReconcileOptions {
+  pushLocal?: boolean; // Send local-only memories to Mem0 (default: true)
+}
+
+export interface ReconcileResult {
+  pulled: number; // Cloud memories added locally
+  pushed: number; // Local memories queued for upload
+  linked: number; // Existing pairs matched by local_id or content
+  updated_local: number; // Cloud edits applied locally
+  updated_remote: number; // Local edits queued for upload
+  deleted_local: number; // Cloud deletes applied locally
+  pending_deletes: number; // Local deletes still waiting in the outbox
+}
+
+export class MemoryReconciler {
+  private localStore: LocalStore;
+  private syncQueue: SyncQueue;
+  private client: MemoryBackend;
+
+  constructor(localStore: LocalStore, syncQueue: SyncQueue, client: MemoryBackend) {
+    this.localStore = localStore;
+    this.syncQueue = syncQueue;
+    this.client = client;
+  }
+
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconcileResult> {
+    const pushLocal = options.pushLocal !== false;
+    const result: ReconcileResult = {
+      pulled: 0,
+      pushed: 0,
+      linked: 0,
+      updated_local: 0,
+      updated_remote: 0,
+      deleted_local: 0,
+      pending_deletes: 0,
+    };
+
+    // Flush queued writes first so the cloud view is as current as possible
+    await this.syncQueue.replay(this.client);
+
+    // Only plain memories; typed records (snapshots, summaries, investigations) are not ours
+    const remote = (await this.client.getAll()).filter((m) => !m.metadata?.type);
+    const remoteById = new Map(remote.map((m) => [m.id, m]));
+    const mappings = new Map(this.localStore.getSyncMappings().map((m) => [m.local_id, m]));
+    const claimedRemote = new Set<string>();
+
+    // Unconfirmed ids that are not in the cloud may be event ids: find the memory they became
+    const mappedRemote = new Set([...mappings.values()].map((m) => m.remote_id));
+    for (const mapping of mappings.values()) {
+      if (mapping.confirmed || remoteById.has(mapping.remote_id)) continue;
+
+      const added = remote.find((m) => m.metadata?.local_id === mapping.local_id && !mappedRemote.has(m.id));
+      if (!added) continue;
+
+      // Queued edits and deletes still target the old id
+      this.syncQueue.retarget(mapping.local_id, added.id);
+      mappedRemote.add(added.id);
+      mapping.remote_id = added.id;
+    }
+
+    // 1. Existing pairs: confirm, propagate edits, or apply cloud deletes
+    for (const mapping of mappings.values()) {
+      const local = this.localStore.get(mapping.local_id);
+      const remoteMemory = remoteById.get(mapping.remote_id);
+
+      if (!local) {
+        // Deleted locally; make sure the cloud delete is (still) queued
+        if (remoteMemory && !this.syncQueue.hasQueued(mapping.local_id, 'delete')) {
+          this.syncQueue.enqueue('delete', mapping.local_id, { remote_id: mapping.remote_id });
+        }
+        if (remoteMemory) {
+          if (!mapping.confirmed) this.localStore.setRemoteId(mapping.local_id, mapping.remote_id, true);
+          claimedRemote.add(mapping.remote_id);
+          result.pending_deletes++;
+        } else if (mapping.confirmed || Date.now() - mapping.synced_at.getTime() > UNCONFIRMED_GRACE_MS) {
+          this.localStore.removeSyncMapping(mapping.local_id);
+        }
+        continue;
+      }
+
+      if (!remoteMemory) {
+        // Confirmed pairs that vanished were deleted on another machine.
+        // Unconfirmed ids the cloud has not shown yet are re-linked below.
+        if (mapping.confirmed && !this.syncQueue.hasQueued(local.id)) {
+          this.localStore.delete(local.id);
+          this.localStore.removeSyncMapping(local.id);
+          result.deleted_local++;
+        }
+        continue;
+      }
+
+      claimedRemote.add(remoteMemory.id);
+      this.reconcilePair(local, remoteMemory, mapping, result);
+    }
+
+    // 2. Unclaimed cloud memories: link to an unpaired local copy or pull
+    const unpairedLocal = this.localStore.list().filter((local) => {
+      const mapping = mappings.get(local.id);
+      return !mapping || (!mapping.confirmed && !remoteById.has(mapping.remote_id));
+    });
+
+    for (const remoteMemory of remote) {
+      if (claimedRemote.has(remoteMemory.id)) continue;
+
+      // Older cloud memories carry no local_id, so fall back to equal content
+      const byLocalId = unpairedLocal.findIndex((local) => local.id === remoteMemory.metadata?.local_id);
+      const matchIndex =
+        byLocalId >= 0 ? byLocalId : unpairedLocal.findIndex((local) => local.content === remoteMemory.content);
+      if (matchIndex >= 0) {
+        const [match] = unpairedLocal.splice(matchIndex, 1);
+        this.localStore.setRemoteId(match.id, remoteMemory.id, true);
+        result.linked++;
+        continue;
+      }
+
+      const pulled = this.localStore.add({
+        content: remoteMemory.content,
+        scope: remoteMemory.scope,
+        tags: remoteMemory.tags,
+        ...this.kindOf(remoteMemory),
+        source: { agent: remoteMemory.source.agent, action: 'sync' },
+        created_at: remoteMemory.created_at,
+      });
+      this.localStore.setRemoteId(pulled.id, remoteMemory.id, true);
+      result.pulled++;
+    }
+
+    // 3. Local memories the cloud has never seen
+    if (pushLocal) {
+      for (const local of unpairedLocal) {
+        if (mappings.has(local.id) || this.syncQueue.hasQueued(local.id, 'add')) continue;
+
+        this.syncQueue.enqueue('add', local.id, {
+          content: local.content,
+          metadata: this.toMetadata(local),
+        });
+        result.pushed++;
+      }
+    }
+
+    // Send the pushes, updates and deletes queued above
+    await this.syncQueue.replay(this.client);
+
+    return result;
+  }
+
+  /**
+   * Last writer wins, judged against the time the pair was last synced.
+   */
+  private reconcilePair(
+    local: Memory,
+    remoteMemory: Memory,
+    mapping: SyncMapping,
+    result: ReconcileResult
+  ): void {
+    const remoteKind = this.kindOf(remoteMemory);
+    const differs =
+      local.content !== remoteMemory.content ||
+      local.scope !== remoteMemory.scope ||
+      JSON.stringify(local.tags) !== JSON.stringify(remoteMemory.tags) ||
+      (local.kind || 'note') !== remoteKind.kind ||
+      JSON.stringify(local.payload) !== JSON.stringify(remoteKind.payload);
+
+    if (differs) {
+      const localChanged = local.updated_at > mapping.synced_at;
+      const remoteChanged = remoteMemory.updated_at > mapping.synced_at;
+
+      if (localChanged && (!remoteChanged || local.updated_at >= remoteMemory.updated_at)) {
+        if (!this.syncQueue.hasQueued(local.id, 'update')) {
+          this.syncQueue.enqueue('update', local.id, {
+            remote_id: remoteMemory.id,
+            content: local.content,
+            metadata: this.toMetadata(local),
+          });
+          result.updated_remote++;
+        }
+      } else if (remoteChanged && !this.syncQueue.hasQueued(local.id, 'update')) {
+        this.localStore.update(local.id, {
+          content: remoteMemory.content,
+          scope: remoteMemory.scope,
+          tags: remoteMemory.tags,
+          kind: remoteKind.kind,
+          payload: remoteKind.payload ?? null,
+          updated_at: remoteMemory.updated_at,
+          changed_by: 'mem0-sync',
+        });
+        result.updated_local++;
+      }
+    }
+
+    this.localStore.setRemoteId(local.id, remoteMemory.id, true);
+  }
+
+  /**
+   * Kind and payload of a Mem0 memory (kept in its metadata; older ones are notes).
+   */
+  private kindOf(remoteMemory: Memory): { kind: MemoryKind; payload?: MemoryPayload } {
+    return {
+      kind: (remoteMemory.metadata?.kind as MemoryKind | undefined) || 'note',
+      payload: remoteMemory.metadata?.payload as MemoryPayload | undefined,
+    };
+  }
+
+  private toMetadata(memory: Memory): Record<string, unknown> {
+    return {
+      scope: memory.scope,
+      tags: memory.tags,
+      kind: memory.kind,
+      payload: memory.payload,
+      source_agent: memory.source.agent,
+      source_action: memory.source.action || 'explicit',
+      local_id: memory.id,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { matchesRule, getExpiry, findExpired, loadRetentionRules, DEFAULT_RETENTION_RULES } from './retention';
+import type { Memory } from '@brain-jar/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  const updatedAt = overrides.updated_at || new Date(NOW.getTime() - 30 * DAY_MS);
+  return {
+    id: 'm1',
+    content: 'Stack trace pointed at the retry loop',
+    scope: 'project:brain-jar',
+    tags: [],
+    source: { agent: 'claude-code' },
+    created_at: updatedAt,
+    updated_at: updatedAt,
+    ...overrides,
+  };
+}
+
+describe('matchesRule', () => {
+  it('should match scope exactly or by prefix wildcard', () => {
+    expect(matchesRule(memory(), { scope: 'project:brain-jar', max_age_days: 1 })).toBe(true);
+    expect(matchesRule(memory(), { scope: 'project:*', max_age_days: 1 })).toBe(true);
+    expect(matchesRule(memory(), { scope: 'project:other', max_age_days: 1 })).toBe(false);
+  });
+
+  it('should require both scope and tag when both are given', () => {
+    const rule = { scope: 'project:*', tag: 'debug', max_age_days: 1 };
+    expect(matchesRule(memory({ tags: ['debug'] }), rule)).toBe(true);
+    expect(matchesRule(memory(), rule)).toBe(false);
+    expect(matchesRule(memory({ scope: 'global', tags: ['debug'] }), rule)).toBe(false);
+  });
+
+  it('should apply a rule without scope or tag to everything', () => {
+    expect(matchesRule(memory(), { max_age_days: 365 })).toBe(true);
+  });
+});
+
+describe('getExpiry', () => {
+  it('should prefer an explicit expires_at over rules', () => {
+    const expiresAt = new Date('2026-06-01T00:00:00Z');
+    const expiry = getExpiry(memory({ tags: ['debug'], expires_at: expiresAt }), DEFAULT_RETENTION_RULES);
+
+    expect(expiry).toEqual({ expires_at: expiresAt, reason: 'expires_at' });
+  });
+
+  it('should use the shortest matching rule, counted from the last update', () => {
+    const m = memory({ tags: ['debug'] });
+    const expiry = getExpiry(m, [
+      { scope: 'project:*', max_age_days: 90 },
+      { tag: 'debug', max_age_days: 14 },
+    ]);
+
+    expect(expiry?.expires_at).toEqual(new Date(m.updated_at.getTime() + 14 * DAY_MS));
+    expect(expiry?.reason).toBe('tag:debug after 14d');
+  });
+
+  it('should return null when nothing applies', () => {
+    expect(getExpiry(memory(), DEFAULT_RETENTION_RULES)).toBeNull();
+  });
+});
+
+describe('findExpired', () => {
+  it('should list memories past their expiry, soonest first', () => {
+    const debug = memory({ id: 'debug', tags: ['debug'] });
+    const explicit = memory({ id: 'explicit', expires_at: new Date(NOW.getTime() - 60 * DAY_MS) });
+    const future = memory({ id: 'future', expires_at: new Date(NOW.getTime() + DAY_MS) });
+    const recentDebug = memory({ id: 'recent', tags: ['debug'], updated_at: new Date(NOW.getTime() - DAY_MS) });
+    const kept = memory({ id: 'kept' });
+
+    const expired = findExpired([debug, explicit, future, recentDebug, kept], DEFAULT_RETENTION_RULES, NOW);
+
+    expect(expired.map((c) => c.memory.id)).toEqual(['explicit', 'debug']);
+  });
+});
+
+describe('loadRetentionRules', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-retention-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should default when the config is missing or has no retention section', () => {
+    const configPath = path.join(tmpDir, 'config.json');
+    expect(loadRetentionRules(configPath)).toEqual(DEFAULT_RETENTION_RULES);
+
+    fs.writeFileSync(configPath, JSON.stringify({ default_scope: 'global' }));
+    expect(loadRetentionRules(configPath)).toEqual(DEFAULT_RETENTION_RULES);
+  });
+
+  it('should read rules and skip malformed entries', () => {
+    const configPath = path.join(tmpDir, 'config.json');
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        retention: [
+          { tag: 'scratch', max_age_days: 3 },
+          { scope: 'project:*' },
+          { tag: 'bad', max_age_days: -1 },
+          'debug',
+        ],
+      })
+    );
+
+    expect(loadRetentionRules(configPath)).toEqual([{ tag: 'scratch', max_age_days: 3 }]);
+  });
+
+  it('should allow disabling rules with an empty list', () => {
+    const configPath = path.join(tmpDir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ retention: [] }));
+
+    expect(loadRetentionRules(configPath)).toEqual([]);
+  });
+});
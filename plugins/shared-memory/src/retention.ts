@@ -0,0 +1,90 @@
+/**
+ * Retention policies for LocalStore.
+ *
+ * A memory is due for pruning once its explicit expires_at has passed or,
+ * when it has none, once it has gone unchanged for longer than the shortest
+ * max_age_days of the rules matching its scope and tags. Rules are read from
+ * shared_memory.retention in ~/.config/brain-jar/config.json; without one,
+ * memories tagged "debug" expire after 14 days. An empty array disables
+ * rule-based expiry.
+ */
+
+import { getConfigPath, resolveConfig } from '@brain-jar/core';
+import type { Memory } from '@brain-jar/core';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionRule {
+  scope?: string; // Exact scope, or a prefix ending in '*' (e.g. "project:*")
+  tag?: string;
+  max_age_days: number; // Age since last update
+}
+
+export const DEFAULT_RETENTION_RULES: RetentionRule[] = [{ tag: 'debug', max_age_days: 14 }];
+
+export interface RetentionCandidate {
+  memory: Memory;
+  expires_at: Date;
+  reason: string; // 'expires_at' or the rule that applied, e.g. 'tag:debug after 14d'
+}
+
+/**
+ * A rule matches when both its scope and tag (where given) match.
+ * A rule with neither applies to every memory.
+ */
+export function matchesRule(memory: Memory, rule: RetentionRule): boolean {
+  if (rule.scope) {
+    const matches = rule.scope.endsWith('*')
+      ? memory.scope.startsWith(rule.scope.slice(0, -1))
+      : memory.scope === rule.scope;
+    if (!matches) return false;
+  }
+  return !rule.tag || memory.tags.includes(rule.tag);
+}
+
+export function describeRule(rule: RetentionRule): string {
+  const target = [rule.scope && `scope:${rule.scope}`, rule.tag && `tag:${rule.tag}`].filter(Boolean).join(' ');
+  return `${target || 'all'} after ${rule.max_age_days}d`;
+}
+
+/**
+ * When a memory expires and why, or null if it is kept indefinitely.
+ */
+export function getExpiry(memory: Memory, rules: RetentionRule[]): Omit<RetentionCandidate, 'memory'> | null {
+  if (memory.expires_at) {
+    return { expires_at: memory.expires_at, reason: 'expires_at' };
+  }
+
+  const rule = rules
+    .filter((r) => matchesRule(memory, r))
+    .sort((a, b) => a.max_age_days - b.max_age_days)[0];
+  if (!rule) return null;
+
+  return {
+    expires_at: new Date(memory.updated_at.getTime() + rule.max_age_days * DAY_MS),
+    reason: describeRule(rule),
+  };
+}
+
+/**
+ * Memories expiring at or before `now`, soonest first.
+ */
+export function findExpired(memories: Memory[], rules: RetentionRule[], now: Date = new Date()): RetentionCandidate[] {
+  const expired: RetentionCandidate[] = [];
+  for (const memory of memories) {
+    const expiry = getExpiry(memory, rules);
+    if (expiry && expiry.expires_at <= now) {
+      expired.push({ memory, ...expiry });
+    }
+  }
+  return expired.sort((a, b) => a.expires_at.getTime() - b.expires_at.getTime());
+}
+
+/**
+ * Load retention rules from the shared config (shared_memory.retention),
+ * skipping malformed entries. Falls back to DEFAULT_RETENTION_RULES when the
+ * file or setting is missing.
+ */
+export function loadRetentionRules(configPath: string = getConfigPath()): RetentionRule[] {
+  return resolveConfig({ configPath }).config.shared_memory.retention ?? DEFAULT_RETENTION_RULES;
+}
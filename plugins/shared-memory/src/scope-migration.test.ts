@@ -0,0 +1,168 @@
+import { SqliteBackend } from '@brain-jar/core';
+import Database from 'better-sqlite3';
+import { LocalStore } from './local-store';
+import { SessionStore } from './chess-timer';
+import { SummaryManager } from './summary-manager';
+import { createScopeRenamer, migrateScope, validateScopeMigration } from './scope-migration';
+import type { ScopeMigrationContext } from './scope-migration';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('createScopeRenamer', () => {
+  it('should carry nested package scopes along with a project', () => {
+    const rename = createScopeRenamer('project:old', 'project:new');
+    expect(rename('project:old')).toBe('project:new');
+    expect(rename('project:old/packages/api')).toBe('project:new/packages/api');
+    expect(rename('project:older')).toBeNull();
+    expect(rename('global')).toBeNull();
+  });
+
+  it('should only move the exact scope when nesting is off or the target is a team', () => {
+    expect(createScopeRenamer('project:old', 'project:new', false)('project:old/api')).toBeNull();
+    expect(createScopeRenamer('project:old', 'team:core')('project:old/api')).toBeNull();
+  });
+});
+
+describe('validateScopeMigration', () => {
+  it('should reject invalid, identical and global source scopes', () => {
+    expect(validateScopeMigration('project:a', 'project:b')).toBeNull();
+    expect(validateScopeMigration('project:a', 'project:a')).toMatch(/same/);
+    expect(validateScopeMigration('global', 'project:a')).toMatch(/global/);
+    expect(validateScopeMigration('project:a', 'Not A Scope')).toMatch(/Invalid scope/);
+  });
+});
+
+describe('migrateScope', () => {
+  let tmpDir: string;
+  let localStore: LocalStore;
+  let sessionStore: SessionStore;
+  let backend: SqliteBackend;
+  let context: ScopeMigrationContext;
+  let statePath: string;
+  let synced: string[];
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scope-migration-'));
+    const dbPath = path.join(tmpDir, 'local.db');
+    localStore = new LocalStore(dbPath);
+    sessionStore = new SessionStore(dbPath);
+    backend = new SqliteBackend(path.join(tmpDir, 'backend.db'));
+    statePath = path.join(tmpDir, 'summary-state.json');
+    synced = [];
+
+    const diagrams = new Database(path.join(tmpDir, 'diagrams.db'));
+    diagrams.exec(`CREATE TABLE diagrams (id TEXT PRIMARY KEY, scope TEXT NOT NULL)`);
+    diagrams.prepare(`INSERT INTO diagrams (id, scope) VALUES (?, ?), (?, ?)`).run('d1', 'project:old', 'd2', 'global');
+    diagrams.close();
+
+    context = {
+      localStore,
+      sessionStore,
+      summaryManager: new SummaryManager(null, localStore, statePath),
+      backend,
+      diagramsDbPath: path.join(tmpDir, 'diagrams.db'),
+      syncMemory: async (memory) => {
+        synced.push(memory.id);
+        return true;
+      },
+    };
+  });
+
+  afterEach(() => {
+    localStore.close();
+    sessionStore.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const seed = async () => {
+    localStore.add({ content: 'Uses Postgres', scope: 'project:old', tags: [] });
+    localStore.add({ content: 'API uses OAuth2', scope: 'project:old/packages/api', tags: [] });
+    localStore.add({ content: 'Prefers tabs', scope: 'global', tags: [] });
+    sessionStore.createSession({ feature_id: 'login', description: 'Login page', scope: 'project:old' });
+    fs.writeFileSync(
+      statePath,
+      JSON.stringify({
+        activityCounts: { 'project:old': 3, 'project:new': 2 },
+        lastSummaryTime: { 'project:old': '2026-01-02T00:00:00.000Z', 'project:new': '2026-01-01T00:00:00.000Z' },
+      })
+    );
+    await backend.saveSummary('project:old', 'Summary', new Date(), new Date(), 3);
+    await backend.add(JSON.stringify({ id: 'inv-1', name: 'Shop API', scope: 'project:old' }), {
+      type: 'forensics:investigation',
+      investigation_id: 'inv-1',
+      scope: 'project:old',
+    });
+  };
+
+  it('should report without changing anything on a dry run', async () => {
+    await seed();
+
+    const report = await migrateScope(context, 'project:old', 'project:new');
+
+    expect(report).toMatchObject({
+      mode: 'rename',
+      dry_run: true,
+      memories: 2,
+      work_sessions: 1,
+      summary_state: ['project:old'],
+      diagrams: 1,
+      remote: { memories: 0, summaries: 1, investigations: 1, other: 0, failed: 0 },
+    });
+    expect(localStore.getActiveScopes().sort()).toEqual(['global', 'project:old', 'project:old/packages/api']);
+    expect(sessionStore.getActiveSession('project:old')).not.toBeNull();
+    expect(JSON.parse(fs.readFileSync(statePath, 'utf-8')).activityCounts['project:old']).toBe(3);
+    expect(synced).toEqual([]);
+  });
+
+  it('should move every store to the new scope', async () => {
+    await seed();
+
+    const report = await migrateScope(context, 'project:old', 'project:new', { dryRun: false });
+
+    expect(report.dry_run).toBe(false);
+    expect(localStore.getActiveScopes().sort()).toEqual(['global', 'project:new', 'project:new/packages/api']);
+    expect(sessionStore.getActiveSession('project:new')?.feature_id).toBe('login');
+    expect(synced).toHaveLength(2);
+
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    expect(state.activityCounts).toEqual({ 'project:new': 5 });
+    expect(state.lastSummaryTime).toEqual({ 'project:new': '2026-01-02T00:00:00.000Z' });
+
+    const diagrams = new Database(path.join(tmpDir, 'diagrams.db'), { readonly: true });
+    expect(diagrams.prepare(`SELECT scope FROM diagrams WHERE id = 'd1'`).get()).toEqual({ scope: 'project:new' });
+    diagrams.close();
+
+    expect((await backend.getSummaries('project:new')).length).toBe(1);
+    const [investigation] = await backend.getAll({ filters: { type: 'forensics:investigation' } });
+    expect(investigation.metadata?.scope).toBe('project:new');
+    expect(JSON.parse(investigation.content).scope).toBe('project:new');
+  });
+
+  it('should report a merge when the target scope is already in use', async () => {
+    localStore.add({ content: 'Old note', scope: 'project:old', tags: [] });
+    localStore.add({ content: 'New note', scope: 'project:new', tags: [] });
+
+    const report = await migrateScope(context, 'project:old', 'project:new', { dryRun: false });
+
+    expect(report.mode).toBe('merge');
+    expect(localStore.list({ scope: 'project:new' })).toHaveLength(2);
+  });
+
+  it('should skip backend records that mirror local memories', async () => {
+    const memory = localStore.add({ content: 'Uses Postgres', scope: 'project:old', tags: [] });
+    const remoteId = await backend.add('Uses Postgres', { scope: 'project:old' });
+    localStore.setRemoteId(memory.id, remoteId, true);
+
+    const report = await migrateScope(context, 'project:old', 'project:new', { dryRun: false });
+
+    expect(report.remote?.memories).toBe(0);
+    expect(synced).toEqual([memory.id]);
+  });
+
+  it('should report a missing diagrams database as null', async () => {
+    context.diagramsDbPath = path.join(tmpDir, 'missing.db');
+    const report = await migrateScope(context, 'project:old', 'project:new');
+    expect(report.diagrams).toBeNull();
+  });
+});
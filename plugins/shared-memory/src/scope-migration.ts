@@ -0,0 +1,232 @@
+/**
+ * Scope rename and merge.
+ *
+ * When a project is renamed, detectScope starts a new scope and the history
+ * stays under the old one. migrateScope moves everything recorded under a
+ * scope (and, for projects, its nested package scopes) to another scope:
+ * local memories, work sessions, summary state, visual-thinking diagrams and
+ * the records kept in the storage backend (activity summaries, forensics
+ * investigations, cloud-only memories). Moving into a scope that is already
+ * in use merges the two.
+ */
+
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { isValidScope } from '@brain-jar/core';
+import type { Memory, MemoryBackend } from '@brain-jar/core';
+import type { LocalStore } from './local-store';
+import type { SessionStore } from './chess-timer';
+import type { SummaryManager } from './summary-manager';
+
+const INVESTIGATION_TYPE = 'forensics:investigation';
+const SUMMARY_TYPE = 'activity-summary';
+
+export type ScopeRenamer = (scope: string) => string | null;
+
+export interface RemoteScopeMigration {
+  memories: number; // Cloud memories with no local copy
+  summaries: number;
+  investigations: number;
+  other: number; // Other typed records carrying a scope
+  failed: number;
+}
+
+export interface ScopeMigrationReport {
+  from: string;
+  to: string;
+  mode: 'rename' | 'merge'; // merge when `to` already has memories or sessions
+  dry_run: boolean;
+  memories: number;
+  work_sessions: number;
+  summary_state: string[]; // Scopes moved in summary-state.json
+  diagrams: number | null; // null when visual-thinking has no database
+  remote: RemoteScopeMigration | null; // null without a storage backend
+  sync_pending: number; // Local moves still queued for Mem0
+  warnings: string[];
+}
+
+export interface ScopeMigrationContext {
+  localStore: LocalStore;
+  sessionStore: SessionStore;
+  summaryManager: SummaryManager;
+  backend: MemoryBackend | null;
+  diagramsDbPath: string;
+  // Push a moved memory to Mem0; resolves false if it is still queued
+  syncMemory: (memory: Memory) => Promise<boolean>;
+}
+
+/**
+ * Why a migration is not allowed, or null if it is.
+ */
+export function validateScopeMigration(from: string, to: string): string | null {
+  if (!isValidScope(from)) return `Invalid scope: ${from}`;
+  if (!isValidScope(to)) return `Invalid scope: ${to}`;
+  if (from === 'global') return 'The global scope cannot be migrated';
+  if (from === to) return 'Source and target scopes are the same';
+  return null;
+}
+
+/**
+ * Map scopes under `from` to `to`. Nested package scopes follow a project
+ * (project:old/api -> project:new/api) when both scopes are projects.
+ */
+export function createScopeRenamer(from: string, to: string, includeNested: boolean = true): ScopeRenamer {
+  const nests = includeNested && from.startsWith('project:') && to.startsWith('project:');
+  return (scope) => {
+    if (scope === from) return to;
+    if (nests && scope.startsWith(`${from}/`)) return to + scope.slice(from.length);
+    return null;
+  };
+}
+
+/**
+ * Move diagrams in visual-thinking's database. Returns null if it doesn't exist.
+ */
+export function migrateDiagramScopes(dbPath: string, rename: ScopeRenamer, dryRun: boolean = false): number | null {
+  if (!fs.existsSync(dbPath)) return null;
+
+  let db: Database.Database | undefined;
+  try {
+    db = new Database(dbPath, { fileMustExist: true });
+    const select = db.prepare(`SELECT COUNT(*) AS count FROM diagrams WHERE scope = ?`);
+    const update = db.prepare(`UPDATE diagrams SET scope = ? WHERE scope = ?`);
+    const scopes = (db.prepare(`SELECT DISTINCT scope FROM diagrams`).all() as { scope: string }[]).map((r) => r.scope);
+
+    let moved = 0;
+    db.transaction(() => {
+      for (const scope of scopes) {
+        const target = rename(scope);
+        if (!target || target === scope) continue;
+
+        moved += (select.get(scope) as { count: number }).count;
+        if (!dryRun) {
+          update.run(target, scope);
+        }
+      }
+    })();
+    return moved;
+  } catch (error) {
+    console.error('[shared-memory] Diagram scope migration failed:', error);
+    return null;
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * Rewrite the scope in backend records (metadata, and the JSON body of
+ * investigations). Memories in skipRemoteIds have a local copy and are
+ * synced from LocalStore instead.
+ */
+export async function migrateRemoteScopes(
+  backend: MemoryBackend,
+  rename: ScopeRenamer,
+  skipRemoteIds: Set<string>,
+  dryRun: boolean = false
+): Promise<RemoteScopeMigration> {
+  const result: RemoteScopeMigration = { memories: 0, summaries: 0, investigations: 0, other: 0, failed: 0 };
+
+  for (const record of await backend.getAll()) {
+    const scope = record.metadata?.scope;
+    const target = typeof scope === 'string' ? rename(scope) : null;
+    if (!target || target === scope || skipRemoteIds.has(record.id)) continue;
+
+    const type = record.metadata?.type;
+    let content = record.content;
+    if (type === INVESTIGATION_TYPE) {
+      try {
+        content = JSON.stringify({ ...JSON.parse(record.content), scope: target });
+      } catch {
+        // Not JSON; only the metadata is updated
+      }
+    }
+
+    const updated =
+      dryRun || (await backend.update(record.id, content, { ...record.metadata, scope: target }).catch(() => false));
+    if (!updated) {
+      result.failed++;
+      continue;
+    }
+
+    if (!type) result.memories++;
+    else if (type === SUMMARY_TYPE) result.summaries++;
+    else if (type === INVESTIGATION_TYPE) result.investigations++;
+    else result.other++;
+  }
+
+  return result;
+}
+
+/**
+ * Move (or, with dryRun, report) everything recorded under `from` to `to`.
+ * Callers should check validateScopeMigration first.
+ */
+export async function migrateScope(
+  context: ScopeMigrationContext,
+  from: string,
+  to: string,
+  options: { includeNested?: boolean; dryRun?: boolean } = {}
+): Promise<ScopeMigrationReport> {
+  const { localStore, sessionStore, summaryManager, backend } = context;
+  const dryRun = options.dryRun ?? true;
+  const rename = createScopeRenamer(from, to, options.includeNested);
+  const warnings: string[] = [];
+
+  // Merging when a target scope already holds memories that aren't moving themselves
+  const activeScopes = localStore.getActiveScopes();
+  const targets = new Set(activeScopes.map(rename).filter((s): s is string => s !== null));
+  const merging =
+    activeScopes.some((s) => targets.has(s) && rename(s) === null) ||
+    sessionStore.listSessions({ scope: to, limit: 1 }).length > 0;
+
+  const activeFrom = sessionStore.getActiveSession(from);
+  const activeTo = sessionStore.getActiveSession(to);
+  if (activeFrom && activeTo) {
+    warnings.push(
+      `Both scopes have an open work session (${activeFrom.feature_id}, ${activeTo.feature_id}); complete one so get_active_session is unambiguous`
+    );
+  }
+
+  // Records with no local copy are updated in place; local memories sync via the queue below
+  let remote: RemoteScopeMigration | null = null;
+  if (backend) {
+    try {
+      const mapped = new Set(localStore.getSyncMappings().map((m) => m.remote_id));
+      remote = await migrateRemoteScopes(backend, rename, mapped, dryRun);
+      if (remote.failed > 0) {
+        warnings.push(`${remote.failed} backend record(s) could not be updated; run migrate_scope again when online`);
+      }
+    } catch (error) {
+      warnings.push(`Storage backend unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const memoryIds = localStore.renameScopes(rename, dryRun);
+  const sessionIds = sessionStore.renameScopes(rename, dryRun);
+  const summaryScopes = await summaryManager.renameScopes(rename, dryRun);
+  const diagrams = migrateDiagramScopes(context.diagramsDbPath, rename, dryRun);
+
+  let syncPending = 0;
+  if (!dryRun) {
+    for (const id of memoryIds) {
+      const memory = localStore.get(id);
+      if (memory && !(await context.syncMemory(memory))) {
+        syncPending++;
+      }
+    }
+  }
+
+  return {
+    from,
+    to,
+    mode: merging ? 'merge' : 'rename',
+    dry_run: dryRun,
+    memories: memoryIds.length,
+    work_sessions: sessionIds.length,
+    summary_state: summaryScopes,
+    diagrams,
+    remote,
+    sync_pending: syncPending,
+    warnings,
+  };
+}
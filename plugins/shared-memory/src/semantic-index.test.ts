@@ -0,0 +1,112 @@
+import { SemanticIndex, getScopeWeights } from './semantic-index';
+import { LocalStore } from './local-store';
+import type { Embedder } from './embeddings';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SemanticIndex', () => {
+  let store: LocalStore;
+  let index: SemanticIndex;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(os.tmpdir(), `test-semantic-${Date.now()}.db`);
+    store = new LocalStore(testDbPath);
+    index = new SemanticIndex(store);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should embed memories missing vectors', async () => {
+    store.add({ content: 'First', scope: 'global', tags: [] });
+    store.add({ content: 'Second', scope: 'global', tags: [] });
+
+    expect(await index.backfill()).toBe(2);
+    expect(await index.backfill()).toBe(0);
+    expect(store.getEmbeddings(index.embedderId)).toHaveLength(2);
+  });
+
+  it('should re-embed memories after their content changes', async () => {
+    const memory = store.add({ content: 'Uses webpack', scope: 'global', tags: [] });
+    await index.backfill();
+
+    store.update(memory.id, { content: 'Uses vite' });
+    expect(store.getUnembedded(index.embedderId).map((m) => m.id)).toEqual([memory.id]);
+  });
+
+  it('should find near-misses that keyword search cannot', async () => {
+    store.add({ content: 'Deploys go to the kubernetes cluster via ArgoCD', scope: 'global', tags: [] });
+    store.add({ content: 'Prefers tabs over spaces', scope: 'global', tags: [] });
+
+    expect(store.search('kubrenetes deploy')).toHaveLength(0);
+
+    const results = await index.search('kubrenetes deploy');
+    expect(results[0].content).toContain('kubernetes');
+    expect(results.some((r) => r.content.includes('tabs'))).toBe(false);
+  });
+
+  it('should rank exact keyword matches first and keep their snippets', async () => {
+    store.add({ content: 'Refresh the JWT before it expires', scope: 'global', tags: [] });
+    store.add({ content: 'Refreshing pages clears form state', scope: 'global', tags: [] });
+
+    const results = await index.search('jwt refresh');
+    expect(results[0].content).toBe('Refresh the JWT before it expires');
+    expect(results[0].snippet).toContain('**JWT**');
+  });
+
+  it('should respect the scope filter', async () => {
+    store.add({ content: 'Kafka consumer groups', scope: 'project:a', tags: [] });
+    store.add({ content: 'Kafka topic naming', scope: 'project:b', tags: [] });
+
+    const results = await index.search('kafka', 'project:a');
+    expect(results.map((r) => r.scope)).toEqual(['project:a']);
+  });
+
+  it('should inherit matches from parent scopes, ranked below the own scope', async () => {
+    store.add({ content: 'Kafka retries: use exponential backoff', scope: 'global', tags: [] });
+    store.add({ content: 'Kafka retries: use exponential backoff', scope: 'project:shop/apps/api', tags: [] });
+    store.add({ content: 'Kafka retries: use exponential backoff', scope: 'project:other', tags: [] });
+
+    const weights = getScopeWeights('project:shop/apps/api');
+    const results = await index.search('kafka retries', weights);
+
+    expect(results.map((r) => r.scope)).toEqual(['project:shop/apps/api', 'global']);
+    expect(results[1].score).toBeCloseTo(results[0].score * 0.8 ** 3);
+  });
+
+  it('should accept a custom embedder', async () => {
+    const embedder: Embedder = {
+      id: 'fake-2d',
+      dimensions: 2,
+      embed: jest.fn(async (texts: string[]) =>
+        texts.map((t) => new Float32Array(t.includes('cat') || t.includes('feline') ? [1, 0] : [0, 1]))
+      ),
+    };
+    index = new SemanticIndex(store, embedder);
+    store.add({ content: 'The feline sleeps all day', scope: 'global', tags: [] });
+    store.add({ content: 'Dogs bark', scope: 'global', tags: [] });
+
+    const results = await index.search('cat');
+    expect(results).toHaveLength(1);
+    expect(results[0].content).toContain('feline');
+  });
+});
+
+describe('getScopeWeights', () => {
+  it('should decay by inheritance level', () => {
+    expect(getScopeWeights('project:shop/api')).toEqual({ 'project:shop/api': 1, 'project:shop': 0.8, global: 0.8 ** 2 });
+  });
+
+  it('should support exact and subtree searches', () => {
+    expect(getScopeWeights('project:shop', 'exact')).toEqual({ 'project:shop': 1 });
+    expect(
+      getScopeWeights('project:shop', 'subtree', ['global', 'project:shop/api', 'project:shop/web', 'project:shopify'])
+    ).toEqual({ 'project:shop': 1, 'project:shop/api': 1, 'project:shop/web': 1 });
+  });
+});
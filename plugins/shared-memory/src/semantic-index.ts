@@ -0,0 +1,140 @@
+/**
+ * SemanticIndex - Hybrid (keyword + vector) search over LocalStore.
+ *
+ * Vectors live in LocalStore's memory_embeddings table and are computed
+ * lazily: new, edited and synced memories are embedded on the next search
+ * (or by backfill on startup). Results blend normalized bm25 relevance
+ * with cosine similarity, so exact keyword hits still rank first while
+ * near-misses (typos, reordered or inflected words) are no longer lost.
+ */
+
+import { getScopeChain, isScopeWithin } from '@brain-jar/core';
+import type { MemoryKind } from '@brain-jar/core';
+import type { LocalStore, SearchResult } from './local-store';
+import { Embedder, HashedNgramEmbedder, cosineSimilarity } from './embeddings';
+
+const SEMANTIC_WEIGHT = 0.5; // Share of the blended score from cosine similarity
+const MIN_SIMILARITY = 0.2; // Ignore vector matches below this
+const BACKFILL_BATCH = 100;
+const INHERITED_SCOPE_DECAY = 0.8; // Score multiplier per level a match is inherited from
+
+/**
+ * Which scopes a scoped search sees:
+ * - exact: only the scope itself
+ * - ancestors: the scope plus everything it inherits from (parent packages,
+ *   the project, global), each level up ranked a little lower
+ * - subtree: the scope plus every scope nested below it (e.g. a whole monorepo)
+ */
+export const SCOPE_INHERITANCE = ['exact', 'ancestors', 'subtree'] as const;
+
+export type ScopeInheritance = (typeof SCOPE_INHERITANCE)[number];
+
+/**
+ * Scope -> score multiplier for a search from `scope`.
+ * activeScopes (scopes that have memories) is only needed for 'subtree'.
+ */
+export function getScopeWeights(
+  scope: string,
+  inherit: ScopeInheritance = 'ancestors',
+  activeScopes: string[] = []
+): Record<string, number> {
+  switch (inherit) {
+    case 'exact':
+      return { [scope]: 1 };
+    case 'subtree':
+      return Object.fromEntries(
+        [scope, ...activeScopes.filter((s) => isScopeWithin(s, scope))].map((s) => [s, 1])
+      );
+    default:
+      return Object.fromEntries(getScopeChain(scope).map((s, level) => [s, INHERITED_SCOPE_DECAY ** level]));
+  }
+}
+
+export class SemanticIndex {
+  private localStore: LocalStore;
+  private embedder: Embedder;
+
+  constructor(localStore: LocalStore, embedder: Embedder = new HashedNgramEmbedder()) {
+    this.localStore = localStore;
+    this.embedder = embedder;
+  }
+
+  get embedderId(): string {
+    return this.embedder.id;
+  }
+
+  /**
+   * Embed memories that have no vector for the current embedder.
+   * Returns the number of memories embedded.
+   */
+  async backfill(maxBatches: number = Infinity): Promise<number> {
+    let total = 0;
+
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const pending = this.localStore.getUnembedded(this.embedder.id, BACKFILL_BATCH);
+      if (pending.length === 0) break;
+
+      const vectors = await this.embedder.embed(pending.map((m) => m.content));
+      pending.forEach((memory, i) => this.localStore.setEmbedding(memory.id, this.embedder.id, vectors[i]));
+      total += pending.length;
+
+      if (pending.length < BACKFILL_BATCH) break;
+    }
+
+    return total;
+  }
+
+  /**
+   * scope is a single scope, or scope weights (see getScopeWeights) to search
+   * several scopes with per-scope score multipliers.
+   */
+  async search(
+    query: string,
+    scope?: string | Record<string, number>,
+    limit: number = 10,
+    kind?: MemoryKind
+  ): Promise<SearchResult[]> {
+    await this.backfill();
+
+    const scopes = typeof scope === 'object' ? Object.keys(scope) : scope;
+    const weightOf = (memoryScope: string) => (typeof scope === 'object' ? (scope[memoryScope] ?? 1) : 1);
+    const candidates = limit * 3;
+    const keywordHits = this.localStore.search(query, scopes, candidates, kind);
+    const maxKeyword = Math.max(0, ...keywordHits.map((h) => h.score));
+
+    const results = new Map<string, SearchResult & { keyword: number; semantic: number }>();
+    for (const hit of keywordHits) {
+      // Substring fallback hits carry no bm25 score; count them as full keyword matches
+      const keyword = maxKeyword > 0 ? hit.score / maxKeyword : 1;
+      results.set(hit.id, { ...hit, keyword, semantic: 0 });
+    }
+
+    const [queryVector] = await this.embedder.embed([query]);
+    const similar = this.localStore
+      .getEmbeddings(this.embedder.id, scopes, kind)
+      .map((e) => ({ id: e.memory_id, similarity: cosineSimilarity(queryVector, e.vector) }))
+      .filter((e) => e.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, candidates);
+
+    for (const { id, similarity } of similar) {
+      const existing = results.get(id);
+      if (existing) {
+        existing.semantic = similarity;
+        continue;
+      }
+      const memory = this.localStore.get(id);
+      if (memory) {
+        results.set(id, { ...memory, score: 0, snippet: memory.content, keyword: 0, semantic: similarity });
+      }
+    }
+
+    return [...results.values()]
+      .map(({ keyword, semantic, ...hit }) => ({
+        ...hit,
+        score: (SEMANTIC_WEIGHT * semantic + (1 - SEMANTIC_WEIGHT) * keyword) * weightOf(hit.scope),
+      }))
+      .sort((a, b) => b.score - a.score || b.created_at.getTime() - a.created_at.getTime())
+      .slice(0, limit);
+  }
+}
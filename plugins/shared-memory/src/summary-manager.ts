@@ -10,15 +10,19 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import type { Mem0Client, ActivitySummary, Memory } from '@brain-jar/core';
+import { sharedMemoryConfigSchema } from '@brain-jar/core';
+import type { MemoryBackend, ActivitySummary, Memory, SharedMemorySettings } from '@brain-jar/core';
 import type { LocalStore } from './local-store';
 
 const STATE_PATH = path.join(os.homedir(), '.config', 'brain-jar', 'summary-state.json');
 
-// Thresholds
-const ACTIVITY_THRESHOLD = 12; // memories before summary
-const MIN_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day minimum between summaries
-const MAX_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week max without summary
+const HOUR_MS = 60 * 60 * 1000;
+
+// Memories before a summary, minimum hours between summaries, maximum days without one
+export type SummaryThresholds = Pick<
+  SharedMemorySettings,
+  'summary_activity_threshold' | 'summary_min_interval_hours' | 'summary_max_interval_days'
+>;
 
 interface SummaryState {
   activityCounts: Record<string, number>; // scope -> count since last summary
@@ -33,9 +37,10 @@ export class SummaryManager {
   private stateLoaded = false;
 
   constructor(
-    private mem0Client: Mem0Client | null,
+    private mem0Client: MemoryBackend | null,
     private localStore: LocalStore,
-    private statePath: string = STATE_PATH
+    private statePath: string = STATE_PATH,
+    private thresholds: SummaryThresholds = sharedMemoryConfigSchema.parse({})
   ) {}
 
   /**
@@ -93,19 +98,22 @@ export class SummaryManager {
 
     // First summary: require threshold
     if (!lastSummaryStr) {
-      return count >= ACTIVITY_THRESHOLD;
+      return count >= this.thresholds.summary_activity_threshold;
     }
 
     const lastSummary = new Date(lastSummaryStr).getTime();
     const timeSinceLastSummary = now - lastSummary;
 
-    // Time ceiling: force summary if >1 week and any activity
-    if (timeSinceLastSummary >= MAX_INTERVAL_MS && count > 0) {
+    // Time ceiling: force summary after the max interval if any activity
+    if (timeSinceLastSummary >= this.thresholds.summary_max_interval_days * 24 * HOUR_MS && count > 0) {
       return true;
     }
 
     // Activity threshold: only if past time floor
-    if (count >= ACTIVITY_THRESHOLD && timeSinceLastSummary >= MIN_INTERVAL_MS) {
+    if (
+      count >= this.thresholds.summary_activity_threshold &&
+      timeSinceLastSummary >= this.thresholds.summary_min_interval_hours * HOUR_MS
+    ) {
       return true;
     }
 
@@ -133,7 +141,7 @@ export class SummaryManager {
     // Generate summary content
     const content = this.generateSummaryContent(scope, memories, periodStart, periodEnd);
 
-    // Store in Mem0 if configured
+    // Store in backend (Mem0 or local SQLite) if configured
     let mem0Id: string | undefined;
     if (this.mem0Client) {
       const id = await this.mem0Client.saveSummary(scope, content, periodStart, periodEnd, memories.length);
@@ -230,6 +238,41 @@ export class SummaryManager {
     return text.substring(0, maxLength - 3) + '...';
   }
 
+  /**
+   * Move summary state to new scopes. Merged scopes add up their activity
+   * counts and keep the latest summary time. Returns the scopes moved.
+   */
+  async renameScopes(rename: (scope: string) => string | null, dryRun: boolean = false): Promise<string[]> {
+    await this.loadState();
+
+    const { activityCounts, lastSummaryTime } = this.state;
+    const moved = [...new Set([...Object.keys(activityCounts), ...Object.keys(lastSummaryTime)])].filter((scope) => {
+      const target = rename(scope);
+      return target !== null && target !== scope;
+    });
+    if (dryRun || moved.length === 0) {
+      return moved;
+    }
+
+    for (const scope of moved) {
+      const target = rename(scope)!;
+      if (scope in activityCounts) {
+        activityCounts[target] = (activityCounts[target] || 0) + activityCounts[scope];
+        delete activityCounts[scope];
+      }
+      if (scope in lastSummaryTime) {
+        const latest = lastSummaryTime[target];
+        if (!latest || latest < lastSummaryTime[scope]) {
+          lastSummaryTime[target] = lastSummaryTime[scope];
+        }
+        delete lastSummaryTime[scope];
+      }
+    }
+    await this.saveState();
+
+    return moved;
+  }
+
   /**
    * Gets the current activity count for a scope.
    */
@@ -0,0 +1,189 @@
+import { SyncQueue } from './sync-queue';
+import type { MemoryBackend } from '@brain-jar/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+type FakeBackend = MemoryBackend & { add: jest.Mock; update: jest.Mock; delete: jest.Mock };
+
+function createFakeBackend(): FakeBackend {
+  return {
+    kind: 'mem0',
+    add: jest.fn().mockResolvedValue('remote-1'),
+    update: jest.fn().mockResolvedValue(true),
+    delete: jest.fn().mockResolvedValue(true),
+  } as unknown as FakeBackend;
+}
+
+describe('SyncQueue', () => {
+  let queue: SyncQueue;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(os.tmpdir(), `test-outbox-${Date.now()}.db`);
+    queue = new SyncQueue(testDbPath);
+  });
+
+  afterEach(() => {
+    queue.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  describe('process', () => {
+    it('should send adds and remove them from the outbox', async () => {
+      const backend = createFakeBackend();
+      const entry = queue.enqueue('add', 'local-1', { content: 'Use pnpm', metadata: { scope: 'global' } });
+
+      expect(queue.getCounts().pending).toBe(1);
+      expect(await queue.process(entry, backend)).toBe(true);
+      expect(backend.add).toHaveBeenCalledWith('Use pnpm', { scope: 'global' });
+      expect(queue.getCounts().pending).toBe(0);
+    });
+
+    it('should schedule a retry when the backend fails', async () => {
+      const backend = createFakeBackend();
+      backend.add.mockRejectedValue(new Error('network down'));
+      const entry = queue.enqueue('add', 'local-1', { content: 'x', metadata: {} });
+
+      expect(await queue.process(entry, backend)).toBe(false);
+
+      const retried = queue.get(entry.id)!;
+      expect(retried.status).toBe('pending');
+      expect(retried.attempts).toBe(1);
+      expect(retried.last_error).toBe('network down');
+      expect(retried.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should treat unacknowledged deletes as failures', async () => {
+      const backend = createFakeBackend();
+      backend.delete.mockResolvedValue(false);
+      const entry = queue.enqueue('delete', 'local-1', { remote_id: 'remote-1' });
+
+      expect(await queue.process(entry, backend)).toBe(false);
+      expect(queue.get(entry.id)?.attempts).toBe(1);
+    });
+
+    it('should not let a replay send an entry that is already in flight', async () => {
+      const backend = createFakeBackend();
+      let finishAdd!: (id: string) => void;
+      backend.add.mockReturnValueOnce(new Promise((resolve) => (finishAdd = resolve)));
+      const entry = queue.enqueue('add', 'local-1', { content: 'Use pnpm', metadata: {} });
+
+      const sending = queue.process(entry, backend);
+      expect(await queue.replay(backend)).toEqual({ synced: 0, retrying: 0, failed: 0 });
+      finishAdd('remote-1');
+
+      expect(await sending).toBe(true);
+      expect(backend.add).toHaveBeenCalledTimes(1);
+      expect(queue.list()).toHaveLength(0);
+    });
+
+    it('should send an edit made while the add is in flight after the add', async () => {
+      const backend = createFakeBackend();
+      let finishAdd!: (id: string) => void;
+      backend.add.mockReturnValueOnce(new Promise((resolve) => (finishAdd = resolve)));
+      const entry = queue.enqueue('add', 'local-1', { content: 'Use pnpm', metadata: {} });
+
+      const sending = queue.process(entry, backend);
+      expect(queue.updateQueuedAdd('local-1', { content: 'Use pnpm 9', metadata: {} })).toBe(false);
+      expect(queue.cancel('local-1', 'add')).toBe(0);
+      const edit = queue.enqueue('update', 'local-1', { remote_id: '', content: 'Use pnpm 9', metadata: {} });
+
+      // Waits for the add, without counting as a retry
+      expect(await queue.process(edit, backend)).toBe(false);
+      expect(await queue.replay(backend)).toEqual({ synced: 0, retrying: 0, failed: 0 });
+      finishAdd('remote-1');
+      expect(await sending).toBe(true);
+      expect(backend.add).toHaveBeenCalledWith('Use pnpm', {});
+
+      expect((await queue.replay(backend)).synced).toBe(1);
+      expect(backend.update).toHaveBeenCalledWith('remote-1', 'Use pnpm 9', {});
+      expect(queue.list()).toHaveLength(0);
+    });
+
+    it('should delete the result of an add that was in flight when the memory was deleted', async () => {
+      const backend = createFakeBackend();
+      let finishAdd!: (id: string) => void;
+      backend.add.mockReturnValueOnce(new Promise((resolve) => (finishAdd = resolve)));
+      const entry = queue.enqueue('add', 'local-1', { content: 'Use pnpm', metadata: {} });
+
+      const sending = queue.process(entry, backend);
+      expect(queue.cancel('local-1')).toBe(0);
+      queue.enqueue('delete', 'local-1', { remote_id: '' });
+      finishAdd('remote-1');
+      await sending;
+
+      expect((await queue.replay(backend)).synced).toBe(1);
+      expect(backend.delete).toHaveBeenCalledWith('remote-1');
+      expect(queue.list()).toHaveLength(0);
+    });
+
+    it('should still fold edits into an add that is waiting to retry', async () => {
+      const backend = createFakeBackend();
+      backend.add.mockRejectedValueOnce(new Error('offline'));
+      const entry = queue.enqueue('add', 'local-1', { content: 'Use pnpm', metadata: {} });
+      await queue.process(entry, backend);
+
+      expect(queue.updateQueuedAdd('local-1', { content: 'Use pnpm 9', metadata: {} })).toBe(true);
+      expect(queue.get(entry.id)?.payload).toEqual({ content: 'Use pnpm 9', metadata: {} });
+    });
+  });
+
+  describe('replay', () => {
+    it('should replay due entries in order once back online', async () => {
+      const backend = createFakeBackend();
+      backend.add.mockRejectedValue(new Error('offline'));
+      const first = queue.enqueue('add', 'local-1', { content: 'first', metadata: {} });
+      const second = queue.enqueue('add', 'local-2', { content: 'second', metadata: {} });
+      await queue.process(first, backend);
+      await queue.process(second, backend);
+
+      // Not due yet
+      expect(await queue.replay(backend)).toEqual({ synced: 0, retrying: 0, failed: 0 });
+
+      backend.add.mockResolvedValue('remote');
+      const later = new Date(Date.now() + 60 * 60 * 1000);
+      expect(await queue.replay(backend, later)).toEqual({ synced: 2, retrying: 0, failed: 0 });
+      expect(backend.add.mock.calls.slice(-2).map((c) => c[0])).toEqual(['first', 'second']);
+      expect(queue.list()).toHaveLength(0);
+    });
+
+    it('should mark entries failed after repeated errors', async () => {
+      const backend = createFakeBackend();
+      backend.add.mockRejectedValue(new Error('bad request'));
+      queue.enqueue('add', 'local-1', { content: 'x', metadata: {} });
+
+      const farFuture = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+      let result = { synced: 0, retrying: 0, failed: 0 };
+      for (let i = 0; i < 10; i++) {
+        result = await queue.replay(backend, farFuture);
+      }
+
+      expect(result.failed).toBe(1);
+      expect(queue.getCounts()).toEqual({ pending: 0, failed: 1 });
+      expect(await queue.replay(backend, farFuture)).toEqual({ synced: 0, retrying: 0, failed: 0 });
+    });
+  });
+
+  describe('retryFailed', () => {
+    it('should move failed entries back to pending', async () => {
+      const backend = createFakeBackend();
+      backend.add.mockRejectedValue(new Error('bad request'));
+      queue.enqueue('add', 'local-1', { content: 'x', metadata: {} });
+
+      const farFuture = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+      for (let i = 0; i < 10; i++) {
+        await queue.replay(backend, farFuture);
+      }
+
+      expect(queue.retryFailed()).toBe(1);
+      const [entry] = queue.list('pending');
+      expect(entry.attempts).toBe(0);
+
+      backend.add.mockResolvedValue('remote');
+      expect((await queue.replay(backend)).synced).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * SyncQueue - Durable outbox for Mem0 operations.
+ *
+ * Every cloud write is recorded here before it is attempted, so memories
+ * written while offline (or during a Mem0 outage) are replayed later:
+ * - Immediately after the write (best effort)
+ * - On startup
+ * - Periodically while the server runs
+ *
+ * Failed attempts back off exponentially; after MAX_ATTEMPTS the entry is
+ * marked failed and left for inspection via get_sync_status.
+ *
+ * An entry being sent is claimed, so a concurrent replay, edit or delete
+ * leaves it alone. Updates and deletes queued while a memory's add is in
+ * flight have an empty remote_id and wait until the add is acknowledged.
+ */
+
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MemoryBackend } from '@brain-jar/core';
+import { migrateLocalDb } from './migrations';
+
+// Backoff settings
+const BASE_BACKOFF_MS = 30 * 1000; // 30 seconds after first failure
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // Cap at 1 hour
+const MAX_ATTEMPTS = 10; // Then mark as failed
+const CLAIM_MS = 5 * 60 * 1000; // Entry being sent is skipped by other callers this long
+
+// Rows not being sent (bind the current time)
+const UNCLAIMED = '(claimed_until IS NULL OR claimed_until <= ?)';
+
+export type SyncOperation = 'add' | 'update' | 'delete';
+export type SyncStatus = 'pending' | 'failed';
+
+export interface SyncAddPayload {
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface SyncUpdatePayload {
+  remote_id: string; // '' until the memory's add is acknowledged
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface SyncDeletePayload {
+  remote_id: string; // '' until the memory's add is acknowledged
+}
+
+export type SyncPayload = SyncAddPayload | SyncUpdatePayload | SyncDeletePayload;
+
+/**
+ * Called after an entry reaches the backend.
+ * remoteId is the id Mem0 returned for adds, and the target id otherwise.
+ */
+export type SyncListener = (entry: SyncEntry, remoteId: string) => void;
+
+export interface SyncEntry {
+  id: string;
+  operation: SyncOperation;
+  memory_id: string;
+  payload: SyncPayload;
+  status: SyncStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReplayResult {
+  synced: number;
+  retrying: number;
+  failed: number;
+}
+
+interface DbSyncEntry {
+  id: string;
+  operation: string;
+  memory_id: string;
+  payload: string; // JSON string
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  claimed_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SyncQueue {
+  private db: Database.Database;
+  private replaying = false;
+  private listener: SyncListener | null;
+
+  constructor(dbPath: string, listener?: SyncListener) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.listener = listener || null;
+    this.init();
+  }
+
+  private init(): void {
+    migrateLocalDb(this.db);
+  }
+
+  /**
+   * Records a pending operation. Call before attempting the cloud write.
+   */
+  enqueue(operation: 'add', memoryId: string, payload: SyncAddPayload): SyncEntry;
+  enqueue(operation: 'update', memoryId: string, payload: SyncUpdatePayload): SyncEntry;
+  enqueue(operation: 'delete', memoryId: string, payload: SyncDeletePayload): SyncEntry;
+  enqueue(operation: SyncOperation, memoryId: string, payload: SyncPayload): SyncEntry {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `INSERT INTO sync_outbox (id, operation, memory_id, payload, status, attempts, next_attempt_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`
+      )
+      .run(id, operation, memoryId, JSON.stringify(payload), now, now, now);
+
+    return this.get(id)!;
+  }
+
+  get(id: string): SyncEntry | null {
+    const row = this.db.prepare('SELECT * FROM sync_outbox WHERE id = ?').get(id) as DbSyncEntry | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  /**
+   * Lists queued entries, oldest first.
+   */
+  list(status?: SyncStatus, limit?: number): SyncEntry[] {
+    let sql = 'SELECT * FROM sync_outbox WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (status) {
+      sql += ' AND status = ?';
+      params.push(status);
+    }
+
+    sql += ' ORDER BY created_at ASC';
+
+    if (limit) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as DbSyncEntry[];
+    return rows.map((r) => this.toEntry(r));
+  }
+
+  /**
+   * Whether a memory has an operation waiting in the outbox (pending or failed).
+   */
+  hasQueued(memoryId: string, operation?: SyncOperation): boolean {
+    let sql = 'SELECT 1 FROM sync_outbox WHERE memory_id = ?';
+    const params: string[] = [memoryId];
+    if (operation) {
+      sql += ' AND operation = ?';
+      params.push(operation);
+    }
+    return this.db.prepare(sql + ' LIMIT 1').get(...params) !== undefined;
+  }
+
+  /**
+   * Rewrites the content of a queued add, so edits made before the first
+   * sync go out as one add instead of add + update.
+   * Returns false if no add is queued for the memory, or it is being sent
+   * (queue an update with an empty remote_id to follow it instead).
+   */
+  updateQueuedAdd(memoryId: string, payload: SyncAddPayload): boolean {
+    const now = new Date().toISOString();
+    const result = this.db
+      .prepare(
+        `UPDATE sync_outbox SET payload = ?, updated_at = ?
+         WHERE memory_id = ? AND operation = 'add' AND ${UNCLAIMED}`
+      )
+      .run(JSON.stringify(payload), now, memoryId, now);
+    return result.changes > 0;
+  }
+
+  /**
+   * Drops queued operations for a memory (e.g. an unsent add for a memory
+   * that was deleted locally). Entries being sent are kept.
+   * Returns the number of entries removed.
+   */
+  cancel(memoryId: string, operation?: SyncOperation): number {
+    let sql = `DELETE FROM sync_outbox WHERE memory_id = ? AND ${UNCLAIMED}`;
+    const params: string[] = [memoryId, new Date().toISOString()];
+    if (operation) {
+      sql += ' AND operation = ?';
+      params.push(operation);
+    }
+    return this.db.prepare(sql).run(...params).changes;
+  }
+
+  /**
+   * Points a memory's queued updates and deletes at another remote id
+   * (e.g. the memory an async event id turned into) and makes them due.
+   */
+  retarget(memoryId: string, remoteId: string): number {
+    const now = new Date().toISOString();
+    const result = this.db
+      .prepare(
+        `UPDATE sync_outbox
+         SET payload = json_set(payload, '$.remote_id', ?), status = 'pending', next_attempt_at = ?, updated_at = ?
+         WHERE memory_id = ? AND operation != 'add'`
+      )
+      .run(remoteId, now, now, memoryId);
+    return result.changes;
+  }
+
+  /**
+   * Counts entries by status.
+   */
+  getCounts(): Record<SyncStatus, number> {
+    const rows = this.db
+      .prepare('SELECT status, COUNT(*) as count FROM sync_outbox GROUP BY status')
+      .all() as { status: SyncStatus; count: number }[];
+    const counts: Record<SyncStatus, number> = { pending: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Attempts a single entry against the backend.
+   * Removes it on success; schedules a retry (or marks failed) otherwise.
+   * Returns false without sending if the entry is not due, waits for its
+   * memory's add, or another call (a direct write or a replay) is sending it.
+   */
+  async process(entry: SyncEntry, client: MemoryBackend, now: Date = new Date()): Promise<boolean> {
+    if (!this.claim(entry, now)) return false;
+    // Re-read: a remote_id may have been filled in since the caller loaded it
+    return this.send(this.get(entry.id)!, client);
+  }
+
+  private async send(entry: SyncEntry, client: MemoryBackend): Promise<boolean> {
+    try {
+      let remoteId: string;
+      if (entry.operation === 'add') {
+        const payload = entry.payload as SyncAddPayload;
+        remoteId = await client.add(payload.content, payload.metadata);
+      } else if (entry.operation === 'update') {
+        const payload = entry.payload as SyncUpdatePayload;
+        remoteId = payload.remote_id;
+        if (!(await client.update(remoteId, payload.content, payload.metadata))) {
+          throw new Error(`Update of ${remoteId} was not acknowledged`);
+        }
+      } else {
+        const payload = entry.payload as SyncDeletePayload;
+        remoteId = payload.remote_id;
+        if (!(await client.delete(remoteId))) {
+          throw new Error(`Delete of ${remoteId} was not acknowledged`);
+        }
+      }
+
+      this.db.prepare('DELETE FROM sync_outbox WHERE id = ?').run(entry.id);
+      if (entry.operation === 'add') {
+        // Release updates and deletes that were waiting for this add
+        this.db
+          .prepare(
+            `UPDATE sync_outbox SET payload = json_set(payload, '$.remote_id', ?)
+             WHERE memory_id = ? AND operation != 'add' AND json_extract(payload, '$.remote_id') = ''`
+          )
+          .run(remoteId, entry.memory_id);
+      }
+      this.listener?.(entry, remoteId);
+      return true;
+    } catch (error) {
+      this.recordFailure(entry, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Replays all due pending entries in order. Entries another call is
+   * sending, or that wait for their memory's add, are skipped and not counted.
+   * Concurrent calls are ignored while a replay is in progress.
+   */
+  async replay(client: MemoryBackend, now: Date = new Date()): Promise<ReplayResult> {
+    const result: ReplayResult = { synced: 0, retrying: 0, failed: 0 };
+    if (this.replaying) return result;
+
+    this.replaying = true;
+    try {
+      const due = this.db
+        .prepare(
+          `SELECT * FROM sync_outbox
+           WHERE status = 'pending' AND next_attempt_at <= ? AND ${UNCLAIMED}
+           ORDER BY created_at ASC`
+        )
+        .all(now.toISOString(), now.toISOString()) as DbSyncEntry[];
+
+      for (const row of due) {
+        const entry = this.toEntry(row);
+        if (!this.claim(entry, now)) continue;
+
+        if (await this.send(this.get(entry.id)!, client)) {
+          result.synced++;
+        } else if (this.get(entry.id)?.status === 'failed') {
+          result.failed++;
+        } else {
+          result.retrying++;
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves failed entries back to pending so the next replay retries them.
+   */
+  retryFailed(): number {
+    const now = new Date().toISOString();
+    const result = this.db
+      .prepare(
+        `UPDATE sync_outbox
+         SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ?
+         WHERE status = 'failed'`
+      )
+      .run(now, now);
+    return result.changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Marks a due entry as being sent until the claim window passes; a crashed
+   * send is retried once the claim lapses. Returns false if the entry is
+   * gone, not due, already claimed or still waiting for its memory's add.
+   */
+  private claim(entry: SyncEntry, now: Date): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE sync_outbox SET claimed_until = ?
+         WHERE id = ? AND status = 'pending' AND next_attempt_at <= ? AND ${UNCLAIMED}
+           AND (operation = 'add' OR json_extract(payload, '$.remote_id') != '')`
+      )
+      .run(new Date(now.getTime() + CLAIM_MS).toISOString(), entry.id, now.toISOString(), now.toISOString());
+    return result.changes > 0;
+  }
+
+  private recordFailure(entry: SyncEntry, message: string): void {
+    const attempts = entry.attempts + 1;
+    const status: SyncStatus = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+    const now = new Date();
+
+    this.db
+      .prepare(
+        `UPDATE sync_outbox
+         SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?, claimed_until = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        status,
+        attempts,
+        message,
+        new Date(now.getTime() + backoff).toISOString(),
+        now.toISOString(),
+        entry.id
+      );
+  }
+
+  private toEntry(row: DbSyncEntry): SyncEntry {
+    return {
+      id: row.id,
+      operation: row.operation as SyncOperation,
+      memory_id: row.memory_id,
+      payload: JSON.parse(row.payload),
+      status: row.status as SyncStatus,
+      attempts: row.attempts,
+      last_error: row.last_error,
+      next_attempt_at: new Date(row.next_attempt_at),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    };
+  }
+}
@@ -2,25 +2,40 @@
  * Re-export shared types from @brain-jar/core.
  */
 export { Memory, ConfigStatus } from '@brain-jar/core';
+import type { MemoryKind } from '@brain-jar/core';
+import type { KindInput } from './memory-kinds';
+import type { ScopeInheritance } from './semantic-index';
 
 /**
  * MCP tool input types (plugin-specific).
  */
-export interface AddMemoryInput {
+export interface AddMemoryInput extends KindInput {
   content: string;
   scope?: string;
   tags?: string[];
+  ttl_days?: number;
 }
 
 export interface SearchMemoryInput {
   query: string;
   scope?: string;
+  inherit?: ScopeInheritance;
+  kind?: MemoryKind;
   limit?: number;
 }
 
+export interface UpdateMemoryInput extends KindInput {
+  id: string;
+  content?: string;
+  scope?: string;
+  tags?: string[];
+  ttl_days?: number | null;
+}
+
 export interface ListMemoriesInput {
   scope?: string;
   tags?: string[];
+  kind?: MemoryKind;
   since?: string;
   limit?: number;
 }
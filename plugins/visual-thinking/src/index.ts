@@ -8,7 +8,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-import { Mem0Client, checkConfig, loadConfig } from '@brain-jar/core';
+import { createMemoryBackend, checkConfig, loadConfig, installLogRedaction, redactTransport } from '@brain-jar/core';
 import { DiagramStorage } from './storage';
 import {
   DiagramType,
@@ -60,6 +60,9 @@ Use the \`create_diagram\` tool with appropriate type, then offer to export to d
 `;
 
 async function main(): Promise<void> {
+  // Keep API keys out of logs and tool output
+  installLogRedaction();
+
   // Check configuration (shared with other brain-jar plugins)
   const configStatus = checkConfig();
   const isConfigured = configStatus.status !== 'missing';
@@ -68,11 +71,11 @@ async function main(): Promise<void> {
   // Initialize storage
   const storage = new DiagramStorage();
 
-  // Mem0 client for cloud sync (if configured)
-  const mem0Client = config ? new Mem0Client(config.mem0_api_key) : null;
+  // Storage backend for sync (Mem0 or local SQLite, if configured)
+  const backend = createMemoryBackend(config);
 
   if (!isConfigured) {
-    console.error('[visual-thinking] No Mem0 config found. Using local-only storage.');
+    console.error('[visual-thinking] No brain-jar config found. Using local-only storage.');
   }
 
   // Create MCP server
@@ -98,10 +101,10 @@ async function main(): Promise<void> {
     async (args: CreateDiagramInput & { auto_open?: boolean }) => {
       const diagram = storage.create(args);
 
-      // Sync to Mem0 if configured
-      if (mem0Client) {
+      // Sync to storage backend if configured
+      if (backend) {
         try {
-          await mem0Client.add(
+          await backend.add(
             `Diagram "${diagram.title}" (${diagram.type}): ${diagram.context}`,
             {
               scope: diagram.scope,
@@ -111,7 +114,7 @@ async function main(): Promise<void> {
             }
           );
         } catch (error) {
-          console.error('[visual-thinking] Mem0 sync failed:', error);
+          console.error(`[visual-thinking] ${backend.kind} sync failed:`, error);
         }
       }
 
@@ -134,7 +137,7 @@ async function main(): Promise<void> {
         openMessage = '\n\n**Opening in draw.io...** The diagram will appear in your browser as editable shapes.';
       }
 
-      const syncNote = mem0Client ? '' : ' (local only)';
+      const syncNote = backend ? '' : ' (local only)';
       return {
         content: [
           {
@@ -277,10 +280,10 @@ async function main(): Promise<void> {
         };
       }
 
-      // Sync update to Mem0 if configured
-      if (mem0Client && args.mermaid) {
+      // Sync update to storage backend if configured
+      if (backend && args.mermaid) {
         try {
-          await mem0Client.add(
+          await backend.add(
             `Updated diagram "${diagram.title}": ${args.note || 'content updated'}`,
             {
               scope: diagram.scope,
@@ -290,7 +293,7 @@ async function main(): Promise<void> {
             }
           );
         } catch (error) {
-          console.error('[visual-thinking] Mem0 sync failed:', error);
+          console.error(`[visual-thinking] ${backend.kind} sync failed:`, error);
         }
       }
 
@@ -517,7 +520,7 @@ async function main(): Promise<void> {
   );
 
   // Connect transport
-  const transport = new StdioServerTransport();
+  const transport = redactTransport(new StdioServerTransport());
   await server.connect(transport);
 
   console.error('[visual-thinking] MCP server running on stdio');
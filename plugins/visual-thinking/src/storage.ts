@@ -3,7 +3,7 @@ import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { detectScope } from '@brain-jar/core';
+import { detectScope, runMigrations, type Migration } from '@brain-jar/core';
 import {
   Diagram,
   DiagramRow,
@@ -17,6 +17,34 @@ import {
 const DIAGRAMS_DIR = path.join(os.homedir(), '.config', 'brain-jar', 'diagrams');
 const DB_PATH = path.join(DIAGRAMS_DIR, 'diagrams.db');
 
+// Append new migrations; never edit one that has shipped
+const DIAGRAM_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS diagrams (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          type TEXT NOT NULL,
+          mermaid TEXT NOT NULL,
+          context TEXT NOT NULL DEFAULT '',
+          scope TEXT NOT NULL DEFAULT 'global',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          versions_json TEXT NOT NULL DEFAULT '[]',
+          tags_json TEXT NOT NULL DEFAULT '[]'
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_diagrams_scope ON diagrams(scope);
+        CREATE INDEX IF NOT EXISTS idx_diagrams_type ON diagrams(type);
+        CREATE INDEX IF NOT EXISTS idx_diagrams_updated ON diagrams(updated_at);
+      `);
+    },
+  },
+];
+
 /**
  * Local storage for diagrams using SQLite
  */
@@ -35,24 +63,12 @@ export class DiagramStorage {
   }
 
   private initSchema(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS diagrams (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        type TEXT NOT NULL,
-        mermaid TEXT NOT NULL,
-        context TEXT NOT NULL DEFAULT '',
-        scope TEXT NOT NULL DEFAULT 'global',
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        versions_json TEXT NOT NULL DEFAULT '[]',
-        tags_json TEXT NOT NULL DEFAULT '[]'
+    const result = runMigrations(this.db, DIAGRAM_MIGRATIONS);
+    if (result.backupPath) {
+      console.error(
+        `[visual-thinking] Migrated ${this.db.name} from schema v${result.from} to v${result.to} (backup: ${result.backupPath})`
       );
-
-      CREATE INDEX IF NOT EXISTS idx_diagrams_scope ON diagrams(scope);
-      CREATE INDEX IF NOT EXISTS idx_diagrams_type ON diagrams(type);
-      CREATE INDEX IF NOT EXISTS idx_diagrams_updated ON diagrams(updated_at);
-    `);
+    }
   }
 
   private rowToDiagram(row: DiagramRow): Diagram {